@@ -0,0 +1,76 @@
+import type { RelayDirection } from './middleware';
+
+/**
+ * Events emitted by Bot
+ *
+ * Applications embedding the bridge can follow what it does without patching
+ * its methods, e.g. `bot.on('relay:dropped', ({ reason }) => ...)`.
+ * Listeners run synchronously while a message is being relayed, one that
+ * throws is logged and doesn't stop the relay.
+ */
+
+export interface DiscordToIRCRelayEvent {
+  discordMessageId: string;
+  discordChannelId: string;
+  authorId: string;
+  author: string; // Nickname on the Discord server
+  ircChannel: string;
+  text: string; // After the middlewares
+  lines: string[]; // As sent to IRC, including the nick prefix and paste links
+  replayed: boolean; // Sent from the outbox after IRC reconnected
+}
+
+export interface IRCToDiscordRelayEvent {
+  author: string; // IRC nick
+  ircChannel: string;
+  discordChannelId: string;
+  discordMessageId?: string; // Unset when Discord didn't return the message
+  text: string; // As sent to Discord, including the author prefix unless sent through a webhook
+  webhook: boolean;
+  replayed: boolean; // Sent from the buffer after Discord came back
+}
+
+// ignored: the author is on an ignore list
+// middleware: a middleware stage, including the rate limiter, returned null
+// undeliverable: the other side is down and the message couldn't be queued, or Discord rejected it from the buffer
+// expired: the message waited in the IRC outbox longer than outbox.maxAgeMinutes
+export type DropReason = 'ignored' | 'middleware' | 'undeliverable' | 'expired';
+
+export interface RelayDroppedEvent {
+  direction: RelayDirection;
+  author: string;
+  ircChannel?: string; // Unset when the message was dropped before its channel was looked up
+  text: string;
+  reason: DropReason;
+  stage?: string; // Middleware that dropped the message
+  discordMessageId?: string;
+}
+
+export interface IRCConnectedEvent {
+  network: string; // Name of the bridge's own network or of one under `networks`
+  server: string;
+  nickname: string;
+}
+
+export interface PMThreadCreatedEvent {
+  ircNick: string;
+  threadId: string;
+  channelId: string; // Channel the PM threads are created in
+}
+
+export interface RateLimitBlockedEvent {
+  direction: RelayDirection;
+  userId: string; // Discord user ID, or irc:<nick>
+  author: string;
+  ircChannel: string;
+  reason: string; // The rate limiter's explanation, as sent to the user
+}
+
+export interface BotEvents {
+  'relay:discordToIrc': [DiscordToIRCRelayEvent];
+  'relay:ircToDiscord': [IRCToDiscordRelayEvent];
+  'relay:dropped': [RelayDroppedEvent];
+  'irc:connected': [IRCConnectedEvent];
+  'pm:threadCreated': [PMThreadCreatedEvent];
+  'ratelimit:blocked': [RateLimitBlockedEvent];
+}
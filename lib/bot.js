@@ -39,23 +39,41 @@ Object.defineProperty(exports, "__esModule", { value: true });
 exports.TEST_HACK_CHANNEL = void 0;
 const irc_upd_1 = __importDefault(require("irc-upd"));
 const discord_js_1 = __importStar(require("discord.js"));
+const events_1 = require("events");
 const util_1 = __importDefault(require("util"));
 const lru_cache_1 = require("lru-cache");
 const logger_1 = require("./logger");
 const validators_1 = require("./validators");
+const channel_mapping_1 = require("./channel-mapping");
 const formatting_1 = require("./formatting");
+const line_splitter_1 = require("./irc/line-splitter");
+const capabilities_1 = require("./irc/capabilities");
+const echo_tracker_1 = require("./irc/echo-tracker");
+const puppet_manager_1 = require("./irc/puppet-manager");
+const network_1 = require("./irc/network");
 // Use runtime-conditional persistence (Bun.Database for Bun, sqlite3 for Node)
 const persistence_wrapper_js_1 = require("./persistence-wrapper.js");
 const slash_commands_1 = require("./slash-commands");
 const message_sync_1 = require("./message-sync");
 const metrics_1 = require("./metrics");
 const metrics_server_1 = require("./metrics-server");
+const paste_store_1 = require("./paste-store");
+const reaction_coalescer_1 = require("./reaction-coalescer");
+const topic_sync_1 = require("./topic-sync");
+const thread_mapping_1 = require("./thread-mapping");
+const discord_tokens_1 = require("./discord-tokens");
+const embed_rendering_1 = require("./embed-rendering");
+const forum_posts_1 = require("./forum-posts");
+const emoji_shortcodes_1 = require("./emoji-shortcodes");
 const recovery_manager_1 = require("./recovery-manager");
 const s3_uploader_1 = require("./s3-uploader");
 const mention_detector_1 = require("./mention-detector");
 const status_notifications_1 = require("./status-notifications");
 const irc_user_manager_1 = require("./irc-user-manager");
 const rate_limiter_1 = require("./rate-limiter");
+const channel_settings_1 = require("./channel-settings");
+const middleware_1 = require("./middleware");
+const webhook_provisioner_1 = require("./webhook-provisioner");
 // CRITICAL DIAGNOSTIC: Catch all unhandled promise rejections
 // A silent rejection could put the process in a zombie state
 process.on('unhandledRejection', (reason, promise) => {
@@ -93,11 +111,23 @@ const DEFAULT_NICK_COLORS = [
     'light_cyan',
 ];
 const patternMatch = /{\$(.+?)}/g;
+// Characters of the replied-to message quoted on IRC
+const REPLY_QUOTE_LENGTH = 40;
+// Reactions used to show the author what happened to a message queued while IRC was down
+const OUTBOX_STATUS_EMOJI = {
+    queued: '📥',
+    delivered: '✅',
+    expired: '⌛',
+};
+// Connection settings puppets share with the bot, credentials are deliberately left out
+const PUPPET_IRC_OPTIONS = ['port', 'secure', 'selfSigned', 'certExpired', 'encoding', 'localAddress'];
+// Batches of replayed history, relaying them would repost old messages
+const HISTORY_BATCH_TYPES = ['chathistory', 'znc.in/playback'];
 /**
  * An IRC bot, works as a middleman for all communication
  * @param {object} options - server, nickname, channelMapping, outgoingToken, incomingURL
  */
-class Bot {
+class Bot extends events_1.EventEmitter {
     discord;
     server;
     nickname;
@@ -114,10 +144,13 @@ class Bot {
     ignoreUsers;
     format;
     formatIRCText;
+    formatIRCReply;
     formatURLAttachment;
     formatCommandPrelude;
     formatDiscord;
     formatWebhookAvatarURL;
+    formatIRCSpoiler;
+    formatAnsiColors;
     channelUsers;
     channelMapping;
     webhooks;
@@ -140,29 +173,89 @@ class Bot {
     metricsServer;
     // Rate limiting for message spam protection
     rateLimiter;
+    // Outbox for Discord messages sent while IRC is down
+    outboxConfig;
+    outboxFlushing = false;
+    // Buffer for IRC messages received while Discord is unreachable
+    discordBufferConfig;
+    discordBufferPending = false;
+    discordBufferFlushing = false;
     // Error recovery and reconnection
     recoveryManager;
     // S3 file upload service (optional)
     s3Uploader;
+    // Offloading of long Discord messages to a paste link
+    pasteConfig;
+    pasteStore;
+    // Relaying of Discord reactions to IRC
+    reactionConfig;
+    reactionCoalescer;
+    // Topic sync for mappings with topicSync
+    topicSync;
+    // Deleting Discord messages redacted on IRC
+    redactionConfig;
+    // Messages in threads under mapped channels
+    threadConfig;
+    // Timestamps, emoji and other Discord tokens as they are shown on IRC
+    discordTokenConfig;
+    // Shortcodes and emoticons from IRC as unicode emoji on Discord
+    emojiConversionConfig;
+    // How embeds of Discord messages are shown on IRC
+    embedConfig;
+    // Webhooks the bridge creates for mapped channels (optional)
+    autoWebhookConfig;
+    webhookProvisioner;
+    // Per-Discord-user IRC connections (optional)
+    puppetConfig;
+    puppetManager;
     // Mention detection service
     mentionDetector;
+    // Transform stages every relayed message passes through
+    middlewares;
+    middlewareEntries;
+    // Settings from channelOverrides, by Discord channel ID or mapping key of the IRC channel
+    channelOverrides = new Map();
     // Status notification manager
     statusNotifications;
     // IRC user information manager
     ircUserManager;
+    // Additional IRC networks, serving the network-qualified channelMapping targets
+    networkName; // Name of the bridge's own network, its targets can be left unqualified
+    networks = new Map();
+    // Mappings made at runtime with /irc-bridge, stored in the database
+    // Targets are kept as given, with their network and channel key
+    configChannelMapping = {};
+    runtimeChannelMapping = new Map();
+    // Direction and source tag of config mappings, runtime mappings relay both ways untagged
+    mappingOptions = new Map();
+    // Discord→IRC lines waiting for their echo-message confirmation
+    ircEchoes = new echo_tracker_1.EchoTracker(30000);
     // IRC connection state tracking
     ircConnected = false;
     ircRegistered = false;
     ircReconnecting = false; // Guard against concurrent reconnections
     lastIRCActivity = Date.now();
     ircHealthCheckInterval;
+    // NickServ GHOST recovery
+    ghostAttempted = false;
     constructor(options) {
+        super();
         for (const field of REQUIRED_FIELDS) {
             if (!options[field]) {
                 throw new Error(`Missing configuration field: ${field}`);
             }
         }
-        (0, validators_1.validateChannelMapping)(options.channelMapping);
+        const networkOptions = (options.networks ?? {});
+        this.networkName = (options.networkName ?? 'default').toLowerCase();
+        const channelMapping = (0, validators_1.validateChannelMapping)(options.channelMapping, [
+            this.networkName,
+            ...Object.keys(networkOptions).map(name => name.toLowerCase()),
+        ]);
+        for (const [discordChan, entry] of Object.entries(channelMapping)) {
+            const { target, options: mappingOptions } = (0, channel_mapping_1.parseMappingEntry)(entry);
+            this.configChannelMapping[discordChan] = target;
+            this.mappingOptions.set(discordChan, mappingOptions);
+        }
         this.discord = new discord_js_1.default.Client({
             retryLimit: 3,
             intents: [
@@ -172,7 +265,7 @@ class Bot {
                 discord_js_1.Intents.FLAGS.GUILD_MEMBERS, // Required for member cache (nicknames, avatars)
                 discord_js_1.Intents.FLAGS.MESSAGE_CONTENT // Required for message.content access (Discord.js v13+)
             ],
-            partials: ['MESSAGE'], // Enable partial message support for edit/delete events
+            partials: ['MESSAGE', 'REACTION'], // Enable partial message support for edit/delete and reaction events
         });
         // Add unique instance ID for debugging
         this.discord._instanceId = Math.random().toString(36).substring(7);
@@ -187,7 +280,7 @@ class Bot {
         this.ircNickColor = options.ircNickColor !== false; // default to true
         this.ircNickColors = options.ircNickColors || DEFAULT_NICK_COLORS;
         this.parallelPingFix = options.parallelPingFix === true; // default: false
-        this.channels = Object.values(options.channelMapping);
+        this.channels = this.getNetworkChannels(this.configChannelMapping, this.networkName);
         this.ircStatusNotices = options.ircStatusNotices;
         this.announceSelfJoin = options.announceSelfJoin;
         this.webhookOptions = options.webhooks;
@@ -211,6 +304,10 @@ class Bot {
         this.formatURLAttachment =
             this.format.urlAttachment || '<{$displayUsername}> {$attachmentURL}';
         // "{$keyName}" => "variableValue"
+        // replyNickname: author of the message being replied to (IRC nick if it came from IRC)
+        // replyText: start of the message being replied to
+        this.formatIRCReply = this.format.ircReply || '@{$replyNickname}: "{$replyText}" → {$text}';
+        // "{$keyName}" => "variableValue"
         // side: "Discord" or "IRC"
         if ('commandPrelude' in this.format) {
             this.formatCommandPrelude = this.format.commandPrelude;
@@ -225,16 +322,23 @@ class Bot {
         // "{$keyName} => "variableValue"
         // nickname: nickame of IRC message sender
         this.formatWebhookAvatarURL = this.format.webhookAvatarURL;
+        // How Discord spoilers are shown on IRC: "hidden" (black on black) or "marker" ([spoiler])
+        this.formatIRCSpoiler = this.format.ircSpoiler === 'marker' ? 'marker' : 'hidden';
+        // Send heavily coloured IRC messages to Discord as ansi code blocks
+        this.formatAnsiColors = this.format.ansiColors === true;
         // Keep track of { channel => [list, of, usernames] } for ircStatusNotices
         this.channelUsers = {};
         this.channelMapping = {};
         this.invertedMapping = {};
         this.webhooks = {};
-        // Remove channel passwords from the mapping and lowercase IRC channel names
-        for (const [discordChan, ircChan] of Object.entries(options.channelMapping)) {
-            const splut = ircChan.split(' ')[0].toLowerCase();
+        for (const [discordChan, ircChan] of Object.entries(this.configChannelMapping)) {
+            const splut = this.normalizeIRCTarget(ircChan);
             this.channelMapping[discordChan] = splut;
-            this.invertedMapping[splut] = discordChan;
+            // IRC messages go to every Discord channel mapped to receive them, the first one
+            // also stands for the IRC channel where only one can, e.g. for IRCv3 reactions
+            if ((0, channel_mapping_1.relaysToDiscord)(this.getMappingOptions(discordChan)) && !this.invertedMapping[splut]) {
+                this.invertedMapping[splut] = discordChan;
+            }
         }
         this.autoSendCommands = options.autoSendCommands || [];
         // Private Message configuration
@@ -259,14 +363,47 @@ class Bot {
             logger_1.logger.warn('Failed to initialize metrics with persistence, using in-memory metrics:', error);
             this.metrics = new metrics_1.MetricsCollector(null);
         }
+        this.metrics.setPrimaryNetwork(this.networkName);
         // Initialize rate limiter for message spam protection
         const rateLimitConfig = options.rateLimitConfig || {};
         this.rateLimiter = new rate_limiter_1.RateLimiter(rateLimitConfig);
+        // Initialize IRC outbox configuration
+        this.outboxConfig = this.loadOutboxConfig(options.outbox);
+        this.discordBufferConfig = this.loadDiscordBufferConfig(options.discordBuffer);
         // Initialize metrics HTTP server (optional, disabled by default)
-        const metricsPort = options.metricsPort;
+        const metricsOptions = options.metrics;
+        const metricsPort = options.metricsPort || (metricsOptions?.enabled ? metricsOptions.port : undefined);
         if (metricsPort) {
             this.metricsServer = new metrics_server_1.MetricsServer(this.metrics, metricsPort);
         }
+        // Initialize paste offloading, local pastes are served by the metrics server
+        this.pasteConfig = this.loadPasteConfig(options.pastes);
+        if (this.pasteConfig.enabled && this.pasteConfig.storage === 'local') {
+            if (!this.metricsServer || !this.pasteConfig.publicUrl) {
+                logger_1.logger.warn('Local paste storage requires the metrics server and pastes.publicUrl, paste offloading disabled');
+            }
+            else {
+                this.pasteStore = new paste_store_1.LocalPasteStore({
+                    directory: this.pasteConfig.localDirectory,
+                    publicUrl: this.pasteConfig.publicUrl,
+                    retentionHours: this.pasteConfig.retentionHours,
+                });
+                this.metricsServer.setPasteStore(this.pasteStore);
+            }
+        }
+        // Initialize reaction relaying
+        this.reactionConfig = this.loadReactionConfig(options.reactions);
+        this.reactionCoalescer = new reaction_coalescer_1.ReactionCoalescer(this.reactionConfig.coalesceMs, batch => this.sendReactionNotice(batch));
+        this.topicSync = new topic_sync_1.TopicSynchronizer(this.setDiscordTopic.bind(this));
+        this.redactionConfig = this.loadRedactionConfig(options.redactions);
+        this.threadConfig = this.loadThreadConfig(options.threads);
+        this.discordTokenConfig = this.loadDiscordTokenConfig(options.discordTokens);
+        this.emojiConversionConfig = this.loadEmojiConversionConfig(options.emojiConversion);
+        this.embedConfig = this.loadEmbedConfig(options.embeds);
+        this.autoWebhookConfig = this.loadAutoWebhookConfig(options.autoWebhooks);
+        if (this.autoWebhookConfig.enabled) {
+            this.webhookProvisioner = new webhook_provisioner_1.WebhookProvisioner(this.autoWebhookConfig, this.persistence);
+        }
         // Initialize error recovery manager
         try {
             const recoveryConfig = options.recovery || {};
@@ -279,6 +416,37 @@ class Bot {
             this.recoveryManager = new recovery_manager_1.RecoveryManager();
             this.setupRecoveryHandlers();
         }
+        // Initialize IRC puppets (opt-in), their reconnects are paced by the recovery manager
+        this.puppetConfig = this.loadPuppetConfig(options.puppets);
+        if (this.puppetConfig.enabled) {
+            this.puppetManager = new puppet_manager_1.PuppetManager({
+                maxConnections: this.puppetConfig.maxConnections,
+                idleTimeoutMs: this.puppetConfig.idleTimeoutMs,
+                connectTimeoutMs: this.puppetConfig.connectTimeoutMs,
+                createClient: nick => this.createPuppetClient(nick),
+                recoveryManager: this.recoveryManager,
+                onPrivateMessage: (userId, from, text) => {
+                    this.forwardPuppetPrivateMessage(userId, from, text).catch((error) => {
+                        logger_1.logger.error('Error forwarding IRC private message to Discord user:', error);
+                    });
+                },
+            });
+        }
+        // Connections to additional IRC networks, each with its own recovery state
+        for (const [name, networkConfig] of Object.entries(networkOptions)) {
+            const networkName = name.toLowerCase();
+            const network = new network_1.IRCNetwork({
+                name: networkName,
+                server: networkConfig.server,
+                nickname: networkConfig.nickname ?? this.nickname,
+                channels: this.getNetworkChannels(this.configChannelMapping, networkName),
+                autoSendCommands: networkConfig.autoSendCommands,
+                recovery: options.recovery,
+                createClient: (server, nickname, channels) => this.createNetworkClient(server, nickname, channels, networkConfig.ircOptions),
+            });
+            this.attachNetworkListeners(network);
+            this.networks.set(networkName, network);
+        }
         // Initialize S3 uploader (optional)
         const s3Config = this.loadS3Config(options.s3);
         if (s3Config) {
@@ -300,6 +468,19 @@ class Bot {
         // Initialize mention detection
         const mentionConfig = this.loadMentionConfig(options.mentions);
         this.mentionDetector = new mention_detector_1.MentionDetector(mentionConfig);
+        for (const [key, override] of Object.entries(options.channelOverrides ?? {})) {
+            this.channelOverrides.set((0, channel_settings_1.isDiscordOverrideKey)(key) ? key : this.normalizeIRCTarget(key), override);
+        }
+        // Built-in transform stages, configured middlewares are added on connect
+        this.middlewares = new middleware_1.MiddlewarePipeline(this, (message, stage) => {
+            this.notifyDropped(message.direction, message.author, message.text, 'middleware', {
+                ircChannel: message.ircChannel,
+                stage,
+                discordMessageId: message.discordMessage?.id,
+            });
+        });
+        this.middlewareEntries = options.middlewares ?? [];
+        this.registerBuiltinMiddlewares();
         // Initialize status notifications
         // IMPORTANT: StatusNotificationManager was added in our fork and is NOT in the original
         // It defaults to enabled=true, which causes join message spam
@@ -374,6 +555,35 @@ class Bot {
         }
         // Load message sync history from persistence
         await this.messageSync.loadHistoryFromPersistence();
+        // Mappings made with /irc-bridge, joined along with the configured channels
+        await this.loadStoredChannelMappings();
+        // Middleware modules are imported before any message can arrive
+        await this.loadMiddlewares();
+        // Drop outbox messages that expired while the bot was offline
+        if (this.outboxConfig.enabled) {
+            try {
+                const cutoff = Date.now() - this.outboxConfig.maxAgeMinutes * 60 * 1000;
+                const expired = (await this.persistence.getOutboxMessages()).filter(entry => entry.createdAt < cutoff);
+                if (expired.length > 0) {
+                    await this.persistence.pruneOutbox(cutoff);
+                    logger_1.logger.info(`Discarded ${expired.length} expired message(s) from the IRC outbox`);
+                    // Discord isn't logged in yet, so authors are given by their user ID
+                    for (const entry of expired) {
+                        this.notifyDropped('discordToIrc', entry.authorId, entry.content, 'expired', {
+                            ircChannel: entry.ircChannel,
+                            discordMessageId: entry.discordMessageId,
+                        });
+                    }
+                }
+            }
+            catch (error) {
+                logger_1.logger.warn('Failed to prune IRC outbox:', error);
+            }
+        }
+        // IRC messages buffered before a restart are flushed once Discord is ready
+        if (this.discordBufferConfig.enabled) {
+            this.discordBufferPending = await this.persistence.countBufferedDiscordMessages() > 0;
+        }
         // Attach Discord event listeners BEFORE login to capture all connection events
         // This prevents race conditions where errors during login are lost
         this.attachDiscordListeners();
@@ -463,6 +673,17 @@ class Bot {
                 }
             })();
         });
+        // Additional networks connect independently of our own
+        for (const network of this.networks.values()) {
+            setImmediate(() => {
+                try {
+                    network.connect();
+                }
+                catch (error) {
+                    logger_1.logger.error(`Failed to initialize IRC network ${network.name}:`, error);
+                }
+            });
+        }
         // Start metrics HTTP server if configured
         if (this.metricsServer) {
             this.metricsServer.start();
@@ -491,6 +712,16 @@ class Bot {
         this.metrics.destroy();
         // Cleanup rate limiter
         this.rateLimiter.destroy();
+        // Drop reactions that haven't been relayed yet
+        this.reactionCoalescer.destroy();
+        // Drop Discord topics waiting for the rate limit
+        this.topicSync.destroy();
+        // Disconnect IRC puppets
+        this.puppetManager?.destroy();
+        // Disconnect additional IRC networks
+        for (const network of this.networks.values()) {
+            network.disconnect();
+        }
         // Cleanup recovery manager
         this.recoveryManager.destroy();
         // Close persistence service
@@ -538,6 +769,14 @@ class Bot {
             logger_1.logger.error(`❌ Recovery failed for ${service}: ${error.message}`);
             this.metrics.recordError();
         });
+        // Deliver IRC messages buffered while Discord was unreachable
+        this.recoveryManager.on('serviceHealthy', (service) => {
+            if (service === 'discord' && this.discordBufferPending) {
+                this.flushDiscordBuffer().catch((error) => {
+                    logger_1.logger.error('Error flushing Discord buffer:', error);
+                });
+            }
+        });
         this.recoveryManager.on('circuitBreakerTripped', (service, health) => {
             logger_1.logger.error(`🚫 Circuit breaker tripped for ${service} after ${health.consecutiveFailures} failures`);
         });
@@ -545,7 +784,22 @@ class Bot {
             logger_1.logger.info(`🔓 Circuit breaker reset for ${service}`);
         });
         this.recoveryManager.on('serviceSilent', (service, health) => {
-            logger_1.logger.warn(`⚠️ ${service} has been silent for ${Date.now() - health.lastSuccessful}ms`);
+            const silentMs = Date.now() - health.lastSuccessful;
+            logger_1.logger.warn(`⚠️ ${service} has been silent for ${silentMs}ms`);
+            // If IRC has been silent for more than 2 minutes and we're not already reconnecting,
+            // check if IRC is actually connected and trigger reconnection if not
+            if (service === 'irc' && silentMs > 120000 && !this.ircReconnecting) {
+                // Use isIRCConnected() which checks both flags AND actual socket state
+                if (!this.isIRCConnected()) {
+                    logger_1.logger.warn(`🔄 IRC appears disconnected (silent for ${Math.round(silentMs / 1000)}s), triggering reconnection...`);
+                    // Reset circuit breaker to allow reconnection (previous failure state is stale)
+                    if (!this.recoveryManager.isServiceAvailable('irc')) {
+                        logger_1.logger.info('Resetting IRC circuit breaker to allow reconnection after extended silence');
+                        this.recoveryManager.resetCircuitBreaker('irc');
+                    }
+                    this.recoveryManager.recordFailure('irc', new Error(`IRC silent for ${Math.round(silentMs / 1000)}s - connection lost`));
+                }
+            }
         });
     }
     /**
@@ -570,7 +824,7 @@ class Bot {
                     discord_js_1.default.Intents.FLAGS.GUILD_MEMBERS, // Required for member cache
                     discord_js_1.default.Intents.FLAGS.MESSAGE_CONTENT // Required for message.content access
                 ],
-                partials: ['MESSAGE']
+                partials: ['MESSAGE', 'REACTION']
             });
             // Re-attach Discord listeners
             this.attachDiscordListeners();
@@ -611,11 +865,22 @@ class Bot {
         this.ircReconnecting = true;
         try {
             logger_1.logger.info('Reconnecting IRC client...');
-            // Disconnect existing client
-            if (this.ircClient && this.ircClient.readyState === 'open') {
-                this.ircClient.disconnect();
+            // CRITICAL: Properly destroy old IRC client to prevent duplicate connections
+            if (this.ircClient) {
+                logger_1.logger.info('Destroying old IRC client before reconnection...');
+                // Remove all event listeners to prevent ghost handlers
+                this.ircClient.removeAllListeners();
+                // Disconnect regardless of state (could be connecting, open, or errored)
+                try {
+                    this.ircClient.disconnect('Reconnecting');
+                }
+                catch (e) {
+                    logger_1.logger.debug('IRC disconnect error (expected if already disconnected):', e);
+                }
+                // Clear the reference
+                this.ircClient = null;
             }
-            // Wait a moment for cleanup
+            // Wait for cleanup to complete
             await new Promise(resolve => setTimeout(resolve, 2000));
             // CRITICAL: Resolve DNS via shell workaround (same as initial connection)
             logger_1.logger.info(`Resolving IRC server hostname: ${this.server}`);
@@ -706,6 +971,10 @@ class Bot {
             logger_1.logger.info(`[DIAGNOSTIC] ready event fired on client instance: ${this.discord._instanceId}`);
             // Register slash commands when bot is ready
             await (0, slash_commands_1.registerSlashCommands)(this);
+            // Webhooks for mapped channels without one in the config
+            if (this.webhookProvisioner) {
+                this.provisionWebhooks().catch(error => logger_1.logger.error('Failed to provision webhooks:', error));
+            }
             // Record successful connection
             this.recoveryManager.recordSuccess('discord');
             // Save uptime start metric
@@ -729,6 +998,10 @@ class Bot {
         this.discord.on('reconnecting', () => {
             logger_1.logger.info('Discord client attempting to reconnect');
         });
+        // A resumed gateway session doesn't emit 'ready' again
+        this.discord.on('shardResume', () => {
+            this.recoveryManager.recordSuccess('discord');
+        });
         this.discord.on('warn', (warning) => {
             logger_1.logger.warn('Received warn event from Discord', warning);
         });
@@ -772,11 +1045,58 @@ class Bot {
         this.discord.on('messageDeleteBulk', async (messages) => {
             await this.messageSync.handleBulkDelete(messages);
         });
+        // Relay reactions on bridged messages
+        this.discord.on('messageReactionAdd', (reaction, user) => {
+            this.handleReaction(reaction, user, false).catch((error) => {
+                logger_1.logger.error('Error relaying Discord reaction to IRC:', error);
+            });
+        });
+        this.discord.on('messageReactionRemove', (reaction, user) => {
+            this.handleReaction(reaction, user, true).catch((error) => {
+                logger_1.logger.error('Error relaying Discord reaction removal to IRC:', error);
+            });
+        });
+        this.discord.on('channelUpdate', (oldChannel, newChannel) => {
+            this.handleDiscordTopicChange(oldChannel, newChannel);
+        });
+        // Threads with an IRC channel of their own keep it while they're open, forum posts are announced
+        this.discord.on('threadCreate', (thread, newlyCreated) => {
+            if (!newlyCreated)
+                return;
+            if (thread.parent && isForumChannel(thread.parent)) {
+                this.announceForumPost(thread);
+                return;
+            }
+            this.mapThread(thread).catch((error) => {
+                logger_1.logger.error('Error mapping Discord thread to IRC:', error);
+            });
+        });
+        this.discord.on('threadUpdate', (oldThread, newThread) => {
+            if (oldThread.archived === newThread.archived)
+                return;
+            (newThread.archived ? this.unmapThread(newThread) : this.mapThread(newThread)).catch((error) => {
+                logger_1.logger.error('Error updating Discord thread mapping:', error);
+            });
+        });
+        this.discord.on('threadDelete', (thread) => {
+            this.unmapThread(thread).catch((error) => {
+                logger_1.logger.error('Error unmapping deleted Discord thread:', error);
+            });
+        });
+        // Members leaving the server take their IRC puppet with them
+        this.discord.on('guildMemberRemove', (member) => {
+            this.puppetManager?.remove(member.id, 'Left Discord');
+        });
     }
     attachIRCListeners() {
+        // CRITICAL: Use a flag to prevent multiple error handlers from triggering duplicate reconnections
+        // IRC library fires multiple events on disconnect (error, close, abort, netError)
+        let disconnectHandled = false;
         this.ircClient.on('registered', (message) => {
             logger_1.logger.info('✅ Connected and registered to IRC');
             logger_1.logger.debug('Registered event: ', message);
+            // A new connection can be lost again
+            disconnectHandled = false;
             // Update connection state
             this.ircConnected = true;
             this.ircRegistered = true;
@@ -788,60 +1108,159 @@ class Bot {
             this.metrics.recordIRCConnected();
             // Send IRC connected notification to Discord
             this.sendIRCConnectionNotification('connected');
+            this.notify('irc:connected', {
+                network: this.networkName,
+                server: this.server,
+                nickname: this.ircClient.nick ?? this.nickname,
+            });
             for (const element of this.autoSendCommands) {
                 this.ircClient.send(...element);
             }
+            // Deliver Discord messages that were queued while IRC was down
+            this.flushIRCOutbox().catch((error) => {
+                logger_1.logger.error('Error replaying IRC outbox:', error);
+            });
             // Schedule periodic cleanup of IRC user data (every 6 hours)
             setInterval(() => {
                 this.ircUserManager.cleanup();
             }, 6 * 60 * 60 * 1000);
+            // Reset ghost attempt flag on successful registration
+            this.ghostAttempted = false;
         });
-        this.ircClient.on('error', (error) => {
-            logger_1.logger.error('❌ Received error event from IRC', error);
-            // Update connection state - error might indicate connection loss
-            this.ircConnected = false;
-            this.ircRegistered = false;
-            // Send IRC disconnected notification
-            this.sendIRCConnectionNotification('disconnected', error?.message || 'IRC error');
-            this.metrics.recordConnectionError();
-            this.metrics.recordIRCDisconnected();
-            this.recoveryManager.recordFailure('irc', error);
+        // Handle raw IRC messages for NickServ GHOST recovery
+        // Uses password from ircOptions (same as SASL/server auth)
+        this.ircClient.on('raw', (message) => {
+            // Guard against client being destroyed during reconnection
+            if (!this.ircClient)
+                return;
+            // Handle 433 (ERR_NICKNAMEINUSE) - Nick is already in use
+            const ircPassword = this.ircOptions?.password;
+            if (message.rawCommand === '433' && ircPassword && !this.ghostAttempted) {
+                const desiredNick = this.nickname;
+                const currentNick = message.args[1]; // The nick that's in use
+                if (currentNick === desiredNick) {
+                    logger_1.logger.info(`🔄 Nick "${desiredNick}" is in use, attempting NickServ GHOST recovery...`);
+                    this.ghostAttempted = true;
+                    // Send GHOST command to NickServ
+                    this.ircClient.say('NickServ', `GHOST ${desiredNick} ${ircPassword}`);
+                    // Wait a moment for GHOST to process, then try to reclaim nick
+                    setTimeout(() => {
+                        // Guard against client being destroyed during reconnection
+                        if (!this.ircClient) {
+                            logger_1.logger.debug('IRC client destroyed, skipping GHOST nick reclaim');
+                            return;
+                        }
+                        logger_1.logger.info(`🔄 Attempting to reclaim nick "${desiredNick}" after GHOST...`);
+                        this.ircClient.send('NICK', desiredNick);
+                        // Also identify with NickServ
+                        setTimeout(() => {
+                            // Guard against client being destroyed during reconnection
+                            if (!this.ircClient) {
+                                logger_1.logger.debug('IRC client destroyed, skipping NickServ IDENTIFY');
+                                return;
+                            }
+                            const pw = this.ircOptions?.password;
+                            if (pw) {
+                                this.ircClient.say('NickServ', `IDENTIFY ${pw}`);
+                            }
+                        }, 2000);
+                    }, 3000);
+                }
+            }
         });
-        this.ircClient.on('abort', () => {
-            logger_1.logger.warn('❌ IRC connection aborted');
+        // IRCv3 reactions and redactions arrive as TAGMSG and REDACT, which irc-upd has no events for
+        this.ircClient.on('raw', (message) => {
+            if (!this.ircClient)
+                return;
+            if (message.command === 'TAGMSG') {
+                this.handleIRCTagMessage(message).catch((error) => {
+                    logger_1.logger.error('Error relaying IRC reaction to Discord:', error);
+                });
+            }
+            else if (message.command === 'REDACT' && this.redactionConfig.enabled && message.nick) {
+                // REDACT <target> <msgid> [:<reason>]
+                const [target, msgid] = message.args;
+                if (!target || !msgid)
+                    return;
+                if (this.ignoredIrcUser(message.nick, this.getIRCChannelSettings(target).ignoreUsers))
+                    return;
+                this.messageSync.handleIRCRedaction(message.nick, target, msgid).catch((error) => {
+                    logger_1.logger.error('Error relaying IRC redaction to Discord:', error);
+                });
+            }
+        });
+        // Handle NickServ notices for GHOST feedback
+        this.ircClient.on('notice', (author, to, text, ircMessage) => {
+            // Guard against client being destroyed during reconnection
+            if (!this.ircClient)
+                return;
+            if (this.isOwnEcho(author, to, text, ircMessage))
+                return;
+            this.lastIRCActivity = Date.now();
+            this.metrics.updateIRCActivity();
+            // Check for NickServ GHOST success messages
+            if (author?.toLowerCase() === 'nickserv') {
+                const lowerText = text.toLowerCase();
+                if (lowerText.includes('ghost') && (lowerText.includes('killed') || lowerText.includes('disconnected') || lowerText.includes('has been ghosted'))) {
+                    logger_1.logger.info(`✅ NickServ GHOST successful: ${text}`);
+                    // Nick should now be available, try to reclaim
+                    if (this.ircClient && this.ircClient.nick !== this.nickname) {
+                        this.ircClient.send('NICK', this.nickname);
+                    }
+                }
+                else if (lowerText.includes('you are now identified')) {
+                    logger_1.logger.info(`✅ NickServ identification successful`);
+                }
+            }
+            // Forward notice to Discord (existing behavior)
+            this.sendToDiscord(author, to, `*${text}*`, ircMessage).catch((error) => {
+                logger_1.logger.error('Error sending IRC notice to Discord:', error);
+            });
+        });
+        const handleIRCDisconnect = (reason, error) => {
+            // Only handle the first disconnect event to prevent duplicate reconnections
+            if (disconnectHandled || this.ircReconnecting) {
+                logger_1.logger.debug(`Ignoring duplicate IRC disconnect event: ${reason}`);
+                return;
+            }
+            disconnectHandled = true;
+            logger_1.logger.warn(`❌ IRC disconnected: ${reason}`);
             // Update connection state
             this.ircConnected = false;
             this.ircRegistered = false;
+            // Echoes for lines sent on the lost connection won't arrive anymore
+            this.ircEchoes.clear();
             // Send IRC disconnected notification
-            this.sendIRCConnectionNotification('disconnected', 'Connection aborted');
+            this.sendIRCConnectionNotification('disconnected', reason);
             this.metrics.recordIRCDisconnected();
-            this.recoveryManager.recordFailure('irc', new Error('IRC connection aborted'));
+            this.metrics.recordConnectionError();
+            this.recoveryManager.recordFailure('irc', error || new Error(reason));
+            // Fallback for connections that never register again, a new registration resets it at once
+            setTimeout(() => {
+                disconnectHandled = false;
+            }, 5000);
+        };
+        this.ircClient.on('error', (error) => {
+            handleIRCDisconnect(error?.message || 'IRC error', error);
+        });
+        this.ircClient.on('abort', () => {
+            handleIRCDisconnect('Connection aborted');
         });
         this.ircClient.on('close', () => {
-            logger_1.logger.warn('❌ IRC connection closed');
-            // Update connection state
-            this.ircConnected = false;
-            this.ircRegistered = false;
-            // Send IRC disconnected notification
-            this.sendIRCConnectionNotification('disconnected', 'Connection closed');
-            this.metrics.recordIRCDisconnected();
-            this.recoveryManager.recordFailure('irc', new Error('IRC connection closed'));
+            handleIRCDisconnect('Connection closed');
         });
         this.ircClient.on('netError', (error) => {
-            logger_1.logger.error('❌ IRC network error:', error);
-            // Update connection state
-            this.ircConnected = false;
-            this.ircRegistered = false;
-            // Send IRC disconnected notification
-            this.sendIRCConnectionNotification('disconnected', `Network error: ${error?.message || error || 'Unknown'}`);
-            this.metrics.recordIRCDisconnected();
-            this.recoveryManager.recordFailure('irc', error);
+            handleIRCDisconnect(`Network error: ${error?.message || error || 'Unknown'}`, error);
         });
         // Handle IRC messages with proper async error handling
-        this.ircClient.on('message', (author, channel, text) => {
+        this.ircClient.on('message', (author, channel, text, ircMessage) => {
+            if (this.isOwnEcho(author, channel, text, ircMessage))
+                return;
+            if (this.puppetManager?.isPuppetNick(author))
+                return; // Already on Discord
             this.lastIRCActivity = Date.now(); // Track activity
             this.metrics.updateIRCActivity();
-            this.sendToDiscord(author, channel, text).catch((error) => {
+            this.sendToDiscord(author, channel, text, ircMessage).catch((error) => {
                 logger_1.logger.error('Error sending IRC message to Discord:', error);
             });
         });
@@ -851,14 +1270,6 @@ class Bot {
             this.metrics.updateIRCActivity();
             await this.handleIrcPrivateMessage(from, text);
         });
-        // Handle IRC notices with proper async error handling
-        this.ircClient.on('notice', (author, to, text) => {
-            this.lastIRCActivity = Date.now(); // Track activity
-            this.metrics.updateIRCActivity();
-            this.sendToDiscord(author, to, `*${text}*`).catch((error) => {
-                logger_1.logger.error('Error sending IRC notice to Discord:', error);
-            });
-        });
         // Handle IRC nick changes with proper async error handling
         this.ircClient.on('nick', (oldNick, newNick, channels) => {
             (async () => {
@@ -866,10 +1277,10 @@ class Bot {
                 this.updatePmThreadForNickChange(oldNick, newNick).catch((error) => {
                     logger_1.logger.error('Error updating PM thread for nick change:', error);
                 });
-                if (!this.ircStatusNotices)
-                    return;
                 for (const channelName of channels) {
                     const channel = channelName.toLowerCase();
+                    if (!this.getIRCChannelSettings(channel).ircStatusNotices)
+                        continue;
                     if (this.channelUsers[channel]) {
                         if (this.channelUsers[channel].has(oldNick)) {
                             this.channelUsers[channel].delete(oldNick);
@@ -893,6 +1304,8 @@ class Bot {
         this.ircClient.on('join', (channelName, nick) => {
             (async () => {
                 logger_1.logger.debug('Received join:', channelName, nick);
+                if (this.puppetManager?.isPuppetNick(nick))
+                    return;
                 const channel = channelName.toLowerCase();
                 const isBotEvent = nick === this.ircClient.nick;
                 // Update channel users tracking
@@ -906,10 +1319,11 @@ class Bot {
                 // Send join notification via status notification manager
                 const discordChannel = this.findDiscordChannel(channel);
                 if (discordChannel && isTextChannel(discordChannel)) {
-                    const sent = await this.statusNotifications.sendJoinNotification(nick, channelName, discordChannel, isBotEvent);
+                    const settings = this.getChannelSettings(channel, discordChannel.id);
+                    const sent = await this.statusNotifications.sendJoinNotification(nick, channelName, discordChannel, isBotEvent, settings.statusNotifications);
                     // Fallback to legacy system if status notifications are disabled
-                    if (!sent && this.ircStatusNotices) {
-                        if (!isBotEvent || this.announceSelfJoin) {
+                    if (!sent && settings.ircStatusNotices) {
+                        if (!isBotEvent || settings.announceSelfJoin) {
                             await this.sendExactToDiscord(channel, `*${nick}* has joined the channel`);
                         }
                     }
@@ -922,6 +1336,8 @@ class Bot {
         this.ircClient.on('part', (channelName, nick, reason) => {
             (async () => {
                 logger_1.logger.debug('Received part:', channelName, nick, reason);
+                if (this.puppetManager?.isPuppetNick(nick))
+                    return;
                 const channel = channelName.toLowerCase();
                 const isBotEvent = nick === this.ircClient.nick;
                 // Handle bot parting - remove channel user tracking
@@ -944,9 +1360,10 @@ class Bot {
                 // Send leave notification via status notification manager
                 const discordChannel = this.findDiscordChannel(channel);
                 if (discordChannel && isTextChannel(discordChannel)) {
-                    const sent = await this.statusNotifications.sendLeaveNotification(nick, channelName, reason || '', discordChannel, isBotEvent);
+                    const settings = this.getChannelSettings(channel, discordChannel.id);
+                    const sent = await this.statusNotifications.sendLeaveNotification(nick, channelName, reason || '', discordChannel, isBotEvent, settings.statusNotifications);
                     // Fallback to legacy system if status notifications are disabled
-                    if (!sent && this.ircStatusNotices) {
+                    if (!sent && settings.ircStatusNotices) {
                         await this.sendExactToDiscord(channel, `*${nick}* has left the channel (${reason})`);
                     }
                 }
@@ -961,6 +1378,8 @@ class Bot {
                 const isBotEvent = nick === this.ircClient.nick;
                 if (isBotEvent)
                     return; // Ignore bot's own quit events
+                if (this.puppetManager?.isPuppetNick(nick))
+                    return;
                 const processedChannels = new Set();
                 for (const channelName of channels) {
                     const channel = channelName.toLowerCase();
@@ -975,9 +1394,10 @@ class Bot {
                     const discordChannel = this.findDiscordChannel(channel);
                     if (discordChannel && isTextChannel(discordChannel) && !processedChannels.has(channel)) {
                         processedChannels.add(channel);
-                        const sent = await this.statusNotifications.sendQuitNotification(nick, reason || '', discordChannel, isBotEvent);
+                        const settings = this.getChannelSettings(channel, discordChannel.id);
+                        const sent = await this.statusNotifications.sendQuitNotification(nick, reason || '', discordChannel, isBotEvent, settings.statusNotifications);
                         // Fallback to legacy system if status notifications are disabled
-                        if (!sent && this.ircStatusNotices) {
+                        if (!sent && settings.ircStatusNotices) {
                             await this.sendExactToDiscord(channel, `*${nick}* has quit (${reason})`);
                         }
                     }
@@ -988,9 +1408,9 @@ class Bot {
         });
         this.ircClient.on('names', (channelName, nicks) => {
             logger_1.logger.debug('Received names:', channelName, nicks);
-            if (!this.ircStatusNotices)
-                return;
             const channel = channelName.toLowerCase();
+            if (!this.getIRCChannelSettings(channel).ircStatusNotices)
+                return;
             this.channelUsers[channel] = new Set(Object.keys(nicks));
             // Save initial channel users to persistence (don't await to avoid blocking)
             this.saveChannelUsersToPersistence(channel).catch((error) => {
@@ -998,11 +1418,20 @@ class Bot {
             });
         });
         // Handle IRC actions with proper async error handling
-        this.ircClient.on('action', (author, to, text) => {
-            this.sendToDiscord(author, to, `_${text}_`).catch((error) => {
+        this.ircClient.on('action', (author, to, text, ircMessage) => {
+            if (this.isOwnEcho(author, to, `\u0001ACTION ${text}\u0001`, ircMessage))
+                return;
+            if (this.puppetManager?.isPuppetNick(author))
+                return;
+            this.sendToDiscord(author, to, `_${text}_`, ircMessage).catch((error) => {
                 logger_1.logger.error('Error sending IRC action to Discord:', error);
             });
         });
+        this.ircClient.on('topic', (channel, topic, nick, ircMessage) => {
+            this.handleIRCTopic(channel, topic, nick, ircMessage).catch((error) => {
+                logger_1.logger.error('Error syncing IRC topic to Discord:', error);
+            });
+        });
         this.ircClient.on('invite', (channel, from) => {
             logger_1.logger.debug('Received invite:', channel, from);
             if (!this.invertedMapping[channel]) {
@@ -1029,50 +1458,24 @@ class Bot {
         return user.username;
     }
     parseText(message) {
-        const usedFields = ['title', 'description', 'fields', 'image', 'footer'];
         let embed = '';
         if (message.embeds?.length) {
-            for (const key of usedFields) {
-                if (!message.embeds[0][key]) {
-                    continue;
-                }
-                if (key === 'fields') {
-                    for (const field of message.embeds[0][key]) {
-                        let { value } = field;
-                        const discId = value.match(/<@[0-9]+>/g);
-                        if (discId) {
-                            for (const id of discId) {
-                                const dId = id.substring(2, id.length - 1);
-                                const user = this.discord.users.cache.get(dId);
-                                const name = user ? user.username : 'unknown-user';
-                                value = value.replace(id, name);
-                            }
-                        }
-                        embed += `\u0002${field.name}\u0002\n${value}\n`;
-                    }
-                }
-                else if (key === 'image') {
-                    embed += `${message.embeds[0][key].url}\n`;
-                }
-                else if (key === 'footer') {
-                    embed += message.embeds[0][key].text;
-                }
-                else if (key === 'title') {
-                    embed += `\u0002${message.embeds[0][key]}\u0002\n`;
-                }
-                else {
-                    embed += `${message.embeds[0][key]}\n`;
-                }
-            }
+            const mode = (0, embed_rendering_1.getEmbedMode)(this.embedConfig, [message.webhookId, message.author?.id]);
+            embed = (0, embed_rendering_1.renderEmbeds)(message.embeds, this.embedConfig, mode)
+                .join('\n')
+                .replace(/<@!?(\d+)>/g, (match, id) => this.discord.users.cache.get(id)?.username ?? 'unknown-user');
         }
         let text = message.mentions.users.reduce((content, mention) => {
             const displayName = Bot.getDiscordNicknameOnServer(mention, message.guild);
             const userMentionRegex = RegExp(`<@(&|!)?${mention.id}>`, 'g');
             return content.replace(userMentionRegex, `@${displayName}`);
         }, message.content);
+        if (message.stickers?.size) {
+            text = `${text}\n${message.stickers.map(sticker => (0, discord_tokens_1.formatSticker)(sticker.name)).join(' ')}`;
+        }
         text = `${text}\n${embed}`;
         text = text.trim();
-        return text
+        text = text
             .replace(/<#(\d+)>/g, (match, channelId) => {
             const channel = this.discord.channels.cache.get(channelId);
             if (channel && 'name' in channel)
@@ -1084,226 +1487,1345 @@ class Bot {
             if (role)
                 return `@${role.name}`;
             return '@deleted-role';
-        })
-            .replace(/<a?(:\w+:)\d+>/g, (match, emoteName) => emoteName);
+        });
+        return (0, discord_tokens_1.renderDiscordTokens)(text, this.discordTokenConfig);
+    }
+    /**
+     * Settings for messages between an IRC channel and a Discord channel,
+     * with their channelOverrides merged over the global settings
+     */
+    getChannelSettings(ircChannel, discordChannelId) {
+        const settings = {
+            format: {
+                ircText: this.formatIRCText,
+                ircReply: this.formatIRCReply,
+                urlAttachment: this.formatURLAttachment,
+                discord: this.formatDiscord,
+                commandPrelude: typeof this.formatCommandPrelude === 'string' ? this.formatCommandPrelude : false,
+                webhookAvatarURL: this.formatWebhookAvatarURL,
+                ircSpoiler: this.formatIRCSpoiler,
+                ansiColors: this.formatAnsiColors,
+            },
+            ircNickColor: this.ircNickColor,
+            ircNickColors: this.ircNickColors,
+            parallelPingFix: this.parallelPingFix,
+            commandCharacters: this.commandCharacters,
+            ignoreUsers: this.ignoreUsers,
+            ircStatusNotices: Boolean(this.ircStatusNotices),
+            announceSelfJoin: Boolean(this.announceSelfJoin),
+            statusNotifications: {},
+            rateLimiting: {},
+        };
+        // The Discord channel's override is merged last, so it wins over the IRC channel's
+        const ircOverride = ircChannel ? this.channelOverrides.get(this.normalizeIRCTarget(ircChannel)) : undefined;
+        const discordOverride = discordChannelId ? this.channelOverrides.get(discordChannelId) : undefined;
+        return (0, channel_settings_1.mergeSettings)((0, channel_settings_1.mergeSettings)(settings, ircOverride), discordOverride);
+    }
+    /**
+     * Settings for a mapped IRC channel and the Discord channel it is bridged to
+     */
+    getIRCChannelSettings(ircChannel) {
+        return this.getChannelSettings(ircChannel, this.findDiscordChannel(ircChannel)?.id);
     }
-    isCommandMessage(message) {
-        return this.commandCharacters.some((prefix) => message.startsWith(prefix));
+    isCommandMessage(message, commandCharacters = this.commandCharacters) {
+        return commandCharacters.some((prefix) => message.startsWith(prefix));
     }
-    ignoredIrcUser(user) {
-        return this.ignoreUsers.irc.some((i) => i.toLowerCase() === user.toLowerCase());
+    ignoredIrcUser(user, ignoreUsers = this.ignoreUsers) {
+        return ignoreUsers.irc.some((i) => i.toLowerCase() === user.toLowerCase());
     }
-    ignoredDiscordUser(discordUser) {
-        const ignoredName = this.ignoreUsers.discord.some((i) => i.toLowerCase() === discordUser.username.toLowerCase());
-        const ignoredId = this.ignoreUsers.discordIds.some((i) => i === discordUser.id);
+    ignoredDiscordUser(discordUser, ignoreUsers = this.ignoreUsers) {
+        const ignoredName = ignoreUsers.discord.some((i) => i.toLowerCase() === discordUser.username.toLowerCase());
+        const ignoredId = ignoreUsers.discordIds.some((i) => i === discordUser.id);
         return ignoredName || ignoredId;
     }
     static substitutePattern(message, patternMapping) {
         return message.replace(patternMatch, (match, varName) => patternMapping[varName] || match);
     }
-    async sendToIRC(message) {
-        const { author } = message;
-        // Ignore messages sent by the bot itself:
-        if (author.id === this.discord.user?.id ||
-            Object.keys(this.webhooks).some((channel) => this.webhooks[channel].id === author.id))
-            return;
-        // Do not send to IRC if this user is on the ignore list.
-        if (this.ignoredDiscordUser(author)) {
-            return;
+    /**
+     * Emit an event for embedding applications, a listener that throws can't break relaying
+     */
+    notify(event, ...args) {
+        try {
+            this.emit(event, ...args);
         }
-        const messageContent = this.parseText(message);
-        // Skip rate limiting when IRC is down to prevent penalizing users
-        // for messages that won't be sent anyway
-        if (!this.isIRCConnected()) {
-            logger_1.logger.debug(`Skipping rate limit check for ${author.username} - IRC connection is down, message won't be sent`);
-            // Message will be silently dropped later when IRC send fails
-            // No point in rate limiting something that won't go through
+        catch (error) {
+            logger_1.logger.error(`Listener for ${event} failed:`, error);
         }
-        else {
-            // Check rate limiting (only when IRC is up)
-            const rateLimitResult = this.rateLimiter.checkMessage(author.id, author.username, messageContent);
-            if (rateLimitResult) {
-                logger_1.logger.warn(`Message from ${author.username} (${author.id}) blocked by rate limiter: ${rateLimitResult}`);
-                // Record blocked message
-                this.metrics.recordMessageBlocked();
-                if (rateLimitResult.includes('warning')) {
-                    this.metrics.recordUserWarned();
-                }
-                else if (rateLimitResult.includes('blocked')) {
-                    this.metrics.recordUserBlocked();
-                }
-                if (rateLimitResult.includes('spam')) {
-                    this.metrics.recordSpamDetected();
+    }
+    notifyDropped(direction, author, text, reason, details = {}) {
+        this.notify('relay:dropped', { direction, author, text, reason, ...details });
+    }
+    /**
+     * Built-in transform stages, the configured middlewares are added around them on connect
+     */
+    registerBuiltinMiddlewares() {
+        this.middlewares.use({
+            name: 'parse',
+            direction: 'discordToIrc',
+            process: (message) => {
+                // Queued messages were parsed before they went into the outbox
+                if (!message.replayed && message.discordMessage) {
+                    message.text = this.parseText(message.discordMessage);
                 }
-                // Send warning to Discord user via DM (optional, can be disabled)
-                try {
-                    const warningMessage = `⚠️ **Rate Limit Warning**\n\n${rateLimitResult}\n\nPlease slow down your message sending rate.`;
-                    await author.send(warningMessage);
+                return message;
+            },
+        });
+        this.middlewares.use({
+            name: 'rateLimit',
+            direction: 'discordToIrc',
+            process: async (message) => this.rateLimitDiscordMessage(message),
+        });
+        this.middlewares.use({
+            name: 'format',
+            direction: 'discordToIrc',
+            process: (message) => {
+                // Convert markdown on the whole text, since code blocks and quotes span lines
+                if (!this.isCommandMessage(message.text, message.settings.commandCharacters)) {
+                    const markdown = message.text.replace('\r\n', '\n').replace('\r', '\n');
+                    message.annotations.markdown = markdown;
+                    message.text = (0, formatting_1.formatFromDiscordToIRC)(markdown, { spoiler: message.settings.format.ircSpoiler });
                 }
-                catch (error) {
-                    logger_1.logger.debug(`Could not send rate limit warning DM to ${author.username}:`, error);
+                return message;
+            },
+        });
+        this.middlewares.use({
+            name: 'template',
+            direction: 'discordToIrc',
+            process: async (message) => this.applyIRCTemplates(message),
+        });
+        this.middlewares.use({
+            name: 'rateLimit',
+            direction: 'ircToDiscord',
+            process: message => this.rateLimitIRCMessage(message),
+        });
+        this.middlewares.use({
+            name: 'format',
+            direction: 'ircToDiscord',
+            process: (message) => {
+                // Convert text formatting (bold, italics, underscore, strikethrough, code, spoilers)
+                if (!this.isCommandMessage(message.text, message.settings.commandCharacters)) {
+                    message.text = (0, formatting_1.formatFromIRCToDiscord)(message.text, { ansiColors: message.settings.format.ansiColors });
                 }
-                return; // Block the message
+                return message;
+            },
+        });
+        this.middlewares.use({
+            name: 'mentions',
+            direction: 'ircToDiscord',
+            process: message => this.detectDiscordMentions(message),
+        });
+    }
+    /**
+     * Add the middlewares from the config, importing the ones given as module paths
+     */
+    async loadMiddlewares() {
+        for (const entry of this.middlewareEntries) {
+            const middlewares = typeof entry === 'string'
+                ? await (0, middleware_1.loadMiddlewareModule)(entry)
+                : [(0, middleware_1.validateMiddleware)(entry, 'the config')];
+            for (const middleware of middlewares) {
+                this.middlewares.use(middleware, middleware);
+                logger_1.logger.info(`Added middleware ${middleware.name}`);
             }
         }
-        // Check if IRC is connected before attempting to send
-        if (!this.isIRCConnected()) {
-            logger_1.logger.warn(`Message from ${author.username} dropped - IRC not connected`);
-            // Reply to the user's message to alert them
-            try {
-                await message.reply('⚠️ **Message not sent** - IRC connection is down. Your message was not delivered to IRC. Please wait for reconnection.');
-            }
-            catch (error) {
-                logger_1.logger.debug(`Could not reply to ${author.username} about dropped message:`, error);
-            }
-            return; // Don't attempt to send
+    }
+    /**
+     * Rate limiter stage for Discord messages, warns the author in a DM when blocking
+     * Messages replayed from the outbox were sent while IRC was down, which
+     * shouldn't count against the author
+     */
+    async rateLimitDiscordMessage(message) {
+        const author = message.discordMessage?.author;
+        if (message.replayed || !author)
+            return message;
+        const rateLimitResult = this.rateLimiter.checkMessage(author.id, author.username, message.text, message.settings.rateLimiting);
+        if (!rateLimitResult)
+            return message;
+        logger_1.logger.warn(`Message from ${author.username} (${author.id}) blocked by rate limiter: ${rateLimitResult}`);
+        this.recordRateLimitBlock(rateLimitResult);
+        this.notify('ratelimit:blocked', {
+            direction: 'discordToIrc',
+            userId: author.id,
+            author: message.author,
+            ircChannel: message.ircChannel,
+            reason: rateLimitResult,
+        });
+        // Send warning to Discord user via DM (optional, can be disabled)
+        try {
+            const warningMessage = `⚠️ **Rate Limit Warning**\n\n${rateLimitResult}\n\nPlease slow down your message sending rate.`;
+            await author.send(warningMessage);
         }
-        if (!isTextChannel(message.channel))
-            return;
-        const channelName = `#${message.channel.name}`;
-        const ircChannel = this.channelMapping[message.channel.id] ||
-            this.channelMapping[channelName];
-        logger_1.logger.debug('Channel Mapping', channelName, this.channelMapping[channelName]);
-        if (ircChannel) {
-            const fromGuild = message.guild;
-            const nickname = Bot.getDiscordNicknameOnServer(author, fromGuild);
-            let text = messageContent; // Already parsed for rate limiting
-            let displayUsername = nickname;
-            if (this.parallelPingFix) {
-                // Prevent users of both IRC and Discord from
-                // being mentioned in IRC when they talk in Discord.
-                displayUsername = `${displayUsername.slice(0, 1)}\u200B${displayUsername.slice(1)}`;
-            }
-            if (this.ircNickColor) {
-                const colorIndex = (nickname.charCodeAt(0) + nickname.length) %
-                    this.ircNickColors.length;
-                displayUsername = irc_upd_1.default.colors.wrap(this.ircNickColors[colorIndex], displayUsername);
-            }
-            const patternMap = {
-                author: nickname,
-                nickname,
-                displayUsername,
-                text,
-                discordChannel: channelName,
-                ircChannel,
-                side: undefined,
-                attachmentURL: undefined,
-            };
-            if (this.isCommandMessage(text)) {
-                patternMap.side = 'Discord';
-                logger_1.logger.debug('Sending command message to IRC', ircChannel, text);
-                // if (prelude) this.ircClient.say(ircChannel, prelude);
-                if (this.formatCommandPrelude) {
-                    const prelude = Bot.substitutePattern(this.formatCommandPrelude, patternMap);
-                    this.ircClient.say(ircChannel, prelude);
-                }
-                this.ircClient.say(ircChannel, text);
-                // Record metrics
-                this.metrics.recordDiscordToIRC(author.id, ircChannel);
-                this.metrics.recordCommand();
-                // Mark Discord as active (message sent to IRC)
-                this.recoveryManager.recordSuccess('discord');
-                // Record command message for edit/delete tracking
-                this.messageSync.recordMessage(message.id, ircChannel, text, nickname);
-            }
-            else {
-                if (text !== '') {
-                    // Convert formatting
-                    text = text.replace('\r\n', '\n').replace('\r', '\n');
-                    const sentences = text.split('\n');
-                    for (const orig of sentences) {
-                        let sentence = (0, formatting_1.formatFromDiscordToIRC)(orig);
-                        if (sentence) {
-                            patternMap.text = sentence;
-                            sentence = Bot.substitutePattern(this.formatIRCText, patternMap);
-                            logger_1.logger.debug('Sending message to IRC', ircChannel, sentence);
-                            this.ircClient.say(ircChannel, sentence);
-                            // Record each sentence for edit/delete tracking
-                            this.messageSync.recordMessage(message.id, ircChannel, sentence, nickname);
-                        }
-                    }
-                    // Record metrics for the whole message (not per sentence)
-                    if (sentences.some(s => (0, formatting_1.formatFromDiscordToIRC)(s))) {
-                        this.metrics.recordDiscordToIRC(author.id, ircChannel);
-                        // Mark Discord as active (message sent to IRC)
-                        this.recoveryManager.recordSuccess('discord');
-                    }
-                }
-                if (message.attachments && message.attachments.size) {
-                    // attachments are a discord.Collection, not a JS object
-                    for (const [, attachment] of message.attachments) {
-                        // Try to upload to S3 first, fall back to Discord URL
-                        let attachmentURL = attachment.url;
-                        if (this.s3Uploader) {
-                            try {
-                                const s3Url = await this.uploadAttachmentToS3(attachment, author.id);
-                                if (s3Url) {
-                                    attachmentURL = s3Url;
-                                    logger_1.logger.debug('Using S3 URL for attachment:', attachment.name);
-                                }
-                                else {
-                                    logger_1.logger.debug('S3 upload failed, using Discord URL for attachment:', attachment.name);
-                                }
-                            }
-                            catch (error) {
-                                logger_1.logger.warn('S3 upload error, using Discord URL:', error);
-                            }
-                        }
-                        patternMap.attachmentURL = attachmentURL;
-                        const urlMessage = Bot.substitutePattern(this.formatURLAttachment, patternMap);
-                        logger_1.logger.debug('Sending attachment URL to IRC', ircChannel, urlMessage);
-                        this.ircClient.say(ircChannel, urlMessage);
-                        // Record attachment metrics
-                        this.metrics.recordAttachment();
-                        // Record attachment URL for edit/delete tracking
-                        this.messageSync.recordMessage(message.id, ircChannel, urlMessage, nickname);
-                    }
-                }
-            }
+        catch (error) {
+            logger_1.logger.debug(`Could not send rate limit warning DM to ${author.username}:`, error);
         }
+        return null; // Block the message
     }
-    findDiscordChannel(ircChannel) {
-        const discordChannelName = this.invertedMapping[ircChannel.toLowerCase()];
-        if (discordChannelName) {
-            // #channel -> channel before retrieving and select only text channels:
-            let discordChannel;
-            if (this.discord.channels.cache.has(discordChannelName)) {
-                discordChannel = this.discord.channels.cache.get(discordChannelName);
-            }
-            else if (discordChannelName.startsWith('#')) {
-                discordChannel = this.discord.channels.cache
-                    // unclear if this UNKNOWN is a test bug or happens in the real world
-                    .filter((c) => c.type === 'text' ||
-                    c.type === 'UNKNOWN' ||
-                    c.type === 'GUILD_TEXT')
-                    .find((c) => c.name === discordChannelName.slice(1));
-            }
-            if (!discordChannel) {
-                logger_1.logger.info("Tried to send a message to a channel the bot isn't in: ", discordChannelName);
-                return null;
+    /**
+     * Template stage for Discord messages, quotes the message replied to and fills
+     * the `format` templates in for the author and channel
+     * `{$text}` and `{$attachmentURL}` are left for delivery, which fills them in
+     * for each IRC line. Commands are sent as they are.
+     */
+    async applyIRCTemplates(message) {
+        const { discordMessage, settings } = message;
+        const target = this.getIRCTarget(message.ircChannel);
+        if (!discordMessage || !target || this.isCommandMessage(message.text, settings.commandCharacters)) {
+            return message;
+        }
+        const patternMap = this.getIRCPatternMap(discordMessage, message.ircChannel, message.author, settings);
+        if (message.text !== '') {
+            // Prefix replies with a short quote of the message they answer
+            const reply = await this.getReplyContext(discordMessage);
+            if (reply) {
+                message.text = Bot.substitutePattern(settings.format.ircReply, {
+                    ...patternMap,
+                    text: message.text,
+                    replyNickname: reply.nickname,
+                    replyText: (0, formatting_1.formatFromDiscordToIRC)(reply.text, { spoiler: settings.format.ircSpoiler }),
+                });
             }
-            return discordChannel;
         }
-        return null;
-    }
-    findWebhook(ircChannel) {
-        const discordChannelName = this.invertedMapping[ircChannel.toLowerCase()];
-        return discordChannelName && this.webhooks[discordChannelName];
+        // In puppet mode regular messages come from the author's own IRC connection,
+        // so the lines carry no <nick> prefix. Puppets are only available on our own network.
+        const puppet = this.puppetManager && target.client === this.ircClient
+            ? await this.puppetManager.acquire(discordMessage.author.id, this.getPuppetNick(message.author), target.channel)
+            : null;
+        // Lines from a tagged mapping or a thread start with where they came from
+        const tagPrefix = (patternMap.sourceTag ? '{$sourceTag} ' : '') + (patternMap.threadTag ? '[{$threadTag}] ' : '');
+        message.annotations.puppet = puppet;
+        message.annotations.ircTemplate = Bot.substitutePattern(tagPrefix + (puppet ? '{$text}' : settings.format.ircText), patternMap);
+        message.annotations.ircAttachmentTemplate = Bot.substitutePattern(tagPrefix + (puppet ? '{$attachmentURL}' : settings.format.urlAttachment), patternMap);
+        return message;
     }
-    getDiscordAvatar(nick, channel) {
-        const discordChannel = this.findDiscordChannel(channel);
-        if (!discordChannel)
-            return null;
-        const guildMembers = discordChannel.guild.members.cache;
-        const findByNicknameOrUsername = (caseSensitive) => (member) => {
-            if (caseSensitive) {
-                return member.user.username === nick || member.nickname === nick;
-            }
-            const nickLowerCase = nick.toLowerCase();
-            return (member.user.username.toLowerCase() === nickLowerCase ||
-                (member.nickname && member.nickname.toLowerCase() === nickLowerCase));
+    /**
+     * Values for the IRC `format` templates of a Discord message, apart from its text
+     */
+    getIRCPatternMap(message, ircChannel, nickname, settings) {
+        const { channel, threadTag } = this.getRelayChannel(message.channel) ?? { channel: message.channel };
+        const channelName = `#${channel.name}`;
+        let displayUsername = nickname;
+        if (settings.parallelPingFix) {
+            // Prevent users of both IRC and Discord from
+            // being mentioned in IRC when they talk in Discord.
+            displayUsername = `${displayUsername.slice(0, 1)}\u200B${displayUsername.slice(1)}`;
+        }
+        if (settings.ircNickColor) {
+            const colorIndex = (nickname.charCodeAt(0) + nickname.length) %
+                settings.ircNickColors.length;
+            displayUsername = irc_upd_1.default.colors.wrap(settings.ircNickColors[colorIndex], displayUsername);
+        }
+        const { sourceTag } = this.getMappingOptions(this.getMappingKey(channel));
+        return {
+            author: nickname,
+            nickname,
+            displayUsername,
+            discordChannel: channelName,
+            ircChannel,
+            side: undefined,
+            sourceTag: sourceTag && Bot.substitutePattern(sourceTag, { guild: message.guild?.name, discordChannel: channelName }),
+            threadTag,
         };
-        // Try to find exact matching case
+    }
+    /**
+     * Rate limiter stage for IRC messages, warns the author in a PM when blocking
+     * Buffered messages were checked when they arrived, and aren't counted again
+     * when the backlog is flushed
+     */
+    rateLimitIRCMessage(message) {
+        if (message.replayed)
+            return message;
+        const { author } = message;
+        const rateLimitResult = this.rateLimiter.checkMessage(`irc:${author}`, // Use IRC nickname with prefix to distinguish from Discord IDs
+        author, message.text, message.settings.rateLimiting);
+        if (!rateLimitResult)
+            return message;
+        logger_1.logger.warn(`Message from IRC user ${author} blocked by rate limiter: ${rateLimitResult}`);
+        this.recordRateLimitBlock(rateLimitResult);
+        this.notify('ratelimit:blocked', {
+            direction: 'ircToDiscord',
+            userId: `irc:${author}`,
+            author,
+            ircChannel: message.ircChannel,
+            reason: rateLimitResult,
+        });
+        // Send warning to IRC user via private message
+        try {
+            this.getIRCTarget(message.ircChannel)?.client.say(author, `⚠️ Rate Limit Warning: ${rateLimitResult}. Please slow down your message sending rate.`);
+        }
+        catch (error) {
+            logger_1.logger.debug(`Could not send rate limit warning PM to ${author}:`, error);
+        }
+        return null; // Block the message
+    }
+    recordRateLimitBlock(rateLimitResult) {
+        this.metrics.recordMessageBlocked();
+        if (rateLimitResult.includes('warning')) {
+            this.metrics.recordUserWarned();
+        }
+        else if (rateLimitResult.includes('blocked')) {
+            this.metrics.recordUserBlocked();
+        }
+        if (rateLimitResult.includes('spam')) {
+            this.metrics.recordSpamDetected();
+        }
+    }
+    /**
+     * Mention stage for IRC messages: @user#1234, :emoji: and #channel references,
+     * unicode emoji for the remaining shortcodes and emoticons, then plain usernames
+     * and puppet nicks
+     */
+    detectDiscordMentions(message) {
+        const discordChannel = message.discordChannel;
+        if (this.isCommandMessage(message.text, message.settings.commandCharacters) || !discordChannel || !('guild' in discordChannel))
+            return message;
+        const { guild } = discordChannel;
+        // Templates using {$text} get the text before mentions were added
+        message.annotations.textWithoutMentions = message.text;
+        // Process @username#discriminator mentions and emoji/channel references first
+        const processedText = message.text
+            // @ts-expect-error TS doesn't seem to see the valid overload of replace here?
+            .replace(/@([^\s#]+)#(\d+)/g, (match, username, discriminator) => {
+            // @username#1234 => mention
+            // skips usernames including spaces for ease (they cannot include hashes)
+            // checks case insensitively as Discord does
+            const user = guild.members.cache.find((x) => Bot.caseComp(x.user.username, username) &&
+                x.user.discriminator === discriminator);
+            if (user)
+                return user;
+            return match;
+        })
+            // @ts-expect-error TS doesn't seem to see the valid overload of replace here?
+            .replace(/:(\w+):/g, (match, ident) => {
+            // :emoji: => mention, case sensitively
+            const emoji = guild.emojis.cache.find(
+            // @ts-expect-error TS doesn't seem to see the valid overload of replace here?
+            (x) => x.name === ident && x.requiresColons);
+            if (emoji)
+                return emoji;
+            return match;
+        })
+            // @ts-expect-error TS doesn't seem to see the valid overload of replace here?
+            .replace(/#([^\s#@'!?,.]+)/g, (match, channelName) => {
+            // channel names can't contain spaces, #, @, ', !, ?, , or .
+            // (based on brief testing. they also can't contain some other symbols,
+            // but these seem likely to be common around channel references)
+            // discord matches channel names case insensitively
+            const chan = guild.channels.cache.find((x) => Bot.caseComp(x.name, channelName));
+            return chan || match;
+        });
+        // Guild emoji were resolved above, so they win over the bundled shortcodes
+        const withEmoji = (0, emoji_shortcodes_1.convertToEmoji)(processedText, this.emojiConversionConfig);
+        // Apply advanced mention detection for regular usernames
+        const mentionResult = this.mentionDetector.detectMentions(withEmoji, guild, message.author, Array.from(guild.members.cache.values()));
+        message.text = this.puppetManager?.mentionPuppets(mentionResult.textWithMentions)
+            ?? mentionResult.textWithMentions;
+        return message;
+    }
+    async sendToIRC(message) {
+        const { author } = message;
+        // Ignore messages sent by the bot itself:
+        if (author.id === this.discord.user?.id ||
+            Object.keys(this.webhooks).some((channel) => this.webhooks[channel].id === author.id))
+            return;
+        const relayChannel = this.getRelayChannel(message.channel);
+        if (!relayChannel)
+            return;
+        const { channel } = relayChannel;
+        const channelName = `#${channel.name}`;
+        const ircChannel = this.channelMapping[channel.id] ||
+            this.channelMapping[channelName];
+        logger_1.logger.debug('Channel Mapping', channelName, this.channelMapping[channelName]);
+        if (!ircChannel || !(0, channel_mapping_1.relaysToIRC)(this.getMappingOptions(this.getMappingKey(channel))))
+            return;
+        // Do not send to IRC if this user is on the ignore list.
+        const { ignoreUsers } = this.getChannelSettings(ircChannel, channel.id);
+        if (this.ignoredDiscordUser(author, ignoreUsers)) {
+            this.notifyDropped('discordToIrc', author.username, message.content, 'ignored', { ircChannel, discordMessageId: message.id });
+            return;
+        }
+        // Queue the message while IRC is down, or while older queued messages
+        // are still being replayed so that ordering is preserved
+        const network = (0, network_1.parseIRCTarget)(ircChannel).network;
+        if (!this.isIRCConnected(network) || this.outboxFlushing) {
+            await this.queueForIRC(message, ircChannel, this.parseText(message));
+            return;
+        }
+        await this.relayToIRC(message, ircChannel);
+    }
+    /**
+     * Format a Discord message and send it to the given IRC channel
+     * Shared by live relaying and outbox replay
+     * @param queuedContent Text stored in the outbox, already parsed when it was queued
+     */
+    async relayToIRC(message, ircChannel, queuedContent) {
+        const target = this.getIRCTarget(ircChannel);
+        if (!target) {
+            logger_1.logger.warn(`No IRC network configured for ${ircChannel}, dropping message ${message.id}`);
+            return { delivered: Promise.resolve(false) };
+        }
+        // Delivery confirmation is only available on our own network
+        const onOwnNetwork = target.client === this.ircClient;
+        const { author } = message;
+        const { channel } = this.getRelayChannel(message.channel) ?? { channel: message.channel };
+        const nickname = Bot.getDiscordNicknameOnServer(author, message.guild);
+        const settings = this.getChannelSettings(ircChannel, channel.id);
+        const relayed = await this.middlewares.run({
+            direction: 'discordToIrc',
+            author: nickname,
+            text: queuedContent ?? message.content,
+            ircChannel,
+            discordChannel: message.channel,
+            discordMessage: message,
+            replayed: queuedContent !== undefined,
+            settings,
+            annotations: {},
+        });
+        if (!relayed)
+            return { delivered: Promise.resolve(false) };
+        const { text } = relayed;
+        // Left by the template stage, without it the bare text is sent by the bot
+        const puppet = relayed.annotations.puppet ?? null;
+        const ircTemplate = relayed.annotations.ircTemplate ?? '{$text}';
+        const attachmentTemplate = relayed.annotations.ircAttachmentTemplate ?? '{$attachmentURL}';
+        // With echo-message every line sent is confirmed by the server echoing it back
+        const echoes = [];
+        const sentLines = [];
+        let replyTags;
+        const say = (line) => {
+            sentLines.push(line);
+            if (puppet) {
+                puppet.say(target.channel, line);
+                return;
+            }
+            if (replyTags) {
+                // Only the first line carries the reply tag, it is sent raw as irc-upd's say() can't add tags
+                target.client.send(`@${replyTags}`, 'PRIVMSG', target.channel, line);
+                replyTags = undefined;
+            }
+            else {
+                target.client.say(target.channel, line);
+            }
+            if (onOwnNetwork && this.ircUserManager?.hasCapability('echo-message')) {
+                echoes.push(this.ircEchoes.expect(ircChannel, line));
+            }
+        };
+        if (this.isCommandMessage(text, settings.commandCharacters)) {
+            logger_1.logger.debug('Sending command message to IRC', ircChannel, text);
+            // if (prelude) this.ircClient.say(ircChannel, prelude);
+            if (settings.format.commandPrelude) {
+                const prelude = Bot.substitutePattern(settings.format.commandPrelude, { ...this.getIRCPatternMap(message, ircChannel, nickname, settings), side: 'Discord' });
+                say(prelude);
+            }
+            say(text);
+            // Record metrics
+            this.metrics.recordDiscordToIRC(author.id, ircChannel);
+            this.metrics.recordCommand();
+            // Mark Discord as active (message sent to IRC)
+            this.recoveryManager.recordSuccess('discord');
+            // Record command message for edit/delete tracking
+            this.messageSync.recordMessage(message.id, ircChannel, text, nickname);
+        }
+        else {
+            if (text !== '') {
+                const replyMsgid = message.reference?.messageId && this.messageSync.getMsgid(message.reference.messageId);
+                if (replyMsgid && target.userManager?.hasCapability('message-tags')) {
+                    replyTags = (0, capabilities_1.formatMessageTags)({ '+draft/reply': replyMsgid });
+                }
+                // Long pastes are replaced by a short preview and a link to the full text as it was written
+                let sentences = text.split('\n');
+                const markdown = relayed.annotations.markdown ?? text;
+                const pasteURL = this.isPaste(markdown) ? await this.uploadPaste(author.id, markdown) : null;
+                if (pasteURL) {
+                    sentences = sentences
+                        .filter(line => line.trim() !== '')
+                        .slice(0, this.pasteConfig.previewLines);
+                }
+                // Bytes left for the text once the server prefix and our format wrapper are added
+                const sender = puppet ?? target.client;
+                const textBudget = (0, line_splitter_1.getPrivmsgPayloadBudget)(sender.nick, sender.hostMask, target.channel)
+                    - (Buffer.byteLength(Bot.substitutePattern(ircTemplate, { text: '_' }), 'utf8') - 1);
+                for (const formatted of sentences) {
+                    if (!formatted)
+                        continue;
+                    // Each continuation line gets the full wrapper, including the <nick> prefix
+                    // Paste previews only keep the first line of each, the link has the rest
+                    const parts = (0, line_splitter_1.splitIRCMessage)(formatted, textBudget);
+                    for (const part of pasteURL ? parts.slice(0, 1) : parts) {
+                        const sentence = Bot.substitutePattern(ircTemplate, { text: part });
+                        logger_1.logger.debug('Sending message to IRC', ircChannel, sentence);
+                        say(sentence);
+                        // Record each line for edit/delete tracking
+                        this.messageSync.recordMessage(message.id, ircChannel, sentence, nickname);
+                    }
+                }
+                if (pasteURL) {
+                    // Sent without markdown conversion so underscores in the URL survive
+                    const lineCount = markdown.split('\n').length;
+                    const pasteLine = Bot.substitutePattern(ircTemplate, {
+                        text: `[${lineCount} ${lineCount === 1 ? 'line' : 'lines'}] ${pasteURL}`,
+                    });
+                    logger_1.logger.debug('Sending paste link to IRC', ircChannel, pasteLine);
+                    say(pasteLine);
+                    this.messageSync.recordMessage(message.id, ircChannel, pasteLine, nickname);
+                }
+                // Record metrics for the whole message (not per sentence)
+                if (pasteURL || sentences.some(Boolean)) {
+                    this.metrics.recordDiscordToIRC(author.id, ircChannel);
+                    // Mark Discord as active (message sent to IRC)
+                    this.recoveryManager.recordSuccess('discord');
+                }
+            }
+            if (message.attachments && message.attachments.size) {
+                // attachments are a discord.Collection, not a JS object
+                for (const [, attachment] of message.attachments) {
+                    // Try to upload to S3 first, fall back to Discord URL
+                    let attachmentURL = attachment.url;
+                    if (this.s3Uploader) {
+                        try {
+                            const s3Url = await this.uploadAttachmentToS3(attachment, author.id);
+                            if (s3Url) {
+                                attachmentURL = s3Url;
+                                logger_1.logger.debug('Using S3 URL for attachment:', attachment.name);
+                            }
+                            else {
+                                logger_1.logger.debug('S3 upload failed, using Discord URL for attachment:', attachment.name);
+                            }
+                        }
+                        catch (error) {
+                            logger_1.logger.warn('S3 upload error, using Discord URL:', error);
+                        }
+                    }
+                    const urlMessage = Bot.substitutePattern(attachmentTemplate, { attachmentURL });
+                    logger_1.logger.debug('Sending attachment URL to IRC', ircChannel, urlMessage);
+                    say(urlMessage);
+                    // Record attachment metrics
+                    this.metrics.recordAttachment();
+                    // Record attachment URL for edit/delete tracking
+                    this.messageSync.recordMessage(message.id, ircChannel, urlMessage, nickname);
+                }
+            }
+        }
+        if (sentLines.length > 0) {
+            this.notify('relay:discordToIrc', {
+                discordMessageId: message.id,
+                discordChannelId: message.channel.id,
+                authorId: author.id,
+                author: nickname,
+                ircChannel,
+                text,
+                lines: sentLines,
+                replayed: relayed.replayed,
+            });
+        }
+        return { delivered: this.confirmIRCDelivery(message, ircChannel, echoes) };
+    }
+    /**
+     * Mapping key of a channelMapping target: without its channel key, lower-cased,
+     * and without a network qualifier when it's on our own network
+     */
+    normalizeIRCTarget(target) {
+        const { network, channel } = (0, network_1.parseIRCTarget)(target.split(' ')[0]);
+        return (network && network !== this.networkName ? `${network}/${channel}` : channel).toLowerCase();
+    }
+    /**
+     * Check a mapping can be made at runtime
+     * @returns The mapping key of the target
+     */
+    checkRuntimeChannelMapping(discordChannelId, ircTarget) {
+        if (this.configChannelMapping[discordChannelId]) {
+            throw new Error(`Discord channel ${discordChannelId} is mapped in the config file`);
+        }
+        (0, validators_1.validateChannelMapping)({ [discordChannelId]: ircTarget }, this.getIRCNetworkNames());
+        // Like in the config file, several Discord channels can share an IRC channel. Runtime
+        // mappings relay both ways, so they can't conflict with the directions of the others
+        return this.normalizeIRCTarget(ircTarget);
+    }
+    setRuntimeChannelMapping(discordChannelId, ircTarget, ircChannel) {
+        const previous = this.runtimeChannelMapping.get(discordChannelId);
+        if (previous) {
+            this.removeRuntimeChannelMapping(discordChannelId, previous, ircChannel);
+        }
+        this.channelMapping[discordChannelId] = ircChannel;
+        if (!this.invertedMapping[ircChannel]) {
+            this.invertedMapping[ircChannel] = discordChannelId;
+        }
+        this.runtimeChannelMapping.set(discordChannelId, ircTarget);
+        this.joinMappedChannel(ircTarget);
+    }
+    /**
+     * Drop a runtime mapping, and part its IRC channel unless another Discord channel is still mapped to it
+     * @param remappedTo Mapping key of the IRC channel the Discord channel is mapped to next, which stays joined
+     */
+    removeRuntimeChannelMapping(discordChannelId, ircTarget, remappedTo) {
+        const ircChannel = this.channelMapping[discordChannelId];
+        delete this.channelMapping[discordChannelId];
+        this.runtimeChannelMapping.delete(discordChannelId);
+        const others = Object.keys(this.channelMapping).filter(key => this.channelMapping[key] === ircChannel);
+        if (this.invertedMapping[ircChannel] === discordChannelId) {
+            const next = others.find(key => (0, channel_mapping_1.relaysToDiscord)(this.getMappingOptions(key)));
+            if (next) {
+                this.invertedMapping[ircChannel] = next;
+            }
+            else {
+                delete this.invertedMapping[ircChannel];
+            }
+        }
+        if (others.length === 0 && ircChannel !== remappedTo) {
+            this.partMappedChannel(ircTarget);
+        }
+    }
+    /**
+     * Apply the stored runtime mappings, skipping any the config file or other networks no longer allow
+     */
+    async loadStoredChannelMappings() {
+        for (const { discordChannelId, ircChannel: ircTarget } of await this.persistence.getChannelMappings()) {
+            try {
+                this.setRuntimeChannelMapping(discordChannelId, ircTarget, this.checkRuntimeChannelMapping(discordChannelId, ircTarget));
+            }
+            catch (error) {
+                logger_1.logger.warn(`Ignoring stored channel mapping for ${discordChannelId}: ${error.message}`);
+            }
+        }
+        if (this.runtimeChannelMapping.size > 0) {
+            logger_1.logger.info(`Loaded ${this.runtimeChannelMapping.size} channel mapping(s) from the database`);
+        }
+    }
+    /**
+     * Join a mapped channel, or add it to the channels joined on connecting
+     */
+    joinMappedChannel(ircTarget) {
+        const [name, ...key] = ircTarget.split(' ');
+        const { network, channel } = (0, network_1.parseIRCTarget)(name);
+        const channelWithKey = [channel, ...key].join(' ');
+        if (network && network !== this.networkName) {
+            this.networks.get(network)?.join(channelWithKey);
+            return;
+        }
+        // irc-upd shares this list with the client and rejoins everything in it after reconnecting
+        const index = this.channels.findIndex((joined) => joined.split(' ')[0].toLowerCase() === channel.toLowerCase());
+        if (index === -1) {
+            this.channels.push(channelWithKey);
+        }
+        else {
+            this.channels[index] = channelWithKey;
+        }
+        if (this.isIRCConnected()) {
+            this.joinIRCChannel(channel, key.join(' ') || undefined);
+        }
+    }
+    partMappedChannel(ircTarget) {
+        const { network, channel } = (0, network_1.parseIRCTarget)(ircTarget.split(' ')[0]);
+        if (network && network !== this.networkName) {
+            this.networks.get(network)?.part(channel);
+            return;
+        }
+        const index = this.channels.findIndex((joined) => joined.split(' ')[0].toLowerCase() === channel.toLowerCase());
+        if (index !== -1) {
+            this.channels.splice(index, 1);
+        }
+        if (this.isIRCConnected()) {
+            this.partIRCChannel(channel);
+        }
+    }
+    /**
+     * Channels to join on a network, with their keys
+     */
+    getNetworkChannels(mapping, network) {
+        return Object.values(mapping).flatMap((target) => {
+            const [name, ...key] = target.split(' ');
+            const parsed = (0, network_1.parseIRCTarget)(name);
+            if ((parsed.network ?? this.networkName) !== network)
+                return [];
+            return [[parsed.channel, ...key].join(' ')];
+        });
+    }
+    /**
+     * IRC client for an additional network, reconnects are left to the network's recovery manager
+     */
+    createNetworkClient(server, nickname, channels, ircOptions = {}) {
+        return new irc_upd_1.default.Client(server, nickname, {
+            encoding: 'utf-8',
+            ...ircOptions,
+            userName: nickname,
+            realName: nickname,
+            channels,
+            floodProtection: true,
+            floodProtectionDelay: 500,
+            retryCount: 0,
+            autoRenick: true,
+            autoConnect: false,
+        });
+    }
+    /**
+     * Relay an additional network's channel messages, and replay the outbox once it is connected
+     */
+    attachNetworkListeners(network) {
+        network.on('message', (author, channel, text, ircMessage) => {
+            this.sendToDiscord(author, channel, text, ircMessage).catch((error) => {
+                logger_1.logger.error(`Error sending IRC message from ${network.name} to Discord:`, error);
+            });
+        });
+        network.on('action', (author, channel, text, ircMessage) => {
+            this.sendToDiscord(author, channel, `_${text}_`, ircMessage).catch((error) => {
+                logger_1.logger.error(`Error sending IRC action from ${network.name} to Discord:`, error);
+            });
+        });
+        network.on('notice', (author, channel, text, ircMessage) => {
+            this.sendToDiscord(author, channel, `*${text}*`, ircMessage).catch((error) => {
+                logger_1.logger.error(`Error sending IRC notice from ${network.name} to Discord:`, error);
+            });
+        });
+        network.on('topic', (channel, topic, nick, ircMessage) => {
+            this.handleIRCTopic(channel, topic, nick, ircMessage).catch((error) => {
+                logger_1.logger.error(`Error syncing IRC topic from ${network.name} to Discord:`, error);
+            });
+        });
+        network.on('registered', () => {
+            this.metrics.recordNetworkConnected(network.name, true);
+            this.notify('irc:connected', {
+                network: network.name,
+                server: network.server,
+                nickname: network.client.nick ?? network.nickname,
+            });
+            this.flushIRCOutbox().catch((error) => {
+                logger_1.logger.error('Error replaying IRC outbox:', error);
+            });
+        });
+        network.on('disconnected', () => {
+            this.metrics.recordNetworkConnected(network.name, false);
+        });
+    }
+    /**
+     * IRC nick for a Discord user's puppet connection
+     */
+    getPuppetNick(displayName) {
+        return (0, puppet_manager_1.toIRCNick)(this.sanitizeNickname(displayName), this.puppetConfig.nickSuffix, this.puppetConfig.maxNickLength);
+    }
+    /**
+     * IRC client for a puppet, connecting to the bot's server without the bot's credentials
+     */
+    createPuppetClient(nick) {
+        const sharedOptions = Object.fromEntries(Object.entries((this.ircOptions ?? {}))
+            .filter(([key]) => PUPPET_IRC_OPTIONS.includes(key)));
+        return new irc_upd_1.default.Client(this.server, nick, {
+            encoding: 'utf-8',
+            ...sharedOptions,
+            userName: 'discord',
+            realName: `${nick} (Discord)`,
+            channels: [],
+            floodProtection: true,
+            floodProtectionDelay: 500,
+            retryCount: 0, // Reconnects are queued through the recovery manager
+            autoRejoin: false,
+            autoRenick: true,
+            autoConnect: false,
+        });
+    }
+    /**
+     * Pass a private message sent to a puppet on to the Discord user it belongs to
+     */
+    async forwardPuppetPrivateMessage(userId, from, text) {
+        if (this.ignoredIrcUser(from))
+            return;
+        const user = await this.discord.users.fetch(userId);
+        await user.send(`**<${from}>** ${(0, formatting_1.formatFromIRCToDiscord)(text)}`);
+    }
+    /**
+     * Author and quoted start of the message a Discord reply refers to
+     */
+    async getReplyContext(message) {
+        const referenceId = message.reference?.messageId;
+        if (!referenceId)
+            return null;
+        return this.quoteBridgedMessage(referenceId, async () => message.fetchReference());
+    }
+    /**
+     * Author and quoted start of a message in a bridged channel, as shown on IRC
+     * Messages that were relayed from IRC are attributed to the original IRC nick
+     * @param fetchMessage Loads the Discord message when it didn't come from IRC
+     */
+    async quoteBridgedMessage(messageId, fetchMessage) {
+        let nickname;
+        let quoted;
+        const ircOrigin = this.messageSync.getIRCMessage(messageId);
+        if (ircOrigin) {
+            nickname = ircOrigin.ircNick;
+            quoted = (0, formatting_1.stripIRCFormatting)(ircOrigin.text);
+        }
+        else {
+            try {
+                const referenced = await fetchMessage();
+                nickname = referenced.webhookId
+                    ? referenced.author.username
+                    : Bot.getDiscordNicknameOnServer(referenced.author, referenced.guild);
+                quoted = this.parseText(referenced);
+            }
+            catch (error) {
+                logger_1.logger.debug(`Could not fetch Discord message ${messageId}:`, error);
+                return null;
+            }
+        }
+        const characters = [...quoted.replace(/\s+/g, ' ').trim()];
+        const text = characters.length > REPLY_QUOTE_LENGTH
+            ? `${characters.slice(0, REPLY_QUOTE_LENGTH).join('').trimEnd()}…`
+            : characters.join('') || '…';
+        return { nickname, text };
+    }
+    /**
+     * Set the topic of the Discord channels an IRC channel is synced with, and tell them who changed it
+     */
+    async handleIRCTopic(channel, topic, nick, ircMessage) {
+        // Topics are also reported when joining, only changes are synced
+        if (ircMessage?.command !== 'TOPIC')
+            return;
+        const ircChannel = channel.toLowerCase();
+        if (this.topicSync.isEcho('irc', ircChannel, topic))
+            return;
+        if (nick && nick.toLowerCase() === this.getIRCTarget(ircChannel)?.client.nick?.toLowerCase())
+            return;
+        const discordTopic = (0, formatting_1.stripIRCFormatting)(topic).slice(0, topic_sync_1.DISCORD_TOPIC_MAX_LENGTH);
+        for (const { key, channel: discordChannel } of this.getDiscordTargets(ircChannel)) {
+            if (!this.getMappingOptions(key).topicSync || discordChannel.topic === discordTopic)
+                continue;
+            if (nick && this.ignoredIrcUser(nick, this.getChannelSettings(ircChannel, discordChannel.id).ignoreUsers))
+                continue;
+            logger_1.logger.info(`Syncing IRC topic of ${ircChannel} set by ${nick} to #${discordChannel.name}`);
+            await this.topicSync.updateDiscordTopic(discordChannel.id, discordTopic);
+            await discordChannel.send({
+                content: `*${nick}* changed the IRC topic to: ${discordTopic}`,
+                allowedMentions: { parse: [] },
+            });
+        }
+    }
+    async setDiscordTopic(channelId, topic) {
+        const channel = this.discord.channels.cache.get(channelId);
+        if (!channel || !isTextChannel(channel))
+            return;
+        await channel.setTopic(topic, 'Topic changed on IRC');
+    }
+    /**
+     * Set the IRC topic when a Discord channel synced with it changes its topic
+     * Needs ops on IRC, the IRC channel is told about the change either way
+     */
+    handleDiscordTopicChange(oldChannel, newChannel) {
+        if (!isTextChannel(newChannel) || oldChannel.topic === newChannel.topic)
+            return;
+        const topic = newChannel.topic ?? '';
+        if (this.topicSync.isEcho('discord', newChannel.id, topic))
+            return;
+        const key = this.getMappingKey(newChannel);
+        const ircChannel = this.channelMapping[key];
+        const options = this.getMappingOptions(key);
+        if (!ircChannel || !options.topicSync || !(0, channel_mapping_1.relaysToIRC)(options))
+            return;
+        const target = this.getIRCTarget(ircChannel);
+        if (!target || !this.isIRCConnected(target.network))
+            return;
+        // IRC topics are a single line, limited by the server
+        const topicLength = Number(target.userManager?.getServerInfo().supportedFeatures.get('TOPICLEN')) || undefined;
+        const ircTopic = topic.replace(/\s*\n\s*/g, ' ').slice(0, topicLength);
+        if (target.userManager?.getChannelInfo(target.channel)?.topic === ircTopic)
+            return;
+        if (this.hasChannelOps(target)) {
+            logger_1.logger.info(`Syncing Discord topic of #${newChannel.name} to ${ircChannel}`);
+            this.topicSync.markSynced('irc', ircChannel, ircTopic);
+            target.client.send('TOPIC', target.channel, ircTopic);
+        }
+        else {
+            logger_1.logger.info(`Not syncing Discord topic of #${newChannel.name} to ${ircChannel}, the bot has no ops there`);
+        }
+        target.client.notice(target.channel, `Topic of #${newChannel.name} on Discord changed to: ${ircTopic}`);
+    }
+    hasChannelOps(target) {
+        const nick = target.client.nick?.toLowerCase();
+        const self = target.userManager?.getChannelUsers(target.channel).find(user => user.nick.toLowerCase() === nick);
+        return Boolean(self?.isOperator || self?.isHalfOperator);
+    }
+    /**
+     * Relay a reaction on a bridged message to IRC
+     * Servers with message-tags get a +draft/react tag; the notice is only sent for
+     * channels listed in the reaction config
+     */
+    async handleReaction(reaction, user, removed) {
+        if (removed && !this.reactionConfig.relayRemovals)
+            return;
+        if (user.id === this.discord.user?.id)
+            return;
+        const { message } = reaction;
+        if (!message.channel || !isTextChannel(message.channel))
+            return;
+        const channelName = `#${message.channel.name}`;
+        const ircChannel = this.channelMapping[message.channel.id] || this.channelMapping[channelName];
+        if (!ircChannel || !(0, channel_mapping_1.relaysToIRC)(this.getMappingOptions(this.getMappingKey(message.channel))))
+            return;
+        // Channels that haven't opted in get neither notices nor native reactions
+        const optedIn = this.reactionConfig.channels.some(channel => channel === message.channel.id || channel.toLowerCase() === channelName.toLowerCase());
+        if (!optedIn)
+            return;
+        const settings = this.getChannelSettings(ircChannel, message.channel.id);
+        const reactor = user.partial ? await user.fetch() : user;
+        if (reactor.bot || this.ignoredDiscordUser(reactor, settings.ignoreUsers))
+            return;
+        // Capable servers get a native IRCv3 reaction, clients without support simply don't show it
+        const { emoji } = reaction;
+        const msgid = this.messageSync.getMsgid(message.id);
+        const ircTarget = this.getIRCTarget(ircChannel);
+        if (!removed && !emoji.id && emoji.name && msgid && ircTarget?.userManager?.hasCapability('message-tags')
+            && this.isIRCConnected(ircTarget.network)) {
+            ircTarget.client.send(`@${(0, capabilities_1.formatMessageTags)({ '+draft/react': emoji.name, '+draft/reply': msgid })}`, 'TAGMSG', ircTarget.channel);
+        }
+        const target = await this.quoteBridgedMessage(message.id, async () => (message.partial ? message.fetch() : message));
+        if (!target)
+            return;
+        let reactorName = Bot.getDiscordNicknameOnServer(reactor, message.guild);
+        if (settings.parallelPingFix) {
+            reactorName = `${reactorName.slice(0, 1)}\u200B${reactorName.slice(1)}`;
+        }
+        // Custom guild emoji can't be shown on IRC, so they are always sent by name
+        let emojiText;
+        if (emoji.id) {
+            emojiText = `:${emoji.name}:`;
+        }
+        else {
+            emojiText = this.reactionConfig.useShortcodes ? (0, emoji_shortcodes_1.emojiToShortcode)(emoji.name ?? '') : emoji.name ?? '';
+        }
+        if (!emojiText)
+            return;
+        this.reactionCoalescer.record(`${reactor.id}:${message.id}`, { ircChannel, reactor: reactorName, ...target }, emojiText, removed);
+    }
+    /**
+     * Send a group of reactions to IRC as a notice
+     */
+    sendReactionNotice(batch) {
+        // Channels may be on an additional network, e.g. "libera/#chan"
+        const target = this.getIRCTarget(batch.ircChannel);
+        if (!target || !this.isIRCConnected(target.network)) {
+            logger_1.logger.debug(`Dropping reactions for ${batch.ircChannel} while IRC is disconnected`);
+            return;
+        }
+        const quote = `${batch.nickname}: "${batch.text}"`;
+        if (batch.added.length > 0) {
+            target.client.notice(target.channel, `* ${batch.reactor} reacted ${batch.added.join(' ')} to ${quote}`);
+        }
+        if (batch.removed.length > 0) {
+            target.client.notice(target.channel, `* ${batch.reactor} removed ${batch.removed.join(' ')} from ${quote}`);
+        }
+    }
+    /**
+     * Whether a Discord message is long enough to be offloaded instead of sent line by line
+     */
+    isPaste(text) {
+        if (!this.pasteConfig.enabled)
+            return false;
+        return text.split('\n').length > this.pasteConfig.maxLines
+            || Buffer.byteLength(text, 'utf8') > this.pasteConfig.maxBytes
+            || (this.pasteConfig.offloadCodeBlocks && /```[\s\S]*```/.test(text));
+    }
+    /**
+     * Upload a paste to the configured storage
+     * @returns Public URL of the paste, or null if it has to be sent inline
+     */
+    async uploadPaste(userId, text) {
+        try {
+            if (this.pasteConfig.storage === 'local') {
+                return this.pasteStore ? await this.pasteStore.save(text) : null;
+            }
+            if (!this.s3Uploader) {
+                logger_1.logger.debug('No S3 uploader configured, sending paste inline');
+                return null;
+            }
+            const result = await this.s3Uploader.uploadFile(userId, Buffer.from(text, 'utf8'), `paste-${Date.now()}.txt`, undefined, 'text/plain; charset=utf-8');
+            if (result.success && result.url) {
+                return result.url;
+            }
+            logger_1.logger.warn('Paste upload to S3 failed, sending inline:', result.error);
+            return null;
+        }
+        catch (error) {
+            logger_1.logger.warn('Paste upload failed, sending inline:', error);
+            return null;
+        }
+    }
+    /**
+     * Store a Discord message in the persistent outbox until IRC is reachable again
+     * Falls back to telling the author the message was not sent when the outbox
+     * is disabled, full or cannot be written
+     */
+    async queueForIRC(message, ircChannel, messageContent) {
+        const { author } = message;
+        let rejection = 'IRC connection is down. Your message was not delivered to IRC. Please wait for reconnection.';
+        if (this.outboxConfig.enabled) {
+            try {
+                const queued = await this.persistence.countOutboxMessages(ircChannel);
+                if (queued < this.outboxConfig.maxMessagesPerChannel) {
+                    await this.persistence.enqueueOutboxMessage({
+                        ircChannel,
+                        discordChannelId: message.channel.id,
+                        discordMessageId: message.id,
+                        authorId: author.id,
+                        content: messageContent,
+                    });
+                    logger_1.logger.info(`Queued message from ${author.username} for ${ircChannel} until IRC reconnects (${queued + 1} queued)`);
+                    await this.setOutboxStatus(message, 'queued');
+                    return;
+                }
+                logger_1.logger.warn(`Outbox for ${ircChannel} is full (${queued} messages), dropping message from ${author.username}`);
+                rejection = 'IRC connection is down and too many messages are already waiting for delivery.';
+            }
+            catch (error) {
+                logger_1.logger.error('Failed to queue message for IRC:', error);
+            }
+        }
+        else {
+            logger_1.logger.warn(`Message from ${author.username} dropped - IRC not connected`);
+        }
+        this.notifyDropped('discordToIrc', author.username, messageContent, 'undeliverable', {
+            ircChannel,
+            discordMessageId: message.id,
+        });
+        // Reply to the user's message to alert them
+        try {
+            await message.reply(`⚠️ **Message not sent** - ${rejection}`);
+        }
+        catch (error) {
+            logger_1.logger.debug(`Could not reply to ${author.username} about dropped message:`, error);
+        }
+    }
+    /**
+     * Wait for the server to echo back every line of a relayed Discord message
+     * Without echo-message there is nothing to wait for and delivery is assumed
+     */
+    async confirmIRCDelivery(message, ircChannel, echoes) {
+        if (echoes.length === 0)
+            return true;
+        const confirmations = await Promise.all(echoes);
+        if (confirmations.some(confirmation => confirmation === null)) {
+            logger_1.logger.warn(`No echo from the IRC server for message ${message.id} in ${ircChannel}, it may not have been delivered`);
+            return false;
+        }
+        // The first line stands for the whole message when IRC clients reply or react to it
+        const [first] = confirmations;
+        if (first.msgid) {
+            this.messageSync.recordMsgid(first.msgid, message.id);
+        }
+        const latencyMs = Math.max(...confirmations.map(confirmation => confirmation.latencyMs));
+        this.metrics.recordLatency(latencyMs);
+        logger_1.logger.debug(`IRC server confirmed delivery of message ${message.id} to ${ircChannel} after ${latencyMs}ms`);
+        return true;
+    }
+    /**
+     * Drop messages the server echoes back to us, confirming delivery of the lines we sent
+     * Servers only send our own messages back when echo-message is enabled
+     */
+    isOwnEcho(author, target, text, ircMessage) {
+        if (!author || author.toLowerCase() !== this.ircClient.nick?.toLowerCase())
+            return false;
+        this.ircEchoes.confirm(target, text, (0, capabilities_1.getMessageTag)(ircMessage, 'msgid'));
+        return true;
+    }
+    /**
+     * Add IRC reactions (+draft/react) to the Discord message they refer to
+     */
+    async handleIRCTagMessage(message) {
+        const author = message.nick;
+        const [target] = message.args;
+        if (!author || !target || author.toLowerCase() === this.ircClient.nick?.toLowerCase())
+            return;
+        if (this.ignoredIrcUser(author, this.getIRCChannelSettings(target).ignoreUsers))
+            return;
+        const emoji = (0, capabilities_1.getMessageTag)(message, '+draft/react');
+        const replyTo = (0, capabilities_1.getMessageTag)(message, '+draft/reply');
+        if (!emoji || !replyTo)
+            return;
+        const discordMessageId = this.messageSync.getDiscordMessageId(replyTo);
+        const discordChannel = this.findDiscordChannel(target);
+        if (!discordMessageId || !discordChannel)
+            return;
+        try {
+            const reacted = await discordChannel.messages.fetch(discordMessageId);
+            await reacted.react(emoji);
+        }
+        catch (error) {
+            // Discord only accepts unicode emoji and its own custom emoji
+            logger_1.logger.debug(`Could not add IRC reaction ${emoji} from ${author} to Discord message ${discordMessageId}:`, error);
+        }
+    }
+    /**
+     * Server time and account name of an incoming IRC message, where the server provides them
+     */
+    getIRCMessageMeta(author, ircMessage, userManager) {
+        return {
+            time: (0, capabilities_1.getServerTime)(ircMessage),
+            account: (0, capabilities_1.getAccountTag)(ircMessage) ?? userManager?.getUserInfo(author)?.account,
+            msgid: (0, capabilities_1.getMessageTag)(ircMessage, 'msgid'),
+            replyTo: (0, capabilities_1.getMessageTag)(ircMessage, '+draft/reply'),
+        };
+    }
+    /**
+     * Show the delivery state of a queued message to its author via reactions
+     */
+    async setOutboxStatus(message, status) {
+        try {
+            if (status !== 'queued') {
+                await message.reactions.cache.get(OUTBOX_STATUS_EMOJI.queued)?.users.remove();
+            }
+            await message.react(OUTBOX_STATUS_EMOJI[status]);
+        }
+        catch (error) {
+            logger_1.logger.debug(`Could not update outbox status on message ${message.id}:`, error);
+        }
+    }
+    async fetchOutboxMessage(entry) {
+        try {
+            const channel = await this.discord.channels.fetch(entry.discordChannelId);
+            if (!channel || (!isTextChannel(channel) && !isThreadChannel(channel)))
+                return null;
+            return await channel.messages.fetch(entry.discordMessageId);
+        }
+        catch (error) {
+            logger_1.logger.debug(`Queued message ${entry.discordMessageId} could not be fetched:`, error);
+            return null;
+        }
+    }
+    /**
+     * Wait until the bot has joined an IRC channel
+     * Channels are joined after the MOTD, so replaying right after registration
+     * would otherwise hit "cannot send to channel" on +n channels
+     */
+    async waitForIRCChannelJoin(ircChannel, timeoutMs = 30000) {
+        const target = this.getIRCTarget(ircChannel);
+        const client = target?.client;
+        if (!target || !client)
+            return false;
+        const channel = target.channel.toLowerCase();
+        if (client.chans?.[channel])
+            return true;
+        return new Promise((resolve) => {
+            const onJoin = (channelName, nick) => {
+                if (nick === client.nick && channelName.toLowerCase() === channel) {
+                    clearTimeout(timeout);
+                    client.removeListener('join', onJoin);
+                    resolve(true);
+                }
+            };
+            const timeout = setTimeout(() => {
+                client.removeListener('join', onJoin);
+                resolve(false);
+            }, timeoutMs);
+            client.on('join', onJoin);
+        });
+    }
+    /**
+     * Replay queued Discord messages to IRC in the order they were sent
+     * Messages older than outbox.maxAgeMinutes are discarded instead
+     */
+    async flushIRCOutbox() {
+        if (!this.outboxConfig.enabled || this.outboxFlushing)
+            return;
+        this.outboxFlushing = true;
+        try {
+            const skippedChannels = new Set();
+            let pending = await this.persistence.getOutboxMessages();
+            // Messages queued during the replay are appended, so keep going until drained
+            while (pending.some(entry => !skippedChannels.has(entry.ircChannel))) {
+                logger_1.logger.info(`Replaying ${pending.length} queued message(s) to IRC`);
+                const cutoff = Date.now() - this.outboxConfig.maxAgeMinutes * 60 * 1000;
+                for (const entry of pending) {
+                    if (skippedChannels.has(entry.ircChannel))
+                        continue;
+                    // Each network's messages wait for that network to be connected
+                    if (!this.isIRCConnected((0, network_1.parseIRCTarget)(entry.ircChannel).network)) {
+                        logger_1.logger.warn(`IRC disconnected during outbox replay, messages for ${entry.ircChannel} stay queued`);
+                        skippedChannels.add(entry.ircChannel);
+                        continue;
+                    }
+                    if (!await this.waitForIRCChannelJoin(entry.ircChannel)) {
+                        logger_1.logger.warn(`Not in ${entry.ircChannel} yet, leaving its queued messages for the next reconnection`);
+                        skippedChannels.add(entry.ircChannel);
+                        continue;
+                    }
+                    const message = await this.fetchOutboxMessage(entry);
+                    if (entry.createdAt < cutoff) {
+                        logger_1.logger.debug(`Discarding expired outbox message ${entry.discordMessageId}`);
+                        if (message)
+                            await this.setOutboxStatus(message, 'expired');
+                        this.notifyDropped('discordToIrc', message?.author.username ?? entry.authorId, entry.content, 'expired', {
+                            ircChannel: entry.ircChannel,
+                            discordMessageId: entry.discordMessageId,
+                        });
+                    }
+                    else if (message) {
+                        const receipt = await this.relayToIRC(message, entry.ircChannel, entry.content);
+                        if (await receipt.delivered) {
+                            await this.setOutboxStatus(message, 'delivered');
+                        }
+                    }
+                    else {
+                        logger_1.logger.debug(`Queued message ${entry.discordMessageId} no longer exists on Discord, dropping it`);
+                    }
+                    await this.persistence.deleteOutboxMessage(entry.id);
+                }
+                pending = await this.persistence.getOutboxMessages();
+            }
+        }
+        catch (error) {
+            logger_1.logger.error('Failed to replay IRC outbox:', error);
+        }
+        finally {
+            this.outboxFlushing = false;
+        }
+    }
+    findDiscordChannel(ircChannel) {
+        const discordChannelName = this.invertedMapping[ircChannel.toLowerCase()];
+        return discordChannelName ? this.resolveDiscordChannel(discordChannelName) : null;
+    }
+    /**
+     * Every Discord channel that IRC messages in the channel are relayed to, with its mapping key
+     * The channel findDiscordChannel returns comes first. Forums only get replies to their posts
+     */
+    getDiscordTargets(ircChannel) {
+        const mapped = ircChannel.toLowerCase();
+        const primary = this.invertedMapping[mapped];
+        const primaryChannel = this.findDiscordChannel(mapped);
+        const others = Object.keys(this.channelMapping).filter(key => key !== primary && this.channelMapping[key] === mapped && (0, channel_mapping_1.relaysToDiscord)(this.getMappingOptions(key)));
+        return [
+            ...(primaryChannel ? [{ key: primary, channel: primaryChannel }] : []),
+            ...others.flatMap((key) => {
+                const channel = this.resolveDiscordChannel(key);
+                return channel ? [{ key, channel }] : [];
+            }),
+        ].filter(({ channel }) => !isForumChannel(channel));
+    }
+    /**
+     * Forum channels that IRC replies in the channel can go to
+     */
+    getDiscordForums(ircChannel) {
+        const mapped = ircChannel.toLowerCase();
+        return Object.keys(this.channelMapping).flatMap((key) => {
+            if (this.channelMapping[key] !== mapped || !(0, channel_mapping_1.relaysToDiscord)(this.getMappingOptions(key)))
+                return [];
+            const channel = this.resolveDiscordChannel(key);
+            return channel && isForumChannel(channel) ? [channel] : [];
+        });
+    }
+    /**
+     * Mapped channel a Discord message is relayed from, with the tag its lines start with
+     * Threads mapped to IRC channels of their own are relayed like channels, posts in
+     * forums through the forum tagged with their short ID, and other threads through
+     * their parent tagged with the thread name when threads.mode is prefix
+     */
+    getRelayChannel(channel) {
+        if (isTextChannel(channel))
+            return { channel };
+        if (!isThreadChannel(channel))
+            return null;
+        if (this.channelMapping[channel.id])
+            return { channel: channel };
+        if (channel.parent && isForumChannel(channel.parent)) {
+            return { channel: channel.parent, threadTag: (0, forum_posts_1.getShortId)(channel.id) };
+        }
+        if (this.threadConfig.mode === 'prefix' && channel.parent && isTextChannel(channel.parent)) {
+            return { channel: channel.parent, threadTag: channel.name };
+        }
+        return null;
+    }
+    /**
+     * Mapping key of a Discord channel: its ID, or its #name for mappings by name
+     */
+    getMappingKey(channel) {
+        return this.channelMapping[channel.id] ? channel.id : `#${channel.name}`;
+    }
+    getMappingOptions(discordChannel) {
+        return this.mappingOptions.get(discordChannel) ?? channel_mapping_1.DEFAULT_MAPPING_OPTIONS;
+    }
+    /**
+     * Discord channel of a mapping key, by ID or #name
+     */
+    resolveDiscordChannel(discordChannelName) {
+        // #channel -> channel before retrieving and select only text channels:
+        let discordChannel;
+        if (this.discord.channels.cache.has(discordChannelName)) {
+            discordChannel = this.discord.channels.cache.get(discordChannelName);
+        }
+        else if (discordChannelName.startsWith('#')) {
+            discordChannel = this.discord.channels.cache
+                // unclear if this UNKNOWN is a test bug or happens in the real world
+                .filter((c) => c.type === 'text' ||
+                c.type === 'UNKNOWN' ||
+                c.type === 'GUILD_TEXT' ||
+                c.type === 'GUILD_FORUM')
+                .find((c) => c.name === discordChannelName.slice(1));
+        }
+        if (!discordChannel) {
+            logger_1.logger.info("Tried to send a message to a channel the bot isn't in: ", discordChannelName);
+            return null;
+        }
+        return discordChannel;
+    }
+    /**
+     * Set up webhooks for the mapped channels that don't have one
+     */
+    async provisionWebhooks() {
+        for (const discordChannel of Object.keys(this.channelMapping)) {
+            if (this.webhooks[discordChannel] || !(0, channel_mapping_1.relaysToDiscord)(this.getMappingOptions(discordChannel)))
+                continue;
+            await this.provisionWebhook(discordChannel);
+        }
+    }
+    /**
+     * Set up the managed webhook of a mapped Discord channel
+     * @param failedWebhookId Webhook that turned out to be deleted, it's replaced unless that already happened
+     */
+    async provisionWebhook(discordChannel, failedWebhookId) {
+        if (!this.webhookProvisioner || this.isConfiguredWebhook(discordChannel))
+            return null;
+        const current = this.webhooks[discordChannel];
+        if (current && current.id !== failedWebhookId)
+            return current;
+        // Threads have no webhooks of their own, and forum posts are made by the bot
+        const channel = this.resolveDiscordChannel(discordChannel);
+        if (!channel || isThreadChannel(channel) || isForumChannel(channel))
+            return null;
+        const webhook = await this.webhookProvisioner.provision(channel, failedWebhookId !== undefined);
+        // The channel may have been unmapped in the meantime
+        if (webhook && this.channelMapping[discordChannel]) {
+            this.webhooks[discordChannel]?.client.destroy();
+            this.webhooks[discordChannel] = webhook;
+        }
+        return webhook;
+    }
+    isConfiguredWebhook(discordChannel) {
+        return Boolean(this.webhookOptions?.[discordChannel]);
+    }
+    /**
+     * Webhook state of every mapped channel
+     */
+    getWebhookStatuses() {
+        return Object.keys(this.channelMapping).map((discordChannel) => {
+            if (this.isConfiguredWebhook(discordChannel))
+                return { discordChannel, state: 'configured' };
+            const channel = this.resolveDiscordChannel(discordChannel);
+            const status = channel ? this.webhookProvisioner?.getStatus(channel.id) : undefined;
+            return status ? { discordChannel, state: status.state, error: status.error } : { discordChannel, state: 'pending' };
+        });
+    }
+    findWebhook(ircChannel) {
+        const discordChannelName = this.invertedMapping[ircChannel.toLowerCase()];
+        return discordChannelName && this.webhooks[discordChannelName];
+    }
+    getDiscordAvatar(nick, channel, discordChannel = this.findDiscordChannel(channel)) {
+        if (!discordChannel)
+            return null;
+        const guildMembers = discordChannel.guild.members.cache;
+        const findByNicknameOrUsername = (caseSensitive) => (member) => {
+            if (caseSensitive) {
+                return member.user.username === nick || member.nickname === nick;
+            }
+            const nickLowerCase = nick.toLowerCase();
+            return (member.user.username.toLowerCase() === nickLowerCase ||
+                (member.nickname && member.nickname.toLowerCase() === nickLowerCase));
+        };
+        // Try to find exact matching case
         let users = guildMembers.filter(findByNicknameOrUsername(true));
         // Now let's search case insensitive.
         if (users.size === 0) {
@@ -1316,8 +2838,9 @@ class Bot {
                 return url;
         }
         // If there isn't a URL format, don't send an avatar at all
-        if (this.formatWebhookAvatarURL) {
-            return Bot.substitutePattern(this.formatWebhookAvatarURL, {
+        const { webhookAvatarURL } = this.getChannelSettings(channel, discordChannel.id).format;
+        if (webhookAvatarURL) {
+            return Bot.substitutePattern(webhookAvatarURL, {
                 nickname: nick,
             });
         }
@@ -1333,131 +2856,185 @@ class Bot {
     static caseStartsWith(str1, str2) {
         return str1.toUpperCase().startsWith(str2.toUpperCase());
     }
-    async sendToDiscord(author, channel, text) {
-        const discordChannel = this.findDiscordChannel(channel);
-        if (!discordChannel)
+    async sendToDiscord(author, channel, text, ircMessage) {
+        if (!this.invertedMapping[channel.toLowerCase()])
             return;
+        const target = this.getIRCTarget(channel);
+        // History replayed by the server or a bouncer was already relayed when it was sent
+        const batchType = target?.userManager?.getBatchType(ircMessage);
+        if (batchType && HISTORY_BATCH_TYPES.includes(batchType)) {
+            logger_1.logger.debug(`Skipping replayed ${batchType} message from ${author} in ${channel}`);
+            return;
+        }
         // Do not send to Discord if this user is on the ignore list.
-        if (this.ignoredIrcUser(author)) {
+        if (this.ignoredIrcUser(author, this.getIRCChannelSettings(channel).ignoreUsers)) {
+            this.notifyDropped('ircToDiscord', author, text, 'ignored', { ircChannel: channel });
             return;
         }
-        // Check rate limiting for IRC users
-        const rateLimitResult = this.rateLimiter.checkMessage(`irc:${author}`, // Use IRC nickname with prefix to distinguish from Discord IDs
-        author, text);
-        if (rateLimitResult) {
-            logger_1.logger.warn(`Message from IRC user ${author} blocked by rate limiter: ${rateLimitResult}`);
-            // Record blocked message metrics
-            this.metrics.recordMessageBlocked();
-            if (rateLimitResult.includes('warning')) {
-                this.metrics.recordUserWarned();
-            }
-            else if (rateLimitResult.includes('blocked')) {
-                this.metrics.recordUserBlocked();
-            }
-            if (rateLimitResult.includes('spam')) {
-                this.metrics.recordSpamDetected();
+        const meta = this.getIRCMessageMeta(author, ircMessage, target?.userManager);
+        // Hold the message while Discord is reconnecting, and keep ordering while a backlog
+        // is waiting or being flushed
+        if (!this.isDiscordAvailable() || this.discordBufferFlushing || this.discordBufferPending) {
+            // Checked as it arrives, the rateLimit stage lets buffered messages through when they are flushed
+            const checked = this.rateLimitIRCMessage({
+                direction: 'ircToDiscord',
+                author,
+                text,
+                ircChannel: channel,
+                replayed: false,
+                settings: this.getIRCChannelSettings(channel),
+                annotations: {},
+            });
+            if (!checked) {
+                this.notifyDropped('ircToDiscord', author, text, 'middleware', { ircChannel: channel, stage: 'rateLimit' });
+                return;
             }
-            // Send warning to IRC user via private message
-            try {
-                this.ircClient.say(author, `⚠️ Rate Limit Warning: ${rateLimitResult}. Please slow down your message sending rate.`);
+            await this.bufferForDiscord(author, channel, text, meta.time);
+            // A backlog left from before a restart has no recovery to flush it, the message starts it
+            if (this.isDiscordAvailable() && !this.discordBufferFlushing) {
+                await this.flushDiscordBuffer();
             }
-            catch (error) {
-                logger_1.logger.debug(`Could not send rate limit warning PM to ${author}:`, error);
+            return;
+        }
+        await this.relayToDiscord(author, channel, text, meta);
+    }
+    /**
+     * Format an IRC message and send it to the mapped Discord channels
+     * Shared by live relaying and buffer flushing
+     */
+    async relayToDiscord(author, channel, text, meta = {}, replayed = false) {
+        if (await this.relayForumReply(author, channel, text, meta, replayed))
+            return;
+        const primary = this.invertedMapping[channel.toLowerCase()];
+        for (const { key, channel: discordChannel } of this.getDiscordTargets(channel)) {
+            // IRCv3 replies, reactions and redactions refer to one Discord message, the copy in the first channel
+            const targetMeta = key === primary ? meta : { ...meta, msgid: undefined, replyTo: undefined };
+            await this.relayToDiscordChannel(author, channel, key, discordChannel, text, targetMeta, replayed);
+        }
+    }
+    /**
+     * Relay `!reply <shortid> text` to the forum post with the short ID
+     * @returns Whether the message was a reply to a post of a forum mapped to the channel
+     */
+    async relayForumReply(author, channel, text, meta, replayed) {
+        const match = forum_posts_1.FORUM_REPLY_PATTERN.exec(text);
+        if (!match)
+            return false;
+        const forums = this.getDiscordForums(channel);
+        if (forums.length === 0)
+            return false;
+        const [, shortId, reply] = match;
+        const post = (0, forum_posts_1.findOpenPost)(forums, shortId);
+        if (!post) {
+            logger_1.logger.debug(`No open forum post ${shortId} for the reply from ${author} in ${channel}`);
+            const target = this.getIRCTarget(channel);
+            if (target && this.isIRCConnected(target.network)) {
+                target.client.notice(author, `There's no open forum post with ID ${shortId}`);
             }
-            return; // Block the message
+            return true;
         }
-        // Convert text formatting (bold, italics, underscore)
-        const withFormat = (0, formatting_1.formatFromIRCToDiscord)(text);
+        // Posts are threads without webhooks, so the reply is posted by the bot
+        await this.relayToDiscordChannel(author, channel, post.id, post, reply, { ...meta, msgid: undefined, replyTo: undefined }, replayed);
+        return true;
+    }
+    async relayToDiscordChannel(author, channel, discordChannelKey, discordChannel, text, meta, replayed) {
+        // Time from the server receiving the message to relaying it, needs server-time
+        const latencyMs = meta.time ? Math.max(0, Date.now() - meta.time.getTime()) : undefined;
+        const settings = this.getChannelSettings(channel, discordChannel.id);
+        if (this.ignoredIrcUser(author, settings.ignoreUsers))
+            return;
+        const relayed = await this.middlewares.run({
+            direction: 'ircToDiscord',
+            author,
+            text,
+            ircChannel: channel,
+            discordChannel,
+            replayed,
+            settings,
+            annotations: {},
+        });
+        if (!relayed)
+            return;
+        let withMentions = relayed.text;
         const patternMap = {
             author,
             nickname: author,
             displayUsername: author,
-            text: withFormat,
+            account: meta.account,
+            text: relayed.annotations.textWithoutMentions ?? withMentions,
             discordChannel: `#${discordChannel.name}`,
             ircChannel: channel,
             side: undefined,
             withMentions: undefined,
             withFilteredMentions: undefined,
         };
-        if (this.isCommandMessage(text)) {
+        if (this.isCommandMessage(text, settings.commandCharacters)) {
             patternMap.side = 'IRC';
             logger_1.logger.debug('Sending command message to Discord', `#${discordChannel.name}`, text);
-            if (this.formatCommandPrelude) {
-                const prelude = Bot.substitutePattern(this.formatCommandPrelude, patternMap);
+            if (settings.format.commandPrelude) {
+                const prelude = Bot.substitutePattern(settings.format.commandPrelude, patternMap);
                 await discordChannel.send(prelude);
             }
-            await discordChannel.send(text);
+            const sent = await discordChannel.send(relayed.text);
+            if (sent) {
+                this.messageSync.recordIRCMessage(sent.id, channel, text, author, { msgid: meta.msgid });
+            }
+            this.notifyIRCToDiscord(author, channel, discordChannel.id, relayed.text, sent?.id, false, replayed);
             // Record metrics for command
-            this.metrics.recordIRCToDiscord(author, channel);
+            this.metrics.recordIRCToDiscord(author, channel, latencyMs);
             this.metrics.recordCommand();
             // Mark IRC as active (message received)
             this.recoveryManager.recordSuccess('irc');
             return;
         }
-        const { guild } = discordChannel;
-        // Process @username#discriminator mentions and emoji/channel references first
-        const processedText = withFormat
-            // @ts-expect-error TS doesn't seem to see the valid overload of replace here?
-            .replace(/@([^\s#]+)#(\d+)/g, (match, username, discriminator) => {
-            // @username#1234 => mention
-            // skips usernames including spaces for ease (they cannot include hashes)
-            // checks case insensitively as Discord does
-            const user = guild.members.cache.find((x) => Bot.caseComp(x.user.username, username) &&
-                x.user.discriminator === discriminator);
-            if (user)
-                return user;
-            return match;
-        })
-            // @ts-expect-error TS doesn't seem to see the valid overload of replace here?
-            .replace(/:(\w+):/g, (match, ident) => {
-            // :emoji: => mention, case sensitively
-            const emoji = guild.emojis.cache.find(
-            // @ts-expect-error TS doesn't seem to see the valid overload of replace here?
-            (x) => x.name === ident && x.requiresColons);
-            if (emoji)
-                return emoji;
-            return match;
-        })
-            // @ts-expect-error TS doesn't seem to see the valid overload of replace here?
-            .replace(/#([^\s#@'!?,.]+)/g, (match, channelName) => {
-            // channel names can't contain spaces, #, @, ', !, ?, , or .
-            // (based on brief testing. they also can't contain some other symbols,
-            // but these seem likely to be common around channel references)
-            // discord matches channel names case insensitively
-            const chan = guild.channels.cache.find((x) => Bot.caseComp(x.name, channelName));
-            return chan || match;
-        });
-        // Apply advanced mention detection for regular usernames
-        const mentionResult = this.mentionDetector.detectMentions(processedText, guild, author, Array.from(guild.members.cache.values()));
-        const withMentions = mentionResult.textWithMentions;
+        const replyToId = meta.replyTo ? this.messageSync.getDiscordMessageId(meta.replyTo) : undefined;
         // Webhooks first
-        const webhook = this.findWebhook(channel);
+        const webhook = this.webhooks[discordChannelKey];
         if (webhook) {
             logger_1.logger.debug('Sending message to Discord via webhook', withMentions, channel, '->', `#${discordChannel.name}`);
+            // Webhook messages can't be replies, so they link to the message instead
+            if (replyToId) {
+                withMentions = `[↪ reply](https://discord.com/channels/${discordChannel.guild.id}/${discordChannel.id}/${replyToId}) ${withMentions}`;
+            }
             const permissions = discordChannel.permissionsFor(this.discord.user);
             let canPingEveryone = false;
             if (permissions) {
                 canPingEveryone = permissions.has(discord_js_1.default.Permissions.FLAGS.MENTION_EVERYONE);
             }
-            const avatarURL = this.getDiscordAvatar(author, channel);
+            const avatarURL = this.getDiscordAvatar(author, channel, discordChannel);
             const username = author
                 .substring(0, USERNAME_MAX_LENGTH)
                 .padEnd(USERNAME_MIN_LENGTH, '_');
-            webhook.client
-                .send({
+            const sendThroughWebhook = async (client) => client.send({
                 content: withMentions,
                 username,
                 avatarURL,
                 allowedMentions: {
                     parse: canPingEveryone ? ['users', 'roles', 'everyone'] : ['users', 'roles'],
                 },
+            });
+            sendThroughWebhook(webhook.client)
+                .catch(async (error) => {
+                // Webhooks the bridge manages are replaced when they were deleted on Discord
+                const replacement = (0, webhook_provisioner_1.isUnknownWebhookError)(error)
+                    ? await this.provisionWebhook(discordChannelKey, String(webhook.id))
+                    : null;
+                if (!replacement)
+                    throw error;
+                logger_1.logger.info(`Webhook for ${discordChannelKey} was deleted, sent through its replacement`);
+                return sendThroughWebhook(replacement.client);
+            })
+                .then((sent) => {
+                // Remember the IRC origin so Discord replies can quote the IRC nick
+                this.messageSync.recordIRCMessage(sent.id, channel, text, author, { msgid: meta.msgid, webhook: true });
+                this.notifyIRCToDiscord(author, channel, discordChannel.id, withMentions, sent.id, true, replayed);
             })
                 .catch((error) => {
                 logger_1.logger.error(error);
                 this.metrics.recordWebhookError();
             });
             // Record metrics for webhook message
-            this.metrics.recordIRCToDiscord(author, channel);
+            this.metrics.recordIRCToDiscord(author, channel, latencyMs);
             // Mark IRC as active (message received)
             this.recoveryManager.recordSuccess('irc');
             return;
@@ -1466,34 +3043,164 @@ class Bot {
         patternMap.withFilteredMentions = withMentions.replace(/@(here|everyone)/gi, (match, part) => `ම${part}`);
         // Add bold formatting:
         // Use custom formatting from config / default formatting with bold author
-        const withAuthor = Bot.substitutePattern(this.formatDiscord, patternMap);
+        const withAuthor = Bot.substitutePattern(settings.format.discord, patternMap);
         logger_1.logger.debug('Sending message to Discord', withAuthor, channel, '->', `#${discordChannel.name}`);
-        await discordChannel.send(withAuthor);
+        // IRC replies to bridged messages become native Discord replies
+        const sent = replyToId
+            ? await discordChannel.send({ content: withAuthor, reply: { messageReference: replyToId, failIfNotExists: false } })
+            : await discordChannel.send(withAuthor);
+        if (sent) {
+            this.messageSync.recordIRCMessage(sent.id, channel, text, author, { msgid: meta.msgid });
+        }
+        this.notifyIRCToDiscord(author, channel, discordChannel.id, withAuthor, sent?.id, false, replayed);
         // Record metrics for regular message
-        this.metrics.recordIRCToDiscord(author, channel);
+        this.metrics.recordIRCToDiscord(author, channel, latencyMs);
         // Mark IRC as active (message received)
         this.recoveryManager.recordSuccess('irc');
     }
-    /* Sends a message to Discord exactly as it appears */
-    async sendExactToDiscord(channel, text) {
-        const discordChannel = this.findDiscordChannel(channel);
-        if (!discordChannel)
+    notifyIRCToDiscord(author, ircChannel, discordChannelId, text, discordMessageId, webhook, replayed) {
+        this.notify('relay:ircToDiscord', { author, ircChannel, discordChannelId, discordMessageId, text, webhook, replayed });
+    }
+    /**
+     * Whether messages can currently be delivered to Discord
+     */
+    isDiscordAvailable() {
+        if (!this.recoveryManager.isServiceAvailable('discord'))
+            return false;
+        return !this.discord.ws || this.discord.ws.status === discord_js_1.default.Constants.Status.READY;
+    }
+    /**
+     * Store an IRC message until Discord is reachable again
+     */
+    async bufferForDiscord(author, channel, text, time) {
+        if (!this.discordBufferConfig.enabled) {
+            logger_1.logger.warn(`Message from IRC user ${author} dropped - Discord not available`);
+            this.notifyDropped('ircToDiscord', author, text, 'undeliverable', { ircChannel: channel });
+            return;
+        }
+        try {
+            const buffered = await this.persistence.countBufferedDiscordMessages(channel);
+            if (buffered >= this.discordBufferConfig.maxMessagesPerChannel) {
+                logger_1.logger.warn(`Discord buffer for ${channel} is full (${buffered} messages), dropping message from ${author}`);
+                this.notifyDropped('ircToDiscord', author, text, 'undeliverable', { ircChannel: channel });
+                return;
+            }
+            await this.persistence.bufferDiscordMessage({ ircChannel: channel, author, text, createdAt: time?.getTime() });
+            this.discordBufferPending = true;
+            logger_1.logger.debug(`Buffered message from ${author} in ${channel} until Discord is available (${buffered + 1} buffered)`);
+        }
+        catch (error) {
+            logger_1.logger.error('Failed to buffer message for Discord:', error);
+        }
+    }
+    /**
+     * Deliver IRC messages buffered while Discord was unreachable, per channel in order
+     * Backlogs larger than discordBuffer.digestThreshold are sent as one text file
+     */
+    async flushDiscordBuffer() {
+        if (this.discordBufferFlushing)
+            return;
+        this.discordBufferFlushing = true;
+        try {
+            let pending = await this.persistence.getBufferedDiscordMessages();
+            // Messages buffered during the flush are appended, so keep going until drained
+            while (pending.length > 0) {
+                logger_1.logger.info(`Flushing ${pending.length} buffered IRC message(s) to Discord`);
+                const byChannel = new Map();
+                for (const entry of pending) {
+                    const entries = byChannel.get(entry.ircChannel) ?? [];
+                    entries.push(entry);
+                    byChannel.set(entry.ircChannel, entries);
+                }
+                for (const [ircChannel, entries] of byChannel) {
+                    if (!this.isDiscordAvailable()) {
+                        logger_1.logger.warn('Discord became unavailable during buffer flush, remaining messages stay buffered');
+                        return;
+                    }
+                    if (entries.length > this.discordBufferConfig.digestThreshold) {
+                        if (!(await this.flushBufferedEntries(entries, async () => this.sendDiscordDigest(ircChannel, entries))))
+                            return;
+                        continue;
+                    }
+                    for (const entry of entries) {
+                        const flushed = await this.flushBufferedEntries([entry], async () => this.relayToDiscord(entry.author, ircChannel, entry.text, {}, true));
+                        if (!flushed)
+                            return;
+                    }
+                }
+                pending = await this.persistence.getBufferedDiscordMessages();
+            }
+            this.discordBufferPending = false;
+        }
+        finally {
+            this.discordBufferFlushing = false;
+        }
+    }
+    /**
+     * Send buffered messages and remove them from the buffer
+     * A message Discord rejects is dropped, so it can't hold up the rest of the backlog
+     * @returns false when Discord went away, the messages then stay buffered
+     */
+    async flushBufferedEntries(entries, send) {
+        try {
+            await send();
+        }
+        catch (error) {
+            if (!this.isDiscordAvailable()) {
+                logger_1.logger.warn('Discord became unavailable during buffer flush, remaining messages stay buffered');
+                return false;
+            }
+            logger_1.logger.error(`Dropping ${entries.length} buffered message(s) for ${entries[0].ircChannel} that Discord rejected:`, error);
+            for (const entry of entries) {
+                this.notifyDropped('ircToDiscord', entry.author, entry.text, 'undeliverable', { ircChannel: entry.ircChannel });
+            }
+        }
+        await this.persistence.deleteBufferedDiscordMessages(entries[0].ircChannel, entries[entries.length - 1].id);
+        return true;
+    }
+    /**
+     * Collapse a channel's backlog into a single message with the transcript attached
+     */
+    async sendDiscordDigest(ircChannel, entries) {
+        const discordChannels = this.getDiscordTargets(ircChannel).map(({ channel }) => channel);
+        if (discordChannels.length === 0)
             return;
-        logger_1.logger.debug('Sending special message to Discord', text, channel, '->', `#${discordChannel.name}`);
-        await discordChannel.send(text);
+        const transcript = entries
+            .map(entry => `[${new Date(entry.createdAt).toISOString()}] <${entry.author}> ${entry.text}`)
+            .join('\n');
+        for (const discordChannel of discordChannels) {
+            logger_1.logger.info(`Sending digest of ${entries.length} buffered messages from ${ircChannel} to #${discordChannel.name}`);
+            await discordChannel.send({
+                content: `📨 **${entries.length} messages** in ${ircChannel} while Discord was unreachable`,
+                files: [{
+                        attachment: Buffer.from(transcript, 'utf8'),
+                        name: `${ircChannel.replace(/^#+/, '') || 'irc'}-backlog.txt`,
+                    }],
+            });
+        }
+        for (const entry of entries) {
+            this.metrics.recordIRCToDiscord(entry.author, ircChannel);
+        }
+    }
+    /* Sends a message to Discord exactly as it appears, in every channel IRC messages go to */
+    async sendExactToDiscord(channel, text) {
+        for (const { channel: discordChannel } of this.getDiscordTargets(channel)) {
+            logger_1.logger.debug('Sending special message to Discord', text, channel, '->', `#${discordChannel.name}`);
+            await discordChannel.send(text);
+        }
     }
     // IRC Command execution
     /**
      * Execute raw IRC command
      */
-    executeIRCCommand(command, ...args) {
-        logger_1.logger.info(`Executing IRC command: ${command} ${args.join(' ')}`);
-        this.ircClient.send(command, ...args);
+    executeIRCCommand(command, args = [], network) {
+        logger_1.logger.info(`Executing IRC command${network ? ` on ${network}` : ''}: ${command} ${args.join(' ')}`);
+        this.getIRCClient(network)?.send(command, ...args);
     }
     /**
      * Send raw IRC message (DANGEROUS: for internal use or trusted input only)
      */
-    sendRawIRC(rawMessage) {
+    sendRawIRC(rawMessage, network) {
         // CRITICAL: Add sanitization to prevent command injection
         const sanitizedMessage = rawMessage.replace(/[\r\n]/g, '');
         if (sanitizedMessage !== rawMessage) {
@@ -1503,8 +3210,8 @@ class Bot {
             logger_1.logger.warn('Attempted to send an empty raw IRC message.');
             return;
         }
-        logger_1.logger.info(`Sending raw IRC message: ${sanitizedMessage}`);
-        this.ircClient.conn?.write(`${sanitizedMessage}\r\n`);
+        logger_1.logger.info(`Sending raw IRC message${network ? ` on ${network}` : ''}: ${sanitizedMessage}`);
+        this.getIRCClient(network)?.conn?.write(`${sanitizedMessage}\r\n`);
     }
     /**
      * Join an IRC channel
@@ -1530,12 +3237,200 @@ class Bot {
             this.ircClient.part(channel);
         }
     }
+    /**
+     * Bridge a Discord channel to an IRC channel while running, and join the IRC channel
+     * The mapping is stored and restored on restart. Mappings from the config file can't be changed.
+     * @param ircTarget IRC channel like in channelMapping, e.g. "#chan", "libera/#chan" or "#chan key"
+     * @returns The mapping key of the IRC channel
+     */
+    async mapChannel(discordChannelId, ircTarget, createdBy) {
+        const ircChannel = this.checkRuntimeChannelMapping(discordChannelId, ircTarget);
+        await this.persistence.saveChannelMapping(discordChannelId, ircTarget, createdBy);
+        this.setRuntimeChannelMapping(discordChannelId, ircTarget, ircChannel);
+        if (this.webhookProvisioner && !this.webhooks[discordChannelId]) {
+            this.provisionWebhook(discordChannelId).catch(error => logger_1.logger.error('Failed to provision webhook:', error));
+        }
+        logger_1.logger.info(`Mapped Discord channel ${discordChannelId} to IRC channel ${ircChannel}`);
+        return ircChannel;
+    }
+    /**
+     * Remove a mapping made at runtime, and leave its IRC channel unless another Discord channel is mapped to it
+     * @returns The IRC channel that was unmapped, or null if the channel had no runtime mapping
+     */
+    async unmapChannel(discordChannelId) {
+        if (this.configChannelMapping[discordChannelId]) {
+            throw new Error(`Discord channel ${discordChannelId} is mapped in the config file`);
+        }
+        const ircTarget = this.runtimeChannelMapping.get(discordChannelId);
+        if (!ircTarget)
+            return null;
+        await this.persistence.deleteChannelMapping(discordChannelId);
+        const ircChannel = this.channelMapping[discordChannelId];
+        this.removeRuntimeChannelMapping(discordChannelId, ircTarget);
+        // The webhook itself stays on Discord and is reused if the channel is mapped again
+        if (this.webhooks[discordChannelId] && !this.isConfiguredWebhook(discordChannelId)) {
+            this.webhooks[discordChannelId].client.destroy();
+            delete this.webhooks[discordChannelId];
+        }
+        logger_1.logger.info(`Unmapped Discord channel ${discordChannelId} from IRC channel ${ircChannel}`);
+        return ircChannel;
+    }
+    /**
+     * Map a public thread to an IRC channel of its own when threads.mode is channel
+     * The channel is named after the parent's IRC channel and the thread
+     */
+    async mapThread(thread) {
+        if (this.threadConfig.mode !== 'channel' || thread.type !== 'GUILD_PUBLIC_THREAD' || thread.archived)
+            return;
+        if (this.channelMapping[thread.id] || thread.name.startsWith(this.pmThreadPrefix))
+            return;
+        if (!thread.parent || !isTextChannel(thread.parent))
+            return;
+        // Threads are relayed both ways, so one-way mappings don't get them
+        const parentKey = this.getMappingKey(thread.parent);
+        const ircChannel = this.channelMapping[parentKey];
+        if (!ircChannel || this.getMappingOptions(parentKey).direction !== 'both')
+            return;
+        // Threads named like one that is already mapped, or with no usable name, get the end of their ID
+        const target = this.getIRCTarget(ircChannel);
+        const maxLength = Number(target?.userManager?.getServerInfo().supportedFeatures.get('CHANNELLEN')) || thread_mapping_1.DEFAULT_CHANNEL_LENGTH;
+        let threadChannel = (0, thread_mapping_1.deriveThreadChannel)(ircChannel, thread.name, maxLength);
+        if (threadChannel === ircChannel || Object.values(this.channelMapping).includes(threadChannel)) {
+            threadChannel = (0, thread_mapping_1.deriveThreadChannel)(ircChannel, thread.name, maxLength, thread.id.slice(-6));
+        }
+        const mapped = await this.mapChannel(thread.id, threadChannel);
+        if (target && this.isIRCConnected(target.network)) {
+            target.client.notice(target.channel, `Discord thread "${thread.name}" is bridged to ${(0, network_1.parseIRCTarget)(mapped).channel}`);
+        }
+    }
+    /**
+     * Leave the IRC channel of an archived or deleted thread
+     */
+    async unmapThread(thread) {
+        if (!this.runtimeChannelMapping.has(thread.id))
+            return;
+        await this.unmapChannel(thread.id);
+    }
+    /**
+     * Announce a new post of a mapped forum on IRC
+     */
+    announceForumPost(thread) {
+        const forum = thread.parent;
+        const key = this.getMappingKey(forum);
+        const ircChannel = this.channelMapping[key];
+        if (!ircChannel || !(0, channel_mapping_1.relaysToIRC)(this.getMappingOptions(key)))
+            return;
+        const target = this.getIRCTarget(ircChannel);
+        if (!target || !this.isIRCConnected(target.network))
+            return;
+        const post = (0, forum_posts_1.toForumPost)(forum, thread);
+        const owner = post.ownerId ? this.discord.users.cache.get(post.ownerId) : undefined;
+        const author = owner ? Bot.getDiscordNicknameOnServer(owner, thread.guild) : undefined;
+        logger_1.logger.info(`Announcing forum post ${post.id} of #${forum.name} in ${ircChannel}`);
+        target.client.notice(target.channel, `New forum post ${(0, forum_posts_1.formatForumPost)(post, author)}, answer with !reply ${post.shortId} <text>`);
+    }
+    /**
+     * Mapped forum channels
+     */
+    getForumChannels() {
+        return Object.keys(this.channelMapping).flatMap((key) => {
+            const channel = this.resolveDiscordChannel(key);
+            return channel && isForumChannel(channel) ? [channel] : [];
+        });
+    }
+    /**
+     * Open posts of the mapped forums, or of one of them, newest first
+     */
+    getForumPosts(forumId, limit) {
+        const forums = this.getForumChannels().filter(forum => !forumId || forum.id === forumId);
+        return (0, forum_posts_1.getOpenPosts)(forums, limit);
+    }
+    /**
+     * List the open posts of a mapped forum in its IRC channel, so IRC users can reply to them
+     * @returns The number of posts listed
+     */
+    announceForumPosts(forumId, limit) {
+        const forum = this.getForumChannels().find(channel => channel.id === forumId);
+        if (!forum)
+            throw new Error(`Discord channel ${forumId} isn't a bridged forum`);
+        const key = this.getMappingKey(forum);
+        const target = this.getIRCTarget(this.channelMapping[key]);
+        if (!target || !this.isIRCConnected(target.network))
+            throw new Error('IRC is not connected');
+        const posts = (0, forum_posts_1.getOpenPosts)([forum], limit);
+        target.client.notice(target.channel, posts.length > 0
+            ? `Open posts in #${forum.name} on Discord, answer with !reply <id> <text>:`
+            : `There are no open posts in #${forum.name} on Discord`);
+        for (const post of posts) {
+            target.client.notice(target.channel, (0, forum_posts_1.formatForumPost)(post));
+        }
+        return posts.length;
+    }
+    /**
+     * Every channel mapping, with where it came from
+     */
+    getChannelMappings() {
+        return Object.entries(this.channelMapping).map(([discordChannel, ircChannel]) => ({
+            discordChannel,
+            ircChannel,
+            direction: this.getMappingOptions(discordChannel).direction,
+            source: this.runtimeChannelMapping.has(discordChannel) ? 'runtime' : 'config',
+        }));
+    }
     /**
      * Check if IRC client is currently connected and registered
      * This provides a reliable way for slash commands to check IRC availability
+     * Checks both flags AND actual socket state for reliability
+     */
+    isIRCConnected(network) {
+        if (network && network.toLowerCase() !== this.networkName) {
+            return this.networks.get(network.toLowerCase())?.isConnected() ?? false;
+        }
+        // Check flags first (fast path)
+        if (!this.ircConnected || !this.ircRegistered) {
+            return false;
+        }
+        // Also check actual socket state - connection may have died silently
+        if (!this.ircClient) {
+            return false;
+        }
+        // Check socket readyState if available
+        const socketState = this.ircClient.conn?.readyState ?? this.ircClient.readyState;
+        if (socketState && socketState !== 'open') {
+            // Update our flags to reflect reality
+            this.ircConnected = false;
+            this.ircRegistered = false;
+            logger_1.logger.warn(`IRC socket state is "${socketState}", marking as disconnected`);
+            return false;
+        }
+        return true;
+    }
+    /**
+     * Names of every IRC network the bridge connects to, its own first
+     */
+    getIRCNetworkNames() {
+        return [this.networkName, ...this.networks.keys()];
+    }
+    /**
+     * Client of an IRC network, our own when no network is given
+     * @returns undefined for unknown networks
      */
-    isIRCConnected() {
-        return this.ircConnected && this.ircRegistered;
+    getIRCClient(network) {
+        if (!network || network.toLowerCase() === this.networkName)
+            return this.ircClient;
+        return this.networks.get(network.toLowerCase())?.client;
+    }
+    /**
+     * Connection serving a channelMapping target, with the channel's name on that network
+     * @returns null for targets on a network that isn't configured
+     */
+    getIRCTarget(ircChannel) {
+        const { network, channel } = (0, network_1.parseIRCTarget)(ircChannel);
+        if (!network || network === this.networkName) {
+            return { network: this.networkName, client: this.ircClient, userManager: this.ircUserManager, channel };
+        }
+        const extra = this.networks.get(network);
+        return extra ? { network, client: extra.client, userManager: extra.userManager, channel } : null;
     }
     /**
      * Get IRC connection health information
@@ -1755,6 +3650,7 @@ class Bot {
             // Save to persistence
             await this.persistence.savePMThread(ircNick, newThread.id, pmChannel.id);
             logger_1.logger.debug(`Created new PM thread for ${ircNick}: ${newThread.id}`);
+            this.notify('pm:threadCreated', { ircNick, threadId: newThread.id, channelId: pmChannel.id });
             // Record PM thread creation metrics
             this.metrics.recordPMThreadCreated();
             // Send initial message explaining the thread
@@ -1782,7 +3678,7 @@ class Bot {
                 return;
             }
             // Format the message similar to regular IRC messages
-            const withFormat = (0, formatting_1.formatFromIRCToDiscord)(text);
+            const withFormat = (0, formatting_1.formatFromIRCToDiscord)(text, { ansiColors: this.formatAnsiColors });
             const patternMap = {
                 author: from,
                 nickname: from,
@@ -1856,7 +3752,7 @@ class Bot {
                 return true;
             }
             // Format message for IRC (remove Discord formatting)
-            text = (0, formatting_1.formatFromDiscordToIRC)(text);
+            text = (0, formatting_1.formatFromDiscordToIRC)(text, { spoiler: this.getChannelSettings().format.ircSpoiler });
             // Send to IRC user
             const lines = text.split('\n');
             for (const line of lines) {
@@ -1994,6 +3890,128 @@ class Bot {
             return null;
         }
     }
+    /**
+     * Load IRC outbox configuration from options
+     */
+    loadOutboxConfig(options = {}) {
+        return {
+            enabled: options.enabled ?? false,
+            maxAgeMinutes: options.maxAgeMinutes ?? 60,
+            maxMessagesPerChannel: options.maxMessagesPerChannel ?? 100,
+        };
+    }
+    /**
+     * Load paste offloading configuration from options
+     */
+    loadPasteConfig(options = {}) {
+        return {
+            enabled: options.enabled ?? false,
+            maxLines: options.maxLines ?? 5,
+            maxBytes: options.maxBytes ?? 1500,
+            offloadCodeBlocks: options.offloadCodeBlocks ?? true,
+            previewLines: options.previewLines ?? 2,
+            storage: options.storage ?? 's3',
+            localDirectory: options.localDirectory ?? './pastes',
+            publicUrl: options.publicUrl,
+            retentionHours: options.retentionHours ?? 168,
+        };
+    }
+    /**
+     * Load reaction relaying configuration from options
+     */
+    loadReactionConfig(options = {}) {
+        return {
+            channels: options.channels ?? [],
+            coalesceMs: options.coalesceMs ?? 3000,
+            useShortcodes: options.useShortcodes ?? false,
+            relayRemovals: options.relayRemovals ?? false,
+        };
+    }
+    /**
+     * Load IRC puppet configuration from options
+     */
+    loadPuppetConfig(options = {}) {
+        return {
+            enabled: options.enabled ?? false,
+            maxConnections: options.maxConnections ?? 20,
+            idleTimeoutMs: options.idleTimeoutMs ?? 1800000,
+            connectTimeoutMs: options.connectTimeoutMs ?? 15000,
+            nickSuffix: options.nickSuffix ?? '[d]',
+            maxNickLength: options.maxNickLength ?? 16,
+        };
+    }
+    /**
+     * Load IRC redaction configuration from options
+     */
+    loadRedactionConfig(options = {}) {
+        return {
+            enabled: options.enabled ?? true,
+            allowedBy: options.allowedBy ?? [],
+        };
+    }
+    /**
+     * Load thread configuration from options
+     */
+    loadThreadConfig(options = {}) {
+        return {
+            mode: options.mode ?? 'ignore',
+        };
+    }
+    /**
+     * Load Discord token rendering configuration from options
+     */
+    loadDiscordTokenConfig(options = {}) {
+        let timezone = options.timezone ?? 'UTC';
+        if (!(0, discord_tokens_1.isValidTimezone)(timezone)) {
+            logger_1.logger.warn(`Unknown time zone ${timezone} in discordTokens.timezone, showing timestamps in UTC`);
+            timezone = 'UTC';
+        }
+        return {
+            timezone,
+            timestamps: options.timestamps ?? 'absolute',
+            emojiShortcodes: options.emojiShortcodes ?? false,
+            animatedEmojiLinks: options.animatedEmojiLinks ?? false,
+        };
+    }
+    /**
+     * Load IRC to Discord emoji conversion configuration from options
+     */
+    loadEmojiConversionConfig(options = {}) {
+        return {
+            shortcodes: options.shortcodes ?? false,
+            emoticons: options.emoticons ?? false,
+        };
+    }
+    /**
+     * Load embed rendering configuration from options
+     */
+    loadEmbedConfig(options = {}) {
+        return {
+            mode: options.mode ?? 'full',
+            maxLines: options.maxLines ?? 10,
+            colorHints: options.colorHints ?? false,
+            sources: options.sources ?? {},
+        };
+    }
+    /**
+     * Load managed webhook configuration from options
+     */
+    loadAutoWebhookConfig(options = {}) {
+        return {
+            enabled: options.enabled ?? false,
+            name: options.name ?? 'IRC Bridge',
+        };
+    }
+    /**
+     * Load Discord buffer configuration from options
+     */
+    loadDiscordBufferConfig(options = {}) {
+        return {
+            enabled: options.enabled ?? false,
+            digestThreshold: options.digestThreshold ?? 20,
+            maxMessagesPerChannel: options.maxMessagesPerChannel ?? 1000,
+        };
+    }
     /**
      * Load mention configuration from options and environment variables
      */
@@ -2012,4 +4030,6 @@ class Bot {
 }
 exports.TEST_HACK_CHANNEL = Symbol();
 const isTextChannel = (channel) => channel.type === 'GUILD_TEXT' || exports.TEST_HACK_CHANNEL in channel;
+const isThreadChannel = (channel) => typeof channel.isThread === 'function' && channel.isThread();
+const isForumChannel = (channel) => channel.type === 'GUILD_FORUM';
 exports.default = Bot;
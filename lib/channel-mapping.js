@@ -0,0 +1,50 @@
+"use strict";
+/**
+ * Directional and fan-out channel mappings
+ *
+ * A channelMapping entry is either an IRC target like "#chan key", or an object
+ * with the target as `channel` and options for that Discord channel:
+ * 1. `direction` limits the mapping to one way: `discordToIrc` only relays the
+ *    Discord channel to IRC, `ircToDiscord` only relays IRC into it
+ * 2. Several Discord channels, also on different servers, can map to the same
+ *    IRC channel: IRC messages are relayed to each of them, and their messages
+ *    all go to the IRC channel
+ * 3. `sourceTag` prefixes the lines a Discord channel sends to IRC, so IRC users
+ *    can tell channels funnelled into one IRC channel apart
+ * 4. `topicSync` keeps the IRC and Discord topics the same, see topic-sync.ts
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.DEFAULT_MAPPING_OPTIONS = exports.DEFAULT_SOURCE_TAG = void 0;
+exports.parseMappingEntry = parseMappingEntry;
+exports.relaysToIRC = relaysToIRC;
+exports.relaysToDiscord = relaysToDiscord;
+exports.DEFAULT_SOURCE_TAG = '[{$guild}/{$discordChannel}]';
+exports.DEFAULT_MAPPING_OPTIONS = { direction: 'both' };
+/**
+ * Split a channelMapping entry into its IRC target and options
+ */
+function parseMappingEntry(entry) {
+    if (typeof entry === 'string')
+        return { target: entry, options: exports.DEFAULT_MAPPING_OPTIONS };
+    const sourceTag = entry.sourceTag === true ? exports.DEFAULT_SOURCE_TAG : entry.sourceTag || undefined;
+    return {
+        target: entry.channel,
+        options: {
+            direction: entry.direction ?? 'both',
+            ...(sourceTag && { sourceTag }),
+            ...(entry.topicSync && { topicSync: true }),
+        },
+    };
+}
+/**
+ * Whether messages from the Discord channel are relayed to IRC
+ */
+function relaysToIRC(options) {
+    return options.direction !== 'ircToDiscord';
+}
+/**
+ * Whether messages from IRC are relayed to the Discord channel
+ */
+function relaysToDiscord(options) {
+    return options.direction !== 'discordToIrc';
+}
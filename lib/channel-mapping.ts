@@ -0,0 +1,66 @@
+/**
+ * Directional and fan-out channel mappings
+ *
+ * A channelMapping entry is either an IRC target like "#chan key", or an object
+ * with the target as `channel` and options for that Discord channel:
+ * 1. `direction` limits the mapping to one way: `discordToIrc` only relays the
+ *    Discord channel to IRC, `ircToDiscord` only relays IRC into it
+ * 2. Several Discord channels, also on different servers, can map to the same
+ *    IRC channel: IRC messages are relayed to each of them, and their messages
+ *    all go to the IRC channel
+ * 3. `sourceTag` prefixes the lines a Discord channel sends to IRC, so IRC users
+ *    can tell channels funnelled into one IRC channel apart
+ * 4. `topicSync` keeps the IRC and Discord topics the same, see topic-sync.ts
+ */
+
+export type MappingDirection = 'both' | 'discordToIrc' | 'ircToDiscord';
+
+export interface ChannelMappingTarget {
+  channel: string; // IRC target, like the plain string form
+  direction?: MappingDirection;
+  sourceTag?: boolean | string; // true for DEFAULT_SOURCE_TAG, or a template with {$guild} and {$discordChannel}
+  topicSync?: boolean;
+}
+
+export type ChannelMappingEntry = string | ChannelMappingTarget;
+
+export interface MappingOptions {
+  direction: MappingDirection;
+  sourceTag?: string; // Template, unset when lines aren't tagged
+  topicSync?: boolean;
+}
+
+export const DEFAULT_SOURCE_TAG = '[{$guild}/{$discordChannel}]';
+
+export const DEFAULT_MAPPING_OPTIONS: MappingOptions = { direction: 'both' };
+
+/**
+ * Split a channelMapping entry into its IRC target and options
+ */
+export function parseMappingEntry(entry: ChannelMappingEntry): { target: string; options: MappingOptions } {
+  if (typeof entry === 'string') return { target: entry, options: DEFAULT_MAPPING_OPTIONS };
+
+  const sourceTag = entry.sourceTag === true ? DEFAULT_SOURCE_TAG : entry.sourceTag || undefined;
+  return {
+    target: entry.channel,
+    options: {
+      direction: entry.direction ?? 'both',
+      ...(sourceTag && { sourceTag }),
+      ...(entry.topicSync && { topicSync: true }),
+    },
+  };
+}
+
+/**
+ * Whether messages from the Discord channel are relayed to IRC
+ */
+export function relaysToIRC(options: MappingOptions): boolean {
+  return options.direction !== 'ircToDiscord';
+}
+
+/**
+ * Whether messages from IRC are relayed to the Discord channel
+ */
+export function relaysToDiscord(options: MappingOptions): boolean {
+  return options.direction !== 'discordToIrc';
+}
@@ -0,0 +1,31 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.isDiscordOverrideKey = isDiscordOverrideKey;
+exports.mergeSettings = mergeSettings;
+const DISCORD_CHANNEL_ID = /^\d+$/;
+/**
+ * Whether an override key names a Discord channel, by its ID, rather than an IRC channel
+ */
+function isDiscordOverrideKey(key) {
+    return DISCORD_CHANNEL_ID.test(key);
+}
+/**
+ * Merge an override into settings without changing either
+ */
+function mergeSettings(base, override) {
+    if (!override)
+        return base;
+    const merged = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+        if (value === undefined)
+            continue;
+        const current = merged[key];
+        merged[key] = isPlainObject(value) && isPlainObject(current)
+            ? mergeSettings(current, value)
+            : value;
+    }
+    return merged;
+}
+function isPlainObject(value) {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
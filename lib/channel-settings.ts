@@ -0,0 +1,73 @@
+import type { RateLimitConfig } from './rate-limiter';
+import type { StatusNotificationConfig } from './status-notifications';
+import type { SpoilerStyle } from './formatting';
+
+/**
+ * Per-channel configuration overrides
+ *
+ * `channelOverrides` is keyed by Discord channel ID or IRC channel, and each
+ * override is deep-merged over the global settings for messages in that channel:
+ * 1. Objects are merged key by key, arrays and other values replace the global ones
+ * 2. An override for the IRC channel applies first, then one for the Discord
+ *    channel, so the Discord side wins when both set the same field
+ */
+
+export interface ChannelFormat {
+  ircText: string;
+  ircReply: string;
+  urlAttachment: string;
+  discord: string;
+  commandPrelude: string | false; // false when command messages have no prelude
+  webhookAvatarURL?: string;
+  ircSpoiler: SpoilerStyle;
+  ansiColors: boolean;
+}
+
+export interface ChannelSettings {
+  format: ChannelFormat;
+  ircNickColor: boolean;
+  ircNickColors: string[];
+  parallelPingFix: boolean;
+  commandCharacters: string[];
+  ignoreUsers: { irc: string[]; discord: string[]; discordIds: string[] };
+  ircStatusNotices: boolean;
+  announceSelfJoin: boolean;
+  statusNotifications: Partial<Pick<StatusNotificationConfig, 'includeJoins' | 'includeLeaves' | 'includeQuits' | 'includeBotEvents'>>;
+  rateLimiting: Partial<RateLimitConfig>; // Thresholds for messages in the channel, activity is counted bridge-wide
+}
+
+type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends unknown[] ? T[K] : T[K] extends object ? DeepPartial<T[K]> : T[K];
+};
+
+export type ChannelOverride = DeepPartial<ChannelSettings>;
+
+const DISCORD_CHANNEL_ID = /^\d+$/;
+
+/**
+ * Whether an override key names a Discord channel, by its ID, rather than an IRC channel
+ */
+export function isDiscordOverrideKey(key: string): boolean {
+  return DISCORD_CHANNEL_ID.test(key);
+}
+
+/**
+ * Merge an override into settings without changing either
+ */
+export function mergeSettings<T>(base: T, override: DeepPartial<T> | undefined): T {
+  if (!override) return base;
+
+  const merged = { ...base } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    const current = merged[key];
+    merged[key] = isPlainObject(value) && isPlainObject(current)
+      ? mergeSettings(current, value)
+      : value;
+  }
+  return merged as T;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
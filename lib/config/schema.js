@@ -116,14 +116,163 @@ const recoverySchema = zod_1.z.object({
     jitterRange: zod_1.z.number().min(0).max(1).default(0.2),
     healthCheckInterval: zod_1.z.number().int().positive().default(30000),
     circuitBreakerThreshold: zod_1.z.number().int().positive().default(3),
-    circuitBreakerTimeout: zod_1.z.number().int().positive().default(300000)
+    circuitBreakerTimeout: zod_1.z.number().int().positive().default(300000),
+    puppetReconnectDelay: zod_1.z.number().int().min(0).default(2000)
 }).optional();
+// Outbox for Discord messages sent while IRC is unreachable
+const outboxSchema = zod_1.z.object({
+    enabled: zod_1.z.boolean().default(false),
+    maxAgeMinutes: zod_1.z.number().positive().default(60),
+    maxMessagesPerChannel: zod_1.z.number().int().positive().default(100)
+}).optional();
+// Buffer for IRC messages received while Discord is unreachable
+const discordBufferSchema = zod_1.z.object({
+    enabled: zod_1.z.boolean().default(false),
+    digestThreshold: zod_1.z.number().int().positive().default(20),
+    maxMessagesPerChannel: zod_1.z.number().int().positive().default(1000)
+}).optional();
+// Offloading of long or multi-line Discord messages to a paste link on IRC
+const pastesSchema = zod_1.z.object({
+    enabled: zod_1.z.boolean().default(false),
+    maxLines: zod_1.z.number().int().positive().default(5),
+    maxBytes: zod_1.z.number().int().positive().default(1500),
+    offloadCodeBlocks: zod_1.z.boolean().default(true),
+    previewLines: zod_1.z.number().int().min(0).default(2),
+    storage: zod_1.z.enum(['s3', 'local']).default('s3'),
+    localDirectory: zod_1.z.string().default('./pastes'),
+    publicUrl: zod_1.z.string().url().optional(),
+    retentionHours: zod_1.z.number().positive().default(168)
+}).optional();
+// Relaying of Discord reactions to IRC, per-channel opt-in
+const reactionsSchema = zod_1.z.object({
+    channels: zod_1.z.array(zod_1.z.string()).default([]),
+    coalesceMs: zod_1.z.number().int().min(0).default(3000),
+    useShortcodes: zod_1.z.boolean().default(false),
+    relayRemovals: zod_1.z.boolean().default(false)
+}).optional();
+// Per-Discord-user IRC puppet connections
+const puppetsSchema = zod_1.z.object({
+    enabled: zod_1.z.boolean().default(false),
+    maxConnections: zod_1.z.number().int().positive().default(20),
+    idleTimeoutMs: zod_1.z.number().int().positive().default(1800000),
+    connectTimeoutMs: zod_1.z.number().int().positive().default(15000),
+    nickSuffix: zod_1.z.string().default('[d]'),
+    maxNickLength: zod_1.z.number().int().positive().default(16)
+}).optional();
+// IRC redaction configuration
+const redactionsSchema = zod_1.z.object({
+    enabled: zod_1.z.boolean().default(true),
+    allowedBy: zod_1.z.array(zod_1.z.enum(['author', 'ops'])).default([])
+}).optional();
+// Webhooks the bridge creates for mapped channels
+const autoWebhooksSchema = zod_1.z.object({
+    enabled: zod_1.z.boolean().default(false),
+    name: zod_1.z.string().min(1).max(80).default('IRC Bridge')
+}).optional();
+// Messages in threads under mapped channels
+const threadsSchema = zod_1.z.object({
+    mode: zod_1.z.enum(['ignore', 'prefix', 'channel']).default('ignore')
+}).optional();
+// Timestamps, emoji and other Discord tokens as they are shown on IRC
+const discordTokensSchema = zod_1.z.object({
+    timezone: zod_1.z.string().default('UTC'),
+    timestamps: zod_1.z.enum(['absolute', 'relative']).default('absolute'),
+    emojiShortcodes: zod_1.z.boolean().default(false),
+    animatedEmojiLinks: zod_1.z.boolean().default(false)
+}).optional();
+// Shortcodes and emoticons from IRC as unicode emoji on Discord
+const emojiConversionSchema = zod_1.z.object({
+    shortcodes: zod_1.z.boolean().default(false),
+    emoticons: zod_1.z.boolean().default(false)
+}).optional();
+// Embeds of Discord messages as they are shown on IRC
+const embedModeSchema = zod_1.z.enum(['full', 'compact']);
+const embedsSchema = zod_1.z.object({
+    mode: embedModeSchema.default('full'),
+    maxLines: zod_1.z.number().int().min(0).default(10),
+    colorHints: zod_1.z.boolean().default(false),
+    sources: zod_1.z.record(zod_1.z.string(), embedModeSchema).default({})
+}).optional();
+// Message transform stage, a module path or (in JS configs) the middleware itself
+const middlewareSchema = zod_1.z.union([
+    zod_1.z.string().min(1),
+    zod_1.z.object({
+        name: zod_1.z.string().min(1),
+        direction: zod_1.z.enum(['discordToIrc', 'ircToDiscord']).optional(),
+        before: zod_1.z.string().optional(),
+        after: zod_1.z.string().optional(),
+        process: zod_1.z.custom(value => typeof value === 'function', {
+            message: 'Middleware process must be a function'
+        })
+    })
+]);
+// Additional IRC network, its channels are mapped as "<name>/#channel"
+const networkSchema = zod_1.z.object({
+    server: zod_1.z.string().min(1),
+    nickname: zod_1.z.string().min(1).optional(),
+    ircOptions: zod_1.z.record(zod_1.z.string(), zod_1.z.unknown()).optional(),
+    autoSendCommands: zod_1.z.array(zod_1.z.array(zod_1.z.string())).optional()
+});
 // Metrics configuration
 const metricsSchema = zod_1.z.object({
     enabled: zod_1.z.boolean().default(false),
     port: zod_1.z.number().int().positive().default(3001),
     path: zod_1.z.string().default('/metrics')
 }).optional();
+// IRC target of a Discord channel, optionally one-way, with a source tag or topic sync
+const channelMappingEntrySchema = zod_1.z.union([
+    zod_1.z.string(),
+    zod_1.z.object({
+        channel: zod_1.z.string(),
+        direction: zod_1.z.enum(['both', 'discordToIrc', 'ircToDiscord']).optional(),
+        sourceTag: zod_1.z.union([zod_1.z.boolean(), zod_1.z.string()]).optional(),
+        topicSync: zod_1.z.boolean().optional()
+    })
+]);
+// User ignore lists
+const ignoreUsersSchema = zod_1.z.object({
+    irc: zod_1.z.array(zod_1.z.string()).optional(),
+    discord: zod_1.z.array(zod_1.z.string()).optional(),
+    discordIds: zod_1.z.array(zod_1.z.string()).optional()
+}).optional();
+// Message formatting templates
+const formatSchema = zod_1.z.object({
+    ircText: zod_1.z.string().optional(),
+    ircReply: zod_1.z.string().optional(),
+    urlAttachment: zod_1.z.string().optional(),
+    discord: zod_1.z.string().optional(),
+    commandPrelude: zod_1.z.union([zod_1.z.string(), zod_1.z.boolean()]).optional(),
+    webhookAvatarURL: zod_1.z.string().optional(),
+    ircSpoiler: zod_1.z.enum(['hidden', 'marker']).optional(),
+    ansiColors: zod_1.z.boolean().optional()
+}).optional();
+// Per-channel settings, without defaults so unset fields keep the global value
+const channelOverrideSchema = zod_1.z.object({
+    format: formatSchema,
+    ircNickColor: zod_1.z.boolean().optional(),
+    ircNickColors: zod_1.z.array(zod_1.z.string()).optional(),
+    parallelPingFix: zod_1.z.boolean().optional(),
+    commandCharacters: zod_1.z.array(zod_1.z.string()).optional(),
+    ignoreUsers: ignoreUsersSchema,
+    ircStatusNotices: zod_1.z.boolean().optional(),
+    announceSelfJoin: zod_1.z.boolean().optional(),
+    statusNotifications: zod_1.z.object({
+        includeJoins: zod_1.z.boolean().optional(),
+        includeLeaves: zod_1.z.boolean().optional(),
+        includeQuits: zod_1.z.boolean().optional(),
+        includeBotEvents: zod_1.z.boolean().optional()
+    }).optional(),
+    rateLimiting: zod_1.z.object({
+        maxMessagesPerMinute: zod_1.z.number().int().positive().optional(),
+        maxMessagesPerHour: zod_1.z.number().int().positive().optional(),
+        duplicateMessageThreshold: zod_1.z.number().int().positive().optional(),
+        duplicateTimeWindow: zod_1.z.number().int().positive().optional(),
+        burstLimit: zod_1.z.number().int().positive().optional(),
+        burstWindow: zod_1.z.number().int().positive().optional(),
+        spamCooldownMinutes: zod_1.z.number().int().positive().optional(),
+        rateLimitCooldownSeconds: zod_1.z.number().int().positive().optional()
+    }).optional()
+});
 // Main configuration schema
 exports.configSchema = zod_1.z.object({
     // Required IRC settings
@@ -142,33 +291,38 @@ exports.configSchema = zod_1.z.object({
     // Auto-send commands on IRC connect (legacy support)
     autoSendCommands: zod_1.z.array(zod_1.z.array(zod_1.z.string())).optional(),
     // User ignore lists
-    ignoreUsers: zod_1.z.object({
-        irc: zod_1.z.array(zod_1.z.string()).optional(),
-        discord: zod_1.z.array(zod_1.z.string()).optional(),
-        discordIds: zod_1.z.array(zod_1.z.string()).optional()
-    }).optional(),
+    ignoreUsers: ignoreUsersSchema,
     // Required Discord settings
     discordToken: zod_1.z.string().min(1),
-    // Channel mapping (Discord channel ID/name -> IRC channel)
-    channelMapping: zod_1.z.record(zod_1.z.string(), zod_1.z.string()),
+    // Channel mapping (Discord channel ID/name -> IRC channel, or network/channel)
+    channelMapping: zod_1.z.record(zod_1.z.string(), channelMappingEntrySchema),
+    // Additional IRC networks by name, and the name of the main server's network
+    networks: zod_1.z.record(zod_1.z.string().regex(/^[^\s#&/]+$/, 'Network names cannot contain spaces, # & or /'), networkSchema).optional(),
+    networkName: zod_1.z.string().regex(/^[^\s#&/]+$/).optional(),
     // Optional features
     statusNotifications: statusNotificationSchema,
     s3: s3Schema,
     rateLimiting: rateLimitingSchema,
     privateMessages: privateMessagesSchema,
     recovery: recoverySchema,
+    outbox: outboxSchema,
+    discordBuffer: discordBufferSchema,
+    pastes: pastesSchema,
+    reactions: reactionsSchema,
+    redactions: redactionsSchema,
+    puppets: puppetsSchema,
     metrics: metricsSchema,
+    autoWebhooks: autoWebhooksSchema,
+    threads: threadsSchema,
+    discordTokens: discordTokensSchema,
+    emojiConversion: emojiConversionSchema,
+    embeds: embedsSchema,
+    middlewares: zod_1.z.array(middlewareSchema).optional(),
     webhooks: zod_1.z.record(zod_1.z.string(), zod_1.z.string().url()
         .refine(isHttpsUrl, { message: 'Webhook URLs must use HTTPS' })
         .refine(isLikelySafeUrl, { message: 'Webhook URLs must be public (not localhost or private IP)' })).optional(),
     // Message formatting templates
-    format: zod_1.z.object({
-        ircText: zod_1.z.string().optional(),
-        urlAttachment: zod_1.z.string().optional(),
-        discord: zod_1.z.string().optional(),
-        commandPrelude: zod_1.z.union([zod_1.z.string(), zod_1.z.boolean()]).optional(),
-        webhookAvatarURL: zod_1.z.string().optional()
-    }).optional(),
+    format: formatSchema,
     // Formatting and behavior
     ircNickColor: zod_1.z.boolean().optional(),
     ircNickColors: zod_1.z.array(zod_1.z.string()).optional(),
@@ -176,6 +330,8 @@ exports.configSchema = zod_1.z.object({
     announceSelfJoin: zod_1.z.boolean().optional(),
     parallelPingFix: zod_1.z.boolean().optional(),
     commandCharacters: zod_1.z.array(zod_1.z.string()).optional(),
+    // Settings merged over the ones above, by Discord channel ID or IRC channel
+    channelOverrides: zod_1.z.record(zod_1.z.string(), channelOverrideSchema).optional(),
     // Persistence
     dbPath: zod_1.z.string().optional(),
     dbCleanupPMThreadDays: zod_1.z.number().min(1).max(365).optional(), // Days to keep inactive PM threads (default: 7)
@@ -127,9 +127,117 @@ const recoverySchema = z.object({
   jitterRange: z.number().min(0).max(1).default(0.2),
   healthCheckInterval: z.number().int().positive().default(30000),
   circuitBreakerThreshold: z.number().int().positive().default(3),
-  circuitBreakerTimeout: z.number().int().positive().default(300000)
+  circuitBreakerTimeout: z.number().int().positive().default(300000),
+  puppetReconnectDelay: z.number().int().min(0).default(2000)
 }).optional();
 
+// Outbox for Discord messages sent while IRC is unreachable
+const outboxSchema = z.object({
+  enabled: z.boolean().default(false),
+  maxAgeMinutes: z.number().positive().default(60),
+  maxMessagesPerChannel: z.number().int().positive().default(100)
+}).optional();
+
+// Buffer for IRC messages received while Discord is unreachable
+const discordBufferSchema = z.object({
+  enabled: z.boolean().default(false),
+  digestThreshold: z.number().int().positive().default(20),
+  maxMessagesPerChannel: z.number().int().positive().default(1000)
+}).optional();
+
+// Offloading of long or multi-line Discord messages to a paste link on IRC
+const pastesSchema = z.object({
+  enabled: z.boolean().default(false),
+  maxLines: z.number().int().positive().default(5),
+  maxBytes: z.number().int().positive().default(1500),
+  offloadCodeBlocks: z.boolean().default(true),
+  previewLines: z.number().int().min(0).default(2),
+  storage: z.enum(['s3', 'local']).default('s3'),
+  localDirectory: z.string().default('./pastes'),
+  publicUrl: z.string().url().optional(),
+  retentionHours: z.number().positive().default(168)
+}).optional();
+
+// Relaying of Discord reactions to IRC, per-channel opt-in
+const reactionsSchema = z.object({
+  channels: z.array(z.string()).default([]),
+  coalesceMs: z.number().int().min(0).default(3000),
+  useShortcodes: z.boolean().default(false),
+  relayRemovals: z.boolean().default(false)
+}).optional();
+
+// Per-Discord-user IRC puppet connections
+const puppetsSchema = z.object({
+  enabled: z.boolean().default(false),
+  maxConnections: z.number().int().positive().default(20),
+  idleTimeoutMs: z.number().int().positive().default(1800000),
+  connectTimeoutMs: z.number().int().positive().default(15000),
+  nickSuffix: z.string().default('[d]'),
+  maxNickLength: z.number().int().positive().default(16)
+}).optional();
+
+// IRC redaction configuration
+const redactionsSchema = z.object({
+  enabled: z.boolean().default(true),
+  allowedBy: z.array(z.enum(['author', 'ops'])).default([])
+}).optional();
+
+// Webhooks the bridge creates for mapped channels
+const autoWebhooksSchema = z.object({
+  enabled: z.boolean().default(false),
+  name: z.string().min(1).max(80).default('IRC Bridge')
+}).optional();
+
+// Messages in threads under mapped channels
+const threadsSchema = z.object({
+  mode: z.enum(['ignore', 'prefix', 'channel']).default('ignore')
+}).optional();
+
+// Timestamps, emoji and other Discord tokens as they are shown on IRC
+const discordTokensSchema = z.object({
+  timezone: z.string().default('UTC'),
+  timestamps: z.enum(['absolute', 'relative']).default('absolute'),
+  emojiShortcodes: z.boolean().default(false),
+  animatedEmojiLinks: z.boolean().default(false)
+}).optional();
+
+// Shortcodes and emoticons from IRC as unicode emoji on Discord
+const emojiConversionSchema = z.object({
+  shortcodes: z.boolean().default(false),
+  emoticons: z.boolean().default(false)
+}).optional();
+
+// Embeds of Discord messages as they are shown on IRC
+const embedModeSchema = z.enum(['full', 'compact']);
+const embedsSchema = z.object({
+  mode: embedModeSchema.default('full'),
+  maxLines: z.number().int().min(0).default(10),
+  colorHints: z.boolean().default(false),
+  sources: z.record(z.string(), embedModeSchema).default({})
+}).optional();
+
+// Message transform stage, a module path or (in JS configs) the middleware itself
+const middlewareSchema = z.union([
+  z.string().min(1),
+  z.object({
+    name: z.string().min(1),
+    direction: z.enum(['discordToIrc', 'ircToDiscord']).optional(),
+    before: z.string().optional(),
+    after: z.string().optional(),
+    process: z.custom<(...args: never[]) => unknown>(value => typeof value === 'function', {
+      message: 'Middleware process must be a function'
+    })
+  })
+]);
+
+// Additional IRC network, its channels are mapped as "<name>/#channel"
+const networkSchema = z.object({
+  server: z.string().min(1),
+  nickname: z.string().min(1).optional(),
+  ircOptions: z.record(z.string(), z.unknown()).optional(),
+  autoSendCommands: z.array(z.array(z.string())).optional()
+});
+
 // Metrics configuration
 const metricsSchema = z.object({
   enabled: z.boolean().default(false),
@@ -137,6 +245,64 @@ const metricsSchema = z.object({
   path: z.string().default('/metrics')
 }).optional();
 
+// IRC target of a Discord channel, optionally one-way, with a source tag or topic sync
+const channelMappingEntrySchema = z.union([
+  z.string(),
+  z.object({
+    channel: z.string(),
+    direction: z.enum(['both', 'discordToIrc', 'ircToDiscord']).optional(),
+    sourceTag: z.union([z.boolean(), z.string()]).optional(),
+    topicSync: z.boolean().optional()
+  })
+]);
+
+// User ignore lists
+const ignoreUsersSchema = z.object({
+  irc: z.array(z.string()).optional(),
+  discord: z.array(z.string()).optional(),
+  discordIds: z.array(z.string()).optional()
+}).optional();
+
+// Message formatting templates
+const formatSchema = z.object({
+  ircText: z.string().optional(),
+  ircReply: z.string().optional(),
+  urlAttachment: z.string().optional(),
+  discord: z.string().optional(),
+  commandPrelude: z.union([z.string(), z.boolean()]).optional(),
+  webhookAvatarURL: z.string().optional(),
+  ircSpoiler: z.enum(['hidden', 'marker']).optional(),
+  ansiColors: z.boolean().optional()
+}).optional();
+
+// Per-channel settings, without defaults so unset fields keep the global value
+const channelOverrideSchema = z.object({
+  format: formatSchema,
+  ircNickColor: z.boolean().optional(),
+  ircNickColors: z.array(z.string()).optional(),
+  parallelPingFix: z.boolean().optional(),
+  commandCharacters: z.array(z.string()).optional(),
+  ignoreUsers: ignoreUsersSchema,
+  ircStatusNotices: z.boolean().optional(),
+  announceSelfJoin: z.boolean().optional(),
+  statusNotifications: z.object({
+    includeJoins: z.boolean().optional(),
+    includeLeaves: z.boolean().optional(),
+    includeQuits: z.boolean().optional(),
+    includeBotEvents: z.boolean().optional()
+  }).optional(),
+  rateLimiting: z.object({
+    maxMessagesPerMinute: z.number().int().positive().optional(),
+    maxMessagesPerHour: z.number().int().positive().optional(),
+    duplicateMessageThreshold: z.number().int().positive().optional(),
+    duplicateTimeWindow: z.number().int().positive().optional(),
+    burstLimit: z.number().int().positive().optional(),
+    burstWindow: z.number().int().positive().optional(),
+    spamCooldownMinutes: z.number().int().positive().optional(),
+    rateLimitCooldownSeconds: z.number().int().positive().optional()
+  }).optional()
+});
+
 // Main configuration schema
 export const configSchema = z.object({
   // Required IRC settings
@@ -159,17 +325,17 @@ export const configSchema = z.object({
   autoSendCommands: z.array(z.array(z.string())).optional(),
 
   // User ignore lists
-  ignoreUsers: z.object({
-    irc: z.array(z.string()).optional(),
-    discord: z.array(z.string()).optional(),
-    discordIds: z.array(z.string()).optional()
-  }).optional(),
+  ignoreUsers: ignoreUsersSchema,
 
   // Required Discord settings
   discordToken: z.string().min(1),
 
-  // Channel mapping (Discord channel ID/name -> IRC channel)
-  channelMapping: z.record(z.string(), z.string()),
+  // Channel mapping (Discord channel ID/name -> IRC channel, or network/channel)
+  channelMapping: z.record(z.string(), channelMappingEntrySchema),
+
+  // Additional IRC networks by name, and the name of the main server's network
+  networks: z.record(z.string().regex(/^[^\s#&/]+$/, 'Network names cannot contain spaces, # & or /'), networkSchema).optional(),
+  networkName: z.string().regex(/^[^\s#&/]+$/).optional(),
 
   // Optional features
   statusNotifications: statusNotificationSchema,
@@ -177,7 +343,19 @@ export const configSchema = z.object({
   rateLimiting: rateLimitingSchema,
   privateMessages: privateMessagesSchema,
   recovery: recoverySchema,
+  outbox: outboxSchema,
+  discordBuffer: discordBufferSchema,
+  pastes: pastesSchema,
+  reactions: reactionsSchema,
+  redactions: redactionsSchema,
+  puppets: puppetsSchema,
   metrics: metricsSchema,
+  autoWebhooks: autoWebhooksSchema,
+  threads: threadsSchema,
+  discordTokens: discordTokensSchema,
+  emojiConversion: emojiConversionSchema,
+  embeds: embedsSchema,
+  middlewares: z.array(middlewareSchema).optional(),
   webhooks: z.record(
     z.string(),
     z.string().url()
@@ -186,13 +364,7 @@ export const configSchema = z.object({
   ).optional(),
 
   // Message formatting templates
-  format: z.object({
-    ircText: z.string().optional(),
-    urlAttachment: z.string().optional(),
-    discord: z.string().optional(),
-    commandPrelude: z.union([z.string(), z.boolean()]).optional(),
-    webhookAvatarURL: z.string().optional()
-  }).optional(),
+  format: formatSchema,
 
   // Formatting and behavior
   ircNickColor: z.boolean().optional(),
@@ -202,6 +374,9 @@ export const configSchema = z.object({
   parallelPingFix: z.boolean().optional(),
   commandCharacters: z.array(z.string()).optional(),
 
+  // Settings merged over the ones above, by Discord channel ID or IRC channel
+  channelOverrides: z.record(z.string(), channelOverrideSchema).optional(),
+
   // Persistence
   dbPath: z.string().optional(),
   dbCleanupPMThreadDays: z.number().min(1).max(365).optional(), // Days to keep inactive PM threads (default: 7)
@@ -0,0 +1,103 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.isValidTimezone = isValidTimezone;
+exports.isValidTimestamp = isValidTimestamp;
+exports.formatRelativeTime = formatRelativeTime;
+exports.formatAbsoluteTime = formatAbsoluteTime;
+exports.renderDiscordTokens = renderDiscordTokens;
+exports.formatSticker = formatSticker;
+const emoji_shortcodes_1 = require("./emoji-shortcodes");
+const TIMESTAMP_TOKEN = /<t:(-?\d{1,13})(?::([tTdDfFR]))?>/g;
+const COMMAND_MENTION = /<\/([-_\p{L}\p{N} ]+):\d+>/gu;
+const CUSTOM_EMOJI = /<(a?):(\w+):(\d+)>/g;
+const EMOJI_CDN = 'https://cdn.discordapp.com/emojis';
+const RELATIVE_UNITS = [
+    ['year', 31536000],
+    ['month', 2592000],
+    ['day', 86400],
+    ['hour', 3600],
+    ['minute', 60],
+    ['second', 1],
+];
+/**
+ * Whether Intl knows the time zone
+ */
+function isValidTimezone(timezone) {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    }
+    catch {
+        return false;
+    }
+}
+/**
+ * Whether a timestamp in seconds is within the range of Date
+ */
+function isValidTimestamp(seconds) {
+    return Number.isFinite(new Date(seconds * 1000).getTime());
+}
+/**
+ * Time like "in 3 hours" or "2 days ago"
+ */
+function formatRelativeTime(seconds, now = Date.now()) {
+    const diff = seconds - Math.floor(now / 1000);
+    const [unit, size] = RELATIVE_UNITS.find(([, length]) => Math.abs(diff) >= length) ?? ['second', 1];
+    return new Intl.RelativeTimeFormat('en', { numeric: 'auto' }).format(Math.trunc(diff / size), unit);
+}
+/**
+ * Time like "2023-11-14 22:13 UTC", with as much detail as the Discord style asks for
+ * @param style Discord's timestamp style letter, `f` when missing
+ */
+function formatAbsoluteTime(seconds, style = 'f', timezone = 'UTC') {
+    const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        weekday: 'short',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        hourCycle: 'h23',
+        timeZoneName: 'short',
+    }).formatToParts(new Date(seconds * 1000)).map(part => [part.type, part.value]));
+    const date = `${parts.year}-${parts.month}-${parts.day}`;
+    const time = `${parts.hour}:${parts.minute}`;
+    switch (style) {
+        case 't':
+            return `${time} ${parts.timeZoneName}`;
+        case 'T':
+            return `${time}:${parts.second} ${parts.timeZoneName}`;
+        case 'd':
+        case 'D':
+            return date;
+        case 'F':
+            return `${parts.weekday} ${date} ${time} ${parts.timeZoneName}`;
+        default:
+            return `${date} ${time} ${parts.timeZoneName}`;
+    }
+}
+/**
+ * Replace the tokens in message text with their IRC form
+ */
+function renderDiscordTokens(text, config, now = Date.now()) {
+    const rendered = text
+        .replace(TIMESTAMP_TOKEN, (match, seconds, style) => {
+        // Tokens beyond the range of Date are left as they were written
+        if (!isValidTimestamp(Number(seconds)))
+            return match;
+        return style === 'R' || config.timestamps === 'relative'
+            ? formatRelativeTime(Number(seconds), now)
+            : formatAbsoluteTime(Number(seconds), style, config.timezone);
+    })
+        .replace(COMMAND_MENTION, (match, command) => `/${command}`)
+        .replace(CUSTOM_EMOJI, (match, animated, name, id) => (animated && config.animatedEmojiLinks ? `:${name}: <${EMOJI_CDN}/${id}.gif>` : `:${name}:`));
+    return config.emojiShortcodes ? (0, emoji_shortcodes_1.replaceEmojiWithShortcodes)(rendered) : rendered;
+}
+/**
+ * How a sticker sent with a message is shown on IRC
+ */
+function formatSticker(name) {
+    return `[sticker: ${name}]`;
+}
@@ -0,0 +1,125 @@
+import { replaceEmojiWithShortcodes } from './emoji-shortcodes';
+
+/**
+ * Discord-only tokens in message text, made readable on IRC
+ *
+ * 1. Timestamps like `<t:1700000000:R>` are shown in the configured time zone,
+ *    or relative to now when `timestamps` is `relative`. `:R` tokens are always relative
+ * 2. Slash-command mentions like `</ban user:123>` become `/ban user`
+ * 3. Custom emoji become `:name:`, animated ones optionally with a link to their image
+ * 4. Unicode emoji optionally become `:shortcode:`
+ *
+ * User, role and channel mentions need the bot's caches and are handled by `Bot.parseText`.
+ */
+
+export interface DiscordTokenConfig {
+  timezone: string; // IANA time zone timestamps are shown in
+  timestamps: 'absolute' | 'relative';
+  emojiShortcodes: boolean; // Send unicode emoji as :shortcode: for IRC clients that can't render them
+  animatedEmojiLinks: boolean; // Send custom animated emoji with a link to their image
+}
+
+const TIMESTAMP_TOKEN = /<t:(-?\d{1,13})(?::([tTdDfFR]))?>/g;
+const COMMAND_MENTION = /<\/([-_\p{L}\p{N} ]+):\d+>/gu;
+const CUSTOM_EMOJI = /<(a?):(\w+):(\d+)>/g;
+
+const EMOJI_CDN = 'https://cdn.discordapp.com/emojis';
+
+const RELATIVE_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 31536000],
+  ['month', 2592000],
+  ['day', 86400],
+  ['hour', 3600],
+  ['minute', 60],
+  ['second', 1],
+];
+
+/**
+ * Whether Intl knows the time zone
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a timestamp in seconds is within the range of Date
+ */
+export function isValidTimestamp(seconds: number): boolean {
+  return Number.isFinite(new Date(seconds * 1000).getTime());
+}
+
+/**
+ * Time like "in 3 hours" or "2 days ago"
+ */
+export function formatRelativeTime(seconds: number, now: number = Date.now()): string {
+  const diff = seconds - Math.floor(now / 1000);
+  const [unit, size] = RELATIVE_UNITS.find(([, length]) => Math.abs(diff) >= length) ?? ['second', 1];
+  return new Intl.RelativeTimeFormat('en', { numeric: 'auto' }).format(Math.trunc(diff / size), unit);
+}
+
+/**
+ * Time like "2023-11-14 22:13 UTC", with as much detail as the Discord style asks for
+ * @param style Discord's timestamp style letter, `f` when missing
+ */
+export function formatAbsoluteTime(seconds: number, style = 'f', timezone = 'UTC'): string {
+  const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+    timeZoneName: 'short',
+  }).formatToParts(new Date(seconds * 1000)).map(part => [part.type, part.value]));
+
+  const date = `${parts.year}-${parts.month}-${parts.day}`;
+  const time = `${parts.hour}:${parts.minute}`;
+  switch (style) {
+    case 't':
+      return `${time} ${parts.timeZoneName}`;
+    case 'T':
+      return `${time}:${parts.second} ${parts.timeZoneName}`;
+    case 'd':
+    case 'D':
+      return date;
+    case 'F':
+      return `${parts.weekday} ${date} ${time} ${parts.timeZoneName}`;
+    default:
+      return `${date} ${time} ${parts.timeZoneName}`;
+  }
+}
+
+/**
+ * Replace the tokens in message text with their IRC form
+ */
+export function renderDiscordTokens(text: string, config: DiscordTokenConfig, now: number = Date.now()): string {
+  const rendered = text
+    .replace(TIMESTAMP_TOKEN, (match, seconds: string, style?: string) => {
+      // Tokens beyond the range of Date are left as they were written
+      if (!isValidTimestamp(Number(seconds))) return match;
+      return style === 'R' || config.timestamps === 'relative'
+        ? formatRelativeTime(Number(seconds), now)
+        : formatAbsoluteTime(Number(seconds), style, config.timezone);
+    })
+    .replace(COMMAND_MENTION, (match, command: string) => `/${command}`)
+    .replace(CUSTOM_EMOJI, (match, animated: string, name: string, id: string) => (
+      animated && config.animatedEmojiLinks ? `:${name}: <${EMOJI_CDN}/${id}.gif>` : `:${name}:`
+    ));
+
+  return config.emojiShortcodes ? replaceEmojiWithShortcodes(rendered) : rendered;
+}
+
+/**
+ * How a sticker sent with a message is shown on IRC
+ */
+export function formatSticker(name: string): string {
+  return `[sticker: ${name}]`;
+}
@@ -0,0 +1,84 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.nearestIRCColor = nearestIRCColor;
+exports.getEmbedMode = getEmbedMode;
+exports.renderEmbeds = renderEmbeds;
+// RGB of the 16 IRC colours as mIRC shows them
+const IRC_COLORS = [
+    0xffffff, 0x000000, 0x00007f, 0x009300, 0xff0000, 0x7f0000, 0x9c009c, 0xfc7f00,
+    0xffff00, 0x00fc00, 0x009393, 0x00ffff, 0x0000fc, 0xff00ff, 0x7f7f7f, 0xd2d2d2,
+];
+const rgb = (color) => [(color >> 16) & 0xff, (color >> 8) & 0xff, color & 0xff];
+/**
+ * IRC colour closest to an RGB colour
+ */
+function nearestIRCColor(color) {
+    const [r, g, b] = rgb(color);
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    IRC_COLORS.forEach((ircColor, index) => {
+        const [ir, ig, ib] = rgb(ircColor);
+        const distance = (r - ir) ** 2 + (g - ig) ** 2 + (b - ib) ** 2;
+        if (distance < nearestDistance) {
+            nearest = index;
+            nearestDistance = distance;
+        }
+    });
+    return nearest;
+}
+function colorHint(embed) {
+    if (embed.color === null || embed.color === undefined)
+        return '';
+    return `\x03${nearestIRCColor(embed.color).toString().padStart(2, '0')}▌\x03 `;
+}
+function renderFull(embed, maxLines) {
+    const lines = [];
+    if (embed.author?.name)
+        lines.push(embed.author.name);
+    if (embed.title)
+        lines.push(`\x02${embed.title}\x02`);
+    if (embed.url)
+        lines.push(embed.url);
+    if (embed.description)
+        lines.push(...embed.description.split('\n'));
+    for (const field of embed.fields ?? []) {
+        lines.push(`\x02${field.name}\x02`, ...field.value.split('\n'));
+    }
+    if (embed.image?.url)
+        lines.push(embed.image.url);
+    if (embed.footer?.text)
+        lines.push(embed.footer.text);
+    const content = lines.filter(line => line.trim() !== '');
+    if (maxLines > 0 && content.length > maxLines) {
+        const hidden = content.length - maxLines + 1;
+        return [...content.slice(0, maxLines - 1), `… (${hidden} more lines)`];
+    }
+    return content;
+}
+function renderCompact(embed) {
+    const title = embed.title ? `[${embed.title}]` : '';
+    const description = embed.description?.replace(/\s+/g, ' ').trim() ?? '';
+    const text = [title, description].filter(Boolean).join(' ');
+    if (!embed.url)
+        return text;
+    return text ? `${text} — ${embed.url}` : embed.url;
+}
+/**
+ * Mode for embeds sent by a bot user or webhook
+ */
+function getEmbedMode(config, sourceIds) {
+    const source = sourceIds.find(id => id && config.sources[id]);
+    return source ? config.sources[source] : config.mode;
+}
+/**
+ * Lines of IRC text for the embeds of a message
+ */
+function renderEmbeds(embeds, config, mode = config.mode) {
+    return embeds.flatMap((embed) => {
+        const lines = mode === 'compact' ? [renderCompact(embed)].filter(Boolean) : renderFull(embed, config.maxLines);
+        if (config.colorHints && lines.length > 0) {
+            lines[0] = `${colorHint(embed)}${lines[0]}`;
+        }
+        return lines;
+    });
+}
@@ -0,0 +1,102 @@
+import type { MessageEmbed } from 'discord.js';
+
+/**
+ * Discord embeds as IRC text
+ *
+ * Every embed of a message is rendered, in one of two modes:
+ * 1. `full` gives an embed its author, bold title, URL, description, fields,
+ *    image and footer on lines of their own, cut off after `maxLines`
+ * 2. `compact` gives an embed a single line, `[title] description — url`
+ *
+ * Bots and webhooks posting a lot of embeds, like GitHub or CI notifications,
+ * can be given their own mode in `sources`, by bot user or webhook ID.
+ */
+
+export type EmbedMode = 'full' | 'compact';
+
+export interface EmbedConfig {
+  mode: EmbedMode;
+  maxLines: number; // Lines per embed in full mode, 0 for no limit
+  colorHints: boolean; // Start embeds with a bar in the nearest IRC colour to their own
+  sources: Record<string, EmbedMode>; // Mode for messages from these bot user or webhook IDs
+}
+
+// RGB of the 16 IRC colours as mIRC shows them
+const IRC_COLORS = [
+  0xffffff, 0x000000, 0x00007f, 0x009300, 0xff0000, 0x7f0000, 0x9c009c, 0xfc7f00,
+  0xffff00, 0x00fc00, 0x009393, 0x00ffff, 0x0000fc, 0xff00ff, 0x7f7f7f, 0xd2d2d2,
+];
+
+const rgb = (color: number) => [(color >> 16) & 0xff, (color >> 8) & 0xff, color & 0xff];
+
+/**
+ * IRC colour closest to an RGB colour
+ */
+export function nearestIRCColor(color: number): number {
+  const [r, g, b] = rgb(color);
+  let nearest = 0;
+  let nearestDistance = Infinity;
+  IRC_COLORS.forEach((ircColor, index) => {
+    const [ir, ig, ib] = rgb(ircColor);
+    const distance = (r - ir) ** 2 + (g - ig) ** 2 + (b - ib) ** 2;
+    if (distance < nearestDistance) {
+      nearest = index;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
+
+function colorHint(embed: MessageEmbed): string {
+  if (embed.color === null || embed.color === undefined) return '';
+  return `\x03${nearestIRCColor(embed.color).toString().padStart(2, '0')}▌\x03 `;
+}
+
+function renderFull(embed: MessageEmbed, maxLines: number): string[] {
+  const lines: string[] = [];
+  if (embed.author?.name) lines.push(embed.author.name);
+  if (embed.title) lines.push(`\x02${embed.title}\x02`);
+  if (embed.url) lines.push(embed.url);
+  if (embed.description) lines.push(...embed.description.split('\n'));
+  for (const field of embed.fields ?? []) {
+    lines.push(`\x02${field.name}\x02`, ...field.value.split('\n'));
+  }
+  if (embed.image?.url) lines.push(embed.image.url);
+  if (embed.footer?.text) lines.push(embed.footer.text);
+
+  const content = lines.filter(line => line.trim() !== '');
+  if (maxLines > 0 && content.length > maxLines) {
+    const hidden = content.length - maxLines + 1;
+    return [...content.slice(0, maxLines - 1), `… (${hidden} more lines)`];
+  }
+  return content;
+}
+
+function renderCompact(embed: MessageEmbed): string {
+  const title = embed.title ? `[${embed.title}]` : '';
+  const description = embed.description?.replace(/\s+/g, ' ').trim() ?? '';
+  const text = [title, description].filter(Boolean).join(' ');
+  if (!embed.url) return text;
+  return text ? `${text} — ${embed.url}` : embed.url;
+}
+
+/**
+ * Mode for embeds sent by a bot user or webhook
+ */
+export function getEmbedMode(config: EmbedConfig, sourceIds: (string | null | undefined)[]): EmbedMode {
+  const source = sourceIds.find(id => id && config.sources[id]);
+  return source ? config.sources[source] : config.mode;
+}
+
+/**
+ * Lines of IRC text for the embeds of a message
+ */
+export function renderEmbeds(embeds: MessageEmbed[], config: EmbedConfig, mode: EmbedMode = config.mode): string[] {
+  return embeds.flatMap((embed) => {
+    const lines = mode === 'compact' ? [renderCompact(embed)].filter(Boolean) : renderFull(embed, config.maxLines);
+    if (config.colorHints && lines.length > 0) {
+      lines[0] = `${colorHint(embed)}${lines[0]}`;
+    }
+    return lines;
+  });
+}
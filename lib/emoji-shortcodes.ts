@@ -0,0 +1,354 @@
+/**
+ * Unicode emoji to Discord-style :shortcode: names, and back
+ *
+ * Covers the emoji people commonly react and chat with. Emoji that aren't
+ * listed are left as-is, IRC clients that can render them still will.
+ */
+
+const SHORTCODES: Record<string, string> = {
+  // Smileys
+  '😀': 'grinning',
+  '😃': 'smiley',
+  '😄': 'smile',
+  '😁': 'grin',
+  '😆': 'laughing',
+  '😅': 'sweat_smile',
+  '🤣': 'rofl',
+  '😂': 'joy',
+  '🙂': 'slight_smile',
+  '🙃': 'upside_down',
+  '😉': 'wink',
+  '😊': 'blush',
+  '😇': 'innocent',
+  '🥰': 'smiling_face_with_3_hearts',
+  '😍': 'heart_eyes',
+  '🤩': 'star_struck',
+  '😘': 'kissing_heart',
+  '😋': 'yum',
+  '😛': 'stuck_out_tongue',
+  '😜': 'stuck_out_tongue_winking_eye',
+  '🤪': 'zany_face',
+  '🤗': 'hugging',
+  '🤔': 'thinking',
+  '🤨': 'face_with_raised_eyebrow',
+  '😐': 'neutral_face',
+  '😑': 'expressionless',
+  '😶': 'no_mouth',
+  '🙄': 'rolling_eyes',
+  '😏': 'smirk',
+  '😬': 'grimacing',
+  '😌': 'relieved',
+  '😔': 'pensive',
+  '😴': 'sleeping',
+  '🤤': 'drooling_face',
+  '😷': 'mask',
+  '🤒': 'thermometer_face',
+  '🤢': 'nauseated_face',
+  '🤮': 'face_vomiting',
+  '🥵': 'hot_face',
+  '🥶': 'cold_face',
+  '🥴': 'woozy_face',
+  '😵': 'dizzy_face',
+  '🤯': 'exploding_head',
+  '🥳': 'partying_face',
+  '😎': 'sunglasses',
+  '🤓': 'nerd',
+  '😕': 'confused',
+  '😟': 'worried',
+  '🙁': 'slight_frown',
+  '😮': 'open_mouth',
+  '😲': 'astonished',
+  '😳': 'flushed',
+  '🥺': 'pleading_face',
+  '😦': 'frowning',
+  '😧': 'anguished',
+  '😨': 'fearful',
+  '😰': 'cold_sweat',
+  '😢': 'cry',
+  '😭': 'sob',
+  '😱': 'scream',
+  '😖': 'confounded',
+  '😣': 'persevere',
+  '😞': 'disappointed',
+  '😓': 'sweat',
+  '😩': 'weary',
+  '😫': 'tired_face',
+  '🥱': 'yawning_face',
+  '😤': 'triumph',
+  '😡': 'rage',
+  '😠': 'angry',
+  '🤬': 'face_with_symbols_over_mouth',
+  '😈': 'smiling_imp',
+  '💀': 'skull',
+  '💩': 'poop',
+  '🤡': 'clown',
+  '👻': 'ghost',
+  '👽': 'alien',
+  '🤖': 'robot',
+  '🫡': 'saluting_face',
+  '🫠': 'melting_face',
+  '🤫': 'shushing_face',
+  '🤭': 'face_with_hand_over_mouth',
+  '🤐': 'zipper_mouth',
+
+  // Gestures and people
+  '👍': 'thumbsup',
+  '👎': 'thumbsdown',
+  '👌': 'ok_hand',
+  '✌️': 'v',
+  '🤞': 'fingers_crossed',
+  '🤘': 'metal',
+  '🤙': 'call_me',
+  '👈': 'point_left',
+  '👉': 'point_right',
+  '👆': 'point_up_2',
+  '👇': 'point_down',
+  '☝️': 'point_up',
+  '✋': 'raised_hand',
+  '👋': 'wave',
+  '👏': 'clap',
+  '🙌': 'raised_hands',
+  '👐': 'open_hands',
+  '🤝': 'handshake',
+  '🙏': 'pray',
+  '💪': 'muscle',
+  '✊': 'fist',
+  '👊': 'punch',
+  '🫶': 'heart_hands',
+  '👀': 'eyes',
+  '🧠': 'brain',
+  '🤷': 'person_shrugging',
+  '🤦': 'person_facepalming',
+  '🙈': 'see_no_evil',
+  '🙉': 'hear_no_evil',
+  '🙊': 'speak_no_evil',
+
+  // Hearts and symbols
+  '❤️': 'heart',
+  '🧡': 'orange_heart',
+  '💛': 'yellow_heart',
+  '💚': 'green_heart',
+  '💙': 'blue_heart',
+  '💜': 'purple_heart',
+  '🖤': 'black_heart',
+  '🤍': 'white_heart',
+  '💔': 'broken_heart',
+  '💕': 'two_hearts',
+  '💖': 'sparkling_heart',
+  '💯': '100',
+  '💥': 'boom',
+  '💫': 'dizzy',
+  '💤': 'zzz',
+  '💬': 'speech_balloon',
+  '✅': 'white_check_mark',
+  '☑️': 'ballot_box_with_check',
+  '✔️': 'heavy_check_mark',
+  '❌': 'x',
+  '❎': 'negative_squared_cross_mark',
+  '❓': 'question',
+  '❗': 'exclamation',
+  '‼️': 'bangbang',
+  '⁉️': 'interrobang',
+  '⚠️': 'warning',
+  '🚫': 'no_entry_sign',
+  '⛔': 'no_entry',
+  '➕': 'heavy_plus_sign',
+  '➖': 'heavy_minus_sign',
+  '🆗': 'ok',
+  '🆕': 'new',
+  '🔥': 'fire',
+  '✨': 'sparkles',
+  '⭐': 'star',
+  '🌟': 'star2',
+  '⚡': 'zap',
+  '🎉': 'tada',
+  '🎊': 'confetti_ball',
+  '🎈': 'balloon',
+  '🎁': 'gift',
+  '🏆': 'trophy',
+  '🥇': 'first_place',
+  '🚀': 'rocket',
+  '📌': 'pushpin',
+  '📎': 'paperclip',
+  '🔗': 'link',
+  '🔒': 'lock',
+  '🔑': 'key',
+  '🔔': 'bell',
+  '📣': 'mega',
+  '💡': 'bulb',
+  '📝': 'pencil',
+  '📅': 'date',
+  '⏰': 'alarm_clock',
+  '⌛': 'hourglass',
+  '⏳': 'hourglass_flowing_sand',
+  '📥': 'inbox_tray',
+  '📤': 'outbox_tray',
+  '📦': 'package',
+  '💻': 'computer',
+  '📱': 'mobile_phone',
+  '🐛': 'bug',
+  '🔧': 'wrench',
+  '🔨': 'hammer',
+  '⚙️': 'gear',
+  '🗑️': 'wastebasket',
+  '👑': 'crown',
+  '💎': 'gem',
+  '💰': 'moneybag',
+  '🎵': 'musical_note',
+  '🎶': 'notes',
+  '🎮': 'video_game',
+  '🎯': 'dart',
+  '🍕': 'pizza',
+  '🍔': 'hamburger',
+  '🍺': 'beer',
+  '🍻': 'beers',
+  '☕': 'coffee',
+  '🍰': 'cake',
+  '🎂': 'birthday',
+  '🍿': 'popcorn',
+  '🌈': 'rainbow',
+  '☀️': 'sunny',
+  '🌙': 'crescent_moon',
+  '❄️': 'snowflake',
+  '🌊': 'ocean',
+  '🌍': 'earth_africa',
+  '🐶': 'dog',
+  '🐱': 'cat',
+  '🐸': 'frog',
+  '🐍': 'snake',
+  '🦀': 'crab',
+  '🐧': 'penguin',
+  '🦆': 'duck',
+  '🦄': 'unicorn',
+  '🐢': 'turtle',
+  '🍀': 'four_leaf_clover',
+  '🌱': 'seedling',
+  '🌹': 'rose',
+  '⬆️': 'arrow_up',
+  '⬇️': 'arrow_down',
+  '⬅️': 'arrow_left',
+  '➡️': 'arrow_right',
+  '🔄': 'arrows_counterclockwise',
+  '🆙': 'up',
+  '🔴': 'red_circle',
+  '🟢': 'green_circle',
+  '🔵': 'blue_circle',
+};
+
+// Emoji presentation selector, present or not depending on the client that sent the emoji
+const VARIATION_SELECTOR = /\uFE0F/g;
+
+const NORMALIZED_SHORTCODES = new Map(
+  Object.entries(SHORTCODES).map(([emoji, name]) => [emoji.replace(VARIATION_SELECTOR, ''), name])
+);
+
+// Skin tone modifiers don't change the name of the emoji
+const SKIN_TONE = /[\u{1F3FB}-\u{1F3FF}]/gu;
+
+/**
+ * Shortcode name for a unicode emoji
+ * @returns Name without colons, or undefined for unknown emoji
+ */
+export function getEmojiShortcode(emoji: string): string | undefined {
+  return NORMALIZED_SHORTCODES.get(emoji.replace(VARIATION_SELECTOR, '').replace(SKIN_TONE, ''));
+}
+
+/**
+ * Emoji as :shortcode:, falling back to the emoji itself when it has no known name
+ */
+export function emojiToShortcode(emoji: string): string {
+  const name = getEmojiShortcode(emoji);
+  return name ? `:${name}:` : emoji;
+}
+
+// An emoji with its modifiers, and the emoji joined to it with zero-width joiners
+const EMOJI = /\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})*(?:\u200D\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier})*)*/gu;
+
+/**
+ * Replace the unicode emoji in text with their :shortcode:, where they have one
+ */
+export function replaceEmojiWithShortcodes(text: string): string {
+  return text.replace(EMOJI, emojiToShortcode);
+}
+
+export interface EmojiConversionConfig {
+  shortcodes: boolean; // Turn :shortcode: from IRC into unicode emoji
+  emoticons: boolean; // Turn emoticons like :) and <3 from IRC into unicode emoji
+}
+
+const EMOJI_BY_SHORTCODE = new Map([
+  ...Object.entries(SHORTCODES).map(([emoji, name]) => [name, emoji] as const),
+  // Names other chat apps use
+  ['+1', '👍'],
+  ['-1', '👎'],
+  ['thumbs_up', '👍'],
+  ['thumbs_down', '👎'],
+]);
+
+// Emoticons and the shortcode of the emoji they become
+const EMOTICONS: Record<string, string> = {
+  ':)': 'slight_smile',
+  ':-)': 'slight_smile',
+  ':D': 'smile',
+  ':-D': 'smile',
+  'xD': 'laughing',
+  'XD': 'laughing',
+  ';)': 'wink',
+  ';-)': 'wink',
+  ':(': 'slight_frown',
+  ':-(': 'slight_frown',
+  ":'(": 'cry',
+  ':P': 'stuck_out_tongue',
+  ':-P': 'stuck_out_tongue',
+  ':p': 'stuck_out_tongue',
+  ':o': 'open_mouth',
+  ':O': 'open_mouth',
+  ':|': 'neutral_face',
+  '<3': 'heart',
+  '</3': 'broken_heart',
+};
+
+const SHORTCODE = /:([\w+-]+):/g;
+
+// Emoticons stand on their own, so "a:)" or "http://" aren't turned into emoji
+const EMOTICON = new RegExp(
+  `(^|\\s)(${Object.keys(EMOTICONS)
+    .sort((a, b) => b.length - a.length)
+    .map(emoticon => emoticon.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('|')})(?=$|\\s|[.,!?])`,
+  'g'
+);
+
+// Code spans, URLs and custom emoji already converted are left as they are
+const UNTOUCHED = /(```[\s\S]*?```|`[^`\n]*`|<a?:\w+:\d+>|\b[a-z][a-z0-9+.-]*:\/\/\S+)/i;
+
+/**
+ * Unicode emoji for a shortcode name
+ * @returns The emoji, or undefined for unknown names
+ */
+export function getShortcodeEmoji(name: string): string | undefined {
+  return EMOJI_BY_SHORTCODE.get(name);
+}
+
+/**
+ * Replace :shortcode: and emoticons in IRC text with unicode emoji, outside of
+ * code and URLs. Run it after guild emoji are resolved so they take precedence
+ */
+export function convertToEmoji(text: string, config: EmojiConversionConfig): string {
+  if (!config.shortcodes && !config.emoticons) return text;
+
+  // Split keeps the untouched parts at odd indexes
+  return text.split(UNTOUCHED).map((part, index) => {
+    if (index % 2 === 1) return part;
+    let converted = part;
+    if (config.shortcodes) {
+      converted = converted.replace(SHORTCODE, (match, name: string) => getShortcodeEmoji(name) ?? match);
+    }
+    if (config.emoticons) {
+      converted = converted.replace(EMOTICON, (match, space: string, emoticon: string) => (
+        `${space}${getShortcodeEmoji(EMOTICONS[emoticon]) ?? emoticon}`
+      ));
+    }
+    return converted;
+  }).join('');
+}
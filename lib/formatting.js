@@ -3,15 +3,40 @@ var __importDefault = (this && this.__importDefault) || function (mod) {
     return (mod && mod.__esModule) ? mod : { "default": mod };
 };
 Object.defineProperty(exports, "__esModule", { value: true });
+exports.ANSI_MIN_COLORS = void 0;
 exports.formatFromDiscordToIRC = formatFromDiscordToIRC;
 exports.formatFromIRCToDiscord = formatFromIRCToDiscord;
+exports.stripIRCFormatting = stripIRCFormatting;
 const irc_formatting_1 = __importDefault(require("irc-formatting"));
 const simple_markdown_1 = __importDefault(require("simple-markdown"));
 const irc_colors_1 = __importDefault(require("irc-colors"));
-function mdNodeToIRC(node) {
+const STRIKETHROUGH = '\x1e';
+const MONOSPACE = '\x11';
+const HIDDEN = '\x0301,01'; // Black on black, readable when selected
+const COLOR_END = '\x03';
+const { defaultRules } = simple_markdown_1.default;
+const inlineRules = {
+    escape: defaultRules.escape,
+    autolink: defaultRules.autolink,
+    url: defaultRules.url,
+    link: defaultRules.link,
+    em: defaultRules.em,
+    strong: defaultRules.strong,
+    u: defaultRules.u,
+    del: defaultRules.del,
+    spoiler: {
+        order: defaultRules.del.order,
+        match: simple_markdown_1.default.inlineRegex(/^\|\|([\s\S]+?)\|\|/),
+        parse: (capture, parse, state) => ({ content: parse(capture[1], state) }),
+    },
+    inlineCode: defaultRules.inlineCode,
+    text: defaultRules.text,
+};
+const parseInline = simple_markdown_1.default.parserFor(inlineRules);
+function mdNodeToIRC(node, options) {
     let { content } = node;
     if (Array.isArray(content))
-        content = content.map(mdNodeToIRC).join('');
+        content = content.map(child => mdNodeToIRC(child, options)).join('');
     switch (node.type) {
         case 'em':
             return irc_colors_1.default.italic(content);
@@ -19,41 +44,175 @@ function mdNodeToIRC(node) {
             return irc_colors_1.default.bold(content);
         case 'u':
             return irc_colors_1.default.underline(content);
+        case 'del':
+            return `${STRIKETHROUGH}${content}${STRIKETHROUGH}`;
+        case 'inlineCode':
+            return `${MONOSPACE}${content}${MONOSPACE}`;
+        case 'spoiler':
+            return options.spoiler === 'marker' ? '[spoiler]' : `${HIDDEN}${content}${COLOR_END}`;
+        case 'link':
+            return content === node.target ? content : `${content} <${node.target}>`;
         default:
-            return content;
+            return content ?? '';
     }
 }
-function formatFromDiscordToIRC(text) {
-    const markdownAST = simple_markdown_1.default.defaultInlineParse(text);
-    return markdownAST.map(mdNodeToIRC).join('');
+function formatInline(text, options) {
+    return parseInline(text, { inline: true }).map(node => mdNodeToIRC(node, options)).join('');
 }
-function formatFromIRCToDiscord(text) {
-    const blocks = irc_formatting_1.default.parse(text).map((block) => ({
-        // Consider reverse as italic, some IRC clients use that
-        ...block,
-        italic: block.italic || block.reverse,
+function formatLine(line, options) {
+    const quote = /^> (.*)$/.exec(line);
+    if (quote)
+        return `> ${formatLine(quote[1], options)}`;
+    const header = /^#{1,3} +(.+)$/.exec(line);
+    if (header)
+        return irc_colors_1.default.bold(formatInline(header[1], options));
+    const subtext = /^-# +(.+)$/.exec(line);
+    if (subtext)
+        return formatInline(subtext[1], options);
+    return formatInline(line, options);
+}
+function formatFromDiscordToIRC(text, options = {}) {
+    const lines = [];
+    let inCodeBlock = false;
+    let quoteAll = false;
+    for (const line of text.split('\n')) {
+        if (inCodeBlock) {
+            const end = line.indexOf('```');
+            if (end === -1) {
+                lines.push(line && `${MONOSPACE}${line}${MONOSPACE}`);
+                continue;
+            }
+            // Code and text can share a line with the closing fence
+            inCodeBlock = false;
+            const code = line.slice(0, end);
+            if (code)
+                lines.push(`${MONOSPACE}${code}${MONOSPACE}`);
+            const rest = line.slice(end + 3);
+            if (rest.trim())
+                lines.push(formatLine(rest.trim(), options));
+            continue;
+        }
+        // A fence without its closing one on the same line opens a code block,
+        // a single word after it is the language
+        const fence = /^```(.*)$/.exec(line.trim());
+        if (fence && !fence[1].includes('```')) {
+            inCodeBlock = true;
+            if (fence[1] && !/^[\w+#.-]+$/.test(fence[1]))
+                lines.push(`${MONOSPACE}${fence[1]}${MONOSPACE}`);
+            continue;
+        }
+        const quoteStart = /^>>> (.*)$/.exec(line);
+        if (quoteStart && !quoteAll) {
+            quoteAll = true;
+            lines.push(`> ${formatLine(quoteStart[1], options)}`);
+            continue;
+        }
+        lines.push(quoteAll ? `> ${formatLine(line, options)}` : formatLine(line, options));
+    }
+    return lines.join('\n');
+}
+// Coloured parts a message needs to be sent as an ansi code block
+exports.ANSI_MIN_COLORS = 3;
+// Closest of Discord's ansi foreground colours for the 16 IRC colours
+const ANSI_COLORS = [37, 30, 34, 32, 31, 31, 35, 33, 33, 32, 36, 36, 34, 35, 30, 37];
+const isSpoiler = (block) => block.color !== -1 && block.color === block.highlight;
+/**
+ * Formatting blocks of the text, with the strikethrough and monospace codes
+ * irc-formatting doesn't know about
+ */
+function parseIRCBlocks(text) {
+    // Reset (\x0f) ends strikethrough and monospace too, but irc-formatting drops it
+    let open = '';
+    // eslint-disable-next-line no-control-regex
+    const closed = text.replace(/[\x0f\x11\x1e]/g, (code) => {
+        if (code !== '\x0f') {
+            open = open.includes(code) ? open.replace(code, '') : open + code;
+            return code;
+        }
+        const close = open;
+        open = '';
+        return close + code;
+    });
+    let strikethrough = false;
+    let monospace = false;
+    return irc_formatting_1.default.parse(closed).flatMap((block) => block.text
+        // eslint-disable-next-line no-control-regex
+        .split(/([\x11\x1e])/)
+        .flatMap((part) => {
+        if (part === STRIKETHROUGH)
+            strikethrough = !strikethrough;
+        else if (part === MONOSPACE)
+            monospace = !monospace;
+        else if (part)
+            return [{ ...block, text: part, strikethrough, monospace }];
+        return [];
     }));
+}
+function formatAnsiBlocks(blocks) {
+    const text = blocks.map((block) => {
+        const codes = [0];
+        if (block.bold)
+            codes.push(1);
+        if (block.underline)
+            codes.push(4);
+        if (block.color >= 0)
+            codes.push(ANSI_COLORS[block.color % 16]);
+        return `\x1b[${codes.join(';')}m${block.text}`;
+    }).join('');
+    return `\`\`\`ansi\n${text}\x1b[0m\n\`\`\``;
+}
+function formatFromIRCToDiscord(text, options = {}) {
+    const parsed = parseIRCBlocks(text);
+    if (options.ansiColors
+        && parsed.filter(block => block.color !== -1 && !isSpoiler(block)).length >= exports.ANSI_MIN_COLORS) {
+        return formatAnsiBlocks(parsed);
+    }
+    const blocks = parsed.map((block) => {
+        // Code spans can't hold other markdown
+        if (block.monospace) {
+            return { ...block, bold: false, italic: false, underline: false, strikethrough: false, spoiler: false };
+        }
+        // Consider reverse as italic, some IRC clients use that
+        return { ...block, italic: block.italic || block.reverse, spoiler: isSpoiler(block) };
+    });
     let mdText = '';
     for (let i = 0; i <= blocks.length; i += 1) {
         // Default to unstyled blocks when index out of range
         const block = blocks[i] || {};
         const prevBlock = blocks[i - 1] || {};
+        // Add end markers when style turns from true to false, before the start
+        // markers and in reverse order to maintain nesting
+        if (prevBlock.monospace && !block.monospace)
+            mdText += '`';
+        if (prevBlock.underline && !block.underline)
+            mdText += '__';
+        if (prevBlock.bold && !block.bold)
+            mdText += '**';
+        if (prevBlock.italic && !block.italic)
+            mdText += '*';
+        if (prevBlock.strikethrough && !block.strikethrough)
+            mdText += '~~';
+        if (prevBlock.spoiler && !block.spoiler)
+            mdText += '||';
         // Add start markers when style turns from false to true
+        if (!prevBlock.spoiler && block.spoiler)
+            mdText += '||';
+        if (!prevBlock.strikethrough && block.strikethrough)
+            mdText += '~~';
         if (!prevBlock.italic && block.italic)
             mdText += '*';
         if (!prevBlock.bold && block.bold)
             mdText += '**';
         if (!prevBlock.underline && block.underline)
             mdText += '__';
-        // Add end markers when style turns from true to false
-        // (and apply in reverse order to maintain nesting)
-        if (prevBlock.underline && !block.underline)
-            mdText += '__';
-        if (prevBlock.bold && !block.bold)
-            mdText += '**';
-        if (prevBlock.italic && !block.italic)
-            mdText += '*';
+        if (!prevBlock.monospace && block.monospace)
+            mdText += '`';
         mdText += block.text || '';
     }
     return mdText;
 }
+// eslint-disable-next-line no-control-regex
+const IRC_FORMATTING_CODES = /\x03(?:\d{1,2}(?:,\d{1,2})?)?|\x04(?:[0-9a-fA-F]{6}(?:,[0-9a-fA-F]{6})?)?|[\x02\x0f\x11\x16\x1d\x1e\x1f]/g;
+function stripIRCFormatting(text) {
+    return text.replace(IRC_FORMATTING_CODES, '');
+}
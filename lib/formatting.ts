@@ -1,10 +1,53 @@
 import ircFormatting from 'irc-formatting';
-import SimpleMarkdown, { SingleASTNode } from 'simple-markdown';
+import SimpleMarkdown, { ParserRules, SingleASTNode } from 'simple-markdown';
 import colors from 'irc-colors';
 
-function mdNodeToIRC(node: SingleASTNode): string {
+/**
+ * Discord markdown to IRC formatting
+ *
+ * Inline markdown becomes IRC control codes: bold, italics, underline,
+ * strikethrough (\x1e) and code (\x11 monospace). Masked links keep their URL
+ * as `text <url>`, and spoilers are hidden with black on black or replaced by
+ * a `[spoiler]` marker. Line-based markdown is converted line by line:
+ * 1. Lines of fenced code blocks are sent as monospace, without the fences
+ * 2. Block quotes keep their `> ` prefix, `>>> ` quotes every line after it
+ * 3. Headers are bold, subtext loses its `-# ` and lists are kept as written
+ */
+
+export type SpoilerStyle = 'hidden' | 'marker';
+
+export interface DiscordToIRCOptions {
+  spoiler?: SpoilerStyle; // How spoilers are shown on IRC (default: hidden)
+}
+
+const STRIKETHROUGH = '\x1e';
+const MONOSPACE = '\x11';
+const HIDDEN = '\x0301,01'; // Black on black, readable when selected
+const COLOR_END = '\x03';
+
+const { defaultRules } = SimpleMarkdown;
+const inlineRules: ParserRules = {
+  escape: defaultRules.escape,
+  autolink: defaultRules.autolink,
+  url: defaultRules.url,
+  link: defaultRules.link,
+  em: defaultRules.em,
+  strong: defaultRules.strong,
+  u: defaultRules.u,
+  del: defaultRules.del,
+  spoiler: {
+    order: defaultRules.del.order,
+    match: SimpleMarkdown.inlineRegex(/^\|\|([\s\S]+?)\|\|/),
+    parse: (capture, parse, state) => ({ content: parse(capture[1], state) }),
+  },
+  inlineCode: defaultRules.inlineCode,
+  text: defaultRules.text,
+};
+const parseInline = SimpleMarkdown.parserFor(inlineRules);
+
+function mdNodeToIRC(node: SingleASTNode, options: DiscordToIRCOptions): string {
   let { content } = node;
-  if (Array.isArray(content)) content = content.map(mdNodeToIRC).join('');
+  if (Array.isArray(content)) content = content.map(child => mdNodeToIRC(child as SingleASTNode, options)).join('');
   switch (node.type) {
     case 'em':
       return colors.italic(content);
@@ -12,42 +55,202 @@ function mdNodeToIRC(node: SingleASTNode): string {
       return colors.bold(content);
     case 'u':
       return colors.underline(content);
+    case 'del':
+      return `${STRIKETHROUGH}${content}${STRIKETHROUGH}`;
+    case 'inlineCode':
+      return `${MONOSPACE}${content}${MONOSPACE}`;
+    case 'spoiler':
+      return options.spoiler === 'marker' ? '[spoiler]' : `${HIDDEN}${content}${COLOR_END}`;
+    case 'link':
+      return content === node.target ? content : `${content} <${node.target}>`;
     default:
-      return content;
+      return content ?? '';
+  }
+}
+
+function formatInline(text: string, options: DiscordToIRCOptions): string {
+  return parseInline(text, { inline: true }).map(node => mdNodeToIRC(node, options)).join('');
+}
+
+function formatLine(line: string, options: DiscordToIRCOptions): string {
+  const quote = /^> (.*)$/.exec(line);
+  if (quote) return `> ${formatLine(quote[1], options)}`;
+
+  const header = /^#{1,3} +(.+)$/.exec(line);
+  if (header) return colors.bold(formatInline(header[1], options));
+
+  const subtext = /^-# +(.+)$/.exec(line);
+  if (subtext) return formatInline(subtext[1], options);
+
+  return formatInline(line, options);
+}
+
+export function formatFromDiscordToIRC(text: string, options: DiscordToIRCOptions = {}): string {
+  const lines: string[] = [];
+  let inCodeBlock = false;
+  let quoteAll = false;
+
+  for (const line of text.split('\n')) {
+    if (inCodeBlock) {
+      const end = line.indexOf('```');
+      if (end === -1) {
+        lines.push(line && `${MONOSPACE}${line}${MONOSPACE}`);
+        continue;
+      }
+      // Code and text can share a line with the closing fence
+      inCodeBlock = false;
+      const code = line.slice(0, end);
+      if (code) lines.push(`${MONOSPACE}${code}${MONOSPACE}`);
+      const rest = line.slice(end + 3);
+      if (rest.trim()) lines.push(formatLine(rest.trim(), options));
+      continue;
+    }
+
+    // A fence without its closing one on the same line opens a code block,
+    // a single word after it is the language
+    const fence = /^```(.*)$/.exec(line.trim());
+    if (fence && !fence[1].includes('```')) {
+      inCodeBlock = true;
+      if (fence[1] && !/^[\w+#.-]+$/.test(fence[1])) lines.push(`${MONOSPACE}${fence[1]}${MONOSPACE}`);
+      continue;
+    }
+
+    const quoteStart = /^>>> (.*)$/.exec(line);
+    if (quoteStart && !quoteAll) {
+      quoteAll = true;
+      lines.push(`> ${formatLine(quoteStart[1], options)}`);
+      continue;
+    }
+    lines.push(quoteAll ? `> ${formatLine(line, options)}` : formatLine(line, options));
   }
+
+  return lines.join('\n');
+}
+
+/**
+ * IRC formatting to Discord markdown
+ *
+ * Bold, italics (and reverse), underline, strikethrough (\x1e) and monospace
+ * (\x11) become markdown. Text with the same foreground and background colour,
+ * which IRC users use to hide spoilers, becomes `||spoiler||`. Other colours are
+ * dropped, unless `ansiColors` is set and the message is heavily coloured: then
+ * it's sent as an ```ansi``` code block, which Discord shows in colour.
+ */
+
+export interface IRCToDiscordOptions {
+  ansiColors?: boolean; // Send heavily coloured messages as ansi code blocks
 }
 
-export function formatFromDiscordToIRC(text: string): string {
-  const markdownAST = SimpleMarkdown.defaultInlineParse(text);
-  return markdownAST.map(mdNodeToIRC).join('');
+interface IRCBlock {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  reverse: boolean;
+  strikethrough: boolean;
+  monospace: boolean;
+  color: number; // -1 without a colour
+  highlight: number;
 }
 
-export function formatFromIRCToDiscord(text: string): string {
-  const blocks = ircFormatting.parse(text).map((block) => ({
+// Coloured parts a message needs to be sent as an ansi code block
+export const ANSI_MIN_COLORS = 3;
+
+// Closest of Discord's ansi foreground colours for the 16 IRC colours
+const ANSI_COLORS = [37, 30, 34, 32, 31, 31, 35, 33, 33, 32, 36, 36, 34, 35, 30, 37];
+
+const isSpoiler = (block: IRCBlock) => block.color !== -1 && block.color === block.highlight;
+
+/**
+ * Formatting blocks of the text, with the strikethrough and monospace codes
+ * irc-formatting doesn't know about
+ */
+function parseIRCBlocks(text: string): IRCBlock[] {
+  // Reset (\x0f) ends strikethrough and monospace too, but irc-formatting drops it
+  let open = '';
+  // eslint-disable-next-line no-control-regex
+  const closed = text.replace(/[\x0f\x11\x1e]/g, (code) => {
+    if (code !== '\x0f') {
+      open = open.includes(code) ? open.replace(code, '') : open + code;
+      return code;
+    }
+    const close = open;
+    open = '';
+    return close + code;
+  });
+
+  let strikethrough = false;
+  let monospace = false;
+  return ircFormatting.parse(closed).flatMap((block) => block.text
+    // eslint-disable-next-line no-control-regex
+    .split(/([\x11\x1e])/)
+    .flatMap((part: string) => {
+      if (part === STRIKETHROUGH) strikethrough = !strikethrough;
+      else if (part === MONOSPACE) monospace = !monospace;
+      else if (part) return [{ ...block, text: part, strikethrough, monospace }];
+      return [];
+    }));
+}
+
+function formatAnsiBlocks(blocks: IRCBlock[]): string {
+  const text = blocks.map((block) => {
+    const codes = [0];
+    if (block.bold) codes.push(1);
+    if (block.underline) codes.push(4);
+    if (block.color >= 0) codes.push(ANSI_COLORS[block.color % 16]);
+    return `\x1b[${codes.join(';')}m${block.text}`;
+  }).join('');
+  return `\`\`\`ansi\n${text}\x1b[0m\n\`\`\``;
+}
+
+export function formatFromIRCToDiscord(text: string, options: IRCToDiscordOptions = {}): string {
+  const parsed = parseIRCBlocks(text);
+  if (options.ansiColors
+    && parsed.filter(block => block.color !== -1 && !isSpoiler(block)).length >= ANSI_MIN_COLORS) {
+    return formatAnsiBlocks(parsed);
+  }
+
+  const blocks = parsed.map((block) => {
+    // Code spans can't hold other markdown
+    if (block.monospace) {
+      return { ...block, bold: false, italic: false, underline: false, strikethrough: false, spoiler: false };
+    }
     // Consider reverse as italic, some IRC clients use that
-    ...block,
-    italic: block.italic || block.reverse,
-  }));
+    return { ...block, italic: block.italic || block.reverse, spoiler: isSpoiler(block) };
+  });
   let mdText = '';
 
   for (let i = 0; i <= blocks.length; i += 1) {
     // Default to unstyled blocks when index out of range
-    const block = blocks[i] || {};
-    const prevBlock = blocks[i - 1] || {};
+    const block: Partial<(typeof blocks)[number]> = blocks[i] || {};
+    const prevBlock: Partial<(typeof blocks)[number]> = blocks[i - 1] || {};
+
+    // Add end markers when style turns from true to false, before the start
+    // markers and in reverse order to maintain nesting
+    if (prevBlock.monospace && !block.monospace) mdText += '`';
+    if (prevBlock.underline && !block.underline) mdText += '__';
+    if (prevBlock.bold && !block.bold) mdText += '**';
+    if (prevBlock.italic && !block.italic) mdText += '*';
+    if (prevBlock.strikethrough && !block.strikethrough) mdText += '~~';
+    if (prevBlock.spoiler && !block.spoiler) mdText += '||';
 
     // Add start markers when style turns from false to true
+    if (!prevBlock.spoiler && block.spoiler) mdText += '||';
+    if (!prevBlock.strikethrough && block.strikethrough) mdText += '~~';
     if (!prevBlock.italic && block.italic) mdText += '*';
     if (!prevBlock.bold && block.bold) mdText += '**';
     if (!prevBlock.underline && block.underline) mdText += '__';
-
-    // Add end markers when style turns from true to false
-    // (and apply in reverse order to maintain nesting)
-    if (prevBlock.underline && !block.underline) mdText += '__';
-    if (prevBlock.bold && !block.bold) mdText += '**';
-    if (prevBlock.italic && !block.italic) mdText += '*';
+    if (!prevBlock.monospace && block.monospace) mdText += '`';
 
     mdText += block.text || '';
   }
 
   return mdText;
 }
+
+// eslint-disable-next-line no-control-regex
+const IRC_FORMATTING_CODES = /\x03(?:\d{1,2}(?:,\d{1,2})?)?|\x04(?:[0-9a-fA-F]{6}(?:,[0-9a-fA-F]{6})?)?|[\x02\x0f\x11\x16\x1d\x1e\x1f]/g;
+
+export function stripIRCFormatting(text: string): string {
+  return text.replace(IRC_FORMATTING_CODES, '');
+}
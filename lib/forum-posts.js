@@ -0,0 +1,61 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.FORUM_REPLY_PATTERN = void 0;
+exports.getShortId = getShortId;
+exports.toForumPost = toForumPost;
+exports.getOpenPosts = getOpenPosts;
+exports.findOpenPost = findOpenPost;
+exports.formatForumPost = formatForumPost;
+exports.FORUM_REPLY_PATTERN = /^!reply\s+([0-9a-z]+)\s+(\S[\s\S]*)$/i;
+const SHORT_ID_LENGTH = 5;
+/**
+ * Short ID IRC users refer to a forum post by
+ */
+function getShortId(threadId) {
+    return BigInt(threadId).toString(36).slice(-SHORT_ID_LENGTH);
+}
+function toForumPost(forum, thread) {
+    const tags = (thread.appliedTags ?? []).flatMap((tagId) => {
+        const tag = forum.availableTags.find(available => available.id === tagId);
+        return tag ? [tag.name] : [];
+    });
+    return {
+        shortId: getShortId(thread.id),
+        id: thread.id,
+        forumId: forum.id,
+        title: thread.name,
+        tags,
+        ownerId: thread.ownerId,
+        createdTimestamp: thread.createdTimestamp,
+    };
+}
+/**
+ * Open posts of the forums, newest first
+ */
+function getOpenPosts(forums, limit = 10) {
+    return forums
+        .flatMap(forum => [...forum.threads.cache.values()]
+        .filter(thread => !thread.archived)
+        .map(thread => toForumPost(forum, thread)))
+        .sort((a, b) => (b.createdTimestamp ?? 0) - (a.createdTimestamp ?? 0))
+        .slice(0, limit);
+}
+/**
+ * Open post of one of the forums with the short ID
+ */
+function findOpenPost(forums, shortId) {
+    const wanted = shortId.toLowerCase();
+    for (const forum of forums) {
+        const thread = forum.threads.cache.find(post => !post.archived && getShortId(post.id) === wanted);
+        if (thread)
+            return thread;
+    }
+    return undefined;
+}
+/**
+ * One line describing a post for IRC, like `[1a2b3] "Title" [bug, help] by alice`
+ */
+function formatForumPost(post, author) {
+    const tags = post.tags.length > 0 ? ` [${post.tags.join(', ')}]` : '';
+    return `[${post.shortId}] "${post.title}"${tags}${author ? ` by ${author}` : ''}`;
+}
@@ -0,0 +1,83 @@
+import type { ForumChannel, ThreadChannel } from 'discord.js';
+
+/**
+ * Forum channels mapped to IRC
+ *
+ * Forum channels only hold posts, which are threads, so they are bridged
+ * differently from text channels:
+ * 1. New posts are announced on IRC with their title, tags and a short ID
+ * 2. Messages in a post are relayed starting with the post's short ID
+ * 3. IRC users answer a post with `!reply <shortid> text`, other IRC messages
+ *    aren't relayed to the forum
+ *
+ * Short IDs come from the post's thread ID, so they stay the same across restarts.
+ */
+
+export interface ForumPost {
+  shortId: string;
+  id: string; // Thread ID
+  forumId: string;
+  title: string;
+  tags: string[];
+  ownerId: string | null;
+  createdTimestamp: number | null;
+}
+
+export const FORUM_REPLY_PATTERN = /^!reply\s+([0-9a-z]+)\s+(\S[\s\S]*)$/i;
+
+const SHORT_ID_LENGTH = 5;
+
+/**
+ * Short ID IRC users refer to a forum post by
+ */
+export function getShortId(threadId: string): string {
+  return BigInt(threadId).toString(36).slice(-SHORT_ID_LENGTH);
+}
+
+export function toForumPost(forum: ForumChannel, thread: ThreadChannel): ForumPost {
+  const tags = (thread.appliedTags ?? []).flatMap((tagId) => {
+    const tag = forum.availableTags.find(available => available.id === tagId);
+    return tag ? [tag.name] : [];
+  });
+  return {
+    shortId: getShortId(thread.id),
+    id: thread.id,
+    forumId: forum.id,
+    title: thread.name,
+    tags,
+    ownerId: thread.ownerId,
+    createdTimestamp: thread.createdTimestamp,
+  };
+}
+
+/**
+ * Open posts of the forums, newest first
+ */
+export function getOpenPosts(forums: ForumChannel[], limit = 10): ForumPost[] {
+  return forums
+    .flatMap(forum => [...forum.threads.cache.values()]
+      .filter(thread => !thread.archived)
+      .map(thread => toForumPost(forum, thread)))
+    .sort((a, b) => (b.createdTimestamp ?? 0) - (a.createdTimestamp ?? 0))
+    .slice(0, limit);
+}
+
+/**
+ * Open post of one of the forums with the short ID
+ */
+export function findOpenPost(forums: ForumChannel[], shortId: string): ThreadChannel | undefined {
+  const wanted = shortId.toLowerCase();
+  for (const forum of forums) {
+    const thread = forum.threads.cache.find(post => !post.archived && getShortId(post.id) === wanted);
+    if (thread) return thread;
+  }
+  return undefined;
+}
+
+/**
+ * One line describing a post for IRC, like `[1a2b3] "Title" [bug, help] by alice`
+ */
+export function formatForumPost(post: ForumPost, author?: string): string {
+  const tags = post.tags.length > 0 ? ` [${post.tags.join(', ')}]` : '';
+  return `[${post.shortId}] "${post.title}"${tags}${author ? ` by ${author}` : ''}`;
+}
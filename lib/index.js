@@ -1,6 +1,11 @@
 #!/usr/bin/env node
 "use strict";
+var __importDefault = (this && this.__importDefault) || function (mod) {
+    return (mod && mod.__esModule) ? mod : { "default": mod };
+};
 Object.defineProperty(exports, "__esModule", { value: true });
-exports.createBot = void 0;
+exports.Bot = exports.createBot = void 0;
 var helpers_1 = require("./helpers");
 Object.defineProperty(exports, "createBot", { enumerable: true, get: function () { return helpers_1.createBot; } });
+var bot_1 = require("./bot");
+Object.defineProperty(exports, "Bot", { enumerable: true, get: function () { return __importDefault(bot_1).default; } });
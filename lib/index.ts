@@ -1,3 +1,6 @@
 #!/usr/bin/env node
 
 export { createBot } from './helpers';
+export { default as Bot } from './bot';
+export type * from './bot-events';
+export type { Middleware, MiddlewarePosition, RelayDirection, RelayMessage } from './middleware';
@@ -3,6 +3,7 @@ Object.defineProperty(exports, "__esModule", { value: true });
 exports.IRCUserManager = void 0;
 const logger_1 = require("./logger");
 const response_aware_whois_queue_1 = require("./irc/response-aware-whois-queue");
+const capabilities_1 = require("./irc/capabilities");
 class IRCUserManager {
     users = new Map();
     channels = new Map();
@@ -13,11 +14,13 @@ class IRCUserManager {
     pendingWhoRequests = new Map();
     pendingListRequests = new Map();
     whoisQueue;
+    capabilities;
     enableWhois;
     constructor(ircClient, config = {}) {
         this.ircClient = ircClient;
         this.enableWhois = config.enableWhois ?? false; // Disabled by default to prevent spam
         this.whoisQueue = new response_aware_whois_queue_1.ResponseAwareWhoisQueue(ircClient, config.whoisTimeout ?? 5000);
+        this.capabilities = new capabilities_1.CapabilityNegotiator(ircClient);
         this.serverInfo = {
             name: '',
             supportedFeatures: new Map(),
@@ -72,7 +75,30 @@ class IRCUserManager {
     handleRawMessage(message) {
         const command = message.command;
         const params = message.args || [];
+        // account-tag: every message carries the sender's services account
+        const account = (0, capabilities_1.getAccountTag)(message);
+        if (account && message.nick) {
+            const user = this.users.get(message.nick.toLowerCase());
+            if (user)
+                user.account = account;
+        }
         switch (command) {
+            case 'JOIN': // extended-join adds the account name and realname
+                if (message.nick && params.length >= 3) {
+                    this.handleExtendedJoin(message.nick, params[1], params[2]);
+                }
+                break;
+            case 'AWAY': // away-notify
+                if (message.nick) {
+                    // irc-upd reads a bare "AWAY" (user is back) as having the command itself as its argument
+                    this.handleAwayNotify(message.nick, params[0] === command ? undefined : params[0]);
+                }
+                break;
+            case 'CHGHOST': // chghost
+                if (message.nick && params.length >= 2) {
+                    this.handleHostChange(message.nick, params[0], params[1]);
+                }
+                break;
             case '005': // RPL_ISUPPORT - Server capabilities
                 this.parseServerCapabilities(params);
                 break;
@@ -411,6 +437,30 @@ class IRCUserManager {
             }
         }
     }
+    handleExtendedJoin(nick, account, realname) {
+        const user = this.users.get(nick.toLowerCase());
+        if (!user)
+            return;
+        // "*" means the user isn't logged in to services
+        user.account = account === '*' ? undefined : account;
+        user.realname = realname;
+    }
+    handleAwayNotify(nick, awayMessage) {
+        const user = this.users.get(nick.toLowerCase());
+        if (!user)
+            return;
+        user.isAway = Boolean(awayMessage);
+        user.awayMessage = awayMessage || undefined;
+        user.lastSeen = Date.now();
+    }
+    handleHostChange(nick, username, hostname) {
+        const user = this.users.get(nick.toLowerCase());
+        if (!user)
+            return;
+        user.username = username;
+        user.hostname = hostname;
+        user.lastSeen = Date.now();
+    }
     handleNamesResponse(channelName, nicks) {
         let channel = this.channels.get(channelName.toLowerCase());
         if (!channel) {
@@ -588,6 +638,24 @@ class IRCUserManager {
             return true;
         });
     }
+    /**
+     * IRCv3 capabilities negotiated with the server
+     */
+    getCapabilities() {
+        return this.capabilities.getEnabled();
+    }
+    /**
+     * Whether an IRCv3 capability is active on the current connection
+     */
+    hasCapability(capability) {
+        return this.capabilities.isEnabled(capability);
+    }
+    /**
+     * Type of the IRCv3 batch a message belongs to, if any
+     */
+    getBatchType(message) {
+        return this.capabilities.getBatchType(message);
+    }
     /**
      * Get server information
      */
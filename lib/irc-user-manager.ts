@@ -1,6 +1,7 @@
 import { logger } from './logger';
 import { Client as IRCClient } from 'irc-upd';
 import { ResponseAwareWhoisQueue } from './irc/response-aware-whois-queue';
+import { CapabilityNegotiator, IRCRawMessage, getAccountTag } from './irc/capabilities';
 
 export interface IRCUserInfo {
   nick: string;
@@ -75,12 +76,14 @@ export class IRCUserManager {
   private pendingWhoRequests: Map<string, { resolve: (users: IRCUserInfo[]) => void; timeout: NodeJS.Timeout; users: IRCUserInfo[] }> = new Map();
   private pendingListRequests: Map<string, { resolve: (channels: IRCChannelListItem[]) => void; timeout: NodeJS.Timeout; channels: IRCChannelListItem[]; maxChannels: number }> = new Map();
   private whoisQueue: ResponseAwareWhoisQueue;
+  private capabilities: CapabilityNegotiator;
   private enableWhois: boolean;
 
   constructor(ircClient: IRCClient, config: IRCUserManagerConfig = {}) {
     this.ircClient = ircClient;
     this.enableWhois = config.enableWhois ?? false; // Disabled by default to prevent spam
     this.whoisQueue = new ResponseAwareWhoisQueue(ircClient, config.whoisTimeout ?? 5000);
+    this.capabilities = new CapabilityNegotiator(ircClient);
     this.serverInfo = {
       name: '',
       supportedFeatures: new Map(),
@@ -142,11 +145,37 @@ export class IRCUserManager {
     });
   }
 
-  private handleRawMessage(message: { command: string; args?: string[]; server?: string }): void {
+  private handleRawMessage(message: Partial<IRCRawMessage> & { command: string }): void {
     const command = message.command;
     const params = message.args || [];
 
+    // account-tag: every message carries the sender's services account
+    const account = getAccountTag(message as IRCRawMessage);
+    if (account && message.nick) {
+      const user = this.users.get(message.nick.toLowerCase());
+      if (user) user.account = account;
+    }
+
     switch (command) {
+      case 'JOIN': // extended-join adds the account name and realname
+        if (message.nick && params.length >= 3) {
+          this.handleExtendedJoin(message.nick, params[1], params[2]);
+        }
+        break;
+
+      case 'AWAY': // away-notify
+        if (message.nick) {
+          // irc-upd reads a bare "AWAY" (user is back) as having the command itself as its argument
+          this.handleAwayNotify(message.nick, params[0] === command ? undefined : params[0]);
+        }
+        break;
+
+      case 'CHGHOST': // chghost
+        if (message.nick && params.length >= 2) {
+          this.handleHostChange(message.nick, params[0], params[1]);
+        }
+        break;
+
       case '005': // RPL_ISUPPORT - Server capabilities
         this.parseServerCapabilities(params);
         break;
@@ -542,6 +571,33 @@ export class IRCUserManager {
     }
   }
 
+  private handleExtendedJoin(nick: string, account: string, realname: string): void {
+    const user = this.users.get(nick.toLowerCase());
+    if (!user) return;
+
+    // "*" means the user isn't logged in to services
+    user.account = account === '*' ? undefined : account;
+    user.realname = realname;
+  }
+
+  private handleAwayNotify(nick: string, awayMessage?: string): void {
+    const user = this.users.get(nick.toLowerCase());
+    if (!user) return;
+
+    user.isAway = Boolean(awayMessage);
+    user.awayMessage = awayMessage || undefined;
+    user.lastSeen = Date.now();
+  }
+
+  private handleHostChange(nick: string, username: string, hostname: string): void {
+    const user = this.users.get(nick.toLowerCase());
+    if (!user) return;
+
+    user.username = username;
+    user.hostname = hostname;
+    user.lastSeen = Date.now();
+  }
+
   private handleNamesResponse(channelName: string, nicks: Record<string, string>): void {
     let channel = this.channels.get(channelName.toLowerCase());
     if (!channel) {
@@ -747,6 +803,27 @@ export class IRCUserManager {
     });
   }
 
+  /**
+   * IRCv3 capabilities negotiated with the server
+   */
+  public getCapabilities(): Set<string> {
+    return this.capabilities.getEnabled();
+  }
+
+  /**
+   * Whether an IRCv3 capability is active on the current connection
+   */
+  public hasCapability(capability: string): boolean {
+    return this.capabilities.isEnabled(capability);
+  }
+
+  /**
+   * Type of the IRCv3 batch a message belongs to, if any
+   */
+  public getBatchType(message?: IRCRawMessage): string | undefined {
+    return this.capabilities.getBatchType(message);
+  }
+
   /**
    * Get server information
    */
@@ -0,0 +1,291 @@
+"use strict";
+var __importDefault = (this && this.__importDefault) || function (mod) {
+    return (mod && mod.__esModule) ? mod : { "default": mod };
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.CapabilityNegotiator = exports.SUPPORTED_CAPABILITIES = void 0;
+exports.parseMessageTags = parseMessageTags;
+exports.formatMessageTags = formatMessageTags;
+exports.getMessageTag = getMessageTag;
+exports.getServerTime = getServerTime;
+exports.getAccountTag = getAccountTag;
+const parse_message_1 = __importDefault(require("irc-upd/lib/parse_message"));
+const logger_1 = require("../logger");
+/**
+ * IRCv3 capability negotiation
+ *
+ * irc-upd only knows how to request `sasl`. This negotiates the IRCv3
+ * extensions the bridge understands:
+ * 1. Sends CAP LS 302 on connect and requests every supported capability the server offers
+ * 2. Ends negotiation with CAP END, unless irc-upd is still busy with SASL (it ends it itself)
+ * 3. Follows CAP NEW / CAP DEL for servers that change their capabilities at runtime
+ * 4. Teaches the client to parse message tags, which irc-upd would otherwise read as the command
+ */
+exports.SUPPORTED_CAPABILITIES = [
+    'server-time',
+    'message-tags',
+    'account-tag',
+    'extended-join',
+    'away-notify',
+    'chghost',
+    'echo-message',
+    'batch',
+    'draft/message-redaction',
+];
+// Tag value escapes, by the character following the backslash
+const TAG_ESCAPES = {
+    ':': ';',
+    s: ' ',
+    '\\': '\\',
+    r: '\r',
+    n: '\n',
+};
+// The reverse, for tags we send
+const TAG_VALUE_ESCAPES = {
+    ';': '\\:',
+    ' ': '\\s',
+    '\\': '\\\\',
+    '\r': '\\r',
+    '\n': '\\n',
+};
+/**
+ * Parse the tag section of a message, without the leading @
+ */
+function parseMessageTags(raw) {
+    const tags = {};
+    for (const tag of raw.split(';')) {
+        if (!tag)
+            continue;
+        const separator = tag.indexOf('=');
+        if (separator === -1) {
+            tags[tag] = true;
+            continue;
+        }
+        const value = tag.slice(separator + 1).replace(/\\(.?)/g, (match, escaped) => TAG_ESCAPES[escaped] ?? escaped);
+        tags[tag.slice(0, separator)] = value === '' ? true : value;
+    }
+    return tags;
+}
+/**
+ * Serialize tags for sending, without the leading @
+ */
+function formatMessageTags(tags) {
+    return Object.entries(tags)
+        .map(([key, value]) => {
+        if (value === true)
+            return key;
+        return `${key}=${value.replace(/[\\; \r\n]/g, char => TAG_VALUE_ESCAPES[char])}`;
+    })
+        .join(';');
+}
+/**
+ * Value of a single tag, e.g. msgid or +draft/reply
+ */
+function getMessageTag(message, name) {
+    const value = message?.tags?.[name];
+    return typeof value === 'string' ? value : undefined;
+}
+/**
+ * Time the server received a message, from the server-time tag
+ */
+function getServerTime(message) {
+    const time = message?.tags?.time;
+    if (typeof time !== 'string')
+        return undefined;
+    const date = new Date(time);
+    return Number.isNaN(date.getTime()) ? undefined : date;
+}
+/**
+ * Services account of the sender, from the account-tag tag
+ */
+function getAccountTag(message) {
+    return getMessageTag(message, 'account');
+}
+/**
+ * Re-parse a message irc-upd read without knowing about tags
+ *
+ * irc-upd takes "@tags" for the command and the rest of the line for its
+ * arguments, so the original line is put back together and parsed again
+ * after splitting off the tags. The message is fixed in place, so every
+ * listener sees the corrected version.
+ */
+function restoreTaggedMessage(message, stripColors) {
+    const { args } = message;
+    let rest;
+    if (args.length === 1 && args[0].includes(' ')) {
+        // ":prefix COMMAND ..." was read as a single trailing argument
+        rest = `:${args[0]}`;
+    }
+    else if (args.length > 1) {
+        rest = `${args.slice(0, -1).join(' ')} :${args[args.length - 1]}`;
+    }
+    else {
+        rest = args.join(' ');
+    }
+    const tags = parseMessageTags(message.rawCommand.slice(1));
+    const parsed = (0, parse_message_1.default)(rest, stripColors);
+    for (const key of Object.keys(message)) {
+        delete message[key];
+    }
+    Object.assign(message, parsed, { tags });
+}
+class CapabilityNegotiator {
+    ircClient;
+    wanted;
+    available = new Set();
+    enabled = new Set();
+    requested = new Set();
+    batches = new Map(); // Open batch reference -> batch type
+    negotiating = false;
+    constructor(ircClient, wanted = exports.SUPPORTED_CAPABILITIES) {
+        this.ircClient = ircClient;
+        this.wanted = wanted;
+        this.installTagParser();
+        ircClient.on('connect', () => {
+            this.beginNegotiation();
+        });
+        ircClient.on('raw', (message) => {
+            this.handleRawMessage(message);
+        });
+    }
+    /**
+     * Capabilities the server acknowledged
+     */
+    getEnabled() {
+        return new Set(this.enabled);
+    }
+    /**
+     * Whether a capability is active on the current connection
+     */
+    isEnabled(capability) {
+        return this.enabled.has(capability);
+    }
+    /**
+     * Type of the batch a message belongs to, e.g. "chathistory" or "netsplit"
+     */
+    getBatchType(message) {
+        const reference = message?.tags?.batch;
+        return typeof reference === 'string' ? this.batches.get(reference) : undefined;
+    }
+    /**
+     * Fix up tagged messages before irc-upd's own 'raw' handler sees them,
+     * and keep NAKs for our requests from surfacing as connection errors
+     */
+    installTagParser() {
+        const client = this.ircClient;
+        const emit = client.emit.bind(client);
+        client.emit = (event, ...args) => {
+            const message = args[0];
+            if (event === 'raw' && message?.rawCommand?.startsWith('@')) {
+                restoreTaggedMessage(message, client.opt?.stripColors ?? false);
+            }
+            if (event === 'error' && message?.command === 'CAP' && this.isOwnRejection(message)) {
+                return false;
+            }
+            return emit(event, ...args);
+        };
+    }
+    isOwnRejection(message) {
+        if (message.args[1] !== 'NAK')
+            return false;
+        const rejected = (message.args[2] ?? '').split(' ').filter(Boolean);
+        return rejected.length > 0 && rejected.every(capability => this.requested.has(capability));
+    }
+    beginNegotiation() {
+        this.available.clear();
+        this.enabled.clear();
+        this.requested.clear();
+        this.batches.clear();
+        this.negotiating = true;
+        this.ircClient.send('CAP', 'LS', '302');
+    }
+    handleRawMessage(message) {
+        switch (message.command) {
+            case 'CAP':
+                this.handleCap(message.args);
+                break;
+            case 'BATCH': {
+                const [reference, type] = message.args;
+                if (!reference)
+                    break;
+                if (reference.startsWith('+')) {
+                    this.batches.set(reference.slice(1), type);
+                }
+                else if (reference.startsWith('-')) {
+                    this.batches.delete(reference.slice(1));
+                }
+                break;
+            }
+            case 'rpl_welcome':
+                // Servers without CAP support never answer, registration just goes ahead
+                this.negotiating = false;
+                break;
+        }
+    }
+    handleCap(args) {
+        // <target> <subcommand> [*] :<capabilities>, the * marks a multi-line reply
+        const [, subcommand, ...params] = args;
+        const moreToCome = params.length > 1 && params[0] === '*';
+        const capabilities = (params[params.length - 1] ?? '')
+            .split(' ')
+            .filter(Boolean)
+            .map(capability => capability.split('=')[0]); // Drop 302 values like sasl=PLAIN
+        switch (subcommand) {
+            case 'LS':
+                capabilities.forEach(capability => this.available.add(capability));
+                if (!moreToCome)
+                    this.requestCapabilities([...this.available]);
+                break;
+            case 'NEW':
+                capabilities.forEach(capability => this.available.add(capability));
+                this.requestCapabilities(capabilities);
+                break;
+            case 'DEL':
+                for (const capability of capabilities) {
+                    this.available.delete(capability);
+                    this.enabled.delete(capability);
+                }
+                logger_1.logger.info(`IRC server removed capabilities: ${capabilities.join(', ')}`);
+                break;
+            case 'ACK':
+                for (const capability of capabilities) {
+                    if (capability.startsWith('-')) {
+                        this.enabled.delete(capability.slice(1));
+                    }
+                    else {
+                        this.enabled.add(capability);
+                    }
+                }
+                if (!moreToCome && capabilities.some(capability => this.requested.has(capability))) {
+                    logger_1.logger.info(`Negotiated IRCv3 capabilities: ${[...this.enabled].join(', ') || 'none'}`);
+                    this.endNegotiation();
+                }
+                break;
+            case 'NAK':
+                if (capabilities.some(capability => this.requested.has(capability))) {
+                    logger_1.logger.warn(`IRC server rejected capabilities: ${capabilities.join(', ')}`);
+                    this.endNegotiation();
+                }
+                break;
+        }
+    }
+    requestCapabilities(offered) {
+        const wanted = offered.filter(capability => this.wanted.includes(capability) && !this.enabled.has(capability));
+        if (wanted.length === 0) {
+            this.endNegotiation();
+            return;
+        }
+        wanted.forEach(capability => this.requested.add(capability));
+        this.ircClient.send('CAP', 'REQ', wanted.join(' '));
+    }
+    endNegotiation() {
+        if (!this.negotiating)
+            return;
+        this.negotiating = false;
+        // irc-upd sends CAP END itself once SASL authentication succeeded
+        if (!this.ircClient.opt?.sasl) {
+            this.ircClient.send('CAP', 'END');
+        }
+    }
+}
+exports.CapabilityNegotiator = CapabilityNegotiator;
@@ -0,0 +1,326 @@
+import { EventEmitter } from 'events';
+import parseMessage from 'irc-upd/lib/parse_message';
+import { logger } from '../logger';
+
+/**
+ * IRCv3 capability negotiation
+ *
+ * irc-upd only knows how to request `sasl`. This negotiates the IRCv3
+ * extensions the bridge understands:
+ * 1. Sends CAP LS 302 on connect and requests every supported capability the server offers
+ * 2. Ends negotiation with CAP END, unless irc-upd is still busy with SASL (it ends it itself)
+ * 3. Follows CAP NEW / CAP DEL for servers that change their capabilities at runtime
+ * 4. Teaches the client to parse message tags, which irc-upd would otherwise read as the command
+ */
+
+export const SUPPORTED_CAPABILITIES = [
+  'server-time',
+  'message-tags',
+  'account-tag',
+  'extended-join',
+  'away-notify',
+  'chghost',
+  'echo-message',
+  'batch',
+  'draft/message-redaction',
+] as const;
+
+export type MessageTags = Record<string, string | true>;
+
+// Shape of the messages irc-upd passes to its 'raw' listeners and as the last event argument
+export interface IRCRawMessage {
+  prefix?: string;
+  nick?: string;
+  user?: string;
+  host?: string;
+  server?: string;
+  command: string;
+  rawCommand: string;
+  commandType: string;
+  args: string[];
+  tags?: MessageTags;
+}
+
+interface IRCClientWithOptions extends EventEmitter {
+  opt?: { sasl?: boolean; stripColors?: boolean };
+  send(...args: string[]): void;
+}
+
+// Tag value escapes, by the character following the backslash
+const TAG_ESCAPES: Record<string, string> = {
+  ':': ';',
+  s: ' ',
+  '\\': '\\',
+  r: '\r',
+  n: '\n',
+};
+
+// The reverse, for tags we send
+const TAG_VALUE_ESCAPES: Record<string, string> = {
+  ';': '\\:',
+  ' ': '\\s',
+  '\\': '\\\\',
+  '\r': '\\r',
+  '\n': '\\n',
+};
+
+/**
+ * Parse the tag section of a message, without the leading @
+ */
+export function parseMessageTags(raw: string): MessageTags {
+  const tags: MessageTags = {};
+  for (const tag of raw.split(';')) {
+    if (!tag) continue;
+    const separator = tag.indexOf('=');
+    if (separator === -1) {
+      tags[tag] = true;
+      continue;
+    }
+    const value = tag.slice(separator + 1).replace(/\\(.?)/g, (match, escaped: string) => TAG_ESCAPES[escaped] ?? escaped);
+    tags[tag.slice(0, separator)] = value === '' ? true : value;
+  }
+  return tags;
+}
+
+/**
+ * Serialize tags for sending, without the leading @
+ */
+export function formatMessageTags(tags: MessageTags): string {
+  return Object.entries(tags)
+    .map(([key, value]) => {
+      if (value === true) return key;
+      return `${key}=${value.replace(/[\\; \r\n]/g, char => TAG_VALUE_ESCAPES[char])}`;
+    })
+    .join(';');
+}
+
+/**
+ * Value of a single tag, e.g. msgid or +draft/reply
+ */
+export function getMessageTag(message: IRCRawMessage | undefined, name: string): string | undefined {
+  const value = message?.tags?.[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Time the server received a message, from the server-time tag
+ */
+export function getServerTime(message?: IRCRawMessage): Date | undefined {
+  const time = message?.tags?.time;
+  if (typeof time !== 'string') return undefined;
+
+  const date = new Date(time);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Services account of the sender, from the account-tag tag
+ */
+export function getAccountTag(message?: IRCRawMessage): string | undefined {
+  return getMessageTag(message, 'account');
+}
+
+/**
+ * Re-parse a message irc-upd read without knowing about tags
+ *
+ * irc-upd takes "@tags" for the command and the rest of the line for its
+ * arguments, so the original line is put back together and parsed again
+ * after splitting off the tags. The message is fixed in place, so every
+ * listener sees the corrected version.
+ */
+function restoreTaggedMessage(message: IRCRawMessage, stripColors: boolean): void {
+  const { args } = message;
+  let rest: string;
+  if (args.length === 1 && args[0].includes(' ')) {
+    // ":prefix COMMAND ..." was read as a single trailing argument
+    rest = `:${args[0]}`;
+  } else if (args.length > 1) {
+    rest = `${args.slice(0, -1).join(' ')} :${args[args.length - 1]}`;
+  } else {
+    rest = args.join(' ');
+  }
+
+  const tags = parseMessageTags(message.rawCommand.slice(1));
+  const parsed = parseMessage(rest, stripColors) as IRCRawMessage;
+  for (const key of Object.keys(message)) {
+    delete message[key as keyof IRCRawMessage];
+  }
+  Object.assign(message, parsed, { tags });
+}
+
+export class CapabilityNegotiator {
+  private ircClient: IRCClientWithOptions;
+  private wanted: readonly string[];
+  private available: Set<string> = new Set();
+  private enabled: Set<string> = new Set();
+  private requested: Set<string> = new Set();
+  private batches: Map<string, string> = new Map(); // Open batch reference -> batch type
+  private negotiating = false;
+
+  constructor(ircClient: IRCClientWithOptions, wanted: readonly string[] = SUPPORTED_CAPABILITIES) {
+    this.ircClient = ircClient;
+    this.wanted = wanted;
+    this.installTagParser();
+
+    ircClient.on('connect', () => {
+      this.beginNegotiation();
+    });
+
+    ircClient.on('raw', (message: IRCRawMessage) => {
+      this.handleRawMessage(message);
+    });
+  }
+
+  /**
+   * Capabilities the server acknowledged
+   */
+  public getEnabled(): Set<string> {
+    return new Set(this.enabled);
+  }
+
+  /**
+   * Whether a capability is active on the current connection
+   */
+  public isEnabled(capability: string): boolean {
+    return this.enabled.has(capability);
+  }
+
+  /**
+   * Type of the batch a message belongs to, e.g. "chathistory" or "netsplit"
+   */
+  public getBatchType(message?: IRCRawMessage): string | undefined {
+    const reference = message?.tags?.batch;
+    return typeof reference === 'string' ? this.batches.get(reference) : undefined;
+  }
+
+  /**
+   * Fix up tagged messages before irc-upd's own 'raw' handler sees them,
+   * and keep NAKs for our requests from surfacing as connection errors
+   */
+  private installTagParser(): void {
+    const client = this.ircClient;
+    const emit = client.emit.bind(client) as (event: string | symbol, ...args: unknown[]) => boolean;
+
+    client.emit = (event: string | symbol, ...args: unknown[]): boolean => {
+      const message = args[0] as IRCRawMessage | undefined;
+      if (event === 'raw' && message?.rawCommand?.startsWith('@')) {
+        restoreTaggedMessage(message, client.opt?.stripColors ?? false);
+      }
+      if (event === 'error' && message?.command === 'CAP' && this.isOwnRejection(message)) {
+        return false;
+      }
+      return emit(event, ...args);
+    };
+  }
+
+  private isOwnRejection(message: IRCRawMessage): boolean {
+    if (message.args[1] !== 'NAK') return false;
+    const rejected = (message.args[2] ?? '').split(' ').filter(Boolean);
+    return rejected.length > 0 && rejected.every(capability => this.requested.has(capability));
+  }
+
+  private beginNegotiation(): void {
+    this.available.clear();
+    this.enabled.clear();
+    this.requested.clear();
+    this.batches.clear();
+    this.negotiating = true;
+    this.ircClient.send('CAP', 'LS', '302');
+  }
+
+  private handleRawMessage(message: IRCRawMessage): void {
+    switch (message.command) {
+      case 'CAP':
+        this.handleCap(message.args);
+        break;
+
+      case 'BATCH': {
+        const [reference, type] = message.args;
+        if (!reference) break;
+        if (reference.startsWith('+')) {
+          this.batches.set(reference.slice(1), type);
+        } else if (reference.startsWith('-')) {
+          this.batches.delete(reference.slice(1));
+        }
+        break;
+      }
+
+      case 'rpl_welcome':
+        // Servers without CAP support never answer, registration just goes ahead
+        this.negotiating = false;
+        break;
+    }
+  }
+
+  private handleCap(args: string[]): void {
+    // <target> <subcommand> [*] :<capabilities>, the * marks a multi-line reply
+    const [, subcommand, ...params] = args;
+    const moreToCome = params.length > 1 && params[0] === '*';
+    const capabilities = (params[params.length - 1] ?? '')
+      .split(' ')
+      .filter(Boolean)
+      .map(capability => capability.split('=')[0]); // Drop 302 values like sasl=PLAIN
+
+    switch (subcommand) {
+      case 'LS':
+        capabilities.forEach(capability => this.available.add(capability));
+        if (!moreToCome) this.requestCapabilities([...this.available]);
+        break;
+
+      case 'NEW':
+        capabilities.forEach(capability => this.available.add(capability));
+        this.requestCapabilities(capabilities);
+        break;
+
+      case 'DEL':
+        for (const capability of capabilities) {
+          this.available.delete(capability);
+          this.enabled.delete(capability);
+        }
+        logger.info(`IRC server removed capabilities: ${capabilities.join(', ')}`);
+        break;
+
+      case 'ACK':
+        for (const capability of capabilities) {
+          if (capability.startsWith('-')) {
+            this.enabled.delete(capability.slice(1));
+          } else {
+            this.enabled.add(capability);
+          }
+        }
+        if (!moreToCome && capabilities.some(capability => this.requested.has(capability))) {
+          logger.info(`Negotiated IRCv3 capabilities: ${[...this.enabled].join(', ') || 'none'}`);
+          this.endNegotiation();
+        }
+        break;
+
+      case 'NAK':
+        if (capabilities.some(capability => this.requested.has(capability))) {
+          logger.warn(`IRC server rejected capabilities: ${capabilities.join(', ')}`);
+          this.endNegotiation();
+        }
+        break;
+    }
+  }
+
+  private requestCapabilities(offered: string[]): void {
+    const wanted = offered.filter(capability => this.wanted.includes(capability) && !this.enabled.has(capability));
+    if (wanted.length === 0) {
+      this.endNegotiation();
+      return;
+    }
+
+    wanted.forEach(capability => this.requested.add(capability));
+    this.ircClient.send('CAP', 'REQ', wanted.join(' '));
+  }
+
+  private endNegotiation(): void {
+    if (!this.negotiating) return;
+    this.negotiating = false;
+
+    // irc-upd sends CAP END itself once SASL authentication succeeded
+    if (!this.ircClient.opt?.sasl) {
+      this.ircClient.send('CAP', 'END');
+    }
+  }
+}
@@ -0,0 +1,78 @@
+"use strict";
+/**
+ * Delivery confirmation for outgoing IRC messages
+ *
+ * With the IRCv3 echo-message capability the server sends every PRIVMSG and
+ * NOTICE we send back to us once it has accepted it. Lines are registered here
+ * when sent and confirmed when their echo arrives; lines whose echo never
+ * shows up within the timeout are reported as undelivered.
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.EchoTracker = void 0;
+class EchoTracker {
+    pending = new Map();
+    timeoutMs;
+    constructor(timeoutMs = 10000) {
+        this.timeoutMs = timeoutMs;
+    }
+    /**
+     * Register a sent line
+     * @returns Details of the echo, or null if it never arrived
+     */
+    async expect(target, text) {
+        const key = EchoTracker.key(target, text);
+        return new Promise((resolve) => {
+            const entry = {
+                sentAt: Date.now(),
+                resolve,
+                timer: setTimeout(() => {
+                    this.remove(key, entry);
+                    resolve(null);
+                }, this.timeoutMs),
+            };
+            const entries = this.pending.get(key) ?? [];
+            entries.push(entry);
+            this.pending.set(key, entries);
+        });
+    }
+    /**
+     * Match an echoed line against the oldest pending copy of it
+     * @returns Whether the line was one we were waiting for
+     */
+    confirm(target, text, msgid) {
+        const key = EchoTracker.key(target, text);
+        const entry = this.pending.get(key)?.[0];
+        if (!entry)
+            return false;
+        this.remove(key, entry);
+        clearTimeout(entry.timer);
+        entry.resolve({ latencyMs: Date.now() - entry.sentAt, msgid });
+        return true;
+    }
+    /**
+     * Give up on every pending line, e.g. when the connection is lost
+     */
+    clear() {
+        for (const entries of this.pending.values()) {
+            for (const entry of entries) {
+                clearTimeout(entry.timer);
+                entry.resolve(null);
+            }
+        }
+        this.pending.clear();
+    }
+    remove(key, entry) {
+        const remaining = (this.pending.get(key) ?? []).filter(pending => pending !== entry);
+        if (remaining.length > 0) {
+            this.pending.set(key, remaining);
+        }
+        else {
+            this.pending.delete(key);
+        }
+    }
+    // Channel names are case-insensitive on IRC
+    static key(target, text) {
+        return `${target.toLowerCase()} ${text}`;
+    }
+}
+exports.EchoTracker = EchoTracker;
@@ -0,0 +1,93 @@
+/**
+ * Delivery confirmation for outgoing IRC messages
+ *
+ * With the IRCv3 echo-message capability the server sends every PRIVMSG and
+ * NOTICE we send back to us once it has accepted it. Lines are registered here
+ * when sent and confirmed when their echo arrives; lines whose echo never
+ * shows up within the timeout are reported as undelivered.
+ */
+
+export interface EchoConfirmation {
+  latencyMs: number; // Time from sending the line to its echo arriving
+  msgid?: string; // IRCv3 message ID the server assigned, when it sends one
+}
+
+interface PendingEcho {
+  sentAt: number;
+  resolve: (confirmation: EchoConfirmation | null) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class EchoTracker {
+  private pending: Map<string, PendingEcho[]> = new Map();
+  private timeoutMs: number;
+
+  constructor(timeoutMs: number = 10000) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Register a sent line
+   * @returns Details of the echo, or null if it never arrived
+   */
+  async expect(target: string, text: string): Promise<EchoConfirmation | null> {
+    const key = EchoTracker.key(target, text);
+
+    return new Promise((resolve) => {
+      const entry: PendingEcho = {
+        sentAt: Date.now(),
+        resolve,
+        timer: setTimeout(() => {
+          this.remove(key, entry);
+          resolve(null);
+        }, this.timeoutMs),
+      };
+
+      const entries = this.pending.get(key) ?? [];
+      entries.push(entry);
+      this.pending.set(key, entries);
+    });
+  }
+
+  /**
+   * Match an echoed line against the oldest pending copy of it
+   * @returns Whether the line was one we were waiting for
+   */
+  confirm(target: string, text: string, msgid?: string): boolean {
+    const key = EchoTracker.key(target, text);
+    const entry = this.pending.get(key)?.[0];
+    if (!entry) return false;
+
+    this.remove(key, entry);
+    clearTimeout(entry.timer);
+    entry.resolve({ latencyMs: Date.now() - entry.sentAt, msgid });
+    return true;
+  }
+
+  /**
+   * Give up on every pending line, e.g. when the connection is lost
+   */
+  clear(): void {
+    for (const entries of this.pending.values()) {
+      for (const entry of entries) {
+        clearTimeout(entry.timer);
+        entry.resolve(null);
+      }
+    }
+    this.pending.clear();
+  }
+
+  private remove(key: string, entry: PendingEcho): void {
+    const remaining = (this.pending.get(key) ?? []).filter(pending => pending !== entry);
+    if (remaining.length > 0) {
+      this.pending.set(key, remaining);
+    } else {
+      this.pending.delete(key);
+    }
+  }
+
+  // Channel names are case-insensitive on IRC
+  private static key(target: string, text: string): string {
+    return `${target.toLowerCase()} ${text}`;
+  }
+}
@@ -0,0 +1,151 @@
+"use strict";
+/**
+ * Byte-accurate splitting of outgoing IRC messages
+ *
+ * IRC lines are limited to 512 bytes including the source prefix the server
+ * adds when relaying our PRIVMSG to other clients. Anything past that is
+ * silently dropped by the server, so long messages have to be split before
+ * sending. Lines are split:
+ * 1. On word boundaries where possible
+ * 2. Never inside a multibyte UTF-8 character
+ * 3. Never inside an IRC formatting code, with active formatting re-applied
+ *    at the start of each continuation line
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.getPrivmsgPayloadBudget = getPrivmsgPayloadBudget;
+exports.splitIRCMessage = splitIRCMessage;
+const IRC_MAX_LINE_BYTES = 512;
+// Worst case "~user@host" when the server hasn't told us our hostmask yet (USERLEN 10 + HOSTLEN 63)
+const FALLBACK_USERHOST = `~${'u'.repeat(9)}@${'h'.repeat(63)}`;
+// Colour codes carry optional parameters and have to be kept in one piece
+// eslint-disable-next-line no-control-regex
+const FORMAT_CODE = /^(?:\x03(?:\d{1,2}(?:,\d{1,2})?)?|\x04(?:[0-9a-fA-F]{6}(?:,[0-9a-fA-F]{6})?)?|[\x02\x0f\x11\x16\x1d\x1e\x1f])/;
+const TOGGLE_CODES = {
+    '\x02': 'bold',
+    '\x1d': 'italic',
+    '\x1f': 'underline',
+    '\x16': 'reverse',
+    '\x1e': 'strikethrough',
+    '\x11': 'monospace',
+};
+function isFormatCode(atom) {
+    return FORMAT_CODE.test(atom);
+}
+/**
+ * Split text into the smallest units that may not be cut:
+ * formatting codes (with parameters) and single code points
+ */
+function tokenize(text) {
+    const atoms = [];
+    let rest = text;
+    while (rest.length > 0) {
+        const code = FORMAT_CODE.exec(rest);
+        if (code) {
+            atoms.push(code[0]);
+            rest = rest.slice(code[0].length);
+            continue;
+        }
+        // Iterating a string yields whole code points, so surrogate pairs stay together
+        const [char] = rest;
+        atoms.push(char);
+        rest = rest.slice(char.length);
+    }
+    return atoms;
+}
+function applyFormatCode(state, code) {
+    if (code === '\x0f') {
+        state.toggles.clear();
+        state.color = '';
+    }
+    else if (code[0] === '\x03' || code[0] === '\x04') {
+        // A bare colour code resets the colour
+        state.color = code.length > 1 ? code : '';
+    }
+    else {
+        const style = TOGGLE_CODES[code];
+        if (state.toggles.has(style)) {
+            state.toggles.delete(style);
+        }
+        else {
+            state.toggles.add(style);
+        }
+    }
+}
+/**
+ * Codes that reproduce the given formatting state on a fresh line
+ */
+function formatStateToCodes(state) {
+    let codes = '';
+    for (const [code, style] of Object.entries(TOGGLE_CODES)) {
+        if (state.toggles.has(style))
+            codes += code;
+    }
+    // Pad single-digit colours so a following digit in the text isn't read as part of the code
+    // eslint-disable-next-line no-control-regex
+    return codes + state.color.replace(/^\x03(\d)(?=$|,)/, '\x030$1').replace(/,(\d)$/, ',0$1');
+}
+/**
+ * Number of bytes available for the text of a PRIVMSG to the given target
+ * Mirrors the accounting irc-upd uses so its own splitter never re-splits our lines
+ */
+function getPrivmsgPayloadBudget(nick, hostMask, target) {
+    const prefix = `:${nick}!${hostMask || FALLBACK_USERHOST} PRIVMSG ${target} :`;
+    return IRC_MAX_LINE_BYTES - Buffer.byteLength(prefix, 'utf8') - '\r\n'.length;
+}
+/**
+ * Split a message into lines of at most maxBytes UTF-8 bytes each
+ * @param text Single-line message, possibly containing IRC formatting codes
+ * @param maxBytes Byte budget per line
+ */
+function splitIRCMessage(text, maxBytes) {
+    if (Buffer.byteLength(text, 'utf8') <= maxBytes)
+        return [text];
+    const atoms = tokenize(text);
+    const sizes = atoms.map(atom => Buffer.byteLength(atom, 'utf8'));
+    const state = { toggles: new Set(), color: '' };
+    const lines = [];
+    let start = 0;
+    while (start < atoms.length) {
+        const opener = formatStateToCodes(state);
+        let bytes = Buffer.byteLength(opener, 'utf8');
+        let end = start;
+        let lastSpace = -1;
+        while (end < atoms.length && bytes + sizes[end] <= maxBytes) {
+            if (/^\s$/.test(atoms[end]))
+                lastSpace = end;
+            bytes += sizes[end];
+            end += 1;
+        }
+        let next = end;
+        if (end < atoms.length) {
+            // Formatting codes take no space on screen, so look past them for a word boundary
+            let after = end;
+            while (after < atoms.length && isFormatCode(atoms[after]))
+                after += 1;
+            if (end > start && after < atoms.length && /^\s$/.test(atoms[after])) {
+                // The line ends exactly on a word, the codes in between only affect the next line
+                next = after + 1;
+            }
+            else if (lastSpace > start) {
+                // Break on the last word boundary and drop the space itself
+                end = lastSpace;
+                next = lastSpace + 1;
+            }
+            else if (end === start) {
+                // A single unit larger than the budget, send it anyway rather than looping forever
+                end = start + 1;
+                next = end;
+            }
+        }
+        const content = atoms.slice(start, end).join('');
+        if (content.trim() !== '' || lines.length === 0) {
+            lines.push(opener + content);
+        }
+        for (let i = start; i < next; i += 1) {
+            if (isFormatCode(atoms[i]))
+                applyFormatCode(state, atoms[i]);
+        }
+        start = next;
+    }
+    return lines;
+}
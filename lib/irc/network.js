@@ -0,0 +1,191 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.IRCNetwork = void 0;
+exports.parseIRCTarget = parseIRCTarget;
+exports.qualifyIRCChannel = qualifyIRCChannel;
+const events_1 = require("events");
+const logger_1 = require("../logger");
+const irc_user_manager_1 = require("../irc-user-manager");
+const recovery_manager_1 = require("../recovery-manager");
+const QUALIFIED_TARGET = /^([^\s#&/]+)\/([#&]\S*)$/;
+/**
+ * Split a channelMapping target like "libera/#chan" into its network and channel
+ */
+function parseIRCTarget(target) {
+    const match = QUALIFIED_TARGET.exec(target);
+    if (!match)
+        return { channel: target };
+    return { network: match[1].toLowerCase(), channel: match[2] };
+}
+/**
+ * Network-qualified name of a channel, as used in the mapping
+ */
+function qualifyIRCChannel(network, channel) {
+    return `${network}/${channel}`.toLowerCase();
+}
+class IRCNetwork extends events_1.EventEmitter {
+    name;
+    server;
+    nickname;
+    client;
+    userManager;
+    recoveryManager;
+    options;
+    registered = false;
+    reconnecting = false;
+    constructor(options) {
+        super();
+        this.options = options;
+        this.name = options.name;
+        this.server = options.server;
+        this.nickname = options.nickname;
+        this.recoveryManager = new recovery_manager_1.RecoveryManager(options.recovery);
+        this.recoveryManager.on('attemptReconnection', (service, callback) => {
+            if (service !== 'irc')
+                return;
+            this.reconnect().then(callback, (error) => {
+                logger_1.logger.error(`Reconnection attempt failed for IRC network ${this.name}:`, error);
+                callback(false);
+            });
+        });
+    }
+    /**
+     * Create the client and start connecting, registration is announced with a 'registered' event
+     */
+    connect() {
+        this.client = this.options.createClient(this.server, this.nickname, this.options.channels);
+        this.userManager = new irc_user_manager_1.IRCUserManager(this.client, { enableWhois: false });
+        this.attachListeners();
+        logger_1.logger.info(`Connecting to IRC network ${this.name}: ${this.server}`);
+        this.client.connect(0);
+    }
+    /**
+     * Whether the network's connection is registered and its socket still open
+     */
+    isConnected() {
+        if (!this.registered || !this.client)
+            return false;
+        const socketState = this.client.conn?.readyState ?? this.client.readyState;
+        return !socketState || socketState === 'open';
+    }
+    /**
+     * Join a channel, with its key if it has one, and rejoin it whenever the network reconnects
+     */
+    join(channel) {
+        const index = this.findChannel(channel);
+        if (index === -1) {
+            this.options.channels.push(channel);
+        }
+        else {
+            this.options.channels[index] = channel;
+        }
+        if (this.isConnected())
+            this.client.join(channel);
+    }
+    /**
+     * Leave a channel and stop rejoining it
+     */
+    part(channel, message) {
+        const index = this.findChannel(channel);
+        if (index !== -1) {
+            this.options.channels.splice(index, 1);
+        }
+        if (this.isConnected())
+            this.client.part(channel, message);
+    }
+    disconnect(message = 'Bridge shutting down') {
+        this.recoveryManager.destroy();
+        this.registered = false;
+        if (!this.client)
+            return;
+        this.client.removeAllListeners();
+        this.client.disconnect(message);
+        this.userManager.cleanup();
+    }
+    attachListeners() {
+        const client = this.client;
+        // irc-upd fires several of these events for one lost connection
+        let disconnectHandled = false;
+        const handleDisconnect = (reason, error) => {
+            if (disconnectHandled || this.reconnecting)
+                return;
+            disconnectHandled = true;
+            this.registered = false;
+            logger_1.logger.warn(`❌ IRC network ${this.name} disconnected: ${reason}`);
+            this.emit('disconnected', reason);
+            this.recoveryManager.recordFailure('irc', error instanceof Error ? error : new Error(reason));
+        };
+        client.on('registered', () => {
+            this.registered = true;
+            logger_1.logger.info(`✅ Connected and registered to IRC network ${this.name}`);
+            this.recoveryManager.recordSuccess('irc');
+            for (const command of this.options.autoSendCommands ?? []) {
+                client.send(...command);
+            }
+            this.emit('registered');
+        });
+        client.on('error', (error) => {
+            logger_1.logger.warn(`IRC network ${this.name} received an error:`, error);
+        });
+        client.on('abort', () => handleDisconnect('Connection aborted'));
+        client.on('close', () => handleDisconnect('Connection closed'));
+        client.on('netError', (error) => handleDisconnect(`Network error: ${String(error)}`, error));
+        client.on('message', (author, to, text, ircMessage) => {
+            if (this.isOwnNick(author))
+                return;
+            this.emit('message', author, qualifyIRCChannel(this.name, to), text, ircMessage);
+        });
+        client.on('action', (author, to, text, ircMessage) => {
+            if (this.isOwnNick(author))
+                return;
+            this.emit('action', author, qualifyIRCChannel(this.name, to), text, ircMessage);
+        });
+        client.on('notice', (author, to, text, ircMessage) => {
+            // Server notices have no author and aren't meant for any channel
+            if (!author || this.isOwnNick(author))
+                return;
+            this.emit('notice', author, qualifyIRCChannel(this.name, to), text, ircMessage);
+        });
+        client.on('topic', (channel, topic, nick, ircMessage) => {
+            this.emit('topic', qualifyIRCChannel(this.name, channel), topic, nick, ircMessage);
+        });
+    }
+    /**
+     * Replace the client with a fresh one and wait for it to register
+     */
+    async reconnect() {
+        if (this.reconnecting)
+            return false;
+        this.reconnecting = true;
+        try {
+            logger_1.logger.info(`Reconnecting to IRC network ${this.name}...`);
+            this.client.removeAllListeners();
+            try {
+                this.client.disconnect('Reconnecting');
+            }
+            catch (error) {
+                logger_1.logger.debug(`IRC network ${this.name} disconnect error (expected if already disconnected):`, error);
+            }
+            this.userManager.cleanup();
+            this.connect();
+            return await new Promise((resolve) => {
+                const timeout = setTimeout(() => resolve(false), this.options.connectTimeoutMs ?? 30000);
+                this.client.once('registered', () => {
+                    clearTimeout(timeout);
+                    resolve(true);
+                });
+            });
+        }
+        finally {
+            this.reconnecting = false;
+        }
+    }
+    findChannel(channel) {
+        const name = channel.split(' ')[0].toLowerCase();
+        return this.options.channels.findIndex(joined => joined.split(' ')[0].toLowerCase() === name);
+    }
+    isOwnNick(nick) {
+        return nick.toLowerCase() === String(this.client.nick ?? this.nickname).toLowerCase();
+    }
+}
+exports.IRCNetwork = IRCNetwork;
@@ -0,0 +1,236 @@
+import { EventEmitter } from 'events';
+import { Client as IRCClient } from 'irc-upd';
+import { logger } from '../logger';
+import { IRCUserManager } from '../irc-user-manager';
+import { RecoveryManager, RecoveryConfig } from '../recovery-manager';
+import type { IRCRawMessage } from './capabilities';
+
+/**
+ * Additional IRC networks
+ *
+ * The bridge's own connection serves the channelMapping targets without a
+ * network, e.g. "#chan". Every network configured under `networks` gets a
+ * connection of its own and serves the targets qualified with its name,
+ * e.g. "libera/#chan":
+ * 1. Each network has its own IRCUserManager and RecoveryManager, so one
+ *    network going down doesn't hold up the others
+ * 2. Channel messages, actions, notices and topics are emitted with the qualified
+ *    channel name, which the rest of the bridge treats like any other mapped channel
+ */
+
+export interface IRCNetworkConfig {
+  server: string;
+  nickname?: string; // Defaults to the bridge's nickname
+  ircOptions?: Record<string, unknown>;
+  autoSendCommands?: string[][];
+}
+
+export interface IRCNetworkOptions {
+  name: string;
+  server: string;
+  nickname: string;
+  channels: string[]; // Channels to join, including their keys
+  autoSendCommands?: string[][];
+  recovery?: Partial<RecoveryConfig>;
+  connectTimeoutMs?: number; // Reconnect attempts give up after this long
+  createClient: (server: string, nickname: string, channels: string[]) => IRCClient;
+}
+
+export interface IRCTarget {
+  network?: string; // Lower-cased network name, unset for targets without one
+  channel: string;
+}
+
+const QUALIFIED_TARGET = /^([^\s#&/]+)\/([#&]\S*)$/;
+
+/**
+ * Split a channelMapping target like "libera/#chan" into its network and channel
+ */
+export function parseIRCTarget(target: string): IRCTarget {
+  const match = QUALIFIED_TARGET.exec(target);
+  if (!match) return { channel: target };
+  return { network: match[1].toLowerCase(), channel: match[2] };
+}
+
+/**
+ * Network-qualified name of a channel, as used in the mapping
+ */
+export function qualifyIRCChannel(network: string, channel: string): string {
+  return `${network}/${channel}`.toLowerCase();
+}
+
+export class IRCNetwork extends EventEmitter {
+  readonly name: string;
+  readonly server: string;
+  readonly nickname: string;
+  client!: IRCClient;
+  userManager!: IRCUserManager;
+  recoveryManager: RecoveryManager;
+
+  private options: IRCNetworkOptions;
+  private registered = false;
+  private reconnecting = false;
+
+  constructor(options: IRCNetworkOptions) {
+    super();
+    this.options = options;
+    this.name = options.name;
+    this.server = options.server;
+    this.nickname = options.nickname;
+
+    this.recoveryManager = new RecoveryManager(options.recovery);
+    this.recoveryManager.on('attemptReconnection', (service: 'discord' | 'irc', callback: (success: boolean) => void) => {
+      if (service !== 'irc') return;
+      this.reconnect().then(callback, (error) => {
+        logger.error(`Reconnection attempt failed for IRC network ${this.name}:`, error);
+        callback(false);
+      });
+    });
+  }
+
+  /**
+   * Create the client and start connecting, registration is announced with a 'registered' event
+   */
+  connect(): void {
+    this.client = this.options.createClient(this.server, this.nickname, this.options.channels);
+    this.userManager = new IRCUserManager(this.client, { enableWhois: false });
+    this.attachListeners();
+
+    logger.info(`Connecting to IRC network ${this.name}: ${this.server}`);
+    this.client.connect(0);
+  }
+
+  /**
+   * Whether the network's connection is registered and its socket still open
+   */
+  isConnected(): boolean {
+    if (!this.registered || !this.client) return false;
+
+    const socketState = this.client.conn?.readyState ?? this.client.readyState;
+    return !socketState || socketState === 'open';
+  }
+
+  /**
+   * Join a channel, with its key if it has one, and rejoin it whenever the network reconnects
+   */
+  join(channel: string): void {
+    const index = this.findChannel(channel);
+    if (index === -1) {
+      this.options.channels.push(channel);
+    } else {
+      this.options.channels[index] = channel;
+    }
+    if (this.isConnected()) this.client.join(channel);
+  }
+
+  /**
+   * Leave a channel and stop rejoining it
+   */
+  part(channel: string, message?: string): void {
+    const index = this.findChannel(channel);
+    if (index !== -1) {
+      this.options.channels.splice(index, 1);
+    }
+    if (this.isConnected()) this.client.part(channel, message);
+  }
+
+  disconnect(message: string = 'Bridge shutting down'): void {
+    this.recoveryManager.destroy();
+    this.registered = false;
+    if (!this.client) return;
+
+    this.client.removeAllListeners();
+    this.client.disconnect(message);
+    this.userManager.cleanup();
+  }
+
+  private attachListeners(): void {
+    const client = this.client;
+    // irc-upd fires several of these events for one lost connection
+    let disconnectHandled = false;
+
+    const handleDisconnect = (reason: string, error?: unknown) => {
+      if (disconnectHandled || this.reconnecting) return;
+      disconnectHandled = true;
+      this.registered = false;
+
+      logger.warn(`❌ IRC network ${this.name} disconnected: ${reason}`);
+      this.emit('disconnected', reason);
+      this.recoveryManager.recordFailure('irc', error instanceof Error ? error : new Error(reason));
+    };
+
+    client.on('registered', () => {
+      this.registered = true;
+      logger.info(`✅ Connected and registered to IRC network ${this.name}`);
+      this.recoveryManager.recordSuccess('irc');
+
+      for (const command of this.options.autoSendCommands ?? []) {
+        client.send(...command);
+      }
+      this.emit('registered');
+    });
+
+    client.on('error', (error: unknown) => {
+      logger.warn(`IRC network ${this.name} received an error:`, error);
+    });
+    client.on('abort', () => handleDisconnect('Connection aborted'));
+    client.on('close', () => handleDisconnect('Connection closed'));
+    client.on('netError', (error: unknown) => handleDisconnect(`Network error: ${String(error)}`, error));
+
+    client.on('message', (author: string, to: string, text: string, ircMessage?: IRCRawMessage) => {
+      if (this.isOwnNick(author)) return;
+      this.emit('message', author, qualifyIRCChannel(this.name, to), text, ircMessage);
+    });
+    client.on('action', (author: string, to: string, text: string, ircMessage?: IRCRawMessage) => {
+      if (this.isOwnNick(author)) return;
+      this.emit('action', author, qualifyIRCChannel(this.name, to), text, ircMessage);
+    });
+    client.on('notice', (author: string | undefined, to: string, text: string, ircMessage?: IRCRawMessage) => {
+      // Server notices have no author and aren't meant for any channel
+      if (!author || this.isOwnNick(author)) return;
+      this.emit('notice', author, qualifyIRCChannel(this.name, to), text, ircMessage);
+    });
+    client.on('topic', (channel: string, topic: string, nick: string | undefined, ircMessage?: IRCRawMessage) => {
+      this.emit('topic', qualifyIRCChannel(this.name, channel), topic, nick, ircMessage);
+    });
+  }
+
+  /**
+   * Replace the client with a fresh one and wait for it to register
+   */
+  private async reconnect(): Promise<boolean> {
+    if (this.reconnecting) return false;
+    this.reconnecting = true;
+
+    try {
+      logger.info(`Reconnecting to IRC network ${this.name}...`);
+      this.client.removeAllListeners();
+      try {
+        this.client.disconnect('Reconnecting');
+      } catch (error) {
+        logger.debug(`IRC network ${this.name} disconnect error (expected if already disconnected):`, error);
+      }
+      this.userManager.cleanup();
+
+      this.connect();
+      return await new Promise<boolean>((resolve) => {
+        const timeout = setTimeout(() => resolve(false), this.options.connectTimeoutMs ?? 30000);
+        this.client.once('registered', () => {
+          clearTimeout(timeout);
+          resolve(true);
+        });
+      });
+    } finally {
+      this.reconnecting = false;
+    }
+  }
+
+  private findChannel(channel: string): number {
+    const name = channel.split(' ')[0].toLowerCase();
+    return this.options.channels.findIndex(joined => joined.split(' ')[0].toLowerCase() === name);
+  }
+
+  private isOwnNick(nick: string): boolean {
+    return nick.toLowerCase() === String(this.client.nick ?? this.nickname).toLowerCase();
+  }
+}
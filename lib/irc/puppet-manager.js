@@ -0,0 +1,205 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.PuppetManager = void 0;
+exports.toIRCNick = toIRCNick;
+const logger_1 = require("../logger");
+/**
+ * Turn a display name into a valid IRC nick
+ * Keeps the characters RFC 2812 allows and makes sure the nick doesn't start with a digit or dash
+ */
+function toIRCNick(name, suffix, maxLength) {
+    let nick = name.replace(/[^A-Za-z0-9[\]\\`_^{|}-]/g, '');
+    if (!nick || /^[0-9-]/.test(nick)) {
+        nick = `_${nick}`;
+    }
+    return nick.slice(0, Math.max(1, maxLength - suffix.length)) + suffix;
+}
+class PuppetManager {
+    options;
+    puppets = new Map(); // Discord user ID -> puppet
+    sweepTimer;
+    constructor(options) {
+        this.options = options;
+        this.sweepTimer = setInterval(() => this.partIdleChannels(), Math.min(options.idleTimeoutMs, 60000));
+    }
+    /**
+     * Connection for a Discord user, joined to the channel they are talking in
+     * @returns null when the connection limit is reached, or the puppet isn't connected and joined in time
+     */
+    async acquire(userId, nick, ircChannel) {
+        let puppet = this.puppets.get(userId);
+        if (!puppet) {
+            if (this.puppets.size >= this.options.maxConnections) {
+                logger_1.logger.debug(`IRC puppet limit of ${this.options.maxConnections} reached, relaying ${nick} through the bot`);
+                return null;
+            }
+            puppet = this.connect(userId, nick);
+        }
+        if (!(await puppet.ready)) {
+            if (this.puppets.get(userId) === puppet && !puppet.connected) {
+                logger_1.logger.warn(`IRC puppet ${nick} could not connect, relaying through the bot`);
+                this.remove(userId);
+            }
+            return null;
+        }
+        if (!puppet.connected)
+            return null;
+        const channel = ircChannel.toLowerCase();
+        if (!puppet.channels.has(channel) && !(await this.join(puppet, ircChannel))) {
+            logger_1.logger.warn(`IRC puppet ${puppet.client.nick} could not join ${ircChannel}, relaying through the bot`);
+            return null;
+        }
+        puppet.channels.set(channel, Date.now());
+        return puppet.client;
+    }
+    /**
+     * Whether a nick belongs to one of the puppets, their messages must not be relayed back to Discord
+     */
+    isPuppetNick(nick) {
+        return this.getUserIdByNick(nick) !== undefined;
+    }
+    /**
+     * Discord user behind a puppet nick
+     */
+    getUserIdByNick(nick) {
+        const lowerNick = nick.toLowerCase();
+        for (const puppet of this.puppets.values()) {
+            if (puppet.client.nick.toLowerCase() === lowerNick)
+                return puppet.userId;
+        }
+        return undefined;
+    }
+    /**
+     * Turn highlights of puppet nicks in an IRC message into mentions of the Discord users behind them
+     */
+    mentionPuppets(text) {
+        let mentioned = text;
+        for (const { userId, client } of this.puppets.values()) {
+            const nick = client.nick.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+            mentioned = mentioned.replace(new RegExp(`(^|\\s)${nick}(?=$|\\s|[.,!?;:])`, 'gi'), `$1<@${userId}>`);
+        }
+        return mentioned;
+    }
+    /**
+     * Number of puppet connections
+     */
+    get size() {
+        return this.puppets.size;
+    }
+    /**
+     * Disconnect a user's puppet
+     */
+    remove(userId, reason = 'Leaving') {
+        const puppet = this.puppets.get(userId);
+        if (!puppet)
+            return;
+        this.puppets.delete(userId);
+        this.options.recoveryManager.cancelPuppetReconnect(userId);
+        puppet.client.disconnect(reason);
+        logger_1.logger.info(`IRC puppet ${puppet.client.nick} disconnected: ${reason}`);
+    }
+    /**
+     * Disconnect every puppet
+     */
+    destroy() {
+        clearInterval(this.sweepTimer);
+        for (const userId of [...this.puppets.keys()]) {
+            this.remove(userId, 'Bridge shutting down');
+        }
+    }
+    connect(userId, nick) {
+        const client = this.options.createClient(nick);
+        const puppet = {
+            userId,
+            client,
+            connected: false,
+            ready: Promise.resolve(false),
+            channels: new Map(),
+            joining: new Map(),
+        };
+        this.puppets.set(userId, puppet);
+        client.on('registered', () => {
+            puppet.connected = true;
+            logger_1.logger.info(`IRC puppet ${client.nick} connected for Discord user ${userId}`);
+        });
+        client.on('abort', () => {
+            this.handleConnectionLost(puppet);
+        });
+        client.on('kick', (channel, kicked) => {
+            if (kicked.toLowerCase() === client.nick.toLowerCase()) {
+                puppet.channels.delete(channel.toLowerCase());
+            }
+        });
+        client.on('pm', (from, text) => {
+            this.options.onPrivateMessage?.(userId, from, text);
+        });
+        client.on('error', (error) => {
+            logger_1.logger.warn(`IRC puppet ${client.nick} received an error:`, error);
+        });
+        this.startConnecting(puppet);
+        return puppet;
+    }
+    startConnecting(puppet) {
+        puppet.ready = this.withTimeout(new Promise((resolve) => {
+            puppet.client.once('registered', () => resolve(true));
+        }));
+        puppet.client.connect(0);
+    }
+    async join(puppet, ircChannel) {
+        const channel = ircChannel.toLowerCase();
+        let joining = puppet.joining.get(channel);
+        if (!joining) {
+            joining = this.withTimeout(new Promise((resolve) => {
+                puppet.client.join(ircChannel, () => resolve(true));
+            }));
+            puppet.joining.set(channel, joining);
+        }
+        const joined = await joining;
+        puppet.joining.delete(channel);
+        return joined;
+    }
+    /**
+     * Queue a dropped puppet for reconnecting, messages go through the bot in the meantime
+     * irc-upd rejoins the puppet's channels itself once it is registered again
+     */
+    handleConnectionLost(puppet) {
+        if (this.puppets.get(puppet.userId) !== puppet)
+            return; // Disconnected on purpose
+        puppet.connected = false;
+        logger_1.logger.info(`IRC puppet ${puppet.client.nick} lost its connection, queueing a reconnect`);
+        this.options.recoveryManager.queuePuppetReconnect(puppet.userId, () => {
+            if (this.puppets.get(puppet.userId) === puppet) {
+                this.startConnecting(puppet);
+            }
+        });
+    }
+    partIdleChannels() {
+        const cutoff = Date.now() - this.options.idleTimeoutMs;
+        for (const puppet of [...this.puppets.values()]) {
+            if (!puppet.connected)
+                continue;
+            for (const [channel, lastActive] of puppet.channels) {
+                if (lastActive < cutoff) {
+                    puppet.channels.delete(channel);
+                    puppet.client.part(channel, 'Idle');
+                }
+            }
+            if (puppet.channels.size === 0 && puppet.joining.size === 0) {
+                this.remove(puppet.userId, 'Idle');
+            }
+        }
+    }
+    async withTimeout(promise) {
+        let timer;
+        const timeout = new Promise((resolve) => {
+            timer = setTimeout(() => resolve(false), this.options.connectTimeoutMs);
+        });
+        try {
+            return await Promise.race([promise, timeout]);
+        }
+        finally {
+            clearTimeout(timer);
+        }
+    }
+}
+exports.PuppetManager = PuppetManager;
@@ -0,0 +1,264 @@
+import { EventEmitter } from 'events';
+import { logger } from '../logger';
+import type { RecoveryManager } from '../recovery-manager';
+
+/**
+ * IRC puppet connections for Discord users
+ *
+ * In puppet mode every Discord member who talks in a bridged channel gets an
+ * IRC connection of their own, so IRC users see a real client they can
+ * WHOIS, PM and highlight instead of <nick> lines from the bridge bot:
+ * 1. Puppets connect on demand, up to a configured number of connections
+ * 2. They join a channel the first time their user talks in it, and part
+ *    channels they have been quiet in for the idle timeout
+ * 3. A puppet without channels quits
+ * 4. Dropped connections are handed to the RecoveryManager, which reconnects
+ *    them one at a time once the bridge's own connection is healthy
+ */
+
+// The parts of irc-upd's Client the puppets use
+export interface PuppetClient extends EventEmitter {
+  nick: string;
+  hostMask?: string;
+  connect(retryCount?: number): void;
+  disconnect(message?: string): void;
+  join(channel: string, callback?: () => void): void;
+  part(channel: string, message?: string): void;
+  say(target: string, text: string): void;
+}
+
+export interface PuppetManagerOptions {
+  maxConnections: number;
+  idleTimeoutMs: number; // Channels a puppet has been quiet in this long are parted
+  connectTimeoutMs: number; // Give up on connecting or joining after this long
+  createClient: (nick: string) => PuppetClient;
+  recoveryManager: RecoveryManager;
+  onPrivateMessage?: (userId: string, from: string, text: string) => void;
+}
+
+interface Puppet {
+  userId: string;
+  client: PuppetClient;
+  connected: boolean;
+  ready: Promise<boolean>; // Resolves once registered, false if that didn't happen in time
+  channels: Map<string, number>; // Lower-cased channel -> last message sent there
+  joining: Map<string, Promise<boolean>>;
+}
+
+/**
+ * Turn a display name into a valid IRC nick
+ * Keeps the characters RFC 2812 allows and makes sure the nick doesn't start with a digit or dash
+ */
+export function toIRCNick(name: string, suffix: string, maxLength: number): string {
+  let nick = name.replace(/[^A-Za-z0-9[\]\\`_^{|}-]/g, '');
+  if (!nick || /^[0-9-]/.test(nick)) {
+    nick = `_${nick}`;
+  }
+  return nick.slice(0, Math.max(1, maxLength - suffix.length)) + suffix;
+}
+
+export class PuppetManager {
+  private options: PuppetManagerOptions;
+  private puppets: Map<string, Puppet> = new Map(); // Discord user ID -> puppet
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(options: PuppetManagerOptions) {
+    this.options = options;
+    this.sweepTimer = setInterval(() => this.partIdleChannels(), Math.min(options.idleTimeoutMs, 60000));
+  }
+
+  /**
+   * Connection for a Discord user, joined to the channel they are talking in
+   * @returns null when the connection limit is reached, or the puppet isn't connected and joined in time
+   */
+  async acquire(userId: string, nick: string, ircChannel: string): Promise<PuppetClient | null> {
+    let puppet = this.puppets.get(userId);
+    if (!puppet) {
+      if (this.puppets.size >= this.options.maxConnections) {
+        logger.debug(`IRC puppet limit of ${this.options.maxConnections} reached, relaying ${nick} through the bot`);
+        return null;
+      }
+      puppet = this.connect(userId, nick);
+    }
+
+    if (!(await puppet.ready)) {
+      if (this.puppets.get(userId) === puppet && !puppet.connected) {
+        logger.warn(`IRC puppet ${nick} could not connect, relaying through the bot`);
+        this.remove(userId);
+      }
+      return null;
+    }
+    if (!puppet.connected) return null;
+
+    const channel = ircChannel.toLowerCase();
+    if (!puppet.channels.has(channel) && !(await this.join(puppet, ircChannel))) {
+      logger.warn(`IRC puppet ${puppet.client.nick} could not join ${ircChannel}, relaying through the bot`);
+      return null;
+    }
+
+    puppet.channels.set(channel, Date.now());
+    return puppet.client;
+  }
+
+  /**
+   * Whether a nick belongs to one of the puppets, their messages must not be relayed back to Discord
+   */
+  isPuppetNick(nick: string): boolean {
+    return this.getUserIdByNick(nick) !== undefined;
+  }
+
+  /**
+   * Discord user behind a puppet nick
+   */
+  getUserIdByNick(nick: string): string | undefined {
+    const lowerNick = nick.toLowerCase();
+    for (const puppet of this.puppets.values()) {
+      if (puppet.client.nick.toLowerCase() === lowerNick) return puppet.userId;
+    }
+    return undefined;
+  }
+
+  /**
+   * Turn highlights of puppet nicks in an IRC message into mentions of the Discord users behind them
+   */
+  mentionPuppets(text: string): string {
+    let mentioned = text;
+    for (const { userId, client } of this.puppets.values()) {
+      const nick = client.nick.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      mentioned = mentioned.replace(new RegExp(`(^|\\s)${nick}(?=$|\\s|[.,!?;:])`, 'gi'), `$1<@${userId}>`);
+    }
+    return mentioned;
+  }
+
+  /**
+   * Number of puppet connections
+   */
+  get size(): number {
+    return this.puppets.size;
+  }
+
+  /**
+   * Disconnect a user's puppet
+   */
+  remove(userId: string, reason = 'Leaving'): void {
+    const puppet = this.puppets.get(userId);
+    if (!puppet) return;
+
+    this.puppets.delete(userId);
+    this.options.recoveryManager.cancelPuppetReconnect(userId);
+    puppet.client.disconnect(reason);
+    logger.info(`IRC puppet ${puppet.client.nick} disconnected: ${reason}`);
+  }
+
+  /**
+   * Disconnect every puppet
+   */
+  destroy(): void {
+    clearInterval(this.sweepTimer);
+    for (const userId of [...this.puppets.keys()]) {
+      this.remove(userId, 'Bridge shutting down');
+    }
+  }
+
+  private connect(userId: string, nick: string): Puppet {
+    const client = this.options.createClient(nick);
+    const puppet: Puppet = {
+      userId,
+      client,
+      connected: false,
+      ready: Promise.resolve(false),
+      channels: new Map(),
+      joining: new Map(),
+    };
+    this.puppets.set(userId, puppet);
+
+    client.on('registered', () => {
+      puppet.connected = true;
+      logger.info(`IRC puppet ${client.nick} connected for Discord user ${userId}`);
+    });
+    client.on('abort', () => {
+      this.handleConnectionLost(puppet);
+    });
+    client.on('kick', (channel: string, kicked: string) => {
+      if (kicked.toLowerCase() === client.nick.toLowerCase()) {
+        puppet.channels.delete(channel.toLowerCase());
+      }
+    });
+    client.on('pm', (from: string, text: string) => {
+      this.options.onPrivateMessage?.(userId, from, text);
+    });
+    client.on('error', (error: unknown) => {
+      logger.warn(`IRC puppet ${client.nick} received an error:`, error);
+    });
+
+    this.startConnecting(puppet);
+    return puppet;
+  }
+
+  private startConnecting(puppet: Puppet): void {
+    puppet.ready = this.withTimeout(new Promise<boolean>((resolve) => {
+      puppet.client.once('registered', () => resolve(true));
+    }));
+    puppet.client.connect(0);
+  }
+
+  private async join(puppet: Puppet, ircChannel: string): Promise<boolean> {
+    const channel = ircChannel.toLowerCase();
+    let joining = puppet.joining.get(channel);
+    if (!joining) {
+      joining = this.withTimeout(new Promise<boolean>((resolve) => {
+        puppet.client.join(ircChannel, () => resolve(true));
+      }));
+      puppet.joining.set(channel, joining);
+    }
+
+    const joined = await joining;
+    puppet.joining.delete(channel);
+    return joined;
+  }
+
+  /**
+   * Queue a dropped puppet for reconnecting, messages go through the bot in the meantime
+   * irc-upd rejoins the puppet's channels itself once it is registered again
+   */
+  private handleConnectionLost(puppet: Puppet): void {
+    if (this.puppets.get(puppet.userId) !== puppet) return; // Disconnected on purpose
+
+    puppet.connected = false;
+    logger.info(`IRC puppet ${puppet.client.nick} lost its connection, queueing a reconnect`);
+    this.options.recoveryManager.queuePuppetReconnect(puppet.userId, () => {
+      if (this.puppets.get(puppet.userId) === puppet) {
+        this.startConnecting(puppet);
+      }
+    });
+  }
+
+  private partIdleChannels(): void {
+    const cutoff = Date.now() - this.options.idleTimeoutMs;
+    for (const puppet of [...this.puppets.values()]) {
+      if (!puppet.connected) continue;
+
+      for (const [channel, lastActive] of puppet.channels) {
+        if (lastActive < cutoff) {
+          puppet.channels.delete(channel);
+          puppet.client.part(channel, 'Idle');
+        }
+      }
+      if (puppet.channels.size === 0 && puppet.joining.size === 0) {
+        this.remove(puppet.userId, 'Idle');
+      }
+    }
+  }
+
+  private async withTimeout(promise: Promise<boolean>): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), this.options.connectTimeoutMs);
+    });
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
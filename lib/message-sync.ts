@@ -10,9 +10,22 @@ export interface MessageRecord {
   author: string;
 }
 
+export interface IRCMessageRecord {
+  discordMessageId: string;
+  ircChannel: string;
+  text: string;
+  timestamp: number;
+  ircNick: string;
+  msgid?: string; // IRCv3 msgid of the IRC message
+  webhook?: boolean; // Sent through the channel's webhook rather than by the bot
+}
+
 export class MessageSynchronizer {
   private bot: Bot;
   private messageHistory: Map<string, MessageRecord> = new Map();
+  private ircMessageHistory: Map<string, IRCMessageRecord> = new Map(); // Discord message ID -> IRC origin
+  private msgidToDiscord: Map<string, string> = new Map(); // IRCv3 msgid -> Discord message ID
+  private discordToMsgid: Map<string, string> = new Map(); // Discord message ID -> IRCv3 msgid
   private readonly maxHistorySize = 1000; // Keep last 1000 messages
   private readonly editWindow = 5 * 60 * 1000; // 5 minutes edit window
 
@@ -42,6 +55,71 @@ export class MessageSynchronizer {
     logger.debug(`Recorded message ${discordMessageId} -> ${ircChannel}: ${ircMessage.substring(0, 50)}...`);
   }
 
+  /**
+   * Record a message that was relayed from IRC to Discord
+   */
+  recordIRCMessage(
+    discordMessageId: string,
+    ircChannel: string,
+    text: string,
+    ircNick: string,
+    options: { msgid?: string; webhook?: boolean } = {}
+  ): void {
+    this.ircMessageHistory.set(discordMessageId, {
+      discordMessageId,
+      ircChannel,
+      text,
+      timestamp: Date.now(),
+      ircNick,
+      ...options
+    });
+    if (options.msgid) {
+      this.recordMsgid(options.msgid, discordMessageId);
+    }
+
+    // Maps iterate in insertion order, so the first key is the oldest record
+    if (this.ircMessageHistory.size > this.maxHistorySize) {
+      const oldest = this.ircMessageHistory.keys().next().value;
+      if (oldest) this.ircMessageHistory.delete(oldest);
+    }
+  }
+
+  /**
+   * Look up the IRC message a Discord message was relayed from
+   */
+  getIRCMessage(discordMessageId: string): IRCMessageRecord | undefined {
+    return this.ircMessageHistory.get(discordMessageId);
+  }
+
+  /**
+   * Link an IRCv3 msgid to the Discord message on the other side of the bridge,
+   * in either direction, so replies and reactions can be mapped across
+   */
+  recordMsgid(msgid: string, discordMessageId: string): void {
+    this.msgidToDiscord.set(msgid, discordMessageId);
+    this.discordToMsgid.set(discordMessageId, msgid);
+
+    if (this.msgidToDiscord.size > this.maxHistorySize) {
+      const [oldestMsgid, oldestDiscordId] = this.msgidToDiscord.entries().next().value as [string, string];
+      this.msgidToDiscord.delete(oldestMsgid);
+      this.discordToMsgid.delete(oldestDiscordId);
+    }
+  }
+
+  /**
+   * Discord message for an IRCv3 msgid
+   */
+  getDiscordMessageId(msgid: string): string | undefined {
+    return this.msgidToDiscord.get(msgid);
+  }
+
+  /**
+   * IRCv3 msgid for a Discord message
+   */
+  getMsgid(discordMessageId: string): string | undefined {
+    return this.discordToMsgid.get(discordMessageId);
+  }
+
   /**
    * Handle Discord message edit
    *
@@ -108,9 +186,10 @@ export class MessageSynchronizer {
       const editNotification = `[EDIT] ${messageRecord.author}: ${formattedContent} (was: ${messageRecord.ircMessage})`;
 
       // Use the same sending mechanism as regular messages
-      if (this.bot.ircClient && this.bot.ircClient.readyState === 'open') {
+      const target = this.getOpenIRCTarget(messageRecord.ircChannel);
+      if (target) {
         try {
-          this.bot.ircClient.say(messageRecord.ircChannel, editNotification);
+          target.client.say(target.channel, editNotification);
           logger.info(`Sent edit notification to ${messageRecord.ircChannel}: ${messageRecord.author} edited message`);
 
           // Record edit metrics
@@ -164,9 +243,10 @@ export class MessageSynchronizer {
       // Send deletion notification to IRC
       const deleteNotification = `[DELETED] ${messageRecord.author} deleted: ${messageRecord.ircMessage}`;
 
-      if (this.bot.ircClient && this.bot.ircClient.readyState === 'open') {
+      const target = this.getOpenIRCTarget(messageRecord.ircChannel);
+      if (target) {
         try {
-          this.bot.ircClient.say(messageRecord.ircChannel, deleteNotification);
+          target.client.say(target.channel, deleteNotification);
           logger.info(`Sent delete notification to ${messageRecord.ircChannel}: ${messageRecord.author} deleted message`);
 
           // Record delete metrics
@@ -187,6 +267,73 @@ export class MessageSynchronizer {
     }
   }
 
+  /**
+   * Handle an IRC message being redacted (draft/message-redaction)
+   *
+   * Deletes the Discord message it was relayed as, provided the redacting
+   * user passes the configured rules. The server has already checked that
+   * they may redact the message on IRC.
+   */
+  async handleIRCRedaction(redactor: string, ircChannel: string, msgid: string): Promise<void> {
+    try {
+      const discordMessageId = this.msgidToDiscord.get(msgid);
+      const record = discordMessageId ? this.ircMessageHistory.get(discordMessageId) : undefined;
+      if (!discordMessageId || !record) {
+        logger.debug(`No relayed Discord message found for redacted IRC message ${msgid}`);
+        return;
+      }
+
+      if (!this.mayRedact(redactor, record)) {
+        logger.info(`Ignoring redaction of ${record.ircNick}'s message in ${ircChannel} by ${redactor}`);
+        return;
+      }
+
+      const webhook = record.webhook && this.bot.findWebhook(record.ircChannel);
+      if (webhook) {
+        await webhook.client.deleteMessage(discordMessageId);
+      } else {
+        const discordChannel = this.bot.findDiscordChannel(record.ircChannel);
+        if (!discordChannel) return;
+        await discordChannel.messages.delete(discordMessageId);
+      }
+
+      this.ircMessageHistory.delete(discordMessageId);
+      this.msgidToDiscord.delete(msgid);
+      this.discordToMsgid.delete(discordMessageId);
+      logger.info(`Deleted Discord message ${discordMessageId} after ${redactor} redacted it in ${ircChannel}`);
+      this.bot.metrics.recordDelete();
+    } catch (error) {
+      logger.error('Error handling IRC message redaction:', error);
+    }
+  }
+
+  /**
+   * Connection and channel name for a relayed IRC channel, while that connection is open
+   * Channels may be qualified with an additional network, e.g. "libera/#chan"
+   */
+  private getOpenIRCTarget(ircChannel: string): ReturnType<Bot['getIRCTarget']> {
+    const target = this.bot.getIRCTarget(ircChannel);
+    return target?.client && target.client.readyState === 'open' ? target : null;
+  }
+
+  /**
+   * Whether a redaction passes the configured rules, no rules means any redaction the server allows
+   */
+  private mayRedact(redactor: string, record: IRCMessageRecord): boolean {
+    const { allowedBy } = this.bot.redactionConfig;
+    if (allowedBy.length === 0) return true;
+
+    if (allowedBy.includes('author') && redactor.toLowerCase() === record.ircNick.toLowerCase()) {
+      return true;
+    }
+    if (allowedBy.includes('ops')) {
+      const channelUser = this.bot.ircUserManager?.getChannelUsers(record.ircChannel)
+        .find(user => user.nick.toLowerCase() === redactor.toLowerCase());
+      if (channelUser?.isOperator) return true;
+    }
+    return false;
+  }
+
   /**
    * Handle bulk message deletion (Discord purge)
    */
@@ -219,9 +366,10 @@ export class MessageSynchronizer {
       for (const channel of channels) {
         const bulkNotification = `[BULK DELETE] ${relevantMessages} messages were deleted from Discord`;
 
-        if (this.bot.ircClient && this.bot.ircClient.readyState === 'open') {
+        const target = this.getOpenIRCTarget(channel);
+        if (target) {
           try {
-            this.bot.ircClient.say(channel, bulkNotification);
+            target.client.say(target.channel, bulkNotification);
             logger.info(`Sent bulk delete notification to ${channel}: ${relevantMessages} messages`);
           } catch (error) {
             logger.warn(`Failed to send bulk delete notification to ${channel} (IRC may have disconnected):`, error);
@@ -294,6 +442,9 @@ export class MessageSynchronizer {
   clearHistory(): void {
     const count = this.messageHistory.size;
     this.messageHistory.clear();
+    this.ircMessageHistory.clear();
+    this.msgidToDiscord.clear();
+    this.discordToMsgid.clear();
     logger.info(`Cleared ${count} message records from history`);
   }
 
@@ -306,6 +457,14 @@ export class MessageSynchronizer {
     try {
       const historyData = JSON.stringify(Array.from(this.messageHistory.entries()));
       await this.bot.persistence.saveMetric('message_history', historyData);
+      await this.bot.persistence.saveMetric(
+        'irc_message_history',
+        JSON.stringify(Array.from(this.ircMessageHistory.entries()))
+      );
+      await this.bot.persistence.saveMetric(
+        'msgid_index',
+        JSON.stringify(Array.from(this.msgidToDiscord.entries()))
+      );
       logger.debug('Saved message history to persistence');
     } catch (error) {
       logger.error('Failed to save message history to persistence:', error);
@@ -329,9 +488,26 @@ export class MessageSynchronizer {
         
         logger.info(`Loaded ${this.messageHistory.size} message records from persistence`);
       }
+
+      const ircHistoryData = await this.bot.persistence.getMetric('irc_message_history');
+      if (ircHistoryData) {
+        const cutoffTime = Date.now() - (24 * 60 * 60 * 1000);
+        const entries = JSON.parse(ircHistoryData) as [string, IRCMessageRecord][];
+        this.ircMessageHistory = new Map(entries.filter(([, record]) => record.timestamp >= cutoffTime));
+      }
+
+      const msgidData = await this.bot.persistence.getMetric('msgid_index');
+      if (msgidData) {
+        const entries = JSON.parse(msgidData) as [string, string][];
+        this.msgidToDiscord = new Map(entries);
+        this.discordToMsgid = new Map(entries.map(([msgid, discordMessageId]) => [discordMessageId, msgid]));
+      }
     } catch (error) {
       logger.error('Failed to load message history from persistence:', error);
       this.messageHistory.clear(); // Start fresh if data is corrupted
+      this.ircMessageHistory.clear();
+      this.msgidToDiscord.clear();
+      this.discordToMsgid.clear();
     }
   }
 }
\ No newline at end of file
@@ -11,10 +11,17 @@ class MetricsServer {
     server = null;
     metricsCollector;
     port;
+    pasteStore;
     constructor(metricsCollector, port = 3001) {
         this.metricsCollector = metricsCollector;
         this.port = port;
     }
+    /**
+     * Serve offloaded Discord pastes under /pastes/<id>.txt
+     */
+    setPasteStore(pasteStore) {
+        this.pasteStore = pasteStore;
+    }
     start() {
         this.server = http_1.default.createServer((req, res) => {
             // CORS headers for web dashboards
@@ -48,7 +55,15 @@ class MetricsServer {
                         this.handleRecent(res);
                         break;
                     default:
-                        this.handle404(res);
+                        if (this.pasteStore && url.startsWith('/pastes/')) {
+                            this.handlePaste(this.pasteStore, url, res).catch((error) => {
+                                logger_1.logger.error('Error serving paste:', error);
+                                this.handleError(res, error);
+                            });
+                        }
+                        else {
+                            this.handle404(res);
+                        }
                 }
             }
             catch (error) {
@@ -139,6 +154,16 @@ class MetricsServer {
             ...recent
         }, null, 2));
     }
+    async handlePaste(pasteStore, url, res) {
+        const match = /^\/pastes\/([^/]+)\.txt$/.exec(url);
+        const content = match ? await pasteStore.read(match[1]) : null;
+        if (content === null) {
+            this.handle404(res);
+            return;
+        }
+        res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end(content);
+    }
     handle404(res) {
         const notFound = {
             error: 'Not Found',
@@ -1,18 +1,27 @@
 import http from 'http';
 import { logger } from './logger';
 import { MetricsCollector } from './metrics';
+import { LocalPasteStore } from './paste-store';
 import packageJson from '../package.json';
 
 export class MetricsServer {
   private server: http.Server | null = null;
   private metricsCollector: MetricsCollector;
   private port: number;
+  private pasteStore?: LocalPasteStore;
 
   constructor(metricsCollector: MetricsCollector, port: number = 3001) {
     this.metricsCollector = metricsCollector;
     this.port = port;
   }
 
+  /**
+   * Serve offloaded Discord pastes under /pastes/<id>.txt
+   */
+  setPasteStore(pasteStore: LocalPasteStore): void {
+    this.pasteStore = pasteStore;
+  }
+
   start(): void {
     this.server = http.createServer((req, res) => {
       // CORS headers for web dashboards
@@ -49,7 +58,14 @@ export class MetricsServer {
             this.handleRecent(res);
             break;
           default:
-            this.handle404(res);
+            if (this.pasteStore && url.startsWith('/pastes/')) {
+              this.handlePaste(this.pasteStore, url, res).catch((error) => {
+                logger.error('Error serving paste:', error);
+                this.handleError(res, error);
+              });
+            } else {
+              this.handle404(res);
+            }
         }
       } catch (error) {
         logger.error('Error handling metrics request:', error);
@@ -157,6 +173,19 @@ export class MetricsServer {
     }, null, 2));
   }
 
+  private async handlePaste(pasteStore: LocalPasteStore, url: string, res: http.ServerResponse): Promise<void> {
+    const match = /^\/pastes\/([^/]+)\.txt$/.exec(url);
+    const content = match ? await pasteStore.read(match[1]) : null;
+
+    if (content === null) {
+      this.handle404(res);
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end(content);
+  }
+
   private handle404(res: http.ServerResponse): void {
     const notFound = {
       error: 'Not Found',
@@ -2,6 +2,7 @@
 Object.defineProperty(exports, "__esModule", { value: true });
 exports.MetricsCollector = void 0;
 const logger_1 = require("./logger");
+const network_1 = require("./irc/network");
 class MetricsCollector {
     metrics;
     persistence;
@@ -11,6 +12,8 @@ class MetricsCollector {
     recentMessages = [];
     recentErrors = [];
     latencyWindow = [];
+    // Label for channels that aren't qualified with a network
+    primaryNetwork = 'default';
     constructor(persistence = null) {
         this.persistence = persistence;
         this.metrics = this.initializeMetrics();
@@ -56,6 +59,8 @@ class MetricsCollector {
             ircLastDisconnected: 0,
             ircConnectionUptime: 0,
             ircLastActivity: 0,
+            networkMessages: new Map(),
+            networkConnected: new Map(),
             channelActivity: new Map(),
             userActivity: new Map()
         };
@@ -67,6 +72,7 @@ class MetricsCollector {
         this.metrics.messagesDiscordToIRC++;
         this.metrics.uniqueDiscordUsers.add(userId);
         this.incrementChannelActivity(channel);
+        this.getNetworkMessages(channel).discordToIRC++;
         this.incrementUserActivity(userId);
         this.addToRecentMessages();
         if (latencyMs !== undefined) {
@@ -80,6 +86,7 @@ class MetricsCollector {
         this.metrics.messagesIRCToDiscord++;
         this.metrics.uniqueIRCUsers.add(username);
         this.incrementChannelActivity(channel);
+        this.getNetworkMessages(channel).ircToDiscord++;
         this.incrementUserActivity(`irc:${username}`);
         this.addToRecentMessages();
         if (latencyMs !== undefined) {
@@ -206,6 +213,18 @@ class MetricsCollector {
         this.metrics.ircConnected = false;
         this.metrics.ircLastDisconnected = now;
     }
+    /**
+     * Record the connection state of an additional IRC network
+     */
+    recordNetworkConnected(network, connected) {
+        this.metrics.networkConnected.set(network, connected);
+    }
+    /**
+     * Name of the bridge's own IRC network, used to label its unqualified channels
+     */
+    setPrimaryNetwork(network) {
+        this.primaryNetwork = network;
+    }
     /**
      * Update IRC activity timestamp
      */
@@ -366,8 +385,26 @@ discord_irc_uptime_seconds ${this.getIRCUptime() / 1000}
 # HELP discord_irc_last_activity_seconds Time since last IRC activity in seconds
 # TYPE discord_irc_last_activity_seconds gauge
 discord_irc_last_activity_seconds ${this.getTimeSinceIRCActivity() / 1000}
+
+# HELP discord_irc_network_messages_total Messages processed per IRC network
+# TYPE discord_irc_network_messages_total counter
+${Array.from(this.metrics.networkMessages.entries()).map(([network, counts]) => `discord_irc_network_messages_total{network="${network}",direction="discord_to_irc"} ${counts.discordToIRC}\n` +
+            `discord_irc_network_messages_total{network="${network}",direction="irc_to_discord"} ${counts.ircToDiscord}`).join('\n')}
+
+# HELP discord_irc_network_connection_status Connection status per IRC network (1=connected, 0=disconnected)
+# TYPE discord_irc_network_connection_status gauge
+${[[this.primaryNetwork, this.metrics.ircConnected], ...this.metrics.networkConnected.entries()].map(([network, connected]) => `discord_irc_network_connection_status{network="${network}"} ${connected ? 1 : 0}`).join('\n')}
 `.trim();
     }
+    getNetworkMessages(channel) {
+        const network = (0, network_1.parseIRCTarget)(channel).network ?? this.primaryNetwork;
+        let counts = this.metrics.networkMessages.get(network);
+        if (!counts) {
+            counts = { discordToIRC: 0, ircToDiscord: 0 };
+            this.metrics.networkMessages.set(network, counts);
+        }
+        return counts;
+    }
     incrementChannelActivity(channel) {
         const current = this.metrics.channelActivity.get(channel) || 0;
         this.metrics.channelActivity.set(channel, current + 1);
@@ -1,5 +1,6 @@
 import { logger } from './logger';
 import { PersistenceService } from './persistence';
+import { parseIRCTarget } from './irc/network';
 
 export interface MetricsData {
   // Message statistics
@@ -44,6 +45,10 @@ export interface MetricsData {
   ircConnectionUptime: number; // Total time connected in ms
   ircLastActivity: number;
 
+  // Per IRC network, our own network's connection state is ircConnected
+  networkMessages: Map<string, { discordToIRC: number; ircToDiscord: number }>;
+  networkConnected: Map<string, boolean>;
+
   // Channel activity
   channelActivity: Map<string, number>; // channel -> message count
   userActivity: Map<string, number>; // user -> message count
@@ -70,6 +75,9 @@ export class MetricsCollector {
   private recentMessages: number[] = [];
   private recentErrors: number[] = [];
   private latencyWindow: number[] = [];
+
+  // Label for channels that aren't qualified with a network
+  private primaryNetwork = 'default';
   
   constructor(persistence: PersistenceService | null = null) {
     this.persistence = persistence;
@@ -121,6 +129,8 @@ export class MetricsCollector {
       ircLastDisconnected: 0,
       ircConnectionUptime: 0,
       ircLastActivity: 0,
+      networkMessages: new Map(),
+      networkConnected: new Map(),
       channelActivity: new Map(),
       userActivity: new Map()
     };
@@ -133,6 +143,7 @@ export class MetricsCollector {
     this.metrics.messagesDiscordToIRC++;
     this.metrics.uniqueDiscordUsers.add(userId);
     this.incrementChannelActivity(channel);
+    this.getNetworkMessages(channel).discordToIRC++;
     this.incrementUserActivity(userId);
     this.addToRecentMessages();
     
@@ -148,6 +159,7 @@ export class MetricsCollector {
     this.metrics.messagesIRCToDiscord++;
     this.metrics.uniqueIRCUsers.add(username);
     this.incrementChannelActivity(channel);
+    this.getNetworkMessages(channel).ircToDiscord++;
     this.incrementUserActivity(`irc:${username}`);
     this.addToRecentMessages();
     
@@ -302,6 +314,20 @@ export class MetricsCollector {
     this.metrics.ircLastDisconnected = now;
   }
 
+  /**
+   * Record the connection state of an additional IRC network
+   */
+  recordNetworkConnected(network: string, connected: boolean): void {
+    this.metrics.networkConnected.set(network, connected);
+  }
+
+  /**
+   * Name of the bridge's own IRC network, used to label its unqualified channels
+   */
+  setPrimaryNetwork(network: string): void {
+    this.primaryNetwork = network;
+  }
+
   /**
    * Update IRC activity timestamp
    */
@@ -487,8 +513,31 @@ discord_irc_uptime_seconds ${this.getIRCUptime() / 1000}
 # HELP discord_irc_last_activity_seconds Time since last IRC activity in seconds
 # TYPE discord_irc_last_activity_seconds gauge
 discord_irc_last_activity_seconds ${this.getTimeSinceIRCActivity() / 1000}
+
+# HELP discord_irc_network_messages_total Messages processed per IRC network
+# TYPE discord_irc_network_messages_total counter
+${Array.from(this.metrics.networkMessages.entries()).map(([network, counts]) =>
+  `discord_irc_network_messages_total{network="${network}",direction="discord_to_irc"} ${counts.discordToIRC}\n` +
+  `discord_irc_network_messages_total{network="${network}",direction="irc_to_discord"} ${counts.ircToDiscord}`
+).join('\n')}
+
+# HELP discord_irc_network_connection_status Connection status per IRC network (1=connected, 0=disconnected)
+# TYPE discord_irc_network_connection_status gauge
+${[[this.primaryNetwork, this.metrics.ircConnected] as const, ...this.metrics.networkConnected.entries()].map(([network, connected]) =>
+  `discord_irc_network_connection_status{network="${network}"} ${connected ? 1 : 0}`
+).join('\n')}
 `.trim();
   }
+
+  private getNetworkMessages(channel: string): { discordToIRC: number; ircToDiscord: number } {
+    const network = parseIRCTarget(channel).network ?? this.primaryNetwork;
+    let counts = this.metrics.networkMessages.get(network);
+    if (!counts) {
+      counts = { discordToIRC: 0, ircToDiscord: 0 };
+      this.metrics.networkMessages.set(network, counts);
+    }
+    return counts;
+  }
   
   private incrementChannelActivity(channel: string): void {
     const current = this.metrics.channelActivity.get(channel) || 0;
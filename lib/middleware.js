@@ -0,0 +1,106 @@
+"use strict";
+var __importDefault = (this && this.__importDefault) || function (mod) {
+    return (mod && mod.__esModule) ? mod : { "default": mod };
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.MiddlewarePipeline = void 0;
+exports.validateMiddleware = validateMiddleware;
+exports.loadMiddlewareModule = loadMiddlewareModule;
+const path_1 = __importDefault(require("path"));
+const logger_1 = require("./logger");
+/**
+ * Check a configured value is a usable middleware
+ */
+function validateMiddleware(value, source) {
+    const middleware = value;
+    if (!middleware || typeof middleware.name !== 'string' || typeof middleware.process !== 'function') {
+        throw new Error(`Invalid middleware from ${source}: expected an object with a name and a process function`);
+    }
+    if (middleware.direction !== undefined && middleware.direction !== 'discordToIrc' && middleware.direction !== 'ircToDiscord') {
+        throw new Error(`Invalid direction "${String(middleware.direction)}" for middleware ${middleware.name}`);
+    }
+    return middleware;
+}
+/**
+ * Import the middlewares a module exports by default, one or an array of them
+ * @param modulePath Relative to the working directory, like config paths
+ */
+async function loadMiddlewareModule(modulePath) {
+    const { default: exported } = await import(path_1.default.resolve(process.cwd(), modulePath));
+    const middlewares = Array.isArray(exported) ? exported : [exported];
+    return middlewares.map(middleware => validateMiddleware(middleware, modulePath));
+}
+class MiddlewarePipeline {
+    bot;
+    stages = [];
+    onDrop;
+    constructor(bot, onDrop) {
+        this.bot = bot;
+        this.onDrop = onDrop;
+    }
+    /**
+     * Add a stage, at the end or next to the stage named in the position
+     * Names are looked up among the stages running in the same direction
+     */
+    use(middleware, position = {}) {
+        const name = position.before ?? position.after;
+        if (!name) {
+            this.stages.push(middleware);
+            return;
+        }
+        const matches = this.stages
+            .map((stage, index) => ({ stage, index }))
+            .filter(({ stage }) => stage.name === name && appliesTo(stage, middleware.direction));
+        if (matches.length === 0) {
+            throw new Error(`Cannot add middleware ${middleware.name}: no stage named "${name}" to run next to`);
+        }
+        const index = position.before ? matches[0].index : matches[matches.length - 1].index + 1;
+        this.stages.splice(index, 0, middleware);
+    }
+    /**
+     * Remove stages by name, including built-ins
+     * @returns Whether any stage was removed
+     */
+    remove(name, direction) {
+        const remaining = this.stages.filter(stage => stage.name !== name || !appliesTo(stage, direction));
+        const removed = remaining.length !== this.stages.length;
+        this.stages = remaining;
+        return removed;
+    }
+    /**
+     * Names of the stages a message in the given direction goes through, in order
+     */
+    getStages(direction) {
+        return this.stages.filter(stage => appliesTo(stage, direction)).map(stage => stage.name);
+    }
+    /**
+     * Pass a message through the stages for its direction
+     * A stage that throws is skipped, so one broken middleware can't stop the bridge
+     * @returns The transformed message, or null when a stage dropped it
+     */
+    async run(message) {
+        let current = message;
+        for (const stage of this.stages) {
+            if (!appliesTo(stage, current.direction))
+                continue;
+            try {
+                const result = await stage.process(current, this.bot);
+                if (result === null) {
+                    logger_1.logger.debug(`Middleware ${stage.name} dropped message from ${current.author} in ${current.ircChannel}`);
+                    this.onDrop?.(current, stage.name);
+                    return null;
+                }
+                if (result)
+                    current = result;
+            }
+            catch (error) {
+                logger_1.logger.error(`Middleware ${stage.name} failed, skipping it:`, error);
+            }
+        }
+        return current;
+    }
+}
+exports.MiddlewarePipeline = MiddlewarePipeline;
+function appliesTo(stage, direction) {
+    return !stage.direction || !direction || stage.direction === direction;
+}
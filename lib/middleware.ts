@@ -0,0 +1,160 @@
+import path from 'path';
+import type discord from 'discord.js';
+import { logger } from './logger';
+import type Bot from './bot';
+import type { ChannelSettings } from './channel-settings';
+
+/**
+ * Message transform middlewares
+ *
+ * Every relayed message passes through an ordered list of stages before it is
+ * delivered. A stage can inspect the message, rewrite its text, annotate it
+ * for later stages, or drop it by returning null:
+ * 1. Discord → IRC: parse (mentions, channels, embeds to plain text) → rateLimit
+ *    → format (markdown to IRC codes) → template (reply quote, `format` templates)
+ * 2. IRC → Discord: rateLimit → format (IRC codes to markdown) → mentions
+ * 3. Stages from the config run after the built-ins unless they ask for a
+ *    position with `before` or `after`
+ *
+ * Stages run when the message is relayed, so messages replayed from the IRC
+ * outbox or the Discord buffer go through them too, flagged as `replayed`.
+ * Splitting into IRC lines is left for delivery, which fills each line into
+ * the template the template stage leaves in `annotations.ircTemplate`.
+ */
+
+export type RelayDirection = 'discordToIrc' | 'ircToDiscord';
+
+export interface RelayMessage {
+  direction: RelayDirection;
+  author: string; // Discord nickname on the server, or IRC nick
+  text: string;
+  ircChannel: string;
+  discordChannel?: discord.TextBasedChannel | discord.BaseGuildTextChannel;
+  discordMessage?: discord.Message; // Only for messages from Discord
+  replayed: boolean; // Queued while the other side was down, already past the rate limiter
+  settings: ChannelSettings; // Global settings with the channel's overrides merged in
+  annotations: Record<string, unknown>; // Free for stages to pass data along
+}
+
+export type MiddlewareResult = RelayMessage | null | void;
+
+export interface Middleware {
+  name: string;
+  direction?: RelayDirection; // Both directions when unset
+  /**
+   * Transform a message, returning null drops it and nothing keeps it as it is
+   */
+  process(message: RelayMessage, bot: Bot): MiddlewareResult | Promise<MiddlewareResult>;
+}
+
+export interface MiddlewarePosition {
+  before?: string; // Name of the stage to run before
+  after?: string; // Name of the stage to run after
+}
+
+// Configured middlewares, or paths of modules exporting them
+export type MiddlewareEntry = (Middleware & MiddlewarePosition) | string;
+
+/**
+ * Check a configured value is a usable middleware
+ */
+export function validateMiddleware(value: unknown, source: string): Middleware & MiddlewarePosition {
+  const middleware = value as Partial<Middleware> | null;
+  if (!middleware || typeof middleware.name !== 'string' || typeof middleware.process !== 'function') {
+    throw new Error(`Invalid middleware from ${source}: expected an object with a name and a process function`);
+  }
+  if (middleware.direction !== undefined && middleware.direction !== 'discordToIrc' && middleware.direction !== 'ircToDiscord') {
+    throw new Error(`Invalid direction "${String(middleware.direction)}" for middleware ${middleware.name}`);
+  }
+  return middleware as Middleware & MiddlewarePosition;
+}
+
+/**
+ * Import the middlewares a module exports by default, one or an array of them
+ * @param modulePath Relative to the working directory, like config paths
+ */
+export async function loadMiddlewareModule(modulePath: string): Promise<(Middleware & MiddlewarePosition)[]> {
+  const { default: exported } = await import(path.resolve(process.cwd(), modulePath));
+  const middlewares: unknown[] = Array.isArray(exported) ? exported : [exported];
+  return middlewares.map(middleware => validateMiddleware(middleware, modulePath));
+}
+
+export class MiddlewarePipeline {
+  private bot: Bot;
+  private stages: Middleware[] = [];
+  private onDrop?: (message: RelayMessage, stage: string) => void;
+
+  constructor(bot: Bot, onDrop?: (message: RelayMessage, stage: string) => void) {
+    this.bot = bot;
+    this.onDrop = onDrop;
+  }
+
+  /**
+   * Add a stage, at the end or next to the stage named in the position
+   * Names are looked up among the stages running in the same direction
+   */
+  use(middleware: Middleware, position: MiddlewarePosition = {}): void {
+    const name = position.before ?? position.after;
+    if (!name) {
+      this.stages.push(middleware);
+      return;
+    }
+
+    const matches = this.stages
+      .map((stage, index) => ({ stage, index }))
+      .filter(({ stage }) => stage.name === name && appliesTo(stage, middleware.direction));
+    if (matches.length === 0) {
+      throw new Error(`Cannot add middleware ${middleware.name}: no stage named "${name}" to run next to`);
+    }
+
+    const index = position.before ? matches[0].index : matches[matches.length - 1].index + 1;
+    this.stages.splice(index, 0, middleware);
+  }
+
+  /**
+   * Remove stages by name, including built-ins
+   * @returns Whether any stage was removed
+   */
+  remove(name: string, direction?: RelayDirection): boolean {
+    const remaining = this.stages.filter(stage => stage.name !== name || !appliesTo(stage, direction));
+    const removed = remaining.length !== this.stages.length;
+    this.stages = remaining;
+    return removed;
+  }
+
+  /**
+   * Names of the stages a message in the given direction goes through, in order
+   */
+  getStages(direction: RelayDirection): string[] {
+    return this.stages.filter(stage => appliesTo(stage, direction)).map(stage => stage.name);
+  }
+
+  /**
+   * Pass a message through the stages for its direction
+   * A stage that throws is skipped, so one broken middleware can't stop the bridge
+   * @returns The transformed message, or null when a stage dropped it
+   */
+  async run(message: RelayMessage): Promise<RelayMessage | null> {
+    let current = message;
+    for (const stage of this.stages) {
+      if (!appliesTo(stage, current.direction)) continue;
+
+      try {
+        const result = await stage.process(current, this.bot);
+        if (result === null) {
+          logger.debug(`Middleware ${stage.name} dropped message from ${current.author} in ${current.ircChannel}`);
+          this.onDrop?.(current, stage.name);
+          return null;
+        }
+        if (result) current = result;
+      } catch (error) {
+        logger.error(`Middleware ${stage.name} failed, skipping it:`, error);
+      }
+    }
+    return current;
+  }
+}
+
+function appliesTo(stage: Middleware, direction?: RelayDirection): boolean {
+  return !stage.direction || !direction || stage.direction === direction;
+}
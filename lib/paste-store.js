@@ -0,0 +1,87 @@
+"use strict";
+var __importDefault = (this && this.__importDefault) || function (mod) {
+    return (mod && mod.__esModule) ? mod : { "default": mod };
+};
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.LocalPasteStore = void 0;
+const fs_1 = require("fs");
+const path_1 = __importDefault(require("path"));
+const crypto_1 = __importDefault(require("crypto"));
+const logger_1 = require("./logger");
+// Paste IDs are random hex so they can't be guessed or used for path traversal
+const PASTE_ID_PATTERN = /^[a-f0-9]{16}$/;
+/**
+ * Local file store for long Discord messages offloaded from IRC
+ * Pastes are served by MetricsServer under /pastes/<id>.txt
+ */
+class LocalPasteStore {
+    config;
+    constructor(config) {
+        this.config = {
+            ...config,
+            publicUrl: config.publicUrl.replace(/\/+$/, '')
+        };
+    }
+    /**
+     * Write a paste to disk
+     * @returns Public URL of the stored paste
+     */
+    async save(content) {
+        await fs_1.promises.mkdir(this.config.directory, { recursive: true });
+        const id = crypto_1.default.randomBytes(8).toString('hex');
+        await fs_1.promises.writeFile(this.getPath(id), content, 'utf8');
+        logger_1.logger.debug(`Stored paste ${id} (${Buffer.byteLength(content, 'utf8')} bytes)`);
+        // Expired pastes are cleaned up lazily whenever a new one is stored
+        this.prune().catch((error) => {
+            logger_1.logger.warn('Failed to prune old pastes:', error);
+        });
+        return `${this.config.publicUrl}/pastes/${id}.txt`;
+    }
+    /**
+     * Read a paste by ID
+     * @returns Paste content, or null for unknown or invalid IDs
+     */
+    async read(id) {
+        if (!PASTE_ID_PATTERN.test(id))
+            return null;
+        try {
+            return await fs_1.promises.readFile(this.getPath(id), 'utf8');
+        }
+        catch {
+            return null;
+        }
+    }
+    /**
+     * Delete pastes older than the configured retention
+     * @returns Number of pastes removed
+     */
+    async prune() {
+        let files;
+        try {
+            files = await fs_1.promises.readdir(this.config.directory);
+        }
+        catch {
+            return 0;
+        }
+        const cutoff = Date.now() - this.config.retentionHours * 60 * 60 * 1000;
+        let removed = 0;
+        for (const file of files) {
+            if (!PASTE_ID_PATTERN.test(path_1.default.basename(file, '.txt')))
+                continue;
+            const filePath = path_1.default.join(this.config.directory, file);
+            const stats = await fs_1.promises.stat(filePath);
+            if (stats.mtimeMs < cutoff) {
+                await fs_1.promises.unlink(filePath);
+                removed++;
+            }
+        }
+        if (removed > 0) {
+            logger_1.logger.debug(`Pruned ${removed} expired paste(s)`);
+        }
+        return removed;
+    }
+    getPath(id) {
+        return path_1.default.join(this.config.directory, `${id}.txt`);
+    }
+}
+exports.LocalPasteStore = LocalPasteStore;
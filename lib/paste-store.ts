@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { logger } from './logger';
+
+export interface PasteStoreConfig {
+  directory: string; // Where paste files are written
+  publicUrl: string; // Base URL the metrics server is reachable at, e.g. https://bridge.example.com
+  retentionHours: number; // Pastes older than this are deleted
+}
+
+// Paste IDs are random hex so they can't be guessed or used for path traversal
+const PASTE_ID_PATTERN = /^[a-f0-9]{16}$/;
+
+/**
+ * Local file store for long Discord messages offloaded from IRC
+ * Pastes are served by MetricsServer under /pastes/<id>.txt
+ */
+export class LocalPasteStore {
+  private config: PasteStoreConfig;
+
+  constructor(config: PasteStoreConfig) {
+    this.config = {
+      ...config,
+      publicUrl: config.publicUrl.replace(/\/+$/, '')
+    };
+  }
+
+  /**
+   * Write a paste to disk
+   * @returns Public URL of the stored paste
+   */
+  async save(content: string): Promise<string> {
+    await fs.mkdir(this.config.directory, { recursive: true });
+
+    const id = crypto.randomBytes(8).toString('hex');
+    await fs.writeFile(this.getPath(id), content, 'utf8');
+    logger.debug(`Stored paste ${id} (${Buffer.byteLength(content, 'utf8')} bytes)`);
+
+    // Expired pastes are cleaned up lazily whenever a new one is stored
+    this.prune().catch((error) => {
+      logger.warn('Failed to prune old pastes:', error);
+    });
+
+    return `${this.config.publicUrl}/pastes/${id}.txt`;
+  }
+
+  /**
+   * Read a paste by ID
+   * @returns Paste content, or null for unknown or invalid IDs
+   */
+  async read(id: string): Promise<string | null> {
+    if (!PASTE_ID_PATTERN.test(id)) return null;
+
+    try {
+      return await fs.readFile(this.getPath(id), 'utf8');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Delete pastes older than the configured retention
+   * @returns Number of pastes removed
+   */
+  async prune(): Promise<number> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.config.directory);
+    } catch {
+      return 0;
+    }
+
+    const cutoff = Date.now() - this.config.retentionHours * 60 * 60 * 1000;
+    let removed = 0;
+
+    for (const file of files) {
+      if (!PASTE_ID_PATTERN.test(path.basename(file, '.txt'))) continue;
+
+      const filePath = path.join(this.config.directory, file);
+      const stats = await fs.stat(filePath);
+      if (stats.mtimeMs < cutoff) {
+        await fs.unlink(filePath);
+        removed++;
+      }
+    }
+
+    if (removed > 0) {
+      logger.debug(`Pruned ${removed} expired paste(s)`);
+    }
+    return removed;
+  }
+
+  private getPath(id: string): string {
+    return path.join(this.config.directory, `${id}.txt`);
+  }
+}
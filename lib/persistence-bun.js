@@ -150,13 +150,81 @@ class PersistenceService {
         force_path_style INTEGER NOT NULL DEFAULT 0,
         max_file_size_mb INTEGER NOT NULL DEFAULT 10,
         allowed_roles TEXT,
+        default_folder TEXT,
+        auto_share_to_irc INTEGER DEFAULT 0,
+        url_shortener_prefix TEXT,
         created_at INTEGER NOT NULL,
         updated_at INTEGER NOT NULL
+      )`,
+            `CREATE TABLE IF NOT EXISTS irc_outbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        irc_channel TEXT NOT NULL,
+        discord_channel_id TEXT NOT NULL,
+        discord_message_id TEXT NOT NULL,
+        author_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )`,
+            `CREATE INDEX IF NOT EXISTS idx_irc_outbox_channel ON irc_outbox (irc_channel, id)`,
+            `CREATE TABLE IF NOT EXISTS discord_buffer (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        irc_channel TEXT NOT NULL,
+        author TEXT NOT NULL,
+        text TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )`,
+            `CREATE INDEX IF NOT EXISTS idx_discord_buffer_channel ON discord_buffer (irc_channel, id)`,
+            `CREATE TABLE IF NOT EXISTS channel_mappings (
+        discord_channel_id TEXT PRIMARY KEY,
+        irc_channel TEXT NOT NULL,
+        created_by TEXT,
+        created_at INTEGER NOT NULL
+      )`,
+            `CREATE TABLE IF NOT EXISTS channel_webhooks (
+        discord_channel_id TEXT PRIMARY KEY,
+        webhook_id TEXT NOT NULL,
+        webhook_token TEXT NOT NULL,
+        created_at INTEGER NOT NULL
       )`
         ];
         for (const query of queries) {
             this.db.run(query);
         }
+        // Migration: Add new S3 columns if they don't exist (v1.2.6)
+        this.migrateS3Columns();
+    }
+    /**
+     * Migration helper: Add new S3 config columns if they don't exist
+     * SQLite doesn't support "ADD COLUMN IF NOT EXISTS", so we need to check first
+     */
+    migrateS3Columns() {
+        try {
+            // Check if default_folder column exists
+            const tableInfo = this.db.query('PRAGMA table_info(guild_s3_configs)').all();
+            const columnNames = tableInfo.map(col => col.name);
+            // Add missing columns
+            const migrations = [];
+            if (!columnNames.includes('default_folder')) {
+                migrations.push('ALTER TABLE guild_s3_configs ADD COLUMN default_folder TEXT');
+            }
+            if (!columnNames.includes('auto_share_to_irc')) {
+                migrations.push('ALTER TABLE guild_s3_configs ADD COLUMN auto_share_to_irc INTEGER DEFAULT 0');
+            }
+            if (!columnNames.includes('url_shortener_prefix')) {
+                migrations.push('ALTER TABLE guild_s3_configs ADD COLUMN url_shortener_prefix TEXT');
+            }
+            for (const migration of migrations) {
+                this.db.run(migration);
+                logger_1.logger.info(`Migration applied: ${migration}`);
+            }
+            if (migrations.length > 0) {
+                logger_1.logger.info(`S3 table migration completed: ${migrations.length} columns added`);
+            }
+        }
+        catch (error) {
+            // If table doesn't exist yet, that's fine - it will be created with all columns
+            logger_1.logger.debug('S3 migration check skipped (table may not exist yet)');
+        }
     }
     // PM Thread Management
     async savePMThread(ircNick, threadId, channelId) {
@@ -306,8 +374,9 @@ class PersistenceService {
         INSERT OR REPLACE INTO guild_s3_configs
         (guild_id, bucket, region, endpoint, access_key_id, secret_access_key_encrypted,
          key_prefix, public_url_base, force_path_style, max_file_size_mb, allowed_roles,
+         default_folder, auto_share_to_irc, url_shortener_prefix,
          created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
                 COALESCE((SELECT created_at FROM guild_s3_configs WHERE guild_id = ?), ?), ?)
       `, [
                 config.guildId,
@@ -321,6 +390,9 @@ class PersistenceService {
                 config.forcePathStyle ? 1 : 0,
                 config.maxFileSizeMb,
                 allowedRolesJson,
+                config.defaultFolder || null,
+                config.autoShareToIRC ? 1 : 0,
+                config.urlShortenerPrefix || null,
                 config.guildId, // for COALESCE
                 now, // created_at if new
                 now // updated_at always
@@ -359,6 +431,9 @@ class PersistenceService {
                 forcePathStyle: row.force_path_style === 1,
                 maxFileSizeMb: row.max_file_size_mb,
                 allowedRoles,
+                defaultFolder: row.default_folder || undefined,
+                autoShareToIRC: row.auto_share_to_irc === 1,
+                urlShortenerPrefix: row.url_shortener_prefix || undefined,
                 createdAt: row.created_at,
                 updatedAt: row.updated_at
             };
@@ -379,6 +454,118 @@ class PersistenceService {
             logger_1.logger.debug(`Deleted S3 config for guild: ${guildId}`);
         });
     }
+    // IRC Outbox (Discord messages queued while IRC is down)
+    async enqueueOutboxMessage(message) {
+        return this.writeWithRetry(() => {
+            const result = this.db.run('INSERT INTO irc_outbox (irc_channel, discord_channel_id, discord_message_id, author_id, content, created_at) VALUES (?, ?, ?, ?, ?, ?)', [
+                message.ircChannel.toLowerCase(),
+                message.discordChannelId,
+                message.discordMessageId,
+                message.authorId,
+                message.content,
+                Date.now()
+            ]);
+            return Number(result.lastInsertRowid);
+        });
+    }
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async getOutboxMessages(ircChannel) {
+        const rows = ircChannel
+            ? this.db.query('SELECT * FROM irc_outbox WHERE irc_channel = ? ORDER BY id ASC').all(ircChannel.toLowerCase())
+            : this.db.query('SELECT * FROM irc_outbox ORDER BY id ASC').all();
+        return rows.map(row => ({
+            id: row.id,
+            ircChannel: row.irc_channel,
+            discordChannelId: row.discord_channel_id,
+            discordMessageId: row.discord_message_id,
+            authorId: row.author_id,
+            content: row.content,
+            createdAt: row.created_at
+        }));
+    }
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async countOutboxMessages(ircChannel) {
+        const row = this.db.query('SELECT COUNT(*) AS count FROM irc_outbox WHERE irc_channel = ?').get(ircChannel.toLowerCase());
+        return row ? row.count : 0;
+    }
+    async deleteOutboxMessage(id) {
+        return this.writeWithRetry(() => {
+            this.db.run('DELETE FROM irc_outbox WHERE id = ?', [id]);
+        });
+    }
+    async pruneOutbox(olderThan) {
+        return this.writeWithRetry(() => {
+            const result = this.db.run('DELETE FROM irc_outbox WHERE created_at < ?', [olderThan]);
+            return result.changes;
+        });
+    }
+    // Discord buffer (IRC messages held while Discord is unreachable)
+    async bufferDiscordMessage(message) {
+        return this.writeWithRetry(() => {
+            const result = this.db.run('INSERT INTO discord_buffer (irc_channel, author, text, created_at) VALUES (?, ?, ?, ?)', [message.ircChannel.toLowerCase(), message.author, message.text, message.createdAt ?? Date.now()]);
+            return Number(result.lastInsertRowid);
+        });
+    }
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async getBufferedDiscordMessages() {
+        const rows = this.db.query('SELECT * FROM discord_buffer ORDER BY id ASC').all();
+        return rows.map(row => ({
+            id: row.id,
+            ircChannel: row.irc_channel,
+            author: row.author,
+            text: row.text,
+            createdAt: row.created_at
+        }));
+    }
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async countBufferedDiscordMessages(ircChannel) {
+        const row = ircChannel
+            ? this.db.query('SELECT COUNT(*) AS count FROM discord_buffer WHERE irc_channel = ?').get(ircChannel.toLowerCase())
+            : this.db.query('SELECT COUNT(*) AS count FROM discord_buffer').get();
+        return row ? row.count : 0;
+    }
+    async deleteBufferedDiscordMessages(ircChannel, upToId) {
+        return this.writeWithRetry(() => {
+            this.db.run('DELETE FROM discord_buffer WHERE irc_channel = ? AND id <= ?', [ircChannel.toLowerCase(), upToId]);
+        });
+    }
+    // Channel mappings made at runtime
+    async saveChannelMapping(discordChannelId, ircChannel, createdBy) {
+        return this.writeWithRetry(() => {
+            this.db.run('INSERT OR REPLACE INTO channel_mappings (discord_channel_id, irc_channel, created_by, created_at) VALUES (?, ?, ?, ?)', [discordChannelId, ircChannel, createdBy ?? null, Date.now()]);
+        });
+    }
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async getChannelMappings() {
+        const rows = this.db.query('SELECT * FROM channel_mappings ORDER BY created_at ASC').all();
+        return rows.map(row => ({
+            discordChannelId: row.discord_channel_id,
+            ircChannel: row.irc_channel,
+            createdBy: row.created_by ?? undefined,
+            createdAt: row.created_at
+        }));
+    }
+    async deleteChannelMapping(discordChannelId) {
+        return this.writeWithRetry(() => {
+            this.db.run('DELETE FROM channel_mappings WHERE discord_channel_id = ?', [discordChannelId]);
+        });
+    }
+    // Webhooks the bridge manages
+    async saveChannelWebhook(discordChannelId, webhookId, token) {
+        return this.writeWithRetry(() => {
+            this.db.run('INSERT OR REPLACE INTO channel_webhooks (discord_channel_id, webhook_id, webhook_token, created_at) VALUES (?, ?, ?, ?)', [discordChannelId, webhookId, token, Date.now()]);
+        });
+    }
+    // eslint-disable-next-line @typescript-eslint/require-await
+    async getChannelWebhook(discordChannelId) {
+        const row = this.db.query('SELECT webhook_id, webhook_token FROM channel_webhooks WHERE discord_channel_id = ?').get(discordChannelId);
+        return row ? { webhookId: row.webhook_id, token: row.webhook_token } : null;
+    }
+    async deleteChannelWebhook(discordChannelId) {
+        return this.writeWithRetry(() => {
+            this.db.run('DELETE FROM channel_webhooks WHERE discord_channel_id = ?', [discordChannelId]);
+        });
+    }
     // eslint-disable-next-line @typescript-eslint/require-await
     async close() {
         if (this.db) {
@@ -15,6 +15,36 @@ export interface ChannelUserData {
   lastUpdated: number;
 }
 
+export interface BufferedDiscordMessage {
+  id: number;
+  ircChannel: string;
+  author: string;
+  text: string;
+  createdAt: number;
+}
+
+export interface StoredChannelMapping {
+  discordChannelId: string;
+  ircChannel: string;
+  createdBy?: string;
+  createdAt: number;
+}
+
+export interface StoredWebhook {
+  webhookId: string;
+  token: string;
+}
+
+export interface OutboxMessage {
+  id: number;
+  ircChannel: string;
+  discordChannelId: string;
+  discordMessageId: string;
+  authorId: string;
+  content: string;
+  createdAt: number;
+}
+
 export interface S3Config {
   guildId: string;
   bucket: string;
@@ -34,6 +64,31 @@ export interface S3Config {
   updatedAt: number;
 }
 
+interface BufferedDiscordRow {
+  id: number;
+  irc_channel: string;
+  author: string;
+  text: string;
+  created_at: number;
+}
+
+interface ChannelMappingRow {
+  discord_channel_id: string;
+  irc_channel: string;
+  created_by: string | null;
+  created_at: number;
+}
+
+interface OutboxRow {
+  id: number;
+  irc_channel: string;
+  discord_channel_id: string;
+  discord_message_id: string;
+  author_id: string;
+  content: string;
+  created_at: number;
+}
+
 interface S3ConfigRow {
   guild_id: string;
   bucket: string;
@@ -186,6 +241,36 @@ export class PersistenceService {
         url_shortener_prefix TEXT,
         created_at INTEGER NOT NULL,
         updated_at INTEGER NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS irc_outbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        irc_channel TEXT NOT NULL,
+        discord_channel_id TEXT NOT NULL,
+        discord_message_id TEXT NOT NULL,
+        author_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_irc_outbox_channel ON irc_outbox (irc_channel, id)`,
+      `CREATE TABLE IF NOT EXISTS discord_buffer (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        irc_channel TEXT NOT NULL,
+        author TEXT NOT NULL,
+        text TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_discord_buffer_channel ON discord_buffer (irc_channel, id)`,
+      `CREATE TABLE IF NOT EXISTS channel_mappings (
+        discord_channel_id TEXT PRIMARY KEY,
+        irc_channel TEXT NOT NULL,
+        created_by TEXT,
+        created_at INTEGER NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS channel_webhooks (
+        discord_channel_id TEXT PRIMARY KEY,
+        webhook_id TEXT NOT NULL,
+        webhook_token TEXT NOT NULL,
+        created_at INTEGER NOT NULL
       )`
     ];
 
@@ -540,6 +625,167 @@ export class PersistenceService {
     });
   }
 
+  // IRC Outbox (Discord messages queued while IRC is down)
+  async enqueueOutboxMessage(message: Omit<OutboxMessage, 'id' | 'createdAt'>): Promise<number> {
+    return this.writeWithRetry(() => {
+      const result = this.db.run(
+        'INSERT INTO irc_outbox (irc_channel, discord_channel_id, discord_message_id, author_id, content, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+        [
+          message.ircChannel.toLowerCase(),
+          message.discordChannelId,
+          message.discordMessageId,
+          message.authorId,
+          message.content,
+          Date.now()
+        ]
+      );
+      return Number(result.lastInsertRowid);
+    });
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async getOutboxMessages(ircChannel?: string): Promise<OutboxMessage[]> {
+    const rows = ircChannel
+      ? this.db.query<OutboxRow, [string]>(
+        'SELECT * FROM irc_outbox WHERE irc_channel = ? ORDER BY id ASC'
+      ).all(ircChannel.toLowerCase())
+      : this.db.query<OutboxRow, []>(
+        'SELECT * FROM irc_outbox ORDER BY id ASC'
+      ).all();
+
+    return rows.map(row => ({
+      id: row.id,
+      ircChannel: row.irc_channel,
+      discordChannelId: row.discord_channel_id,
+      discordMessageId: row.discord_message_id,
+      authorId: row.author_id,
+      content: row.content,
+      createdAt: row.created_at
+    }));
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async countOutboxMessages(ircChannel: string): Promise<number> {
+    const row = this.db.query<{ count: number }, [string]>(
+      'SELECT COUNT(*) AS count FROM irc_outbox WHERE irc_channel = ?'
+    ).get(ircChannel.toLowerCase());
+
+    return row ? row.count : 0;
+  }
+
+  async deleteOutboxMessage(id: number): Promise<void> {
+    return this.writeWithRetry(() => {
+      this.db.run('DELETE FROM irc_outbox WHERE id = ?', [id]);
+    });
+  }
+
+  async pruneOutbox(olderThan: number): Promise<number> {
+    return this.writeWithRetry(() => {
+      const result = this.db.run('DELETE FROM irc_outbox WHERE created_at < ?', [olderThan]);
+      return result.changes;
+    });
+  }
+
+  // Discord buffer (IRC messages held while Discord is unreachable)
+  async bufferDiscordMessage(message: Omit<BufferedDiscordMessage, 'id' | 'createdAt'> & { createdAt?: number }): Promise<number> {
+    return this.writeWithRetry(() => {
+      const result = this.db.run(
+        'INSERT INTO discord_buffer (irc_channel, author, text, created_at) VALUES (?, ?, ?, ?)',
+        [message.ircChannel.toLowerCase(), message.author, message.text, message.createdAt ?? Date.now()]
+      );
+      return Number(result.lastInsertRowid);
+    });
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async getBufferedDiscordMessages(): Promise<BufferedDiscordMessage[]> {
+    const rows = this.db.query<BufferedDiscordRow, []>(
+      'SELECT * FROM discord_buffer ORDER BY id ASC'
+    ).all();
+
+    return rows.map(row => ({
+      id: row.id,
+      ircChannel: row.irc_channel,
+      author: row.author,
+      text: row.text,
+      createdAt: row.created_at
+    }));
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async countBufferedDiscordMessages(ircChannel?: string): Promise<number> {
+    const row = ircChannel
+      ? this.db.query<{ count: number }, [string]>(
+        'SELECT COUNT(*) AS count FROM discord_buffer WHERE irc_channel = ?'
+      ).get(ircChannel.toLowerCase())
+      : this.db.query<{ count: number }, []>(
+        'SELECT COUNT(*) AS count FROM discord_buffer'
+      ).get();
+
+    return row ? row.count : 0;
+  }
+
+  async deleteBufferedDiscordMessages(ircChannel: string, upToId: number): Promise<void> {
+    return this.writeWithRetry(() => {
+      this.db.run('DELETE FROM discord_buffer WHERE irc_channel = ? AND id <= ?', [ircChannel.toLowerCase(), upToId]);
+    });
+  }
+
+  // Channel mappings made at runtime
+  async saveChannelMapping(discordChannelId: string, ircChannel: string, createdBy?: string): Promise<void> {
+    return this.writeWithRetry(() => {
+      this.db.run(
+        'INSERT OR REPLACE INTO channel_mappings (discord_channel_id, irc_channel, created_by, created_at) VALUES (?, ?, ?, ?)',
+        [discordChannelId, ircChannel, createdBy ?? null, Date.now()]
+      );
+    });
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async getChannelMappings(): Promise<StoredChannelMapping[]> {
+    const rows = this.db.query<ChannelMappingRow, []>(
+      'SELECT * FROM channel_mappings ORDER BY created_at ASC'
+    ).all();
+
+    return rows.map(row => ({
+      discordChannelId: row.discord_channel_id,
+      ircChannel: row.irc_channel,
+      createdBy: row.created_by ?? undefined,
+      createdAt: row.created_at
+    }));
+  }
+
+  async deleteChannelMapping(discordChannelId: string): Promise<void> {
+    return this.writeWithRetry(() => {
+      this.db.run('DELETE FROM channel_mappings WHERE discord_channel_id = ?', [discordChannelId]);
+    });
+  }
+
+  // Webhooks the bridge manages
+  async saveChannelWebhook(discordChannelId: string, webhookId: string, token: string): Promise<void> {
+    return this.writeWithRetry(() => {
+      this.db.run(
+        'INSERT OR REPLACE INTO channel_webhooks (discord_channel_id, webhook_id, webhook_token, created_at) VALUES (?, ?, ?, ?)',
+        [discordChannelId, webhookId, token, Date.now()]
+      );
+    });
+  }
+
+  // eslint-disable-next-line @typescript-eslint/require-await
+  async getChannelWebhook(discordChannelId: string): Promise<StoredWebhook | null> {
+    const row = this.db.query<{ webhook_id: string; webhook_token: string }, [string]>(
+      'SELECT webhook_id, webhook_token FROM channel_webhooks WHERE discord_channel_id = ?'
+    ).get(discordChannelId);
+
+    return row ? { webhookId: row.webhook_id, token: row.webhook_token } : null;
+  }
+
+  async deleteChannelWebhook(discordChannelId: string): Promise<void> {
+    return this.writeWithRetry(() => {
+      this.db.run('DELETE FROM channel_webhooks WHERE discord_channel_id = ?', [discordChannelId]);
+    });
+  }
+
   // eslint-disable-next-line @typescript-eslint/require-await
   async close(): Promise<void> {
     if (this.db) {
@@ -138,8 +138,41 @@ class PersistenceService {
         force_path_style INTEGER DEFAULT 0,
         max_file_size_mb INTEGER DEFAULT 25,
         allowed_roles TEXT,
+        default_folder TEXT,
+        auto_share_to_irc INTEGER DEFAULT 0,
+        url_shortener_prefix TEXT,
         created_at INTEGER NOT NULL,
         updated_at INTEGER NOT NULL
+      )`,
+            `CREATE TABLE IF NOT EXISTS irc_outbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        irc_channel TEXT NOT NULL,
+        discord_channel_id TEXT NOT NULL,
+        discord_message_id TEXT NOT NULL,
+        author_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )`,
+            `CREATE INDEX IF NOT EXISTS idx_irc_outbox_channel ON irc_outbox (irc_channel, id)`,
+            `CREATE TABLE IF NOT EXISTS discord_buffer (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        irc_channel TEXT NOT NULL,
+        author TEXT NOT NULL,
+        text TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )`,
+            `CREATE INDEX IF NOT EXISTS idx_discord_buffer_channel ON discord_buffer (irc_channel, id)`,
+            `CREATE TABLE IF NOT EXISTS channel_mappings (
+        discord_channel_id TEXT PRIMARY KEY,
+        irc_channel TEXT NOT NULL,
+        created_by TEXT,
+        created_at INTEGER NOT NULL
+      )`,
+            `CREATE TABLE IF NOT EXISTS channel_webhooks (
+        discord_channel_id TEXT PRIMARY KEY,
+        webhook_id TEXT NOT NULL,
+        webhook_token TEXT NOT NULL,
+        created_at INTEGER NOT NULL
       )`
         ];
         for (const query of queries) {
@@ -152,8 +185,57 @@ class PersistenceService {
                 });
             });
         }
+        // Migration: Add new S3 columns if they don't exist (v1.2.6)
+        await this.migrateS3Columns();
         logger_1.logger.debug('Database tables created/verified');
     }
+    /**
+     * Migration helper: Add new S3 config columns if they don't exist
+     * SQLite doesn't support "ADD COLUMN IF NOT EXISTS", so we need to check first
+     */
+    async migrateS3Columns() {
+        try {
+            // Check if default_folder column exists
+            const tableInfo = await new Promise((resolve, reject) => {
+                this.db.all('PRAGMA table_info(guild_s3_configs)', (err, rows) => {
+                    if (err)
+                        reject(err);
+                    else
+                        resolve(rows || []);
+                });
+            });
+            const columnNames = tableInfo.map(col => col.name);
+            // Add missing columns
+            const migrations = [];
+            if (!columnNames.includes('default_folder')) {
+                migrations.push('ALTER TABLE guild_s3_configs ADD COLUMN default_folder TEXT');
+            }
+            if (!columnNames.includes('auto_share_to_irc')) {
+                migrations.push('ALTER TABLE guild_s3_configs ADD COLUMN auto_share_to_irc INTEGER DEFAULT 0');
+            }
+            if (!columnNames.includes('url_shortener_prefix')) {
+                migrations.push('ALTER TABLE guild_s3_configs ADD COLUMN url_shortener_prefix TEXT');
+            }
+            for (const migration of migrations) {
+                await new Promise((resolve, reject) => {
+                    this.db.run(migration, (err) => {
+                        if (err)
+                            reject(err);
+                        else
+                            resolve();
+                    });
+                });
+                logger_1.logger.info(`Migration applied: ${migration}`);
+            }
+            if (migrations.length > 0) {
+                logger_1.logger.info(`S3 table migration completed: ${migrations.length} columns added`);
+            }
+        }
+        catch (error) {
+            // If table doesn't exist yet, that's fine - it will be created with all columns
+            logger_1.logger.debug('S3 migration check skipped (table may not exist yet)');
+        }
+    }
     async savePMThread(ircNick, threadId, channelId) {
         const now = Date.now();
         return this.writeWithRetry(async () => new Promise((resolve, reject) => {
@@ -399,8 +481,9 @@ class PersistenceService {
         INSERT OR REPLACE INTO guild_s3_configs
         (guild_id, bucket, region, endpoint, access_key_id, secret_access_key_encrypted,
          key_prefix, public_url_base, force_path_style, max_file_size_mb, allowed_roles,
+         default_folder, auto_share_to_irc, url_shortener_prefix,
          created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?,
                 COALESCE((SELECT created_at FROM guild_s3_configs WHERE guild_id = ?), ?), ?)
       `, [
                 config.guildId,
@@ -414,6 +497,9 @@ class PersistenceService {
                 config.forcePathStyle ? 1 : 0,
                 config.maxFileSizeMb,
                 allowedRolesJson,
+                config.defaultFolder || null,
+                config.autoShareToIRC ? 1 : 0,
+                config.urlShortenerPrefix || null,
                 config.guildId, // for COALESCE
                 now, // created_at if new
                 now // updated_at always
@@ -465,6 +551,9 @@ class PersistenceService {
                             forcePathStyle: row.force_path_style === 1,
                             maxFileSizeMb: row.max_file_size_mb,
                             allowedRoles,
+                            defaultFolder: row.default_folder || undefined,
+                            autoShareToIRC: row.auto_share_to_irc === 1,
+                            urlShortenerPrefix: row.url_shortener_prefix || undefined,
                             createdAt: row.created_at,
                             updatedAt: row.updated_at
                         });
@@ -496,6 +585,295 @@ class PersistenceService {
             });
         }));
     }
+    /**
+     * Queue a Discord message for delivery once IRC is reachable again
+     * @returns The outbox ID of the queued message
+     */
+    async enqueueOutboxMessage(message) {
+        const now = Date.now();
+        return this.writeWithRetry(async () => new Promise((resolve, reject) => {
+            this.db.run(`
+        INSERT INTO irc_outbox
+        (irc_channel, discord_channel_id, discord_message_id, author_id, content, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [
+                message.ircChannel.toLowerCase(),
+                message.discordChannelId,
+                message.discordMessageId,
+                message.authorId,
+                message.content,
+                now
+            ], function (err) {
+                if (err) {
+                    logger_1.logger.error('Failed to queue outbox message:', err);
+                    reject(err);
+                }
+                else {
+                    logger_1.logger.debug(`Queued outbox message ${message.discordMessageId} for ${message.ircChannel}`);
+                    resolve(this.lastID);
+                }
+            });
+        }));
+    }
+    /**
+     * Get queued outbox messages in the order they were queued
+     * Optionally limited to a single IRC channel
+     */
+    async getOutboxMessages(ircChannel) {
+        const sql = ircChannel
+            ? 'SELECT * FROM irc_outbox WHERE irc_channel = ? ORDER BY id ASC'
+            : 'SELECT * FROM irc_outbox ORDER BY id ASC';
+        const params = ircChannel ? [ircChannel.toLowerCase()] : [];
+        return new Promise((resolve) => {
+            this.db.all(sql, params, (err, rows) => {
+                if (err) {
+                    logger_1.logger.error('Failed to load outbox messages:', err);
+                    resolve([]);
+                }
+                else {
+                    resolve(rows.map(row => ({
+                        id: row.id,
+                        ircChannel: row.irc_channel,
+                        discordChannelId: row.discord_channel_id,
+                        discordMessageId: row.discord_message_id,
+                        authorId: row.author_id,
+                        content: row.content,
+                        createdAt: row.created_at
+                    })));
+                }
+            });
+        });
+    }
+    /**
+     * Count queued outbox messages for an IRC channel
+     */
+    async countOutboxMessages(ircChannel) {
+        return new Promise((resolve) => {
+            this.db.get(`
+        SELECT COUNT(*) AS count FROM irc_outbox WHERE irc_channel = ?
+      `, [ircChannel.toLowerCase()], (err, row) => {
+                if (err) {
+                    logger_1.logger.error('Failed to count outbox messages:', err);
+                    resolve(0);
+                }
+                else {
+                    resolve(row ? row.count : 0);
+                }
+            });
+        });
+    }
+    async deleteOutboxMessage(id) {
+        return this.writeWithRetry(async () => new Promise((resolve, reject) => {
+            this.db.run('DELETE FROM irc_outbox WHERE id = ?', [id], (err) => {
+                if (err) {
+                    logger_1.logger.error('Failed to delete outbox message:', err);
+                    reject(err);
+                }
+                else {
+                    resolve();
+                }
+            });
+        }));
+    }
+    /**
+     * Remove outbox messages queued before the given timestamp
+     * @returns Number of expired messages removed
+     */
+    async pruneOutbox(olderThan) {
+        return this.writeWithRetry(async () => new Promise((resolve, reject) => {
+            this.db.run('DELETE FROM irc_outbox WHERE created_at < ?', [olderThan], function (err) {
+                if (err) {
+                    logger_1.logger.error('Failed to prune outbox:', err);
+                    reject(err);
+                }
+                else {
+                    resolve(this.changes);
+                }
+            });
+        }));
+    }
+    /**
+     * Hold an IRC message until Discord is reachable again
+     * @returns The buffer ID of the stored message
+     */
+    async bufferDiscordMessage(message) {
+        const createdAt = message.createdAt ?? Date.now();
+        return this.writeWithRetry(async () => new Promise((resolve, reject) => {
+            this.db.run(`
+        INSERT INTO discord_buffer (irc_channel, author, text, created_at)
+        VALUES (?, ?, ?, ?)
+      `, [message.ircChannel.toLowerCase(), message.author, message.text, createdAt], function (err) {
+                if (err) {
+                    logger_1.logger.error('Failed to buffer Discord message:', err);
+                    reject(err);
+                }
+                else {
+                    resolve(this.lastID);
+                }
+            });
+        }));
+    }
+    /**
+     * Get buffered IRC messages in the order they were received
+     */
+    async getBufferedDiscordMessages() {
+        return new Promise((resolve) => {
+            this.db.all('SELECT * FROM discord_buffer ORDER BY id ASC', [], (err, rows) => {
+                if (err) {
+                    logger_1.logger.error('Failed to load buffered Discord messages:', err);
+                    resolve([]);
+                }
+                else {
+                    resolve(rows.map(row => ({
+                        id: row.id,
+                        ircChannel: row.irc_channel,
+                        author: row.author,
+                        text: row.text,
+                        createdAt: row.created_at
+                    })));
+                }
+            });
+        });
+    }
+    /**
+     * Count buffered IRC messages, optionally for a single IRC channel
+     */
+    async countBufferedDiscordMessages(ircChannel) {
+        const sql = ircChannel
+            ? 'SELECT COUNT(*) AS count FROM discord_buffer WHERE irc_channel = ?'
+            : 'SELECT COUNT(*) AS count FROM discord_buffer';
+        const params = ircChannel ? [ircChannel.toLowerCase()] : [];
+        return new Promise((resolve) => {
+            this.db.get(sql, params, (err, row) => {
+                if (err) {
+                    logger_1.logger.error('Failed to count buffered Discord messages:', err);
+                    resolve(0);
+                }
+                else {
+                    resolve(row ? row.count : 0);
+                }
+            });
+        });
+    }
+    /**
+     * Remove buffered messages for an IRC channel up to and including the given ID
+     */
+    async deleteBufferedDiscordMessages(ircChannel, upToId) {
+        return this.writeWithRetry(async () => new Promise((resolve, reject) => {
+            this.db.run('DELETE FROM discord_buffer WHERE irc_channel = ? AND id <= ?', [ircChannel.toLowerCase(), upToId], (err) => {
+                if (err) {
+                    logger_1.logger.error('Failed to delete buffered Discord messages:', err);
+                    reject(err);
+                }
+                else {
+                    resolve();
+                }
+            });
+        }));
+    }
+    /**
+     * Store a channel mapping made at runtime, replacing any earlier one for the Discord channel
+     */
+    async saveChannelMapping(discordChannelId, ircChannel, createdBy) {
+        return this.writeWithRetry(async () => new Promise((resolve, reject) => {
+            this.db.run(`
+        INSERT OR REPLACE INTO channel_mappings
+        (discord_channel_id, irc_channel, created_by, created_at)
+        VALUES (?, ?, ?, ?)
+      `, [discordChannelId, ircChannel, createdBy ?? null, Date.now()], (err) => {
+                if (err) {
+                    logger_1.logger.error('Failed to save channel mapping:', err);
+                    reject(err);
+                }
+                else {
+                    logger_1.logger.debug(`Saved channel mapping: ${discordChannelId} -> ${ircChannel}`);
+                    resolve();
+                }
+            });
+        }));
+    }
+    /**
+     * Get the channel mappings made at runtime, oldest first
+     */
+    async getChannelMappings() {
+        return new Promise((resolve) => {
+            this.db.all('SELECT * FROM channel_mappings ORDER BY created_at ASC', [], (err, rows) => {
+                if (err) {
+                    logger_1.logger.error('Failed to load channel mappings:', err);
+                    resolve([]);
+                }
+                else {
+                    resolve(rows.map(row => ({
+                        discordChannelId: row.discord_channel_id,
+                        ircChannel: row.irc_channel,
+                        createdBy: row.created_by ?? undefined,
+                        createdAt: row.created_at
+                    })));
+                }
+            });
+        });
+    }
+    async deleteChannelMapping(discordChannelId) {
+        return this.writeWithRetry(async () => new Promise((resolve, reject) => {
+            this.db.run('DELETE FROM channel_mappings WHERE discord_channel_id = ?', [discordChannelId], (err) => {
+                if (err) {
+                    logger_1.logger.error('Failed to delete channel mapping:', err);
+                    reject(err);
+                }
+                else {
+                    logger_1.logger.debug(`Deleted channel mapping for: ${discordChannelId}`);
+                    resolve();
+                }
+            });
+        }));
+    }
+    /**
+     * Store the credentials of a webhook the bridge manages for a Discord channel
+     */
+    async saveChannelWebhook(discordChannelId, webhookId, token) {
+        return this.writeWithRetry(async () => new Promise((resolve, reject) => {
+            this.db.run(`
+        INSERT OR REPLACE INTO channel_webhooks
+        (discord_channel_id, webhook_id, webhook_token, created_at)
+        VALUES (?, ?, ?, ?)
+      `, [discordChannelId, webhookId, token, Date.now()], (err) => {
+                if (err) {
+                    logger_1.logger.error('Failed to save channel webhook:', err);
+                    reject(err);
+                }
+                else {
+                    logger_1.logger.debug(`Saved webhook ${webhookId} for channel ${discordChannelId}`);
+                    resolve();
+                }
+            });
+        }));
+    }
+    async getChannelWebhook(discordChannelId) {
+        return new Promise((resolve) => {
+            this.db.get('SELECT webhook_id, webhook_token FROM channel_webhooks WHERE discord_channel_id = ?', [discordChannelId], (err, row) => {
+                if (err) {
+                    logger_1.logger.error('Failed to get channel webhook:', err);
+                    resolve(null);
+                }
+                else {
+                    resolve(row ? { webhookId: row.webhook_id, token: row.webhook_token } : null);
+                }
+            });
+        });
+    }
+    async deleteChannelWebhook(discordChannelId) {
+        return this.writeWithRetry(async () => new Promise((resolve, reject) => {
+            this.db.run('DELETE FROM channel_webhooks WHERE discord_channel_id = ?', [discordChannelId], (err) => {
+                if (err) {
+                    logger_1.logger.error('Failed to delete channel webhook:', err);
+                    reject(err);
+                }
+                else {
+                    resolve();
+                }
+            });
+        }));
+    }
     async close() {
         return new Promise((resolve) => {
             this.db.close((err) => {
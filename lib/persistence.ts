@@ -15,6 +15,36 @@ export interface ChannelUserData {
   lastUpdated: number;
 }
 
+export interface BufferedDiscordMessage {
+  id: number;
+  ircChannel: string;
+  author: string;
+  text: string;
+  createdAt: number; // IRC server-time when available, otherwise when it was buffered
+}
+
+export interface StoredChannelMapping {
+  discordChannelId: string;
+  ircChannel: string; // Mapping target as configured, including any network and channel key
+  createdBy?: string; // Discord user ID
+  createdAt: number;
+}
+
+export interface StoredWebhook {
+  webhookId: string;
+  token: string;
+}
+
+export interface OutboxMessage {
+  id: number;
+  ircChannel: string;
+  discordChannelId: string;
+  discordMessageId: string;
+  authorId: string;
+  content: string;
+  createdAt: number;
+}
+
 export interface S3Config {
   guildId: string;
   bucket: string;
@@ -64,6 +94,31 @@ interface _MetricRow {
   timestamp: number;
 }
 
+interface BufferedDiscordRow {
+  id: number;
+  irc_channel: string;
+  author: string;
+  text: string;
+  created_at: number;
+}
+
+interface ChannelMappingRow {
+  discord_channel_id: string;
+  irc_channel: string;
+  created_by: string | null;
+  created_at: number;
+}
+
+interface OutboxRow {
+  id: number;
+  irc_channel: string;
+  discord_channel_id: string;
+  discord_message_id: string;
+  author_id: string;
+  content: string;
+  created_at: number;
+}
+
 interface S3ConfigRow {
   guild_id: string;
   bucket: string;
@@ -241,6 +296,36 @@ export class PersistenceService {
         url_shortener_prefix TEXT,
         created_at INTEGER NOT NULL,
         updated_at INTEGER NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS irc_outbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        irc_channel TEXT NOT NULL,
+        discord_channel_id TEXT NOT NULL,
+        discord_message_id TEXT NOT NULL,
+        author_id TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_irc_outbox_channel ON irc_outbox (irc_channel, id)`,
+      `CREATE TABLE IF NOT EXISTS discord_buffer (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        irc_channel TEXT NOT NULL,
+        author TEXT NOT NULL,
+        text TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_discord_buffer_channel ON discord_buffer (irc_channel, id)`,
+      `CREATE TABLE IF NOT EXISTS channel_mappings (
+        discord_channel_id TEXT PRIMARY KEY,
+        irc_channel TEXT NOT NULL,
+        created_by TEXT,
+        created_at INTEGER NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS channel_webhooks (
+        discord_channel_id TEXT PRIMARY KEY,
+        webhook_id TEXT NOT NULL,
+        webhook_token TEXT NOT NULL,
+        created_at INTEGER NOT NULL
       )`
     ];
 
@@ -659,6 +744,307 @@ export class PersistenceService {
     }));
   }
 
+  /**
+   * Queue a Discord message for delivery once IRC is reachable again
+   * @returns The outbox ID of the queued message
+   */
+  async enqueueOutboxMessage(message: Omit<OutboxMessage, 'id' | 'createdAt'>): Promise<number> {
+    const now = Date.now();
+
+    return this.writeWithRetry(async () => new Promise<number>((resolve, reject) => {
+      this.db.run(`
+        INSERT INTO irc_outbox
+        (irc_channel, discord_channel_id, discord_message_id, author_id, content, created_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [
+        message.ircChannel.toLowerCase(),
+        message.discordChannelId,
+        message.discordMessageId,
+        message.authorId,
+        message.content,
+        now
+      ], function (err) {
+        if (err) {
+          logger.error('Failed to queue outbox message:', err);
+          reject(err);
+        } else {
+          logger.debug(`Queued outbox message ${message.discordMessageId} for ${message.ircChannel}`);
+          resolve(this.lastID);
+        }
+      });
+    }));
+  }
+
+  /**
+   * Get queued outbox messages in the order they were queued
+   * Optionally limited to a single IRC channel
+   */
+  async getOutboxMessages(ircChannel?: string): Promise<OutboxMessage[]> {
+    const sql = ircChannel
+      ? 'SELECT * FROM irc_outbox WHERE irc_channel = ? ORDER BY id ASC'
+      : 'SELECT * FROM irc_outbox ORDER BY id ASC';
+    const params = ircChannel ? [ircChannel.toLowerCase()] : [];
+
+    return new Promise((resolve) => {
+      this.db.all(sql, params, (err, rows: OutboxRow[]) => {
+        if (err) {
+          logger.error('Failed to load outbox messages:', err);
+          resolve([]);
+        } else {
+          resolve(rows.map(row => ({
+            id: row.id,
+            ircChannel: row.irc_channel,
+            discordChannelId: row.discord_channel_id,
+            discordMessageId: row.discord_message_id,
+            authorId: row.author_id,
+            content: row.content,
+            createdAt: row.created_at
+          })));
+        }
+      });
+    });
+  }
+
+  /**
+   * Count queued outbox messages for an IRC channel
+   */
+  async countOutboxMessages(ircChannel: string): Promise<number> {
+    return new Promise((resolve) => {
+      this.db.get(`
+        SELECT COUNT(*) AS count FROM irc_outbox WHERE irc_channel = ?
+      `, [ircChannel.toLowerCase()], (err, row: { count: number } | undefined) => {
+        if (err) {
+          logger.error('Failed to count outbox messages:', err);
+          resolve(0);
+        } else {
+          resolve(row ? row.count : 0);
+        }
+      });
+    });
+  }
+
+  async deleteOutboxMessage(id: number): Promise<void> {
+    return this.writeWithRetry(async () => new Promise<void>((resolve, reject) => {
+      this.db.run('DELETE FROM irc_outbox WHERE id = ?', [id], (err) => {
+        if (err) {
+          logger.error('Failed to delete outbox message:', err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    }));
+  }
+
+  /**
+   * Remove outbox messages queued before the given timestamp
+   * @returns Number of expired messages removed
+   */
+  async pruneOutbox(olderThan: number): Promise<number> {
+    return this.writeWithRetry(async () => new Promise<number>((resolve, reject) => {
+      this.db.run('DELETE FROM irc_outbox WHERE created_at < ?', [olderThan], function (err) {
+        if (err) {
+          logger.error('Failed to prune outbox:', err);
+          reject(err);
+        } else {
+          resolve(this.changes);
+        }
+      });
+    }));
+  }
+
+  /**
+   * Hold an IRC message until Discord is reachable again
+   * @returns The buffer ID of the stored message
+   */
+  async bufferDiscordMessage(message: Omit<BufferedDiscordMessage, 'id' | 'createdAt'> & { createdAt?: number }): Promise<number> {
+    const createdAt = message.createdAt ?? Date.now();
+
+    return this.writeWithRetry(async () => new Promise<number>((resolve, reject) => {
+      this.db.run(`
+        INSERT INTO discord_buffer (irc_channel, author, text, created_at)
+        VALUES (?, ?, ?, ?)
+      `, [message.ircChannel.toLowerCase(), message.author, message.text, createdAt], function (err) {
+        if (err) {
+          logger.error('Failed to buffer Discord message:', err);
+          reject(err);
+        } else {
+          resolve(this.lastID);
+        }
+      });
+    }));
+  }
+
+  /**
+   * Get buffered IRC messages in the order they were received
+   */
+  async getBufferedDiscordMessages(): Promise<BufferedDiscordMessage[]> {
+    return new Promise((resolve) => {
+      this.db.all('SELECT * FROM discord_buffer ORDER BY id ASC', [], (err, rows: BufferedDiscordRow[]) => {
+        if (err) {
+          logger.error('Failed to load buffered Discord messages:', err);
+          resolve([]);
+        } else {
+          resolve(rows.map(row => ({
+            id: row.id,
+            ircChannel: row.irc_channel,
+            author: row.author,
+            text: row.text,
+            createdAt: row.created_at
+          })));
+        }
+      });
+    });
+  }
+
+  /**
+   * Count buffered IRC messages, optionally for a single IRC channel
+   */
+  async countBufferedDiscordMessages(ircChannel?: string): Promise<number> {
+    const sql = ircChannel
+      ? 'SELECT COUNT(*) AS count FROM discord_buffer WHERE irc_channel = ?'
+      : 'SELECT COUNT(*) AS count FROM discord_buffer';
+    const params = ircChannel ? [ircChannel.toLowerCase()] : [];
+
+    return new Promise((resolve) => {
+      this.db.get(sql, params, (err, row: { count: number } | undefined) => {
+        if (err) {
+          logger.error('Failed to count buffered Discord messages:', err);
+          resolve(0);
+        } else {
+          resolve(row ? row.count : 0);
+        }
+      });
+    });
+  }
+
+  /**
+   * Remove buffered messages for an IRC channel up to and including the given ID
+   */
+  async deleteBufferedDiscordMessages(ircChannel: string, upToId: number): Promise<void> {
+    return this.writeWithRetry(async () => new Promise<void>((resolve, reject) => {
+      this.db.run(
+        'DELETE FROM discord_buffer WHERE irc_channel = ? AND id <= ?',
+        [ircChannel.toLowerCase(), upToId],
+        (err) => {
+          if (err) {
+            logger.error('Failed to delete buffered Discord messages:', err);
+            reject(err);
+          } else {
+            resolve();
+          }
+        }
+      );
+    }));
+  }
+
+  /**
+   * Store a channel mapping made at runtime, replacing any earlier one for the Discord channel
+   */
+  async saveChannelMapping(discordChannelId: string, ircChannel: string, createdBy?: string): Promise<void> {
+    return this.writeWithRetry(async () => new Promise<void>((resolve, reject) => {
+      this.db.run(`
+        INSERT OR REPLACE INTO channel_mappings
+        (discord_channel_id, irc_channel, created_by, created_at)
+        VALUES (?, ?, ?, ?)
+      `, [discordChannelId, ircChannel, createdBy ?? null, Date.now()], (err) => {
+        if (err) {
+          logger.error('Failed to save channel mapping:', err);
+          reject(err);
+        } else {
+          logger.debug(`Saved channel mapping: ${discordChannelId} -> ${ircChannel}`);
+          resolve();
+        }
+      });
+    }));
+  }
+
+  /**
+   * Get the channel mappings made at runtime, oldest first
+   */
+  async getChannelMappings(): Promise<StoredChannelMapping[]> {
+    return new Promise((resolve) => {
+      this.db.all('SELECT * FROM channel_mappings ORDER BY created_at ASC', [], (err, rows: ChannelMappingRow[]) => {
+        if (err) {
+          logger.error('Failed to load channel mappings:', err);
+          resolve([]);
+        } else {
+          resolve(rows.map(row => ({
+            discordChannelId: row.discord_channel_id,
+            ircChannel: row.irc_channel,
+            createdBy: row.created_by ?? undefined,
+            createdAt: row.created_at
+          })));
+        }
+      });
+    });
+  }
+
+  async deleteChannelMapping(discordChannelId: string): Promise<void> {
+    return this.writeWithRetry(async () => new Promise<void>((resolve, reject) => {
+      this.db.run('DELETE FROM channel_mappings WHERE discord_channel_id = ?', [discordChannelId], (err) => {
+        if (err) {
+          logger.error('Failed to delete channel mapping:', err);
+          reject(err);
+        } else {
+          logger.debug(`Deleted channel mapping for: ${discordChannelId}`);
+          resolve();
+        }
+      });
+    }));
+  }
+
+  /**
+   * Store the credentials of a webhook the bridge manages for a Discord channel
+   */
+  async saveChannelWebhook(discordChannelId: string, webhookId: string, token: string): Promise<void> {
+    return this.writeWithRetry(async () => new Promise<void>((resolve, reject) => {
+      this.db.run(`
+        INSERT OR REPLACE INTO channel_webhooks
+        (discord_channel_id, webhook_id, webhook_token, created_at)
+        VALUES (?, ?, ?, ?)
+      `, [discordChannelId, webhookId, token, Date.now()], (err) => {
+        if (err) {
+          logger.error('Failed to save channel webhook:', err);
+          reject(err);
+        } else {
+          logger.debug(`Saved webhook ${webhookId} for channel ${discordChannelId}`);
+          resolve();
+        }
+      });
+    }));
+  }
+
+  async getChannelWebhook(discordChannelId: string): Promise<StoredWebhook | null> {
+    return new Promise((resolve) => {
+      this.db.get(
+        'SELECT webhook_id, webhook_token FROM channel_webhooks WHERE discord_channel_id = ?',
+        [discordChannelId],
+        (err, row: { webhook_id: string; webhook_token: string } | undefined) => {
+          if (err) {
+            logger.error('Failed to get channel webhook:', err);
+            resolve(null);
+          } else {
+            resolve(row ? { webhookId: row.webhook_id, token: row.webhook_token } : null);
+          }
+        }
+      );
+    });
+  }
+
+  async deleteChannelWebhook(discordChannelId: string): Promise<void> {
+    return this.writeWithRetry(async () => new Promise<void>((resolve, reject) => {
+      this.db.run('DELETE FROM channel_webhooks WHERE discord_channel_id = ?', [discordChannelId], (err) => {
+        if (err) {
+          logger.error('Failed to delete channel webhook:', err);
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    }));
+  }
+
   async close(): Promise<void> {
     return new Promise((resolve) => {
       this.db.close((err) => {
@@ -37,8 +37,10 @@ class RateLimiter {
     /**
      * Check if a user is allowed to send a message
      * Returns null if allowed, or a reason string if blocked
+     * @param limits Thresholds replacing the configured ones for this message, e.g. from a channel override
      */
-    checkMessage(userId, username, messageContent) {
+    checkMessage(userId, username, messageContent, limits) {
+        const config = limits ? { ...this.config, ...limits } : this.config;
         const now = Date.now();
         let user = this.userActivity.get(userId);
         if (!user) {
@@ -75,24 +77,24 @@ class RateLimiter {
         user.recentMessages = user.recentMessages.filter(timestamp => timestamp > hourAgo);
         user.messageHistory = user.messageHistory.slice(-10); // Keep last 10 messages
         // Check burst rate (short-term flooding)
-        const recentBurstMessages = user.recentMessages.filter(timestamp => timestamp > now - this.config.burstWindow);
-        if (recentBurstMessages.length >= this.config.burstLimit) {
-            return this.handleRateLimit(user, `burst limit exceeded (${recentBurstMessages.length}/${this.config.burstLimit} in ${this.config.burstWindow / 1000}s)`);
+        const recentBurstMessages = user.recentMessages.filter(timestamp => timestamp > now - config.burstWindow);
+        if (recentBurstMessages.length >= config.burstLimit) {
+            return this.handleRateLimit(config, user, `burst limit exceeded (${recentBurstMessages.length}/${config.burstLimit} in ${config.burstWindow / 1000}s)`);
         }
         // Check per-minute rate
         const recentMinuteMessages = user.recentMessages.filter(timestamp => timestamp > minuteAgo);
-        if (recentMinuteMessages.length >= this.config.maxMessagesPerMinute) {
-            return this.handleRateLimit(user, `per-minute limit exceeded (${recentMinuteMessages.length}/${this.config.maxMessagesPerMinute})`);
+        if (recentMinuteMessages.length >= config.maxMessagesPerMinute) {
+            return this.handleRateLimit(config, user, `per-minute limit exceeded (${recentMinuteMessages.length}/${config.maxMessagesPerMinute})`);
         }
         // Check per-hour rate
-        if (user.recentMessages.length >= this.config.maxMessagesPerHour) {
-            return this.handleRateLimit(user, `per-hour limit exceeded (${user.recentMessages.length}/${this.config.maxMessagesPerHour})`);
+        if (user.recentMessages.length >= config.maxMessagesPerHour) {
+            return this.handleRateLimit(config, user, `per-hour limit exceeded (${user.recentMessages.length}/${config.maxMessagesPerHour})`);
         }
         // Check for duplicate messages (spam detection)
         const recentDuplicates = user.messageHistory.filter(msg => msg === messageContent &&
-            user.recentMessages.some(timestamp => timestamp > now - this.config.duplicateTimeWindow));
-        if (recentDuplicates.length >= this.config.duplicateMessageThreshold - 1) { // -1 because this message would be the nth duplicate
-            return this.handleSpam(user, `duplicate message spam detected (${recentDuplicates.length + 1} identical messages)`);
+            user.recentMessages.some(timestamp => timestamp > now - config.duplicateTimeWindow));
+        if (recentDuplicates.length >= config.duplicateMessageThreshold - 1) { // -1 because this message would be the nth duplicate
+            return this.handleSpam(config, user, `duplicate message spam detected (${recentDuplicates.length + 1} identical messages)`);
         }
         // Message is allowed - record it
         user.recentMessages.push(now);
@@ -104,7 +106,7 @@ class RateLimiter {
     /**
      * Handle rate limit violation
      */
-    handleRateLimit(user, reason) {
+    handleRateLimit(config, user, reason) {
         user.warningCount++;
         const now = Date.now();
         logger_1.logger.warn(`Rate limit violation for ${user.username} (${user.userId}): ${reason} (warning ${user.warningCount})`);
@@ -112,28 +114,28 @@ class RateLimiter {
         if (user.warningCount >= 3) {
             // Block user after 3 warnings
             user.isBlocked = true;
-            user.blockedUntil = now + (this.config.spamCooldownMinutes * 60 * 1000);
-            logger_1.logger.warn(`User ${user.username} (${user.userId}) blocked for ${this.config.spamCooldownMinutes} minutes due to repeated rate limit violations`);
-            return `User blocked for ${this.config.spamCooldownMinutes} minutes due to repeated rate limit violations`;
+            user.blockedUntil = now + (config.spamCooldownMinutes * 60 * 1000);
+            logger_1.logger.warn(`User ${user.username} (${user.userId}) blocked for ${config.spamCooldownMinutes} minutes due to repeated rate limit violations`);
+            return `User blocked for ${config.spamCooldownMinutes} minutes due to repeated rate limit violations`;
         }
         else {
             // Temporary cooldown
-            user.blockedUntil = now + (this.config.rateLimitCooldownSeconds * 1000);
+            user.blockedUntil = now + (config.rateLimitCooldownSeconds * 1000);
             user.lastWarning = now;
-            return `Rate limit exceeded: ${reason}. Please wait ${this.config.rateLimitCooldownSeconds} seconds before sending another message.`;
+            return `Rate limit exceeded: ${reason}. Please wait ${config.rateLimitCooldownSeconds} seconds before sending another message.`;
         }
     }
     /**
      * Handle spam detection
      */
-    handleSpam(user, reason) {
+    handleSpam(config, user, reason) {
         const now = Date.now();
         logger_1.logger.warn(`Spam detected for ${user.username} (${user.userId}): ${reason}`);
         // Immediate block for spam
         user.isBlocked = true;
-        user.blockedUntil = now + (this.config.spamCooldownMinutes * 60 * 1000);
+        user.blockedUntil = now + (config.spamCooldownMinutes * 60 * 1000);
         user.warningCount += 2; // Spam is more serious than rate limiting
-        return `Spam detected: ${reason}. User blocked for ${this.config.spamCooldownMinutes} minutes.`;
+        return `Spam detected: ${reason}. User blocked for ${config.spamCooldownMinutes} minutes.`;
     }
     /**
      * Get statistics about rate limiting
@@ -71,8 +71,10 @@ export class RateLimiter {
   /**
    * Check if a user is allowed to send a message
    * Returns null if allowed, or a reason string if blocked
+   * @param limits Thresholds replacing the configured ones for this message, e.g. from a channel override
    */
-  checkMessage(userId: string, username: string, messageContent: string): string | null {
+  checkMessage(userId: string, username: string, messageContent: string, limits?: Partial<RateLimitConfig>): string | null {
+    const config = limits ? { ...this.config, ...limits } : this.config;
     const now = Date.now();
     let user = this.userActivity.get(userId);
 
@@ -116,30 +118,30 @@ export class RateLimiter {
     user.messageHistory = user.messageHistory.slice(-10); // Keep last 10 messages
 
     // Check burst rate (short-term flooding)
-    const recentBurstMessages = user.recentMessages.filter(timestamp => timestamp > now - this.config.burstWindow);
-    if (recentBurstMessages.length >= this.config.burstLimit) {
-      return this.handleRateLimit(user, `burst limit exceeded (${recentBurstMessages.length}/${this.config.burstLimit} in ${this.config.burstWindow/1000}s)`);
+    const recentBurstMessages = user.recentMessages.filter(timestamp => timestamp > now - config.burstWindow);
+    if (recentBurstMessages.length >= config.burstLimit) {
+      return this.handleRateLimit(config, user, `burst limit exceeded (${recentBurstMessages.length}/${config.burstLimit} in ${config.burstWindow/1000}s)`);
     }
 
     // Check per-minute rate
     const recentMinuteMessages = user.recentMessages.filter(timestamp => timestamp > minuteAgo);
-    if (recentMinuteMessages.length >= this.config.maxMessagesPerMinute) {
-      return this.handleRateLimit(user, `per-minute limit exceeded (${recentMinuteMessages.length}/${this.config.maxMessagesPerMinute})`);
+    if (recentMinuteMessages.length >= config.maxMessagesPerMinute) {
+      return this.handleRateLimit(config, user, `per-minute limit exceeded (${recentMinuteMessages.length}/${config.maxMessagesPerMinute})`);
     }
 
     // Check per-hour rate
-    if (user.recentMessages.length >= this.config.maxMessagesPerHour) {
-      return this.handleRateLimit(user, `per-hour limit exceeded (${user.recentMessages.length}/${this.config.maxMessagesPerHour})`);
+    if (user.recentMessages.length >= config.maxMessagesPerHour) {
+      return this.handleRateLimit(config, user, `per-hour limit exceeded (${user.recentMessages.length}/${config.maxMessagesPerHour})`);
     }
 
     // Check for duplicate messages (spam detection)
     const recentDuplicates = user.messageHistory.filter(msg => 
       msg === messageContent && 
-      user.recentMessages.some(timestamp => timestamp > now - this.config.duplicateTimeWindow)
+      user.recentMessages.some(timestamp => timestamp > now - config.duplicateTimeWindow)
     );
 
-    if (recentDuplicates.length >= this.config.duplicateMessageThreshold - 1) { // -1 because this message would be the nth duplicate
-      return this.handleSpam(user, `duplicate message spam detected (${recentDuplicates.length + 1} identical messages)`);
+    if (recentDuplicates.length >= config.duplicateMessageThreshold - 1) { // -1 because this message would be the nth duplicate
+      return this.handleSpam(config, user, `duplicate message spam detected (${recentDuplicates.length + 1} identical messages)`);
     }
 
     // Message is allowed - record it
@@ -154,7 +156,7 @@ export class RateLimiter {
   /**
    * Handle rate limit violation
    */
-  private handleRateLimit(user: UserActivity, reason: string): string {
+  private handleRateLimit(config: RateLimitConfig, user: UserActivity, reason: string): string {
     user.warningCount++;
     const now = Date.now();
 
@@ -164,31 +166,31 @@ export class RateLimiter {
     if (user.warningCount >= 3) {
       // Block user after 3 warnings
       user.isBlocked = true;
-      user.blockedUntil = now + (this.config.spamCooldownMinutes * 60 * 1000);
-      logger.warn(`User ${user.username} (${user.userId}) blocked for ${this.config.spamCooldownMinutes} minutes due to repeated rate limit violations`);
-      return `User blocked for ${this.config.spamCooldownMinutes} minutes due to repeated rate limit violations`;
+      user.blockedUntil = now + (config.spamCooldownMinutes * 60 * 1000);
+      logger.warn(`User ${user.username} (${user.userId}) blocked for ${config.spamCooldownMinutes} minutes due to repeated rate limit violations`);
+      return `User blocked for ${config.spamCooldownMinutes} minutes due to repeated rate limit violations`;
     } else {
       // Temporary cooldown
-      user.blockedUntil = now + (this.config.rateLimitCooldownSeconds * 1000);
+      user.blockedUntil = now + (config.rateLimitCooldownSeconds * 1000);
       user.lastWarning = now;
-      return `Rate limit exceeded: ${reason}. Please wait ${this.config.rateLimitCooldownSeconds} seconds before sending another message.`;
+      return `Rate limit exceeded: ${reason}. Please wait ${config.rateLimitCooldownSeconds} seconds before sending another message.`;
     }
   }
 
   /**
    * Handle spam detection
    */
-  private handleSpam(user: UserActivity, reason: string): string {
+  private handleSpam(config: RateLimitConfig, user: UserActivity, reason: string): string {
     const now = Date.now();
     
     logger.warn(`Spam detected for ${user.username} (${user.userId}): ${reason}`);
 
     // Immediate block for spam
     user.isBlocked = true;
-    user.blockedUntil = now + (this.config.spamCooldownMinutes * 60 * 1000);
+    user.blockedUntil = now + (config.spamCooldownMinutes * 60 * 1000);
     user.warningCount += 2; // Spam is more serious than rate limiting
 
-    return `Spam detected: ${reason}. User blocked for ${this.config.spamCooldownMinutes} minutes.`;
+    return `Spam detected: ${reason}. User blocked for ${config.spamCooldownMinutes} minutes.`;
   }
 
   /**
@@ -0,0 +1,69 @@
+"use strict";
+/**
+ * Groups rapid Discord reactions into a single IRC line
+ *
+ * Someone adding three emoji to a message in quick succession should show up
+ * on IRC as one "reacted 👍 🎉 🚀" line rather than three. Reactions are
+ * grouped per reacting user and message, and a reaction that is removed
+ * again within the window cancels out.
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.ReactionCoalescer = void 0;
+class ReactionCoalescer {
+    windowMs;
+    flush;
+    pending = new Map();
+    constructor(windowMs, flush) {
+        this.windowMs = windowMs;
+        this.flush = flush;
+    }
+    /**
+     * Record a reaction being added or removed
+     * @param key Identifies the group, e.g. reacting user and message ID
+     */
+    record(key, target, emoji, removed = false) {
+        let pending = this.pending.get(key);
+        if (!pending) {
+            pending = {
+                batch: { ...target, added: [], removed: [] },
+                timer: setTimeout(() => this.emit(key), this.windowMs)
+            };
+            this.pending.set(key, pending);
+        }
+        const { batch } = pending;
+        const [same, opposite] = removed ? [batch.removed, batch.added] : [batch.added, batch.removed];
+        const cancelled = opposite.indexOf(emoji);
+        if (cancelled !== -1) {
+            opposite.splice(cancelled, 1);
+        }
+        else if (!same.includes(emoji)) {
+            same.push(emoji);
+        }
+    }
+    /**
+     * Number of groups waiting to be flushed
+     */
+    get size() {
+        return this.pending.size;
+    }
+    /**
+     * Drop all pending reactions without emitting them
+     */
+    destroy() {
+        for (const { timer } of this.pending.values()) {
+            clearTimeout(timer);
+        }
+        this.pending.clear();
+    }
+    emit(key) {
+        const pending = this.pending.get(key);
+        if (!pending)
+            return;
+        this.pending.delete(key);
+        const { batch } = pending;
+        if (batch.added.length === 0 && batch.removed.length === 0)
+            return;
+        this.flush(batch);
+    }
+}
+exports.ReactionCoalescer = ReactionCoalescer;
@@ -13,6 +13,9 @@ class RecoveryManager extends events_1.EventEmitter {
     // Recovery state
     isRecovering = false;
     recoveryPromise;
+    // Puppet connections waiting to reconnect, in the order they dropped
+    puppetQueue = new Map();
+    puppetTimer;
     constructor(config = {}) {
         super();
         this.config = {
@@ -23,6 +26,7 @@ class RecoveryManager extends events_1.EventEmitter {
             healthCheckInterval: 30000, // 30 seconds
             circuitBreakerThreshold: 3,
             circuitBreakerTimeout: 300000, // 5 minutes
+            puppetReconnectDelay: 2000, // 2 seconds
             ...config
         };
         this.discordHealth = this.initializeHealth();
@@ -170,6 +174,51 @@ class RecoveryManager extends events_1.EventEmitter {
             }, 30000);
         });
     }
+    /**
+     * Queue a dropped IRC puppet connection for reconnection
+     *
+     * Puppets reconnect one at a time, and only while the main IRC connection
+     * is healthy, so a netsplit that drops every puppet at once doesn't turn
+     * into a reconnect storm.
+     */
+    queuePuppetReconnect(id, reconnect) {
+        this.puppetQueue.set(id, reconnect);
+        this.schedulePuppetReconnect();
+    }
+    /**
+     * Drop a puppet from the reconnect queue, e.g. when it was shut down for good
+     */
+    cancelPuppetReconnect(id) {
+        this.puppetQueue.delete(id);
+    }
+    /**
+     * Number of puppet connections waiting to reconnect
+     */
+    getPendingPuppetReconnects() {
+        return this.puppetQueue.size;
+    }
+    schedulePuppetReconnect() {
+        if (this.puppetTimer || this.puppetQueue.size === 0)
+            return;
+        this.puppetTimer = setTimeout(() => {
+            this.puppetTimer = undefined;
+            // Hold the queue until the main connection is back
+            const ircUp = this.ircHealth.isHealthy && this.ircHealth.consecutiveFailures === 0 && !this.isRecovering;
+            const next = this.puppetQueue.entries().next().value;
+            if (ircUp && next) {
+                const [id, reconnect] = next;
+                this.puppetQueue.delete(id);
+                logger_1.logger.debug(`Reconnecting IRC puppet ${id}, ${this.puppetQueue.size} still queued`);
+                try {
+                    reconnect();
+                }
+                catch (error) {
+                    logger_1.logger.error(`Failed to reconnect IRC puppet ${id}:`, error);
+                }
+            }
+            this.schedulePuppetReconnect();
+        }, this.config.puppetReconnectDelay);
+    }
     /**
      * Calculate delay with exponential backoff and jitter
      */
@@ -289,6 +338,11 @@ class RecoveryManager extends events_1.EventEmitter {
             clearInterval(this.healthCheckTimer);
             this.healthCheckTimer = undefined;
         }
+        if (this.puppetTimer) {
+            clearTimeout(this.puppetTimer);
+            this.puppetTimer = undefined;
+        }
+        this.puppetQueue.clear();
         this.removeAllListeners();
         logger_1.logger.info('Recovery manager destroyed');
     }
@@ -9,6 +9,7 @@ export interface RecoveryConfig {
   healthCheckInterval: number; // Health check interval in ms
   circuitBreakerThreshold: number; // Failed attempts before circuit breaker trips
   circuitBreakerTimeout: number; // Circuit breaker timeout in ms
+  puppetReconnectDelay: number; // Gap between reconnecting two IRC puppet connections in ms
 }
 
 export interface ConnectionHealth {
@@ -40,6 +41,10 @@ export class RecoveryManager extends EventEmitter {
   private isRecovering = false;
   private recoveryPromise?: Promise<void>;
 
+  // Puppet connections waiting to reconnect, in the order they dropped
+  private puppetQueue: Map<string, () => void> = new Map();
+  private puppetTimer?: NodeJS.Timeout;
+
   constructor(config: Partial<RecoveryConfig> = {}) {
     super();
     this.config = {
@@ -50,6 +55,7 @@ export class RecoveryManager extends EventEmitter {
       healthCheckInterval: 30000, // 30 seconds
       circuitBreakerThreshold: 3,
       circuitBreakerTimeout: 300000, // 5 minutes
+      puppetReconnectDelay: 2000, // 2 seconds
       ...config
     };
 
@@ -226,6 +232,56 @@ export class RecoveryManager extends EventEmitter {
     });
   }
 
+  /**
+   * Queue a dropped IRC puppet connection for reconnection
+   *
+   * Puppets reconnect one at a time, and only while the main IRC connection
+   * is healthy, so a netsplit that drops every puppet at once doesn't turn
+   * into a reconnect storm.
+   */
+  queuePuppetReconnect(id: string, reconnect: () => void): void {
+    this.puppetQueue.set(id, reconnect);
+    this.schedulePuppetReconnect();
+  }
+
+  /**
+   * Drop a puppet from the reconnect queue, e.g. when it was shut down for good
+   */
+  cancelPuppetReconnect(id: string): void {
+    this.puppetQueue.delete(id);
+  }
+
+  /**
+   * Number of puppet connections waiting to reconnect
+   */
+  getPendingPuppetReconnects(): number {
+    return this.puppetQueue.size;
+  }
+
+  private schedulePuppetReconnect(): void {
+    if (this.puppetTimer || this.puppetQueue.size === 0) return;
+
+    this.puppetTimer = setTimeout(() => {
+      this.puppetTimer = undefined;
+
+      // Hold the queue until the main connection is back
+      const ircUp = this.ircHealth.isHealthy && this.ircHealth.consecutiveFailures === 0 && !this.isRecovering;
+      const next = this.puppetQueue.entries().next().value;
+      if (ircUp && next) {
+        const [id, reconnect] = next;
+        this.puppetQueue.delete(id);
+        logger.debug(`Reconnecting IRC puppet ${id}, ${this.puppetQueue.size} still queued`);
+        try {
+          reconnect();
+        } catch (error) {
+          logger.error(`Failed to reconnect IRC puppet ${id}:`, error);
+        }
+      }
+
+      this.schedulePuppetReconnect();
+    }, this.config.puppetReconnectDelay);
+  }
+
   /**
    * Calculate delay with exponential backoff and jitter
    */
@@ -382,6 +438,11 @@ export class RecoveryManager extends EventEmitter {
       clearInterval(this.healthCheckTimer);
       this.healthCheckTimer = undefined;
     }
+    if (this.puppetTimer) {
+      clearTimeout(this.puppetTimer);
+      this.puppetTimer = undefined;
+    }
+    this.puppetQueue.clear();
     
     this.removeAllListeners();
     logger.info('Recovery manager destroyed');
@@ -1,6 +1,6 @@
 "use strict";
 Object.defineProperty(exports, "__esModule", { value: true });
-exports.slashCommands = exports.ircChannelDiscoveryCommand = exports.ircListsCommand = exports.ircCommandCommand = exports.ircWhoCommand = exports.ircChannelInfoCommand = exports.ircUserInfoCommand = exports.statusNotificationCommand = exports.mentionCommand = exports.s3Command = exports.recoveryCommand = exports.metricsCommand = exports.rateLimitCommand = exports.reconnectCommand = exports.directPmCommand = exports.pmCommand = exports.usersCommand = exports.statusCommand = void 0;
+exports.slashCommands = exports.ircForumCommand = exports.ircBridgeCommand = exports.ircChannelDiscoveryCommand = exports.ircListsCommand = exports.ircCommandCommand = exports.ircWhoCommand = exports.ircChannelInfoCommand = exports.ircUserInfoCommand = exports.statusNotificationCommand = exports.mentionCommand = exports.s3Command = exports.recoveryCommand = exports.metricsCommand = exports.rateLimitCommand = exports.reconnectCommand = exports.directPmCommand = exports.pmCommand = exports.usersCommand = exports.statusCommand = void 0;
 exports.registerSlashCommands = registerSlashCommands;
 exports.handleSlashCommand = handleSlashCommand;
 exports.handleButtonInteraction = handleButtonInteraction;
@@ -8,6 +8,7 @@ const discord_js_1 = require("discord.js");
 const logger_1 = require("./logger");
 const s3_uploader_1 = require("./s3-uploader");
 const s3_rate_limiter_1 = require("./s3-rate-limiter");
+const network_1 = require("./irc/network");
 // Global S3 upload rate limiter (5 uploads per 10 minutes per user)
 const s3RateLimiter = (0, s3_rate_limiter_1.createDefaultS3RateLimiter)();
 // Admin permission check
@@ -19,12 +20,103 @@ function hasAdminPermission(interaction) {
         return false;
     return interaction.member.permissions.has(discord_js_1.Permissions.FLAGS.ADMINISTRATOR);
 }
+/**
+ * Share S3 file URL to IRC channel
+ * Formats message with optional URL shortener and sends to mapped IRC channel
+ */
+function shareToIRC(bot, discordChannelId, username, filename, fullUrl, urlShortenerPrefix) {
+    // Find the IRC channel mapped to this Discord channel
+    const ircChannel = bot.channelMapping[discordChannelId];
+    if (!ircChannel) {
+        logger_1.logger.warn(`No IRC channel mapping found for Discord channel ${discordChannelId}`);
+        return false;
+    }
+    // Build the URL to share (shortened if prefix is configured)
+    let message;
+    if (urlShortenerPrefix) {
+        // Use only the shortened URL when configured
+        const urlFilename = filename.split('/').pop() || filename;
+        const shortUrl = `${urlShortenerPrefix}${urlFilename}`;
+        message = `${username} uploaded ${filename} - ${shortUrl}`;
+    }
+    else {
+        // Use full URL when no shortener configured
+        message = `${username} uploaded ${filename} - ${fullUrl}`;
+    }
+    // Send message to IRC
+    try {
+        bot.ircClient.say(ircChannel, message);
+        logger_1.logger.debug(`Shared S3 file to IRC: ${ircChannel} - ${filename}`);
+        return true;
+    }
+    catch (error) {
+        logger_1.logger.error(`Failed to share S3 file to IRC:`, error);
+        return false;
+    }
+}
+// Option for picking one of the IRC networks, the bridge's own network when left out
+const networkOption = {
+    type: 'STRING',
+    name: 'network',
+    description: 'IRC network (default: the bridge\'s own network)',
+    required: false
+};
+/**
+ * Check a network picked in a command exists, replying with the known networks if it doesn't
+ */
+async function checkNetworkOption(interaction, bot) {
+    const network = interaction.options.getString('network');
+    if (!network || bot.getIRCNetworkNames().includes(network.toLowerCase()))
+        return true;
+    await interaction.reply({
+        content: `❌ Unknown IRC network \`${network}\`. Available networks: ${bot.getIRCNetworkNames().join(', ')}`,
+        ephemeral: true
+    });
+    return false;
+}
+// Config mappings can use channel names instead of IDs
+function formatDiscordChannel(discordChannel) {
+    return /^\d+$/.test(discordChannel) ? `<#${discordChannel}>` : discordChannel;
+}
+// How messages flow between the Discord channel and the IRC channel
+const MAPPING_ARROWS = {
+    both: '↔',
+    discordToIrc: '→',
+    ircToDiscord: '←',
+};
+// Webhook provisioning states as shown in the webhook status
+const WEBHOOK_STATE_LABELS = {
+    configured: '🔧 From config',
+    active: '✅ Active',
+    pending: '⏳ Not set up yet',
+    'missing-permission': '⚠️ Missing Manage Webhooks permission',
+    failed: '❌ Failed',
+};
+/**
+ * Status of an additional IRC network
+ */
+function buildNetworkStatusEmbed(bot, network) {
+    const health = network.recoveryManager.getHealthStatus();
+    const mappedChannels = Object.values(bot.channelMapping)
+        .filter(target => (0, network_1.parseIRCTarget)(target).network === network.name);
+    return new discord_js_1.MessageEmbed()
+        .setTitle(`🔗 IRC Network Status: ${network.name}`)
+        .setColor(network.isConnected() ? 0x00ff00 : 0xff0000)
+        .setTimestamp()
+        .addField('🌐 IRC Server', network.server, true)
+        .addField('👤 Bot Nickname', `${network.client?.nick ?? network.nickname}`, true)
+        .addField('📊 Channels Mapped', `${mappedChannels.length}`, true)
+        .addField('🔌 Connected', network.isConnected() ? '✅' : '❌', true)
+        .addField('⚫ IRC Health', health.irc.isHealthy ? '✅' : '❌', true)
+        .addField('🔄 Recovery Active', health.isRecovering ? '🔄 Yes' : '⏸️ No', true);
+}
 // Status command - show bot health and stats
 exports.statusCommand = {
     data: {
         name: 'irc-status',
         description: 'Show IRC bridge status and statistics',
         defaultMemberPermissions: discord_js_1.Permissions.FLAGS.ADMINISTRATOR,
+        options: [networkOption]
     },
     async execute(interaction, bot) {
         if (!hasAdminPermission(interaction)) {
@@ -34,7 +126,14 @@ exports.statusCommand = {
             });
             return;
         }
+        if (!await checkNetworkOption(interaction, bot))
+            return;
         try {
+            const network = bot.networks.get(interaction.options.getString('network')?.toLowerCase() ?? '');
+            if (network) {
+                await interaction.reply({ embeds: [buildNetworkStatusEmbed(bot, network)], ephemeral: true });
+                return;
+            }
             const embed = new discord_js_1.MessageEmbed()
                 .setTitle('🔗 IRC Bridge Status')
                 .setColor(0x00ff00)
@@ -65,6 +164,20 @@ exports.statusCommand = {
             embed.addField('🟦 Discord Health', discordHealth, true);
             embed.addField('⚫ IRC Health', ircHealth, true);
             embed.addField('🔄 Recovery Active', recoveryHealth.isRecovering ? '🔄 Yes' : '⏸️ No', true);
+            // Additional networks, details with the network option
+            if (bot.networks.size > 0) {
+                const networks = [...bot.networks.values()]
+                    .map(extra => `${extra.isConnected() ? '✅' : '❌'} ${extra.name} (${extra.server})`)
+                    .join('\n');
+                embed.addField('🌍 Other IRC Networks', networks, false);
+            }
+            // Webhooks the bridge manages for mapped channels
+            if (bot.webhookProvisioner) {
+                const webhooks = bot.getWebhookStatuses()
+                    .map(({ discordChannel, state, error }) => `${formatDiscordChannel(discordChannel)}: ${WEBHOOK_STATE_LABELS[state]}${state === 'failed' && error ? ` (${error})` : ''}`)
+                    .join('\n');
+                embed.addField('🪝 Webhooks', webhooks.substring(0, 1024) || 'No mapped channels', false);
+            }
             // Get some persistence metrics
             if (bot.persistence) {
                 try {
@@ -1007,13 +1120,16 @@ async function handleS3ConfigCommands(interaction, bot, subcommand) {
             const secretAccessKey = interaction.options.getString('secret_access_key', true);
             const endpoint = interaction.options.getString('endpoint') || undefined;
             const keyPrefix = interaction.options.getString('key_prefix') || undefined;
-            const maxFileSizeMb = interaction.options.getInteger('max_file_size_mb') || 25;
-            if (maxFileSizeMb < 1 || maxFileSizeMb > 100) {
-                await interaction.editReply({ content: '❌ Max file size must be 1-100 MB.' });
+            const maxFileSizeMb = interaction.options.getInteger('max_file_size_mb') || 100;
+            const defaultFolder = interaction.options.getString('default_folder') || undefined;
+            const autoShareToIRC = interaction.options.getBoolean('auto_share_to_irc') ?? false;
+            const urlShortenerPrefix = interaction.options.getString('url_shortener_prefix') || undefined;
+            if (maxFileSizeMb < 1 || maxFileSizeMb > 500) {
+                await interaction.editReply({ content: '❌ Max file size must be 1-500 MB.' });
                 return;
             }
             try {
-                const s3Config = { guildId, bucket, region, endpoint, accessKeyId, secretAccessKey, keyPrefix, publicUrlBase: undefined, forcePathStyle: !!endpoint, maxFileSizeMb, allowedRoles: undefined, createdAt: Date.now(), updatedAt: Date.now() };
+                const s3Config = { guildId, bucket, region, endpoint, accessKeyId, secretAccessKey, keyPrefix, publicUrlBase: undefined, forcePathStyle: !!endpoint, maxFileSizeMb, allowedRoles: undefined, defaultFolder, autoShareToIRC, urlShortenerPrefix, createdAt: Date.now(), updatedAt: Date.now() };
                 if (!bot.persistence)
                     throw new Error('Database not available');
                 await bot.persistence.saveS3Config(s3Config);
@@ -1121,7 +1237,8 @@ async function handleS3FilesCommands(interaction, bot, subcommand) {
                 return;
             }
             const attachment = interaction.options.getAttachment('file', true);
-            const folder = interaction.options.getString('folder') || undefined;
+            const folder = interaction.options.getString('folder') || config.defaultFolder || undefined;
+            const customName = interaction.options.getString('name') || undefined;
             if (attachment.size > config.maxFileSizeMb * 1024 * 1024) {
                 await interaction.editReply({ content: `❌ **Too Large**\n\nSize: ${(attachment.size / 1024 / 1024).toFixed(2)} MB\nMax: ${config.maxFileSizeMb} MB` });
                 return;
@@ -1129,14 +1246,38 @@ async function handleS3FilesCommands(interaction, bot, subcommand) {
             try {
                 const response = await fetch(attachment.url);
                 const buffer = Buffer.from(await response.arrayBuffer());
-                const filename = attachment.name || 'file';
+                const filename = customName || attachment.name || 'file';
                 const customFilename = folder ? `${folder}/${filename}` : filename;
-                const result = await uploader.uploadFile(interaction.user.id, buffer, filename, customFilename || undefined);
+                // Check if file already exists and auto-rename if needed
+                let finalFilename = customFilename;
+                try {
+                    await uploader.getObjectMetadata(customFilename);
+                    // File exists - auto-rename with timestamp
+                    const timestamp = Date.now();
+                    const ext = filename.includes('.') ? filename.substring(filename.lastIndexOf('.')) : '';
+                    const baseName = filename.includes('.') ? filename.substring(0, filename.lastIndexOf('.')) : filename;
+                    const renamedFile = `${baseName}_${timestamp}${ext}`;
+                    finalFilename = folder ? `${folder}/${renamedFile}` : renamedFile;
+                    await interaction.editReply({
+                        content: `⚠️ **File Renamed**\n\nOriginal: \`${customFilename}\`\nRenamed to: \`${finalFilename}\`\n\nUploading...`
+                    });
+                }
+                catch {
+                    // File doesn't exist, continue with original name
+                }
+                const result = await uploader.uploadFile(interaction.user.id, buffer, filename, finalFilename || undefined);
                 if (result.success) {
                     const embed = new discord_js_1.MessageEmbed().setTitle('✅ Upload Success').setColor('#00ff00')
                         .addField('File', filename, true).addField('Size', `${(attachment.size / 1024).toFixed(2)} KB`, true)
                         .addField('Key', result.key, false).addField('URL', result.url, false).setTimestamp();
                     await interaction.editReply({ embeds: [embed] });
+                    // Auto-share to IRC if enabled
+                    if (config.autoShareToIRC && result.url && interaction.channel) {
+                        const sharedToIRC = shareToIRC(bot, interaction.channel.id, interaction.user.username, finalFilename, result.url, config.urlShortenerPrefix);
+                        if (sharedToIRC) {
+                            logger_1.logger.debug(`Auto-shared upload to IRC: ${finalFilename}`);
+                        }
+                    }
                 }
                 else {
                     await interaction.editReply({ content: `❌ Upload failed: ${result.error}` });
@@ -1367,7 +1508,8 @@ async function handleS3ShareCommand(interaction, bot) {
     const attachment = interaction.options.getAttachment('file', true);
     const targetChannel = interaction.options.getChannel('channel') || interaction.channel;
     const userMessage = interaction.options.getString('message') || undefined;
-    const folder = interaction.options.getString('folder') || undefined;
+    const folder = interaction.options.getString('folder') || config.defaultFolder || undefined;
+    const customName = interaction.options.getString('name') || undefined;
     // Validate file size
     if (attachment.size > config.maxFileSizeMb * 1024 * 1024) {
         await interaction.editReply({
@@ -1394,14 +1536,33 @@ async function handleS3ShareCommand(interaction, bot) {
         });
         const response = await fetch(attachment.url);
         const buffer = Buffer.from(await response.arrayBuffer());
-        const filename = attachment.name || 'file';
+        const filename = customName || attachment.name || 'file';
         const customFilename = folder ? `${folder}/${filename}` : filename;
-        const result = await uploader.uploadFile(interaction.user.id, buffer, filename, customFilename || undefined);
+        // Check if file already exists and auto-rename if needed
+        let finalFilename = customFilename;
+        try {
+            await uploader.getObjectMetadata(customFilename);
+            // File exists - auto-rename with timestamp
+            const timestamp = Date.now();
+            const ext = filename.includes('.') ? filename.substring(filename.lastIndexOf('.')) : '';
+            const baseName = filename.includes('.') ? filename.substring(0, filename.lastIndexOf('.')) : filename;
+            const renamedFile = `${baseName}_${timestamp}${ext}`;
+            finalFilename = folder ? `${folder}/${renamedFile}` : renamedFile;
+            await interaction.editReply({
+                content: `⚠️ **File Renamed**\n\nOriginal: \`${customFilename}\`\nRenamed to: \`${finalFilename}\`\n\nUploading and sharing...`
+            });
+        }
+        catch {
+            // File doesn't exist, continue with original name
+        }
+        const result = await uploader.uploadFile(interaction.user.id, buffer, filename, finalFilename || undefined);
         if (!result.success) {
             await interaction.editReply({ content: `❌ Upload failed: ${result.error}` });
             return;
         }
-        // Build share embed
+        // Share to IRC
+        const sharedToIRC = shareToIRC(bot, targetChannel.id, interaction.user.username, finalFilename, result.url, config.urlShortenerPrefix);
+        // Send visible message to Discord channel for chat history
         const shareEmbed = new discord_js_1.MessageEmbed()
             .setTitle(`📎 File Shared: ${filename}`)
             .setColor('#00ff00')
@@ -1419,12 +1580,19 @@ async function handleS3ShareCommand(interaction, bot) {
         if (isImage && result.url) {
             shareEmbed.setImage(result.url);
         }
-        // Send to target channel
+        // Send to Discord channel
         await targetChannel.send({ embeds: [shareEmbed] });
         // Update ephemeral reply
-        await interaction.editReply({
-            content: `✅ **File Shared Successfully**\n\nShared to: <#${targetChannel.id}>\nURL: ${result.url}`
-        });
+        if (sharedToIRC) {
+            await interaction.editReply({
+                content: `✅ **File Shared**\n\nDiscord: <#${targetChannel.id}>\nIRC: Notified\nFilename: ${finalFilename}\nURL: ${result.url}`
+            });
+        }
+        else {
+            await interaction.editReply({
+                content: `✅ **File Shared to Discord**\n\nChannel: <#${targetChannel.id}>\n⚠️ No IRC mapping found\nURL: ${result.url}`
+            });
+        }
     }
     catch (error) {
         logger_1.logger.error('S3 share command error:', error);
@@ -1446,8 +1614,11 @@ exports.s3Command = {
                             { type: 'STRING', name: 'secret_access_key', description: 'AWS Secret (encrypted)', required: true },
                             { type: 'STRING', name: 'endpoint', description: 'S3-compatible endpoint', required: false },
                             { type: 'STRING', name: 'key_prefix', description: 'Folder prefix', required: false },
-                            { type: 'INTEGER', name: 'max_file_size_mb', description: 'Max MB (1-100, default: 25)', required: false },
-                            { type: 'STRING', name: 'encryption_key', description: 'Encryption key (auto-generated if omitted)', required: false }
+                            { type: 'INTEGER', name: 'max_file_size_mb', description: 'Max MB (1-500, default: 100)', required: false },
+                            { type: 'STRING', name: 'encryption_key', description: 'Encryption key (auto-generated if omitted)', required: false },
+                            { type: 'STRING', name: 'default_folder', description: 'Default subfolder for uploads', required: false },
+                            { type: 'BOOLEAN', name: 'auto_share_to_irc', description: 'Auto-share uploads to IRC (default: false)', required: false },
+                            { type: 'STRING', name: 'url_shortener_prefix', description: 'URL shortener prefix (e.g., https://short.link/)', required: false }
                         ] },
                     { type: 'SUB_COMMAND', name: 'view', description: 'View configuration' },
                     { type: 'SUB_COMMAND', name: 'test', description: 'Test connection' },
@@ -1456,7 +1627,8 @@ exports.s3Command = {
             { type: 'SUB_COMMAND_GROUP', name: 'files', description: 'File operations', options: [
                     { type: 'SUB_COMMAND', name: 'upload', description: 'Upload file to S3', options: [
                             { type: 'ATTACHMENT', name: 'file', description: 'File to upload', required: true },
-                            { type: 'STRING', name: 'folder', description: 'Optional folder', required: false }
+                            { type: 'STRING', name: 'folder', description: 'Optional folder', required: false },
+                            { type: 'STRING', name: 'name', description: 'Custom filename (default: original name)', required: false }
                         ] },
                     { type: 'SUB_COMMAND', name: 'list', description: 'List files', options: [
                             { type: 'STRING', name: 'prefix', description: 'Filter by prefix', required: false }
@@ -1476,7 +1648,8 @@ exports.s3Command = {
                     { type: 'ATTACHMENT', name: 'file', description: 'File to upload and share', required: true },
                     { type: 'CHANNEL', name: 'channel', description: 'Target channel (default: current)', required: false },
                     { type: 'STRING', name: 'message', description: 'Optional message/caption', required: false },
-                    { type: 'STRING', name: 'folder', description: 'Optional S3 folder', required: false }
+                    { type: 'STRING', name: 'folder', description: 'Optional S3 folder', required: false },
+                    { type: 'STRING', name: 'name', description: 'Custom filename (default: original name)', required: false }
                 ] },
             { type: 'SUB_COMMAND', name: 'status', description: 'Show status' }
         ]
@@ -2470,7 +2643,8 @@ exports.ircCommandCommand = {
                         name: 'arguments',
                         description: 'Command arguments (space-separated)',
                         required: false
-                    }
+                    },
+                    networkOption
                 ]
             },
             {
@@ -2483,7 +2657,8 @@ exports.ircCommandCommand = {
                         name: 'message',
                         description: 'Raw IRC message (advanced users only)',
                         required: true
-                    }
+                    },
+                    networkOption
                 ]
             },
             {
@@ -2521,7 +2696,8 @@ exports.ircCommandCommand = {
                         name: 'reason',
                         description: 'Reason for kick/ban',
                         required: false
-                    }
+                    },
+                    networkOption
                 ]
             }
         ]
@@ -2535,8 +2711,11 @@ exports.ircCommandCommand = {
             });
             return;
         }
+        if (!await checkNetworkOption(interaction, bot))
+            return;
+        const network = interaction.options.getString('network');
         // IRC connection check
-        if (!bot.isIRCConnected()) {
+        if (!bot.isIRCConnected(network)) {
             await interaction.reply({
                 content: '❌ **IRC Not Connected**\n\nThe IRC connection is currently down. Cannot send IRC commands.',
                 ephemeral: true
@@ -2569,10 +2748,10 @@ exports.ircCommandCommand = {
                                 finalArgs.push(firstArg);
                             if (restArgs)
                                 finalArgs.push(restArgs);
-                            bot.executeIRCCommand(command, ...finalArgs);
+                            bot.executeIRCCommand(command, finalArgs, network);
                         }
                         else {
-                            bot.executeIRCCommand(command);
+                            bot.executeIRCCommand(command, [], network);
                         }
                         await interaction.reply({
                             content: `✅ **IRC Command Sent**\n\nExecuted: \`${command}${args ? ' ' + args : ''}\``,
@@ -2598,7 +2777,7 @@ exports.ircCommandCommand = {
                         return;
                     }
                     try {
-                        bot.sendRawIRC(rawMessage);
+                        bot.sendRawIRC(rawMessage, network);
                         await interaction.reply({
                             content: `✅ **Raw IRC Message Sent**\n\nSent: \`${rawMessage}\``,
                             ephemeral: true
@@ -2629,7 +2808,7 @@ exports.ircCommandCommand = {
                                     return;
                                 }
                                 commandStr = `KICK ${target} ${parameter}${reason ? ' :' + reason : ''}`;
-                                bot.executeIRCCommand('KICK', target, parameter, ...(reason ? [reason] : []));
+                                bot.executeIRCCommand('KICK', [target, parameter, ...(reason ? [reason] : [])], network);
                                 break;
                             case 'ban':
                                 if (!parameter) {
@@ -2640,7 +2819,7 @@ exports.ircCommandCommand = {
                                     return;
                                 }
                                 commandStr = `MODE ${target} +b ${parameter}`;
-                                bot.executeIRCCommand('MODE', target, '+b', parameter);
+                                bot.executeIRCCommand('MODE', [target, '+b', parameter], network);
                                 break;
                             case 'topic':
                                 if (!parameter) {
@@ -2651,7 +2830,7 @@ exports.ircCommandCommand = {
                                     return;
                                 }
                                 commandStr = `TOPIC ${target} :${parameter}`;
-                                bot.executeIRCCommand('TOPIC', target, parameter);
+                                bot.executeIRCCommand('TOPIC', [target, parameter], network);
                                 break;
                             case 'mode':
                                 if (!parameter) {
@@ -2662,7 +2841,7 @@ exports.ircCommandCommand = {
                                     return;
                                 }
                                 commandStr = `MODE ${target} ${parameter}`;
-                                bot.executeIRCCommand('MODE', target, parameter);
+                                bot.executeIRCCommand('MODE', [target, parameter], network);
                                 break;
                             case 'invite':
                                 if (!parameter) {
@@ -2673,7 +2852,7 @@ exports.ircCommandCommand = {
                                     return;
                                 }
                                 commandStr = `INVITE ${parameter} ${target}`;
-                                bot.executeIRCCommand('INVITE', parameter, target);
+                                bot.executeIRCCommand('INVITE', [parameter, target], network);
                                 break;
                         }
                         await interaction.reply({
@@ -2744,7 +2923,7 @@ exports.ircListsCommand = {
             await interaction.deferReply({ ephemeral: true });
             try {
                 // Send MODE command to query the list
-                bot.executeIRCCommand('MODE', channelName, `+${listType}`);
+                bot.executeIRCCommand('MODE', [channelName, `+${listType}`]);
                 // For now, just confirm the command was sent
                 // In a full implementation, you'd collect the responses
                 const listNames = {
@@ -2975,7 +3154,7 @@ exports.ircChannelDiscoveryCommand = {
                         const message = `✅ **Joined IRC Channel (Session Only)**\n\n` +
                             `📍 **Channel:** ${channel}\n` +
                             `🔑 **Key:** ${key ? 'Yes (hidden)' : 'None'}\n\n` +
-                            `The bot has joined the IRC channel for this session. To make this permanent, add it to your configuration file and restart the bot.`;
+                            `The bot has joined the IRC channel for this session. To bridge it to a Discord channel and keep it across restarts, use \`/irc-bridge map\`.`;
                         await interaction.editReply({ content: message });
                     }
                     catch (error) {
@@ -3040,6 +3219,220 @@ exports.ircChannelDiscoveryCommand = {
         }
     }
 };
+// Runtime channel mapping management
+exports.ircBridgeCommand = {
+    data: {
+        name: 'irc-bridge',
+        description: 'Bridge Discord channels to IRC channels',
+        defaultMemberPermissions: discord_js_1.Permissions.FLAGS.ADMINISTRATOR,
+        options: [
+            {
+                type: 'SUB_COMMAND',
+                name: 'map',
+                description: 'Bridge a Discord channel to an IRC channel, replacing its current bridge',
+                options: [
+                    {
+                        type: 'CHANNEL',
+                        name: 'channel',
+                        description: 'Discord channel to bridge',
+                        required: true,
+                        channelTypes: ['GUILD_TEXT']
+                    },
+                    {
+                        type: 'STRING',
+                        name: 'irc_channel',
+                        description: 'IRC channel (e.g., #general, or libera/#general on another network)',
+                        required: true
+                    },
+                    {
+                        type: 'STRING',
+                        name: 'key',
+                        description: 'Channel key/password (if required)',
+                        required: false
+                    }
+                ]
+            },
+            {
+                type: 'SUB_COMMAND',
+                name: 'unmap',
+                description: 'Stop bridging a Discord channel and leave its IRC channel',
+                options: [
+                    {
+                        type: 'CHANNEL',
+                        name: 'channel',
+                        description: 'Discord channel to stop bridging',
+                        required: true,
+                        channelTypes: ['GUILD_TEXT']
+                    }
+                ]
+            },
+            {
+                type: 'SUB_COMMAND',
+                name: 'list',
+                description: 'List bridged channels'
+            }
+        ]
+    },
+    async execute(interaction, bot) {
+        if (!hasAdminPermission(interaction)) {
+            await interaction.reply({
+                content: '❌ You need administrator permissions to use this command.',
+                ephemeral: true
+            });
+            return;
+        }
+        try {
+            const subcommand = interaction.options.getSubcommand();
+            switch (subcommand) {
+                case 'map': {
+                    const channel = interaction.options.getChannel('channel', true);
+                    const ircChannel = interaction.options.getString('irc_channel', true).trim();
+                    const key = interaction.options.getString('key')?.trim();
+                    const mapped = await bot.mapChannel(channel.id, key ? `${ircChannel} ${key}` : ircChannel, interaction.user.id);
+                    const { network } = (0, network_1.parseIRCTarget)(mapped);
+                    await interaction.reply({
+                        content: `✅ **Channel Bridged**\n\n` +
+                            `📍 **Discord:** <#${channel.id}>\n` +
+                            `💬 **IRC:** ${mapped}\n` +
+                            `🔑 **Key:** ${key ? 'Yes (hidden)' : 'None'}\n\n` +
+                            (bot.isIRCConnected(network)
+                                ? 'The bot has joined the IRC channel. The bridge is kept across restarts.'
+                                : 'IRC is not connected, the channel will be joined once it is. The bridge is kept across restarts.'),
+                        ephemeral: true
+                    });
+                    break;
+                }
+                case 'unmap': {
+                    const channel = interaction.options.getChannel('channel', true);
+                    const unmapped = await bot.unmapChannel(channel.id);
+                    await interaction.reply({
+                        content: unmapped
+                            ? `✅ **Bridge Removed**\n\n<#${channel.id}> is no longer bridged to ${unmapped}.`
+                            : `❌ <#${channel.id}> isn't bridged with \`/irc-bridge map\`.`,
+                        ephemeral: true
+                    });
+                    break;
+                }
+                case 'list': {
+                    const mappings = bot.getChannelMappings();
+                    const embed = new discord_js_1.MessageEmbed()
+                        .setTitle('🌉 Bridged Channels')
+                        .setColor(0x0099ff)
+                        .setTimestamp();
+                    if (mappings.length === 0) {
+                        embed.setDescription('No channels are bridged.');
+                    }
+                    else {
+                        const lines = mappings.map(({ discordChannel, ircChannel, direction, source }) => `${formatDiscordChannel(discordChannel)} ${MAPPING_ARROWS[direction]} **${ircChannel}**${source === 'config' ? ' (config)' : ''}`);
+                        embed.setDescription(lines.join('\n').substring(0, 4096));
+                        embed.setFooter({ text: 'Bridges marked (config) can only be changed in the config file' });
+                    }
+                    await interaction.reply({ embeds: [embed], ephemeral: true });
+                    break;
+                }
+            }
+        }
+        catch (error) {
+            logger_1.logger.error('Error in IRC bridge command:', error);
+            const content = `❌ Failed to update the bridge: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            if (interaction.replied || interaction.deferred) {
+                await interaction.followUp({ content, ephemeral: true });
+            }
+            else {
+                await interaction.reply({ content, ephemeral: true });
+            }
+        }
+    }
+};
+// Forum posts IRC users can reply to
+exports.ircForumCommand = {
+    data: {
+        name: 'irc-forum',
+        description: 'Show bridged forum posts and the IDs IRC users reply with',
+        defaultMemberPermissions: discord_js_1.Permissions.FLAGS.ADMINISTRATOR,
+        options: [
+            {
+                type: 'SUB_COMMAND',
+                name: 'list',
+                description: 'List recent open posts with their short IDs',
+                options: [
+                    {
+                        type: 'CHANNEL',
+                        name: 'forum',
+                        description: 'Bridged forum (default: all of them)',
+                        required: false,
+                        channelTypes: ['GUILD_FORUM']
+                    }
+                ]
+            },
+            {
+                type: 'SUB_COMMAND',
+                name: 'announce',
+                description: 'Post the list of recent open posts to the IRC channel of a forum',
+                options: [
+                    {
+                        type: 'CHANNEL',
+                        name: 'forum',
+                        description: 'Bridged forum',
+                        required: true,
+                        channelTypes: ['GUILD_FORUM']
+                    }
+                ]
+            }
+        ]
+    },
+    async execute(interaction, bot) {
+        if (!hasAdminPermission(interaction)) {
+            await interaction.reply({
+                content: '❌ You need administrator permissions to use this command.',
+                ephemeral: true
+            });
+            return;
+        }
+        try {
+            const subcommand = interaction.options.getSubcommand();
+            switch (subcommand) {
+                case 'list': {
+                    const forum = interaction.options.getChannel('forum');
+                    const posts = bot.getForumPosts(forum?.id);
+                    const embed = new discord_js_1.MessageEmbed()
+                        .setTitle('🗂️ Forum Posts')
+                        .setColor(0x0099ff)
+                        .setTimestamp();
+                    if (posts.length === 0) {
+                        embed.setDescription(forum ? `<#${forum.id}> has no open bridged posts.` : 'No bridged forum has open posts.');
+                    }
+                    else {
+                        const lines = posts.map(({ shortId, id, tags }) => `\`${shortId}\` <#${id}>${tags.length > 0 ? ` (${tags.join(', ')})` : ''}`);
+                        embed.setDescription(lines.join('\n').substring(0, 4096));
+                        embed.setFooter({ text: 'IRC users reply with !reply <id> <text>' });
+                    }
+                    await interaction.reply({ embeds: [embed], ephemeral: true });
+                    break;
+                }
+                case 'announce': {
+                    const forum = interaction.options.getChannel('forum', true);
+                    const count = bot.announceForumPosts(forum.id);
+                    await interaction.reply({
+                        content: `✅ Listed ${count} open ${count === 1 ? 'post' : 'posts'} of <#${forum.id}> on IRC.`,
+                        ephemeral: true
+                    });
+                    break;
+                }
+            }
+        }
+        catch (error) {
+            logger_1.logger.error('Error in IRC forum command:', error);
+            const content = `❌ Failed to list forum posts: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            if (interaction.replied || interaction.deferred) {
+                await interaction.followUp({ content, ephemeral: true });
+            }
+            else {
+                await interaction.reply({ content, ephemeral: true });
+            }
+        }
+    }
+};
 // Export all commands
 exports.slashCommands = [
     exports.statusCommand,
@@ -3058,7 +3451,9 @@ exports.slashCommands = [
     exports.ircWhoCommand,
     exports.ircCommandCommand,
     exports.ircListsCommand,
-    exports.ircChannelDiscoveryCommand
+    exports.ircChannelDiscoveryCommand,
+    exports.ircBridgeCommand,
+    exports.ircForumCommand
 ];
 // Command registration utility
 async function registerSlashCommands(bot) {
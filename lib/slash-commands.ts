@@ -16,6 +16,7 @@ import { S3Uploader } from './s3-uploader';
 import type { S3Config } from './persistence';
 import { IRCChannelUser, IRCChannelListItem, IRCUserInfo } from './irc-user-manager';
 import { createDefaultS3RateLimiter } from './s3-rate-limiter';
+import { IRCNetwork, parseIRCTarget } from './irc/network';
 
 // Global S3 upload rate limiter (5 uploads per 10 minutes per user)
 const s3RateLimiter = createDefaultS3RateLimiter();
@@ -77,12 +78,76 @@ function shareToIRC(
   }
 }
 
+// Option for picking one of the IRC networks, the bridge's own network when left out
+const networkOption = {
+  type: 'STRING',
+  name: 'network',
+  description: 'IRC network (default: the bridge\'s own network)',
+  required: false
+} as const;
+
+/**
+ * Check a network picked in a command exists, replying with the known networks if it doesn't
+ */
+async function checkNetworkOption(interaction: CommandInteraction, bot: Bot): Promise<boolean> {
+  const network = interaction.options.getString('network');
+  if (!network || bot.getIRCNetworkNames().includes(network.toLowerCase())) return true;
+
+  await interaction.reply({
+    content: `❌ Unknown IRC network \`${network}\`. Available networks: ${bot.getIRCNetworkNames().join(', ')}`,
+    ephemeral: true
+  });
+  return false;
+}
+
+// Config mappings can use channel names instead of IDs
+function formatDiscordChannel(discordChannel: string): string {
+  return /^\d+$/.test(discordChannel) ? `<#${discordChannel}>` : discordChannel;
+}
+
+// How messages flow between the Discord channel and the IRC channel
+const MAPPING_ARROWS = {
+  both: '↔',
+  discordToIrc: '→',
+  ircToDiscord: '←',
+} as const;
+
+// Webhook provisioning states as shown in the webhook status
+const WEBHOOK_STATE_LABELS = {
+  configured: '🔧 From config',
+  active: '✅ Active',
+  pending: '⏳ Not set up yet',
+  'missing-permission': '⚠️ Missing Manage Webhooks permission',
+  failed: '❌ Failed',
+} as const;
+
+/**
+ * Status of an additional IRC network
+ */
+function buildNetworkStatusEmbed(bot: Bot, network: IRCNetwork): MessageEmbed {
+  const health = network.recoveryManager.getHealthStatus();
+  const mappedChannels = Object.values(bot.channelMapping as Record<string, string>)
+    .filter(target => parseIRCTarget(target).network === network.name);
+
+  return new MessageEmbed()
+    .setTitle(`🔗 IRC Network Status: ${network.name}`)
+    .setColor(network.isConnected() ? 0x00ff00 : 0xff0000)
+    .setTimestamp()
+    .addField('🌐 IRC Server', network.server, true)
+    .addField('👤 Bot Nickname', `${network.client?.nick ?? network.nickname}`, true)
+    .addField('📊 Channels Mapped', `${mappedChannels.length}`, true)
+    .addField('🔌 Connected', network.isConnected() ? '✅' : '❌', true)
+    .addField('⚫ IRC Health', health.irc.isHealthy ? '✅' : '❌', true)
+    .addField('🔄 Recovery Active', health.isRecovering ? '🔄 Yes' : '⏸️ No', true);
+}
+
 // Status command - show bot health and stats
 export const statusCommand: SlashCommand = {
   data: {
     name: 'irc-status',
     description: 'Show IRC bridge status and statistics',
     defaultMemberPermissions: Permissions.FLAGS.ADMINISTRATOR,
+    options: [networkOption]
   },
   
   async execute(interaction: CommandInteraction, bot: Bot) {
@@ -94,7 +159,15 @@ export const statusCommand: SlashCommand = {
       return;
     }
 
+    if (!await checkNetworkOption(interaction, bot)) return;
+
     try {
+      const network = bot.networks.get(interaction.options.getString('network')?.toLowerCase() ?? '');
+      if (network) {
+        await interaction.reply({ embeds: [buildNetworkStatusEmbed(bot, network)], ephemeral: true });
+        return;
+      }
+
       const embed = new MessageEmbed()
         .setTitle('🔗 IRC Bridge Status')
         .setColor(0x00ff00)
@@ -132,6 +205,23 @@ export const statusCommand: SlashCommand = {
       embed.addField('⚫ IRC Health', ircHealth, true);
       embed.addField('🔄 Recovery Active', recoveryHealth.isRecovering ? '🔄 Yes' : '⏸️ No', true);
 
+      // Additional networks, details with the network option
+      if (bot.networks.size > 0) {
+        const networks = [...bot.networks.values()]
+          .map(extra => `${extra.isConnected() ? '✅' : '❌'} ${extra.name} (${extra.server})`)
+          .join('\n');
+        embed.addField('🌍 Other IRC Networks', networks, false);
+      }
+
+      // Webhooks the bridge manages for mapped channels
+      if (bot.webhookProvisioner) {
+        const webhooks = bot.getWebhookStatuses()
+          .map(({ discordChannel, state, error }) =>
+            `${formatDiscordChannel(discordChannel)}: ${WEBHOOK_STATE_LABELS[state]}${state === 'failed' && error ? ` (${error})` : ''}`)
+          .join('\n');
+        embed.addField('🪝 Webhooks', webhooks.substring(0, 1024) || 'No mapped channels', false);
+      }
+
       // Get some persistence metrics
       if (bot.persistence) {
         try {
@@ -2845,7 +2935,8 @@ export const ircCommandCommand: SlashCommand = {
             name: 'arguments',
             description: 'Command arguments (space-separated)',
             required: false
-          }
+          },
+          networkOption
         ]
       },
       {
@@ -2858,7 +2949,8 @@ export const ircCommandCommand: SlashCommand = {
             name: 'message',
             description: 'Raw IRC message (advanced users only)',
             required: true
-          }
+          },
+          networkOption
         ]
       },
       {
@@ -2896,7 +2988,8 @@ export const ircCommandCommand: SlashCommand = {
             name: 'reason',
             description: 'Reason for kick/ban',
             required: false
-          }
+          },
+          networkOption
         ]
       }
     ]
@@ -2911,8 +3004,11 @@ export const ircCommandCommand: SlashCommand = {
       return;
     }
 
+    if (!await checkNetworkOption(interaction, bot)) return;
+    const network = interaction.options.getString('network');
+
     // IRC connection check
-    if (!bot.isIRCConnected()) {
+    if (!bot.isIRCConnected(network)) {
       await interaction.reply({
         content: '❌ **IRC Not Connected**\n\nThe IRC connection is currently down. Cannot send IRC commands.',
         ephemeral: true
@@ -2949,9 +3045,9 @@ export const ircCommandCommand: SlashCommand = {
               if (firstArg) finalArgs.push(firstArg);
               if (restArgs) finalArgs.push(restArgs);
 
-              bot.executeIRCCommand(command, ...finalArgs);
+              bot.executeIRCCommand(command, finalArgs, network);
             } else {
-              bot.executeIRCCommand(command);
+              bot.executeIRCCommand(command, [], network);
             }
             
             await interaction.reply({ 
@@ -2980,7 +3076,7 @@ export const ircCommandCommand: SlashCommand = {
           }
 
           try {
-            bot.sendRawIRC(rawMessage);
+            bot.sendRawIRC(rawMessage, network);
             
             await interaction.reply({ 
               content: `✅ **Raw IRC Message Sent**\n\nSent: \`${rawMessage}\``,
@@ -3014,7 +3110,7 @@ export const ircCommandCommand: SlashCommand = {
                   return;
                 }
                 commandStr = `KICK ${target} ${parameter}${reason ? ' :' + reason : ''}`;
-                bot.executeIRCCommand('KICK', target, parameter, ...(reason ? [reason] : []));
+                bot.executeIRCCommand('KICK', [target, parameter, ...(reason ? [reason] : [])], network);
                 break;
                 
               case 'ban':
@@ -3026,7 +3122,7 @@ export const ircCommandCommand: SlashCommand = {
                   return;
                 }
                 commandStr = `MODE ${target} +b ${parameter}`;
-                bot.executeIRCCommand('MODE', target, '+b', parameter);
+                bot.executeIRCCommand('MODE', [target, '+b', parameter], network);
                 break;
                 
               case 'topic':
@@ -3038,7 +3134,7 @@ export const ircCommandCommand: SlashCommand = {
                   return;
                 }
                 commandStr = `TOPIC ${target} :${parameter}`;
-                bot.executeIRCCommand('TOPIC', target, parameter);
+                bot.executeIRCCommand('TOPIC', [target, parameter], network);
                 break;
                 
               case 'mode':
@@ -3050,7 +3146,7 @@ export const ircCommandCommand: SlashCommand = {
                   return;
                 }
                 commandStr = `MODE ${target} ${parameter}`;
-                bot.executeIRCCommand('MODE', target, parameter);
+                bot.executeIRCCommand('MODE', [target, parameter], network);
                 break;
                 
               case 'invite':
@@ -3062,7 +3158,7 @@ export const ircCommandCommand: SlashCommand = {
                   return;
                 }
                 commandStr = `INVITE ${parameter} ${target}`;
-                bot.executeIRCCommand('INVITE', parameter, target);
+                bot.executeIRCCommand('INVITE', [parameter, target], network);
                 break;
             }
             
@@ -3139,7 +3235,7 @@ export const ircListsCommand: SlashCommand = {
       
       try {
         // Send MODE command to query the list
-        bot.executeIRCCommand('MODE', channelName, `+${listType}`);
+        bot.executeIRCCommand('MODE', [channelName, `+${listType}`]);
         
         // For now, just confirm the command was sent
         // In a full implementation, you'd collect the responses
@@ -3398,7 +3494,7 @@ export const ircChannelDiscoveryCommand: SlashCommand = {
             const message = `✅ **Joined IRC Channel (Session Only)**\n\n` +
               `📍 **Channel:** ${channel}\n` +
               `🔑 **Key:** ${key ? 'Yes (hidden)' : 'None'}\n\n` +
-              `The bot has joined the IRC channel for this session. To make this permanent, add it to your configuration file and restart the bot.`;
+              `The bot has joined the IRC channel for this session. To bridge it to a Discord channel and keep it across restarts, use \`/irc-bridge map\`.`;
             
             await interaction.editReply({ content: message });
             
@@ -3469,6 +3565,235 @@ export const ircChannelDiscoveryCommand: SlashCommand = {
   }
 };
 
+// Runtime channel mapping management
+export const ircBridgeCommand: SlashCommand = {
+  data: {
+    name: 'irc-bridge',
+    description: 'Bridge Discord channels to IRC channels',
+    defaultMemberPermissions: Permissions.FLAGS.ADMINISTRATOR,
+    options: [
+      {
+        type: 'SUB_COMMAND',
+        name: 'map',
+        description: 'Bridge a Discord channel to an IRC channel, replacing its current bridge',
+        options: [
+          {
+            type: 'CHANNEL',
+            name: 'channel',
+            description: 'Discord channel to bridge',
+            required: true,
+            channelTypes: ['GUILD_TEXT']
+          },
+          {
+            type: 'STRING',
+            name: 'irc_channel',
+            description: 'IRC channel (e.g., #general, or libera/#general on another network)',
+            required: true
+          },
+          {
+            type: 'STRING',
+            name: 'key',
+            description: 'Channel key/password (if required)',
+            required: false
+          }
+        ]
+      },
+      {
+        type: 'SUB_COMMAND',
+        name: 'unmap',
+        description: 'Stop bridging a Discord channel and leave its IRC channel',
+        options: [
+          {
+            type: 'CHANNEL',
+            name: 'channel',
+            description: 'Discord channel to stop bridging',
+            required: true,
+            channelTypes: ['GUILD_TEXT']
+          }
+        ]
+      },
+      {
+        type: 'SUB_COMMAND',
+        name: 'list',
+        description: 'List bridged channels'
+      }
+    ]
+  },
+
+  async execute(interaction: CommandInteraction, bot: Bot) {
+    if (!hasAdminPermission(interaction)) {
+      await interaction.reply({
+        content: '❌ You need administrator permissions to use this command.',
+        ephemeral: true
+      });
+      return;
+    }
+
+    try {
+      const subcommand = interaction.options.getSubcommand();
+
+      switch (subcommand) {
+        case 'map': {
+          const channel = interaction.options.getChannel('channel', true);
+          const ircChannel = interaction.options.getString('irc_channel', true).trim();
+          const key = interaction.options.getString('key')?.trim();
+
+          const mapped = await bot.mapChannel(channel.id, key ? `${ircChannel} ${key}` : ircChannel, interaction.user.id);
+          const { network } = parseIRCTarget(mapped);
+
+          await interaction.reply({
+            content: `✅ **Channel Bridged**\n\n` +
+              `📍 **Discord:** <#${channel.id}>\n` +
+              `💬 **IRC:** ${mapped}\n` +
+              `🔑 **Key:** ${key ? 'Yes (hidden)' : 'None'}\n\n` +
+              (bot.isIRCConnected(network)
+                ? 'The bot has joined the IRC channel. The bridge is kept across restarts.'
+                : 'IRC is not connected, the channel will be joined once it is. The bridge is kept across restarts.'),
+            ephemeral: true
+          });
+          break;
+        }
+
+        case 'unmap': {
+          const channel = interaction.options.getChannel('channel', true);
+          const unmapped = await bot.unmapChannel(channel.id);
+
+          await interaction.reply({
+            content: unmapped
+              ? `✅ **Bridge Removed**\n\n<#${channel.id}> is no longer bridged to ${unmapped}.`
+              : `❌ <#${channel.id}> isn't bridged with \`/irc-bridge map\`.`,
+            ephemeral: true
+          });
+          break;
+        }
+
+        case 'list': {
+          const mappings = bot.getChannelMappings();
+          const embed = new MessageEmbed()
+            .setTitle('🌉 Bridged Channels')
+            .setColor(0x0099ff)
+            .setTimestamp();
+
+          if (mappings.length === 0) {
+            embed.setDescription('No channels are bridged.');
+          } else {
+            const lines = mappings.map(({ discordChannel, ircChannel, direction, source }) =>
+              `${formatDiscordChannel(discordChannel)} ${MAPPING_ARROWS[direction]} **${ircChannel}**${source === 'config' ? ' (config)' : ''}`);
+            embed.setDescription(lines.join('\n').substring(0, 4096));
+            embed.setFooter({ text: 'Bridges marked (config) can only be changed in the config file' });
+          }
+
+          await interaction.reply({ embeds: [embed], ephemeral: true });
+          break;
+        }
+      }
+    } catch (error) {
+      logger.error('Error in IRC bridge command:', error);
+      const content = `❌ Failed to update the bridge: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      if (interaction.replied || interaction.deferred) {
+        await interaction.followUp({ content, ephemeral: true });
+      } else {
+        await interaction.reply({ content, ephemeral: true });
+      }
+    }
+  }
+};
+
+// Forum posts IRC users can reply to
+export const ircForumCommand: SlashCommand = {
+  data: {
+    name: 'irc-forum',
+    description: 'Show bridged forum posts and the IDs IRC users reply with',
+    defaultMemberPermissions: Permissions.FLAGS.ADMINISTRATOR,
+    options: [
+      {
+        type: 'SUB_COMMAND',
+        name: 'list',
+        description: 'List recent open posts with their short IDs',
+        options: [
+          {
+            type: 'CHANNEL',
+            name: 'forum',
+            description: 'Bridged forum (default: all of them)',
+            required: false,
+            channelTypes: ['GUILD_FORUM']
+          }
+        ]
+      },
+      {
+        type: 'SUB_COMMAND',
+        name: 'announce',
+        description: 'Post the list of recent open posts to the IRC channel of a forum',
+        options: [
+          {
+            type: 'CHANNEL',
+            name: 'forum',
+            description: 'Bridged forum',
+            required: true,
+            channelTypes: ['GUILD_FORUM']
+          }
+        ]
+      }
+    ]
+  },
+
+  async execute(interaction: CommandInteraction, bot: Bot) {
+    if (!hasAdminPermission(interaction)) {
+      await interaction.reply({
+        content: '❌ You need administrator permissions to use this command.',
+        ephemeral: true
+      });
+      return;
+    }
+
+    try {
+      const subcommand = interaction.options.getSubcommand();
+
+      switch (subcommand) {
+        case 'list': {
+          const forum = interaction.options.getChannel('forum');
+          const posts = bot.getForumPosts(forum?.id);
+          const embed = new MessageEmbed()
+            .setTitle('🗂️ Forum Posts')
+            .setColor(0x0099ff)
+            .setTimestamp();
+
+          if (posts.length === 0) {
+            embed.setDescription(forum ? `<#${forum.id}> has no open bridged posts.` : 'No bridged forum has open posts.');
+          } else {
+            const lines = posts.map(({ shortId, id, tags }) =>
+              `\`${shortId}\` <#${id}>${tags.length > 0 ? ` (${tags.join(', ')})` : ''}`);
+            embed.setDescription(lines.join('\n').substring(0, 4096));
+            embed.setFooter({ text: 'IRC users reply with !reply <id> <text>' });
+          }
+
+          await interaction.reply({ embeds: [embed], ephemeral: true });
+          break;
+        }
+
+        case 'announce': {
+          const forum = interaction.options.getChannel('forum', true);
+          const count = bot.announceForumPosts(forum.id);
+
+          await interaction.reply({
+            content: `✅ Listed ${count} open ${count === 1 ? 'post' : 'posts'} of <#${forum.id}> on IRC.`,
+            ephemeral: true
+          });
+          break;
+        }
+      }
+    } catch (error) {
+      logger.error('Error in IRC forum command:', error);
+      const content = `❌ Failed to list forum posts: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      if (interaction.replied || interaction.deferred) {
+        await interaction.followUp({ content, ephemeral: true });
+      } else {
+        await interaction.reply({ content, ephemeral: true });
+      }
+    }
+  }
+};
+
 // Export all commands
 export const slashCommands: SlashCommand[] = [
   statusCommand,
@@ -3487,7 +3812,9 @@ export const slashCommands: SlashCommand[] = [
   ircWhoCommand,
   ircCommandCommand,
   ircListsCommand,
-  ircChannelDiscoveryCommand
+  ircChannelDiscoveryCommand,
+  ircBridgeCommand,
+  ircForumCommand
 ];
 
 // Command registration utility
@@ -72,15 +72,17 @@ class StatusNotificationManager {
     }
     /**
      * Send a join notification
+     * @param overrides Flags replacing the configured ones, e.g. from a channel override
      */
-    async sendJoinNotification(nick, channelName, fallbackChannel, isBotEvent = false) {
-        if (!this.config.enabled || !this.config.includeJoins) {
+    async sendJoinNotification(nick, channelName, fallbackChannel, isBotEvent = false, overrides = {}) {
+        const config = { ...this.config, ...overrides };
+        if (!config.enabled || !config.includeJoins) {
             return false;
         }
-        if (isBotEvent && !this.config.includeBotEvents) {
+        if (isBotEvent && !config.includeBotEvents) {
             return false;
         }
-        const message = this.formatMessage(this.config.joinMessage, {
+        const message = this.formatMessage(config.joinMessage, {
             nick,
             channel: channelName,
             reason: ''
@@ -90,14 +92,15 @@ class StatusNotificationManager {
     /**
      * Send a leave notification
      */
-    async sendLeaveNotification(nick, channelName, reason = '', fallbackChannel, isBotEvent = false) {
-        if (!this.config.enabled || !this.config.includeLeaves) {
+    async sendLeaveNotification(nick, channelName, reason = '', fallbackChannel, isBotEvent = false, overrides = {}) {
+        const config = { ...this.config, ...overrides };
+        if (!config.enabled || !config.includeLeaves) {
             return false;
         }
-        if (isBotEvent && !this.config.includeBotEvents) {
+        if (isBotEvent && !config.includeBotEvents) {
             return false;
         }
-        const message = this.formatMessage(this.config.leaveMessage, {
+        const message = this.formatMessage(config.leaveMessage, {
             nick,
             channel: channelName,
             reason
@@ -107,14 +110,15 @@ class StatusNotificationManager {
     /**
      * Send a quit notification
      */
-    async sendQuitNotification(nick, reason = '', fallbackChannel, isBotEvent = false) {
-        if (!this.config.enabled || !this.config.includeQuits) {
+    async sendQuitNotification(nick, reason = '', fallbackChannel, isBotEvent = false, overrides = {}) {
+        const config = { ...this.config, ...overrides };
+        if (!config.enabled || !config.includeQuits) {
             return false;
         }
-        if (isBotEvent && !this.config.includeBotEvents) {
+        if (isBotEvent && !config.includeBotEvents) {
             return false;
         }
-        const message = this.formatMessage(this.config.quitMessage, {
+        const message = this.formatMessage(config.quitMessage, {
             nick,
             channel: '',
             reason
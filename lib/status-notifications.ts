@@ -105,22 +105,25 @@ export class StatusNotificationManager {
 
   /**
    * Send a join notification
+   * @param overrides Flags replacing the configured ones, e.g. from a channel override
    */
   async sendJoinNotification(
     nick: string, 
     channelName: string, 
     fallbackChannel: TextChannel,
-    isBotEvent: boolean = false
+    isBotEvent: boolean = false,
+    overrides: Partial<StatusNotificationConfig> = {}
   ): Promise<boolean> {
-    if (!this.config.enabled || !this.config.includeJoins) {
+    const config = { ...this.config, ...overrides };
+    if (!config.enabled || !config.includeJoins) {
       return false;
     }
 
-    if (isBotEvent && !this.config.includeBotEvents) {
+    if (isBotEvent && !config.includeBotEvents) {
       return false;
     }
 
-    const message = this.formatMessage(this.config.joinMessage, {
+    const message = this.formatMessage(config.joinMessage, {
       nick,
       channel: channelName,
       reason: ''
@@ -137,17 +140,19 @@ export class StatusNotificationManager {
     channelName: string, 
     reason: string = '', 
     fallbackChannel: TextChannel,
-    isBotEvent: boolean = false
+    isBotEvent: boolean = false,
+    overrides: Partial<StatusNotificationConfig> = {}
   ): Promise<boolean> {
-    if (!this.config.enabled || !this.config.includeLeaves) {
+    const config = { ...this.config, ...overrides };
+    if (!config.enabled || !config.includeLeaves) {
       return false;
     }
 
-    if (isBotEvent && !this.config.includeBotEvents) {
+    if (isBotEvent && !config.includeBotEvents) {
       return false;
     }
 
-    const message = this.formatMessage(this.config.leaveMessage, {
+    const message = this.formatMessage(config.leaveMessage, {
       nick,
       channel: channelName,
       reason
@@ -163,17 +168,19 @@ export class StatusNotificationManager {
     nick: string, 
     reason: string = '', 
     fallbackChannel: TextChannel,
-    isBotEvent: boolean = false
+    isBotEvent: boolean = false,
+    overrides: Partial<StatusNotificationConfig> = {}
   ): Promise<boolean> {
-    if (!this.config.enabled || !this.config.includeQuits) {
+    const config = { ...this.config, ...overrides };
+    if (!config.enabled || !config.includeQuits) {
       return false;
     }
 
-    if (isBotEvent && !this.config.includeBotEvents) {
+    if (isBotEvent && !config.includeBotEvents) {
       return false;
     }
 
-    const message = this.formatMessage(this.config.quitMessage, {
+    const message = this.formatMessage(config.quitMessage, {
       nick,
       channel: '',
       reason
@@ -0,0 +1,44 @@
+"use strict";
+/**
+ * Discord threads under mapped channels
+ *
+ * `threads.mode` decides what happens to messages in threads, other than PM
+ * threads, whose parent channel is mapped:
+ * 1. `ignore` leaves them on Discord
+ * 2. `prefix` relays them to the parent's IRC channel, starting with `[thread name]`
+ * 3. `channel` maps every new public thread to an IRC channel of its own, named
+ *    after the parent's IRC channel and the thread, like `#chan-thread-name`.
+ *    The bot joins it when the thread is created and parts when it is archived
+ */
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.DEFAULT_CHANNEL_LENGTH = void 0;
+exports.slugifyThreadName = slugifyThreadName;
+exports.deriveThreadChannel = deriveThreadChannel;
+// Channel name limit from RFC 2812, for servers that don't advertise CHANNELLEN
+exports.DEFAULT_CHANNEL_LENGTH = 50;
+/**
+ * Thread name as it can appear in an IRC channel name
+ */
+function slugifyThreadName(name) {
+    return name
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
+/**
+ * IRC channel a thread is mapped to in `channel` mode
+ * @param ircChannel IRC channel of the thread's parent, optionally "network/#chan"
+ * @param suffix Added to the name to tell it from a channel already in use
+ */
+function deriveThreadChannel(ircChannel, threadName, maxLength = exports.DEFAULT_CHANNEL_LENGTH, suffix) {
+    const slash = ircChannel.indexOf('/');
+    const network = slash === -1 ? '' : ircChannel.slice(0, slash + 1);
+    const parent = ircChannel.slice(slash + 1);
+    const end = suffix ? `-${suffix}` : '';
+    const slug = slugifyThreadName(threadName)
+        .slice(0, Math.max(0, maxLength - parent.length - end.length - 1))
+        .replace(/-+$/, '');
+    return `${network}${parent}${slug ? `-${slug}` : ''}${end}`;
+}
@@ -0,0 +1,103 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.TopicSynchronizer = exports.DISCORD_TOPIC_MAX_LENGTH = exports.DISCORD_TOPIC_WINDOW_MS = exports.DISCORD_TOPIC_EDITS = void 0;
+const logger_1 = require("./logger");
+/**
+ * Topic synchronisation between IRC and Discord
+ *
+ * Mappings with `topicSync` keep the IRC topic and the Discord channel topic
+ * the same:
+ * 1. IRC TOPIC changes set the Discord topic. Discord allows two topic edits
+ *    per channel every ten minutes, so later changes wait for the window to
+ *    move on and only the newest of them is applied
+ * 2. Discord topic edits set the IRC topic when the bot has ops in the channel
+ * 3. The topic last synced to each side is remembered, so the update that side
+ *    reports back isn't synced a second time
+ */
+exports.DISCORD_TOPIC_EDITS = 2;
+exports.DISCORD_TOPIC_WINDOW_MS = 10 * 60 * 1000;
+exports.DISCORD_TOPIC_MAX_LENGTH = 1024;
+class TopicSynchronizer {
+    setDiscordTopic;
+    edits;
+    windowMs;
+    synced = new Map(); // side:channel -> topic the bridge set
+    discordEdits = new Map(); // Discord channel ID -> times of recent edits
+    pending = new Map();
+    constructor(setDiscordTopic, edits = exports.DISCORD_TOPIC_EDITS, windowMs = exports.DISCORD_TOPIC_WINDOW_MS) {
+        this.setDiscordTopic = setDiscordTopic;
+        this.edits = edits;
+        this.windowMs = windowMs;
+    }
+    /**
+     * Remember a topic the bridge is about to set
+     */
+    markSynced(side, channel, topic) {
+        this.synced.set(`${side}:${channel.toLowerCase()}`, topic);
+    }
+    /**
+     * Whether a topic change reported by a side is the one the bridge set there
+     */
+    isEcho(side, channel, topic) {
+        const key = `${side}:${channel.toLowerCase()}`;
+        if (this.synced.get(key) !== topic)
+            return false;
+        this.synced.delete(key);
+        return true;
+    }
+    /**
+     * Set a Discord channel topic now, or once Discord's rate limit allows
+     * A topic waiting for the limit is replaced by newer ones
+     */
+    async updateDiscordTopic(channelId, topic) {
+        const now = Date.now();
+        const recent = (this.discordEdits.get(channelId) ?? []).filter(time => time > now - this.windowMs);
+        this.discordEdits.set(channelId, recent);
+        const waiting = this.pending.get(channelId);
+        if (waiting) {
+            waiting.topic = topic;
+            return;
+        }
+        if (recent.length < this.edits) {
+            await this.applyDiscordTopic(channelId, topic);
+            return;
+        }
+        const delay = recent[0] + this.windowMs - now;
+        logger_1.logger.debug(`Discord topic of ${channelId} was edited ${recent.length} times recently, updating it in ${Math.ceil(delay / 1000)}s`);
+        this.pending.set(channelId, {
+            topic,
+            timer: setTimeout(() => {
+                const pending = this.pending.get(channelId);
+                if (!pending)
+                    return;
+                this.pending.delete(channelId);
+                this.applyDiscordTopic(channelId, pending.topic).catch((error) => {
+                    logger_1.logger.error(`Failed to update Discord topic of ${channelId}:`, error);
+                });
+            }, delay),
+        });
+    }
+    /**
+     * Number of Discord topics waiting for the rate limit
+     */
+    get size() {
+        return this.pending.size;
+    }
+    /**
+     * Drop the waiting Discord topics
+     */
+    destroy() {
+        for (const { timer } of this.pending.values()) {
+            clearTimeout(timer);
+        }
+        this.pending.clear();
+    }
+    async applyDiscordTopic(channelId, topic) {
+        const edits = this.discordEdits.get(channelId) ?? [];
+        edits.push(Date.now());
+        this.discordEdits.set(channelId, edits);
+        this.markSynced('discord', channelId, topic);
+        await this.setDiscordTopic(channelId, topic);
+    }
+}
+exports.TopicSynchronizer = TopicSynchronizer;
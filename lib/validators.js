@@ -1,9 +1,33 @@
 "use strict";
 Object.defineProperty(exports, "__esModule", { value: true });
 exports.validateChannelMapping = validateChannelMapping;
-function validateChannelMapping(mapping) {
+const network_1 = require("./irc/network");
+const MAPPING_DIRECTIONS = ['both', 'discordToIrc', 'ircToDiscord'];
+// Channel prefixes from RFC 2811, without the characters a channel name can't contain
+// eslint-disable-next-line no-control-regex
+const IRC_CHANNEL_NAME = /^[#&!+][^\s,:\x00-\x1F\x7F]+$/;
+/**
+ * Check the channel mapping is an object of IRC channel targets that only use known networks
+ * Targets are strings, or objects with the target as `channel` and a valid `direction`
+ * @param networks Lower-cased names of the configured IRC networks, network-qualified targets aren't checked without them
+ */
+function validateChannelMapping(mapping, networks) {
     if (!mapping || typeof mapping !== 'object') {
         throw new Error('Invalid channel mapping given: ' + JSON.stringify(mapping));
     }
+    for (const [discordChannel, entry] of Object.entries(mapping)) {
+        const target = entry && typeof entry === 'object' ? entry.channel : entry;
+        const direction = entry && typeof entry === 'object' ? entry.direction : undefined;
+        if (direction !== undefined && !MAPPING_DIRECTIONS.includes(direction)) {
+            throw new Error(`Invalid direction ${JSON.stringify(direction)} in channel mapping for ${discordChannel}`);
+        }
+        const { network, channel } = (0, network_1.parseIRCTarget)(String(target).split(' ')[0]);
+        if (!IRC_CHANNEL_NAME.test(channel)) {
+            throw new Error(`Invalid IRC channel "${channel}" in channel mapping for ${discordChannel}`);
+        }
+        if (networks && network && !networks.includes(network)) {
+            throw new Error(`Unknown IRC network "${network}" in channel mapping for ${discordChannel}`);
+        }
+    }
     return mapping;
 }
@@ -1,9 +1,39 @@
-export function validateChannelMapping(mapping: unknown) {
+import { parseIRCTarget } from './irc/network';
+import type { ChannelMappingEntry } from './channel-mapping';
+
+const MAPPING_DIRECTIONS = ['both', 'discordToIrc', 'ircToDiscord'];
+
+// Channel prefixes from RFC 2811, without the characters a channel name can't contain
+// eslint-disable-next-line no-control-regex
+const IRC_CHANNEL_NAME = /^[#&!+][^\s,:\x00-\x1F\x7F]+$/;
+
+/**
+ * Check the channel mapping is an object of IRC channel targets that only use known networks
+ * Targets are strings, or objects with the target as `channel` and a valid `direction`
+ * @param networks Lower-cased names of the configured IRC networks, network-qualified targets aren't checked without them
+ */
+export function validateChannelMapping(mapping: unknown, networks?: string[]) {
   if (!mapping || typeof mapping !== 'object') {
     throw new Error(
       'Invalid channel mapping given: ' + JSON.stringify(mapping),
     );
   }
 
-  return mapping as Record<string, string>;
+  for (const [discordChannel, entry] of Object.entries(mapping as Record<string, unknown>)) {
+    const target = entry && typeof entry === 'object' ? (entry as Record<string, unknown>).channel : entry;
+    const direction = entry && typeof entry === 'object' ? (entry as Record<string, unknown>).direction : undefined;
+    if (direction !== undefined && !MAPPING_DIRECTIONS.includes(direction as string)) {
+      throw new Error(`Invalid direction ${JSON.stringify(direction)} in channel mapping for ${discordChannel}`);
+    }
+
+    const { network, channel } = parseIRCTarget(String(target).split(' ')[0]);
+    if (!IRC_CHANNEL_NAME.test(channel)) {
+      throw new Error(`Invalid IRC channel "${channel}" in channel mapping for ${discordChannel}`);
+    }
+    if (networks && network && !networks.includes(network)) {
+      throw new Error(`Unknown IRC network "${network}" in channel mapping for ${discordChannel}`);
+    }
+  }
+
+  return mapping as Record<string, ChannelMappingEntry>;
 }
@@ -0,0 +1,83 @@
+"use strict";
+Object.defineProperty(exports, "__esModule", { value: true });
+exports.WebhookProvisioner = void 0;
+exports.isUnknownWebhookError = isUnknownWebhookError;
+const discord_js_1 = require("discord.js");
+const logger_1 = require("./logger");
+// Discord's error code for a webhook that no longer exists
+const UNKNOWN_WEBHOOK = 10015;
+/**
+ * Whether sending through a webhook failed because it was deleted
+ */
+function isUnknownWebhookError(error) {
+    return error?.code === UNKNOWN_WEBHOOK;
+}
+class WebhookProvisioner {
+    config;
+    persistence;
+    createClient;
+    statuses = new Map(); // Discord channel ID -> status
+    pending = new Map();
+    constructor(config, persistence, createClient = (id, token) => new discord_js_1.WebhookClient({ id, token })) {
+        this.config = config;
+        this.persistence = persistence;
+        this.createClient = createClient;
+    }
+    /**
+     * Webhook for a channel, stored, reused or newly created
+     * @param replace Forget the stored webhook first, for webhooks that were deleted on Discord
+     * @returns null when the bot may not manage webhooks in the channel or Discord refused
+     */
+    async provision(channel, replace = false) {
+        // Messages arriving together after a deletion should only create one replacement
+        let pending = this.pending.get(channel.id);
+        if (!pending) {
+            pending = this.acquire(channel, replace).finally(() => this.pending.delete(channel.id));
+            this.pending.set(channel.id, pending);
+        }
+        return pending;
+    }
+    /**
+     * Provisioning state of a channel's webhook, undefined before the first attempt
+     */
+    getStatus(channelId) {
+        return this.statuses.get(channelId);
+    }
+    async acquire(channel, replace) {
+        try {
+            if (replace) {
+                await this.persistence.deleteChannelWebhook(channel.id);
+            }
+            else {
+                const stored = await this.persistence.getChannelWebhook(channel.id);
+                if (stored)
+                    return this.activate(channel.id, stored.webhookId, stored.token);
+            }
+            const permissions = channel.client.user ? channel.permissionsFor(channel.client.user) : null;
+            if (!permissions?.has(discord_js_1.Permissions.FLAGS.MANAGE_WEBHOOKS)) {
+                logger_1.logger.warn(`Missing Manage Webhooks permission in #${channel.name}, relaying without a webhook`);
+                this.setStatus(channel.id, { state: 'missing-permission', error: 'Missing Manage Webhooks permission' });
+                return null;
+            }
+            // Webhooks made before the database was reset are still usable
+            const existing = (await channel.fetchWebhooks()).find(webhook => webhook.owner?.id === channel.client.user?.id && webhook.name === this.config.name && Boolean(webhook.token));
+            const webhook = existing ?? await channel.createWebhook(this.config.name, { reason: 'IRC bridge relay' });
+            logger_1.logger.info(`${existing ? 'Reusing' : 'Created'} webhook ${webhook.id} for #${channel.name}`);
+            await this.persistence.saveChannelWebhook(channel.id, webhook.id, webhook.token);
+            return this.activate(channel.id, webhook.id, webhook.token);
+        }
+        catch (error) {
+            logger_1.logger.error(`Failed to provision a webhook for #${channel.name}:`, error);
+            this.setStatus(channel.id, { state: 'failed', error: error instanceof Error ? error.message : String(error) });
+            return null;
+        }
+    }
+    activate(channelId, webhookId, token) {
+        this.setStatus(channelId, { state: 'active', webhookId });
+        return { id: webhookId, client: this.createClient(webhookId, token) };
+    }
+    setStatus(channelId, status) {
+        this.statuses.set(channelId, { ...status, updatedAt: Date.now() });
+    }
+}
+exports.WebhookProvisioner = WebhookProvisioner;
@@ -0,0 +1,124 @@
+import { BaseGuildTextChannel, Permissions, WebhookClient } from 'discord.js';
+import { logger } from './logger';
+import type { PersistenceService } from './persistence';
+
+/**
+ * Webhooks managed by the bridge
+ *
+ * Instead of relying on webhook URLs pasted into the config, the bridge can
+ * look after a webhook for every mapped channel itself:
+ * 1. The webhook stored for a channel is used as long as Discord still has it
+ * 2. Otherwise a webhook the bot created earlier is reused, or a new one is created
+ * 3. Credentials are stored in the database, so restarts don't pile up webhooks
+ * 4. When sending through a webhook fails because it was deleted, the bot
+ *    asks for a replacement and sends again
+ */
+
+export interface AutoWebhookConfig {
+  enabled: boolean; // Create webhooks for mapped channels without one in `webhooks`
+  name: string; // Name of the webhooks the bridge creates, and looks for when reusing one
+}
+
+export type WebhookState = 'active' | 'missing-permission' | 'failed';
+
+export interface WebhookStatus {
+  state: WebhookState;
+  webhookId?: string;
+  error?: string;
+  updatedAt: number;
+}
+
+export interface ProvisionedWebhook {
+  id: string;
+  client: WebhookClient;
+}
+
+// Discord's error code for a webhook that no longer exists
+const UNKNOWN_WEBHOOK = 10015;
+
+/**
+ * Whether sending through a webhook failed because it was deleted
+ */
+export function isUnknownWebhookError(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === UNKNOWN_WEBHOOK;
+}
+
+export class WebhookProvisioner {
+  private config: AutoWebhookConfig;
+  private persistence: PersistenceService;
+  private createClient: (id: string, token: string) => WebhookClient;
+  private statuses: Map<string, WebhookStatus> = new Map(); // Discord channel ID -> status
+  private pending: Map<string, Promise<ProvisionedWebhook | null>> = new Map();
+
+  constructor(
+    config: AutoWebhookConfig,
+    persistence: PersistenceService,
+    createClient: (id: string, token: string) => WebhookClient = (id, token) => new WebhookClient({ id, token }),
+  ) {
+    this.config = config;
+    this.persistence = persistence;
+    this.createClient = createClient;
+  }
+
+  /**
+   * Webhook for a channel, stored, reused or newly created
+   * @param replace Forget the stored webhook first, for webhooks that were deleted on Discord
+   * @returns null when the bot may not manage webhooks in the channel or Discord refused
+   */
+  async provision(channel: BaseGuildTextChannel, replace = false): Promise<ProvisionedWebhook | null> {
+    // Messages arriving together after a deletion should only create one replacement
+    let pending = this.pending.get(channel.id);
+    if (!pending) {
+      pending = this.acquire(channel, replace).finally(() => this.pending.delete(channel.id));
+      this.pending.set(channel.id, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Provisioning state of a channel's webhook, undefined before the first attempt
+   */
+  getStatus(channelId: string): WebhookStatus | undefined {
+    return this.statuses.get(channelId);
+  }
+
+  private async acquire(channel: BaseGuildTextChannel, replace: boolean): Promise<ProvisionedWebhook | null> {
+    try {
+      if (replace) {
+        await this.persistence.deleteChannelWebhook(channel.id);
+      } else {
+        const stored = await this.persistence.getChannelWebhook(channel.id);
+        if (stored) return this.activate(channel.id, stored.webhookId, stored.token);
+      }
+
+      const permissions = channel.client.user ? channel.permissionsFor(channel.client.user) : null;
+      if (!permissions?.has(Permissions.FLAGS.MANAGE_WEBHOOKS)) {
+        logger.warn(`Missing Manage Webhooks permission in #${channel.name}, relaying without a webhook`);
+        this.setStatus(channel.id, { state: 'missing-permission', error: 'Missing Manage Webhooks permission' });
+        return null;
+      }
+
+      // Webhooks made before the database was reset are still usable
+      const existing = (await channel.fetchWebhooks()).find(webhook =>
+        webhook.owner?.id === channel.client.user?.id && webhook.name === this.config.name && Boolean(webhook.token));
+      const webhook = existing ?? await channel.createWebhook(this.config.name, { reason: 'IRC bridge relay' });
+      logger.info(`${existing ? 'Reusing' : 'Created'} webhook ${webhook.id} for #${channel.name}`);
+
+      await this.persistence.saveChannelWebhook(channel.id, webhook.id, webhook.token!);
+      return this.activate(channel.id, webhook.id, webhook.token!);
+    } catch (error) {
+      logger.error(`Failed to provision a webhook for #${channel.name}:`, error);
+      this.setStatus(channel.id, { state: 'failed', error: error instanceof Error ? error.message : String(error) });
+      return null;
+    }
+  }
+
+  private activate(channelId: string, webhookId: string, token: string): ProvisionedWebhook {
+    this.setStatus(channelId, { state: 'active', webhookId });
+    return { id: webhookId, client: this.createClient(webhookId, token) };
+  }
+
+  private setStatus(channelId: string, status: Omit<WebhookStatus, 'updatedAt'>): void {
+    this.statuses.set(channelId, { ...status, updatedAt: Date.now() });
+  }
+}
@@ -133,8 +133,41 @@ describe('Bot Events', () => {
     const channel = '#channel';
     const author = 'user';
     const text = 'hi';
-    bot.ircClient.emit('message', author, channel, text);
-    expect(bot.sendToDiscord).toHaveBeenCalledWith(author, channel, text);
+    const message = {};
+    bot.ircClient.emit('message', author, channel, text, message);
+    expect(bot.sendToDiscord).toHaveBeenCalledWith(author, channel, text, message);
+  });
+
+  it('should not send messages echoed back by the server to discord', () => {
+    const message = {};
+    bot.ircClient.emit('message', bot.ircClient.nick, '#channel', 'hi', message);
+    bot.ircClient.emit('action', bot.ircClient.nick, '#channel', 'waves', message);
+    expect(bot.sendToDiscord).not.toHaveBeenCalled();
+  });
+
+  it('should pass IRC redactions to the message synchronizer', () => {
+    const redactMock = vi.spyOn(bot.messageSync, 'handleIRCRedaction').mockResolvedValue();
+    bot.ircClient.emit('raw', {
+      nick: 'user',
+      command: 'REDACT',
+      rawCommand: 'REDACT',
+      commandType: 'normal',
+      args: ['#channel', 'abc123', 'oops'],
+    });
+    expect(redactMock).toHaveBeenCalledWith('user', '#channel', 'abc123');
+  });
+
+  it('should not send messages from IRC puppets back to discord', async () => {
+    const puppetBot = createBot({ ...config, puppets: { enabled: true } });
+    await puppetBot.connect();
+    await waitForIRCClient();
+    vi.spyOn(puppetBot.puppetManager!, 'isPuppetNick').mockReturnValue(true);
+    try {
+      puppetBot.ircClient.emit('message', 'alice[d]', '#channel', 'hi', {});
+      expect(puppetBot.sendToDiscord).not.toHaveBeenCalled();
+    } finally {
+      puppetBot.puppetManager!.destroy();
+    }
   });
 
   it('should send notices to discord', () => {
@@ -142,11 +175,13 @@ describe('Bot Events', () => {
     const author = 'user';
     const text = 'hi';
     const formattedText = `*${text}*`;
-    bot.ircClient.emit('notice', author, channel, text);
+    const message = {};
+    bot.ircClient.emit('notice', author, channel, text, message);
     expect(bot.sendToDiscord).toHaveBeenCalledWith(
       author,
       channel,
       formattedText,
+      message,
     );
   });
 
@@ -210,6 +245,7 @@ describe('Bot Events', () => {
       author,
       channel,
       formattedText,
+      message,
     );
   });
 
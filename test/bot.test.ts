@@ -477,6 +477,44 @@ describe('Bot', async () => {
     expect(bot.parseText(message)).toEqual(':in_love:');
   });
 
+  it('should convert timestamps, command mentions and stickers from discord', async () => {
+    const message = messageFor({
+      mentions: { users: [] },
+      content: 'Meeting <t:1700000000:f>, run </irc-bridge status:123> before',
+      stickers: new discord.Collection([['1', { name: 'Wave' }]]),
+    });
+
+    expect(bot.parseText(message)).toEqual('Meeting 2023-11-14 22:13 UTC, run /irc-bridge status before\n[sticker: Wave]');
+  });
+
+  it('should render embeds from discord in the mode of their source', async () => {
+    await setCustomBot({ ...config, embeds: { sources: { '555': 'compact' } } });
+    addUser({ username: 'testuser', id: '123' });
+    const embeds = [
+      { title: 'Build passed', description: 'main by <@123>', url: 'https://ci.example.com/1', fields: [] },
+      { title: 'Deployed', fields: [{ name: 'Env', value: 'prod' }] },
+    ];
+
+    expect(bot.parseText(messageFor({ mentions: { users: [] }, content: '', embeds }))).toEqual(
+      '\x02Build passed\x02\nhttps://ci.example.com/1\nmain by testuser\n\x02Deployed\x02\n\x02Env\x02\nprod',
+    );
+    expect(bot.parseText(messageFor({ mentions: { users: [] }, content: '', embeds, webhookId: '555' }))).toEqual(
+      '[Build passed] main by testuser — https://ci.example.com/1\n[Deployed]',
+    );
+  });
+
+  it('should link animated emoji and name unicode emoji from discord when configured', async () => {
+    await setCustomBot({ ...config, discordTokens: { animatedEmojiLinks: true, emojiShortcodes: true } });
+    const message = messageFor({
+      mentions: { users: [] },
+      content: '<a:in_love:432887860270465028> 👍🏽',
+    });
+
+    expect(bot.parseText(message)).toEqual(
+      ':in_love: <https://cdn.discordapp.com/emojis/432887860270465028.gif> :thumbsup:',
+    );
+  });
+
   it('should not convert user initial mentions from IRC mid-message', async () => {
     addUser({ username: 'testuser', id: '123' });
 
@@ -517,6 +555,16 @@ describe('Bot', async () => {
     expect(sendStub).toHaveBeenCalledWith(expected);
   });
 
+  it('should convert shortcodes and emoticons from IRC to unicode emoji when configured', async () => {
+    await setCustomBot({ ...config, emojiConversion: { shortcodes: true, emoticons: true } });
+    addEmoji({ id: '987', name: 'tada', require_colons: true });
+
+    await bot.sendToDiscord('ircuser', '#irc', ':thumbsup: :tada: thanks <3 see `:)` and https://example.com/:smile:/');
+    expect(sendStub).toHaveBeenCalledWith(
+      '**<ircuser>** 👍 <:tada:987> thanks ❤️ see `:)` and https://example.com/:smile:/',
+    );
+  });
+
   it('should convert channel mentions from IRC', async () => {
     guild.addTextChannel({ id: '1235', name: 'testchannel' });
     guild.addTextChannel({ id: '1236', name: 'channel-compliqué' });
@@ -1150,6 +1198,329 @@ describe('Bot', async () => {
     expect(sendStub).not.toHaveBeenCalled();
   });
 
+  it('should split long messages to IRC and repeat the nick prefix on each line', async () => {
+    vi.spyOn(bot, 'isIRCConnected').mockReturnValue(true);
+    bot.ircClient.hostMask = '~bot@example.com';
+
+    const text = Array.from({ length: 120 }, (_, i) => `wörd${i}`).join(' ');
+    const message = messageFor({
+      content: text,
+      mentions: { users: [] },
+      channel: {
+        name: 'discord',
+      },
+      author: {
+        username: 'otherauthor',
+        id: 'not bot id',
+      },
+      guild: guild,
+    });
+
+    await bot.sendToIRC(message);
+
+    const prefix = `<\u000304${message.author.username}\u000f> `;
+    expect(sayMock.mock.calls.length).toBeGreaterThan(1);
+    for (const [channel, line] of sayMock.mock.calls) {
+      expect(channel).toBe('#irc');
+      expect(line.startsWith(prefix)).toBe(true);
+      const raw = `:${bot.ircClient.nick}!~bot@example.com PRIVMSG #irc :${line}\r\n`;
+      expect(Buffer.byteLength(raw, 'utf8')).toBeLessThanOrEqual(512);
+    }
+    const rejoined = sayMock.mock.calls.map(([, line]) => line.slice(prefix.length)).join(' ');
+    expect(rejoined).toBe(text);
+  });
+
+  it('should offload long pastes and send a preview with a link to IRC', async () => {
+    vi.spyOn(bot, 'isIRCConnected').mockReturnValue(true);
+    bot.pasteConfig.enabled = true;
+    const uploadFile = vi.fn().mockResolvedValue({ success: true, url: 'https://cdn.example.com/paste_1.txt' });
+    bot.s3Uploader = { uploadFile } as never;
+
+    const text = ['```js', ...Array.from({ length: 10 }, (_, i) => `console.log(${i});`), '```'].join('\n');
+    const message = messageFor({
+      content: text,
+      mentions: { users: [] },
+      channel: {
+        name: 'discord',
+      },
+      author: {
+        username: 'otherauthor',
+        id: 'not bot id',
+      },
+      guild: guild,
+    });
+
+    await bot.sendToIRC(message);
+
+    expect(uploadFile).toHaveBeenCalledWith(
+      'not bot id',
+      Buffer.from(text, 'utf8'),
+      expect.stringMatching(/^paste-\d+\.txt$/),
+      undefined,
+      'text/plain; charset=utf-8',
+    );
+    const prefix = `<\u000304${message.author.username}\u000f> `;
+    expect(sayMock.mock.calls).toEqual([
+      ['#irc', `${prefix}\u0011console.log(0);\u0011`],
+      ['#irc', `${prefix}\u0011console.log(1);\u0011`],
+      ['#irc', `${prefix}[12 lines] https://cdn.example.com/paste_1.txt`],
+    ]);
+  });
+
+  it('should send long pastes inline when no paste storage is available', async () => {
+    vi.spyOn(bot, 'isIRCConnected').mockReturnValue(true);
+    bot.pasteConfig.enabled = true;
+
+    const text = Array.from({ length: 8 }, (_, i) => `line ${i}`).join('\n');
+    const message = messageFor({
+      content: text,
+      mentions: { users: [] },
+      channel: {
+        name: 'discord',
+      },
+      author: {
+        username: 'otherauthor',
+        id: 'not bot id',
+      },
+      guild: guild,
+    });
+
+    await bot.sendToIRC(message);
+
+    expect(sayMock).toHaveBeenCalledTimes(8);
+  });
+
+  it('should send long pastes inline unless paste offloading is enabled', async () => {
+    vi.spyOn(bot, 'isIRCConnected').mockReturnValue(true);
+    const uploadFile = vi.fn();
+    bot.s3Uploader = { uploadFile } as never;
+
+    const text = Array.from({ length: 8 }, (_, i) => `line ${i}`).join('\n');
+    const message = messageFor({
+      content: text,
+      mentions: { users: [] },
+      channel: {
+        name: 'discord',
+      },
+      author: {
+        username: 'otherauthor',
+        id: 'not bot id',
+      },
+      guild: guild,
+    });
+
+    await bot.sendToIRC(message);
+
+    expect(uploadFile).not.toHaveBeenCalled();
+    expect(sayMock).toHaveBeenCalledTimes(8);
+  });
+
+  it('should quote the replied-to Discord message on IRC', async () => {
+    vi.spyOn(bot, 'isIRCConnected').mockReturnValue(true);
+    const referenced = messageFor({
+      content: 'the original message is quite a bit longer than forty characters',
+      mentions: { users: [] },
+      author: {
+        username: 'bob',
+        id: 'bob id',
+      },
+      guild: guild,
+    });
+    const message = {
+      ...messageFor({
+        content: 'reply text',
+        mentions: { users: [] },
+        channel: {
+          name: 'discord',
+        },
+        author: {
+          username: 'otherauthor',
+          id: 'not bot id',
+        },
+        guild: guild,
+      }),
+      reference: { messageId: 'original id' },
+      fetchReference: vi.fn().mockResolvedValue(referenced),
+    } as unknown as discord.Message;
+
+    await bot.sendToIRC(message);
+
+    expect(sayMock).toHaveBeenCalledWith(
+      '#irc',
+      '<\u000304otherauthor\u000f> @bob: "the original message is quite a bit long…" → reply text',
+    );
+  });
+
+  it('should attribute replies to messages relayed from IRC to the IRC nick', async () => {
+    vi.spyOn(bot, 'isIRCConnected').mockReturnValue(true);
+    bot.messageSync.recordIRCMessage('relayed id', '#irc', '\u0002hi\u0002 there', 'ircnick');
+    const fetchReference = vi.fn();
+    const message = {
+      ...messageFor({
+        content: 'reply text',
+        mentions: { users: [] },
+        channel: {
+          name: 'discord',
+        },
+        author: {
+          username: 'otherauthor',
+          id: 'not bot id',
+        },
+        guild: guild,
+      }),
+      reference: { messageId: 'relayed id' },
+      fetchReference,
+    } as unknown as discord.Message;
+
+    await bot.sendToIRC(message);
+
+    expect(fetchReference).not.toHaveBeenCalled();
+    expect(sayMock).toHaveBeenCalledWith(
+      '#irc',
+      '<\u000304otherauthor\u000f> @ircnick: "hi there" → reply text',
+    );
+  });
+
+  it('should use a custom reply format', async () => {
+    await setCustomBot({ ...config, format: { ircReply: '[re {$replyNickname}] {$text}' } });
+    vi.spyOn(bot, 'isIRCConnected').mockReturnValue(true);
+    bot.messageSync.recordIRCMessage('relayed id', '#irc', 'hi', 'ircnick');
+    const message = {
+      ...messageFor({
+        content: 'reply text',
+        mentions: { users: [] },
+        channel: {
+          name: 'discord',
+        },
+        author: {
+          username: 'otherauthor',
+          id: 'not bot id',
+        },
+        guild: guild,
+      }),
+      reference: { messageId: 'relayed id' },
+    } as unknown as discord.Message;
+
+    await bot.sendToIRC(message);
+
+    expect(sayMock).toHaveBeenCalledWith('#irc', '<\u000304otherauthor\u000f> [re ircnick] reply text');
+  });
+
+  it('should tag replies to IRC messages with +draft/reply when the server supports it', async () => {
+    vi.spyOn(bot, 'isIRCConnected').mockReturnValue(true);
+    vi.spyOn(bot.ircUserManager, 'hasCapability').mockImplementation(capability => capability === 'message-tags');
+    bot.messageSync.recordIRCMessage('relayed id', '#irc', 'hi', 'ircnick');
+    bot.messageSync.recordMsgid('irc-msgid', 'relayed id');
+    const message = {
+      ...messageFor({
+        content: 'reply text',
+        mentions: { users: [] },
+        channel: {
+          name: 'discord',
+        },
+        author: {
+          username: 'otherauthor',
+          id: 'not bot id',
+        },
+        guild: guild,
+      }),
+      reference: { messageId: 'relayed id' },
+    } as unknown as discord.Message;
+
+    await bot.sendToIRC(message);
+
+    expect(bot.ircClient.send).toHaveBeenCalledWith(
+      '@+draft/reply=irc-msgid',
+      'PRIVMSG',
+      '#irc',
+      '<\u000304otherauthor\u000f> @ircnick: "hi" → reply text',
+    );
+    expect(sayMock).not.toHaveBeenCalled();
+  });
+
+  it('should turn IRC replies to bridged messages into Discord replies', async () => {
+    bot.messageSync.recordMsgid('original-msgid', 'discord id');
+    const ircMessage = {
+      command: 'PRIVMSG',
+      rawCommand: 'PRIVMSG',
+      commandType: 'normal',
+      args: ['#irc', 'me too'],
+      tags: { msgid: 'reply-msgid', '+draft/reply': 'original-msgid' },
+    };
+
+    await bot.sendToDiscord('testuser', '#irc', 'me too', ircMessage);
+
+    expect(sendStub).toHaveBeenCalledWith({
+      content: '**<testuser>** me too',
+      reply: { messageReference: 'discord id', failIfNotExists: false },
+    });
+  });
+
+  it("should send messages from the author's IRC puppet in puppet mode", async () => {
+    await setCustomBot({ ...config, puppets: { enabled: true } });
+    vi.spyOn(bot, 'isIRCConnected').mockReturnValue(true);
+    const puppetSay = vi.fn();
+    const acquire = vi.spyOn(bot.puppetManager!, 'acquire')
+      .mockResolvedValue({ nick: 'otherauthor[d]', say: puppetSay } as never);
+    const message = messageFor({
+      content: 'test message',
+      mentions: { users: [] },
+      channel: {
+        name: 'discord',
+      },
+      author: {
+        username: 'otherauthor',
+        id: 'not bot id',
+      },
+      guild: guild,
+    });
+
+    try {
+      await bot.sendToIRC(message);
+
+      expect(acquire).toHaveBeenCalledWith('not bot id', 'otherauthor[d]', '#irc');
+      expect(puppetSay).toHaveBeenCalledWith('#irc', 'test message');
+      expect(sayMock).not.toHaveBeenCalled();
+    } finally {
+      bot.puppetManager!.destroy();
+    }
+  });
+
+  it("should send messages for another network's channels through that network", async () => {
+    await setCustomBot({
+      ...config,
+      ircNickColor: false,
+      networks: { libera: { server: 'irc.libera.chat' } },
+      channelMapping: { '#discord': 'libera/#bridged' },
+    });
+    const network = bot.networks.get('libera')!;
+    const isConnected = vi.spyOn(bot, 'isIRCConnected').mockReturnValue(true);
+    const sendDiscord = vi.spyOn(bot, 'sendToDiscord');
+    const message = messageFor({
+      content: 'test message',
+      mentions: { users: [] },
+      channel: {
+        name: 'discord',
+      },
+      author: {
+        username: 'otherauthor',
+        id: 'not bot id',
+      },
+      guild: guild,
+    });
+
+    try {
+      await bot.sendToIRC(message);
+      expect(isConnected).toHaveBeenCalledWith('libera');
+      expect(sayMock).toHaveBeenCalledWith('#bridged', '<otherauthor> test message');
+
+      network.client.emit('message', 'ircuser', '#Bridged', 'hi from libera');
+      expect(sendDiscord).toHaveBeenCalledWith('ircuser', 'libera/#bridged', 'hi from libera', undefined);
+    } finally {
+      network.disconnect();
+    }
+  });
+
   it('should not send messages to IRC if Discord user is ignored', async () => {
     const message = messageFor({
       content: 'text',
@@ -1204,6 +1575,9 @@ interface SimpleMessage {
     users: Array<SimpleUser>;
   };
   attachments?: ReturnType<typeof createAttachments>;
+  stickers?: discord.Collection<string, { name: string }>;
+  embeds?: unknown[];
+  webhookId?: string;
   channel?: {
     [TEST_HACK_CHANNEL]?: true;
     id?: string | number;
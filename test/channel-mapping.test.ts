@@ -1,13 +1,25 @@
-import { describe, it, beforeEach, expect } from 'vitest';
+import { describe, it, beforeEach, afterEach, expect, vi } from 'vitest';
 import irc from 'irc-upd';
 import discord from 'discord.js';
-import Bot from '../lib/bot';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import Bot, { TEST_HACK_CHANNEL } from '../lib/bot';
 import config from './fixtures/single-test-config.json';
 import caseConfig from './fixtures/case-sensitivity-config.json';
 import DiscordStub from './stubs/discord-stub';
 import ClientStub from './stubs/irc-client-stub';
 import { validateChannelMapping } from '../lib/validators';
 
+vi.mock('../lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
 describe('Channel Mapping', () => {
   beforeEach(() => {
     irc.Client = ClientStub;
@@ -32,6 +44,19 @@ describe('Channel Mapping', () => {
     expect(wrap).not.toThrow();
   });
 
+  it('should accept targets with options and reject unknown directions', () => {
+    expect(() => validateChannelMapping({ '#discord': { channel: '#irc', direction: 'ircToDiscord', sourceTag: true } })).not.toThrow();
+    expect(() => validateChannelMapping({ '#discord': { channel: '#irc', direction: 'sideways' } }))
+      .toThrow('Invalid direction "sideways" in channel mapping for #discord');
+    expect(() => validateChannelMapping({ '#discord': { direction: 'both' } })).toThrow('Invalid IRC channel');
+  });
+
+  it('should reject targets that are not IRC channels', () => {
+    expect(() => validateChannelMapping({ '#discord': 'irc' }))
+      .toThrow('Invalid IRC channel "irc" in channel mapping for #discord');
+    expect(() => validateChannelMapping({ '#discord': '#a,#b' })).toThrow('Invalid IRC channel');
+  });
+
   it('should clear channel keys from the mapping', () => {
     const bot = new Bot(config);
     expect(bot.channelMapping['#discord']).toEqual('#irc');
@@ -50,4 +75,222 @@ describe('Channel Mapping', () => {
     expect(bot.channelMapping['1234']).toEqual('#channelforid');
     expect(bot.invertedMapping['#channelforid']).toEqual('1234');
   });
+
+  describe('with several IRC networks', () => {
+    const networkConfig = {
+      ...config,
+      networkName: 'freenode',
+      networks: { Libera: { server: 'irc.libera.chat' } },
+      channelMapping: {
+        '#discord': '#irc',
+        '#own': 'freenode/#Qualified',
+        '#libera': 'Libera/#Bridged key',
+      },
+    };
+
+    it('should keep the network in mapping targets of other networks', () => {
+      const bot = new Bot(networkConfig);
+      expect(bot.channelMapping['#own']).toEqual('#qualified');
+      expect(bot.channelMapping['#libera']).toEqual('libera/#bridged');
+      expect(bot.invertedMapping['libera/#bridged']).toEqual('#libera');
+    });
+
+    it('should only join channels of our own network', () => {
+      const bot = new Bot(networkConfig);
+      expect(bot.channels).toEqual(['#irc', '#Qualified']);
+      expect(bot.getIRCNetworkNames()).toEqual(['freenode', 'libera']);
+    });
+
+    it('should reject targets on unknown networks', () => {
+      expect(() => validateChannelMapping({ '#discord': 'oftc/#chan' }, ['default']))
+        .toThrow('Unknown IRC network "oftc" in channel mapping for #discord');
+      expect(() => new Bot({ ...config, channelMapping: { '#discord': 'oftc/#chan' } }))
+        .toThrow('Unknown IRC network "oftc"');
+    });
+  });
+
+  describe('with directions and fan-out', () => {
+    const dbPath = path.join(os.tmpdir(), `test-channel-fan-out-${Date.now()}.sqlite`);
+    let bot: Bot;
+    let sendStub;
+    let sayMock;
+    let guild;
+
+    const fanOutConfig = {
+      ...config,
+      dbPath,
+      ircNickColor: false,
+      channelMapping: {
+        '1234': '#irc',
+        '5678': { channel: '#IRC', sourceTag: true },
+        '9012': { channel: '#irc', direction: 'discordToIrc' },
+        '3456': { channel: '#news', direction: 'ircToDiscord' },
+      },
+    };
+
+    const messageFrom = (channelId: string, content: string) => {
+      const channel = bot.discord.channels.cache.get(channelId) as discord.TextChannel;
+      channel[TEST_HACK_CHANNEL] = true;
+      return {
+        id: `msg-${channelId}`,
+        content,
+        mentions: { users: [] },
+        attachments: new discord.Collection(),
+        channel,
+        author: { id: 'author', username: 'alice' },
+        guild: channel.guild,
+      } as unknown as discord.Message;
+    };
+
+    beforeEach(async () => {
+      sendStub = vi.fn();
+      sayMock = vi.fn();
+      discord.Client = DiscordStub(sendStub) as never;
+      ClientStub.prototype.say = sayMock;
+
+      bot = new Bot(fanOutConfig);
+      guild = bot.discord.guilds.cache.first();
+      guild.name = 'Reactiflux';
+      guild.addTextChannel({ name: 'other', id: '5678' });
+      guild.addTextChannel({ name: 'announce', id: '9012' });
+      guild.addTextChannel({ name: 'news', id: '3456' });
+      await bot.connect();
+      await new Promise(resolve => setImmediate(resolve));
+      vi.spyOn(bot, 'isIRCConnected').mockReturnValue(true);
+    });
+
+    afterEach(async () => {
+      vi.restoreAllMocks();
+      bot.recoveryManager.destroy();
+      await bot.persistence.close();
+      if (fs.existsSync(dbPath)) {
+        fs.unlinkSync(dbPath);
+      }
+    });
+
+    it('should relay IRC messages to every Discord channel receiving them', async () => {
+      expect(bot.invertedMapping['#irc']).toBe('1234');
+
+      await bot.sendToDiscord('bob', '#irc', 'hello');
+      await bot.sendExactToDiscord('#irc', '*bob* has joined the channel');
+
+      expect(sendStub.mock.contexts.map(channel => channel.id)).toEqual(['1234', '5678', '1234', '5678']);
+      expect(sendStub).toHaveBeenCalledWith('**<bob>** hello');
+    });
+
+    it('should relay Discord channels into the IRC channel with their source tag', async () => {
+      await bot.sendToIRC(messageFrom('1234', 'one'));
+      await bot.sendToIRC(messageFrom('5678', 'two'));
+      await bot.sendToIRC(messageFrom('9012', 'three'));
+
+      expect(sayMock.mock.calls).toEqual([
+        ['#irc', '<alice> one'],
+        ['#irc', '[Reactiflux/#other] <alice> two'],
+        ['#irc', '<alice> three'],
+      ]);
+    });
+
+    it('should only relay one way for directional mappings', async () => {
+      await bot.sendToIRC(messageFrom('3456', 'not relayed'));
+      await bot.sendToDiscord('bob', '#news', 'headline');
+
+      expect(sayMock).not.toHaveBeenCalled();
+      expect(sendStub).toHaveBeenCalledTimes(1);
+      expect(sendStub.mock.contexts[0].id).toBe('3456');
+      expect(bot.getChannelMappings()).toContainEqual({ discordChannel: '9012', ircChannel: '#irc', direction: 'discordToIrc', source: 'config' });
+    });
+  });
+
+  describe('at runtime', () => {
+    const dbPath = path.join(os.tmpdir(), `test-channel-mapping-${Date.now()}.sqlite`);
+    let bot: Bot;
+    let joinSpy;
+    let partSpy;
+
+    const createBot = async () => {
+      bot = new Bot({ ...config, dbPath });
+      await bot.connect();
+      await new Promise(resolve => setImmediate(resolve));
+      vi.spyOn(bot, 'isIRCConnected').mockReturnValue(true);
+    };
+
+    const closeBot = async () => {
+      vi.restoreAllMocks();
+      bot.recoveryManager.destroy();
+      await bot.persistence.close();
+    };
+
+    beforeEach(() => {
+      discord.Client = DiscordStub(vi.fn()) as never;
+      joinSpy = vi.fn();
+      partSpy = vi.fn();
+      ClientStub.prototype.join = joinSpy;
+      ClientStub.prototype.part = partSpy;
+    });
+
+    afterEach(async () => {
+      await closeBot();
+      if (fs.existsSync(dbPath)) {
+        fs.unlinkSync(dbPath);
+      }
+    });
+
+    it('should map a channel, join it and keep it across restarts', async () => {
+      await createBot();
+      expect(await bot.mapChannel('5678', '#New secret', 'admin')).toBe('#new');
+
+      expect(bot.channelMapping['5678']).toBe('#new');
+      expect(bot.invertedMapping['#new']).toBe('5678');
+      expect(joinSpy).toHaveBeenCalledWith('#New', 'secret');
+      expect(bot.getChannelMappings()).toContainEqual({ discordChannel: '5678', ircChannel: '#new', direction: 'both', source: 'runtime' });
+
+      await closeBot();
+      await createBot();
+      expect(bot.channelMapping['5678']).toBe('#new');
+      expect(bot.channels).toContain('#New secret');
+    });
+
+    it('should part the old channel when a mapping is changed or removed', async () => {
+      await createBot();
+      await bot.mapChannel('5678', '#first');
+      await bot.mapChannel('5678', '#second');
+
+      expect(partSpy).toHaveBeenCalledWith('#first');
+      expect(bot.invertedMapping['#first']).toBeUndefined();
+
+      expect(await bot.unmapChannel('5678')).toBe('#second');
+      expect(partSpy).toHaveBeenCalledWith('#second');
+      expect(bot.channelMapping['5678']).toBeUndefined();
+      expect(bot.channels).not.toContain('#second');
+      expect(await bot.persistence.getChannelMappings()).toEqual([]);
+    });
+
+    it('should map a second Discord channel to an IRC channel that is already bridged', async () => {
+      await createBot();
+      expect(await bot.mapChannel('5678', '#IRC')).toBe('#irc');
+      expect(await bot.mapChannel('9012', '#shared')).toBe('#shared');
+      expect(await bot.mapChannel('3456', '#shared')).toBe('#shared');
+
+      expect(bot.invertedMapping['#irc']).toBe('#discord');
+      expect(bot.invertedMapping['#shared']).toBe('9012');
+
+      await bot.unmapChannel('5678');
+      await bot.unmapChannel('9012');
+      expect(partSpy).not.toHaveBeenCalled();
+      expect(bot.invertedMapping['#shared']).toBe('3456');
+
+      await bot.unmapChannel('3456');
+      expect(partSpy).toHaveBeenCalledWith('#shared');
+      expect(bot.invertedMapping['#shared']).toBeUndefined();
+    });
+
+    it('should refuse to change config mappings or map unknown networks', async () => {
+      await createBot();
+
+      await expect(bot.mapChannel('1234', '#other')).rejects.toThrow('is mapped in the config file');
+      await expect(bot.unmapChannel('1234')).rejects.toThrow('is mapped in the config file');
+      await expect(bot.mapChannel('5678', 'oftc/#chan')).rejects.toThrow('Unknown IRC network "oftc"');
+      expect(await bot.unmapChannel('5678')).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import discord from 'discord.js';
+import Bot from '../lib/bot';
+import { mergeSettings, isDiscordOverrideKey } from '../lib/channel-settings';
+import { RateLimiter } from '../lib/rate-limiter';
+import useTestBot from './stubs/test-bot';
+
+vi.mock('../lib/logger', async () => await import('./stubs/logger-stub.js'));
+
+describe('mergeSettings', () => {
+  it('should merge objects and replace other values', () => {
+    const base = { format: { ircText: '<{$nickname}> {$text}', discord: '**<{$author}>** {$text}' }, commandCharacters: ['!', '.'], parallelPingFix: false };
+
+    const merged = mergeSettings(base, { format: { discord: '{$text}' }, commandCharacters: ['?'], parallelPingFix: undefined });
+
+    expect(merged).toEqual({ format: { ircText: '<{$nickname}> {$text}', discord: '{$text}' }, commandCharacters: ['?'], parallelPingFix: false });
+    expect(base.format.discord).toBe('**<{$author}>** {$text}');
+  });
+
+  it('should tell Discord channel IDs from IRC channels', () => {
+    expect(isDiscordOverrideKey('1234')).toBe(true);
+    expect(isDiscordOverrideKey('#irc')).toBe(false);
+  });
+});
+
+describe('RateLimiter limits', () => {
+  it('should apply limits passed with a message over its config', () => {
+    const limiter = new RateLimiter({ burstLimit: 5 });
+
+    expect(limiter.checkMessage('1', 'alice', 'one', { burstLimit: 1 })).toBeNull();
+    expect(limiter.checkMessage('1', 'alice', 'two', { burstLimit: 1 })).toMatch(/burst limit exceeded \(1\/1/);
+
+    limiter.destroy();
+  });
+});
+
+describe('Bot channel overrides', () => {
+  let bot: Bot;
+  let sendStub;
+  const testBot = useTestBot('channel-overrides');
+
+  const createBot = async (channelOverrides: Record<string, unknown>) => {
+    bot = await testBot.start({ channelOverrides }, sendStub);
+  };
+
+  beforeEach(() => {
+    sendStub = vi.fn();
+  });
+
+  it('should merge the Discord channel override over the IRC one', async () => {
+    await createBot({
+      '#IRC': { format: { discord: '[{$nickname}] {$text}' }, commandCharacters: ['?'] },
+      '1234': { format: { discord: '<{$nickname}> {$text}' } },
+    });
+
+    const settings = bot.getChannelSettings('#irc', '1234');
+
+    expect(settings.format.discord).toBe('<{$nickname}> {$text}');
+    expect(settings.commandCharacters).toEqual(['?']);
+    expect(settings.ignoreUsers.irc).toEqual(['irc_ignored_user']);
+    expect(bot.getChannelSettings('#otherirc').commandCharacters).toEqual(['!', '.']);
+  });
+
+  it('should relay with the channel format', async () => {
+    await createBot({ '#irc': { format: { discord: '[{$nickname}] {$text}' } } });
+
+    await bot.sendToDiscord('alice', '#irc', 'hello');
+
+    expect(sendStub).toHaveBeenCalledWith('[alice] hello');
+  });
+
+  it('should send coloured messages as ansi code blocks where the channel enables it', async () => {
+    await createBot({ '#irc': { format: { discord: '{$text}', ansiColors: true } } });
+
+    await bot.sendToDiscord('ci', '#irc', '\x0303passed\x03 \x0304failed\x03 \x0307skipped');
+    await bot.sendToDiscord('ci', '#irc', '\x0303passed\x03 only');
+
+    expect(sendStub).toHaveBeenCalledWith('```ansi\n\x1b[0;32mpassed\x1b[0m \x1b[0;31mfailed\x1b[0m \x1b[0;33mskipped\x1b[0m\n```');
+    expect(sendStub).toHaveBeenCalledWith('passed only');
+  });
+
+  it('should ignore users listed for the channel', async () => {
+    await createBot({ '#irc': { ignoreUsers: { irc: ['alice'] } } });
+
+    await bot.sendToDiscord('alice', '#irc', 'hello');
+    await bot.sendToDiscord('bob', '#irc', 'hello');
+
+    expect(sendStub).toHaveBeenCalledTimes(1);
+    expect(sendStub).toHaveBeenCalledWith('**<bob>** hello');
+  });
+
+  it('should ignore topic changes by users listed for the channel', async () => {
+    bot = await testBot.start({
+      channelMapping: { '1234': { channel: '#irc', topicSync: true } },
+      channelOverrides: { '1234': { ignoreUsers: { irc: ['alice'] } } },
+    }, sendStub);
+    const discordChannel = bot.discord.channels.cache.get('1234') as discord.TextChannel;
+    const setTopic = vi.spyOn(discordChannel, 'setTopic').mockResolvedValue(discordChannel);
+
+    bot.ircClient.emit('topic', '#irc', 'Ignored topic', 'alice', { command: 'TOPIC' });
+    bot.ircClient.emit('topic', '#irc', 'Synced topic', 'bob', { command: 'TOPIC' });
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(setTopic).toHaveBeenCalledTimes(1);
+    expect(setTopic).toHaveBeenCalledWith('Synced topic', 'Topic changed on IRC');
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import Bot from '../lib/bot';
+import ClientStub from './stubs/irc-client-stub';
+import useTestBot from './stubs/test-bot';
+
+vi.mock('../lib/logger', async () => await import('./stubs/logger-stub.js'));
+
+describe('Discord Buffer', () => {
+  let bot: Bot;
+  let sendStub;
+  const testBot = useTestBot('discord-buffer');
+
+  const setDiscordAvailable = (available: boolean) => {
+    vi.spyOn(bot.recoveryManager, 'isServiceAvailable').mockReturnValue(available);
+  };
+
+  const createBot = async ({ discordBuffer = {}, ...extraConfig }: { discordBuffer?: object; [key: string]: unknown } = {}) => {
+    bot = await testBot.start({ ...extraConfig, discordBuffer: { enabled: true, ...discordBuffer } }, sendStub);
+    vi.clearAllMocks();
+  };
+
+  beforeEach(() => {
+    sendStub = vi.fn();
+    ClientStub.prototype.say = vi.fn();
+    ClientStub.prototype.send = vi.fn();
+    ClientStub.prototype.join = vi.fn();
+  });
+
+  it('should buffer IRC messages while Discord is unavailable', async () => {
+    await createBot();
+    setDiscordAvailable(false);
+
+    await bot.sendToDiscord('alice', '#irc', 'first');
+    await bot.sendToDiscord('bob', '#irc', 'second');
+
+    expect(sendStub).not.toHaveBeenCalled();
+    expect(await bot.persistence.countBufferedDiscordMessages('#irc')).toBe(2);
+  });
+
+  it('should not buffer messages for unmapped channels', async () => {
+    await createBot();
+    setDiscordAvailable(false);
+
+    await bot.sendToDiscord('alice', '#no-irc', 'message');
+
+    expect(await bot.persistence.countBufferedDiscordMessages()).toBe(0);
+  });
+
+  it('should flush buffered messages in order once Discord is healthy again', async () => {
+    await createBot();
+    setDiscordAvailable(false);
+    await bot.sendToDiscord('alice', '#irc', 'first');
+    await bot.sendToDiscord('bob', '#irc', 'second');
+
+    setDiscordAvailable(true);
+    bot.recoveryManager.recordSuccess('discord');
+
+    await vi.waitFor(() => expect(sendStub).toHaveBeenCalledTimes(2));
+    expect(sendStub.mock.calls[0][0]).toBe('**<alice>** first');
+    expect(sendStub.mock.calls[1][0]).toBe('**<bob>** second');
+    await vi.waitFor(async () => expect(await bot.persistence.countBufferedDiscordMessages()).toBe(0));
+  });
+
+  it("should queue new messages behind a backlog that hasn't been flushed yet", async () => {
+    await createBot();
+    setDiscordAvailable(false);
+    await bot.sendToDiscord('alice', '#irc', 'while down');
+
+    // Discord is back, but no recovery has flushed the backlog, like after a restart
+    setDiscordAvailable(true);
+    await bot.sendToDiscord('bob', '#irc', 'once back');
+
+    expect(sendStub.mock.calls.map(([text]) => text)).toEqual(['**<alice>** while down', '**<bob>** once back']);
+    expect(await bot.persistence.countBufferedDiscordMessages()).toBe(0);
+  });
+
+  it('should rate limit IRC messages as they are buffered', async () => {
+    await createBot({ rateLimitConfig: { burstLimit: 2 } });
+    setDiscordAvailable(false);
+    await bot.sendToDiscord('alice', '#irc', 'while down');
+
+    for (let i = 0; i < 5; i += 1) {
+      await bot.sendToDiscord('flooder', '#irc', `flood ${i}`);
+    }
+    expect(await bot.persistence.countBufferedDiscordMessages('#irc')).toBe(3);
+
+    setDiscordAvailable(true);
+    await bot.flushDiscordBuffer();
+
+    expect(sendStub.mock.calls.map(([text]) => text)).toEqual([
+      '**<alice>** while down',
+      '**<flooder>** flood 0',
+      '**<flooder>** flood 1',
+    ]);
+  });
+
+  it('should drop buffered messages Discord rejects and flush the rest', async () => {
+    await createBot();
+    const dropped = vi.fn();
+    bot.on('relay:dropped', dropped);
+    setDiscordAvailable(false);
+    await bot.sendToDiscord('alice', '#irc', 'first');
+    await bot.sendToDiscord('bob', '#irc', 'rejected');
+    await bot.sendToDiscord('carol', '#irc', 'third');
+    sendStub.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('Missing Permissions'));
+
+    setDiscordAvailable(true);
+    await bot.flushDiscordBuffer();
+
+    expect(sendStub.mock.calls.map(([text]) => text)).toEqual(['**<alice>** first', '**<bob>** rejected', '**<carol>** third']);
+    expect(dropped).toHaveBeenCalledWith(expect.objectContaining({ author: 'bob', text: 'rejected', reason: 'undeliverable' }));
+    expect(await bot.persistence.countBufferedDiscordMessages()).toBe(0);
+
+    await bot.sendToDiscord('dave', '#irc', 'live again');
+    expect(sendStub).toHaveBeenLastCalledWith('**<dave>** live again');
+  });
+
+  it('should send large backlogs as a single digest with a transcript', async () => {
+    await createBot({ discordBuffer: { digestThreshold: 2 } });
+    setDiscordAvailable(false);
+    await bot.sendToDiscord('alice', '#irc', 'one');
+    await bot.sendToDiscord('bob', '#irc', 'two');
+    await bot.sendToDiscord('carol', '#irc', 'three');
+
+    setDiscordAvailable(true);
+    await bot.flushDiscordBuffer();
+
+    expect(sendStub).toHaveBeenCalledTimes(1);
+    const [payload] = sendStub.mock.calls[0];
+    expect(payload.content).toContain('3 messages');
+    expect(payload.files[0].name).toBe('irc-backlog.txt');
+
+    const transcript = payload.files[0].attachment.toString('utf8').split('\n');
+    expect(transcript).toHaveLength(3);
+    expect(transcript[0]).toMatch(/<alice> one$/);
+    expect(transcript[2]).toMatch(/<carol> three$/);
+    expect(await bot.persistence.countBufferedDiscordMessages()).toBe(0);
+  });
+
+  it('should keep the IRC server time of buffered messages', async () => {
+    await createBot();
+    setDiscordAvailable(false);
+    const serverTime = '2024-05-01T12:30:00.000Z';
+
+    await bot.sendToDiscord('alice', '#irc', 'sent earlier', {
+      command: 'PRIVMSG',
+      rawCommand: 'PRIVMSG',
+      commandType: 'normal',
+      args: ['#irc', 'sent earlier'],
+      tags: { time: serverTime },
+    });
+
+    const [buffered] = await bot.persistence.getBufferedDiscordMessages();
+    expect(buffered.createdAt).toBe(new Date(serverTime).getTime());
+  });
+
+  it('should drop messages unless buffering is enabled', async () => {
+    bot = await testBot.start({}, sendStub);
+    setDiscordAvailable(false);
+
+    await bot.sendToDiscord('alice', '#irc', 'message');
+
+    expect(bot.discordBufferConfig.enabled).toBe(false);
+    expect(await bot.persistence.countBufferedDiscordMessages()).toBe(0);
+  });
+
+  it('should drop messages when buffering is disabled', async () => {
+    await createBot({ discordBuffer: { enabled: false } });
+    setDiscordAvailable(false);
+
+    await bot.sendToDiscord('alice', '#irc', 'message');
+
+    expect(await bot.persistence.countBufferedDiscordMessages()).toBe(0);
+  });
+});
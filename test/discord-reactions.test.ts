@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import discord from 'discord.js';
+import Bot, { TEST_HACK_CHANNEL } from '../lib/bot';
+import ClientStub from './stubs/irc-client-stub';
+import useTestBot from './stubs/test-bot';
+
+vi.mock('../lib/logger', async () => await import('./stubs/logger-stub.js'));
+
+describe('Discord reactions', () => {
+  let bot: Bot;
+  let noticeMock;
+  const testBot = useTestBot('discord-reactions');
+
+  const createBot = async (reactions = {}, options = {}) => {
+    bot = await testBot.start({
+      reactions: { channels: ['#discord'], coalesceMs: 0, ...reactions },
+      ...options,
+    });
+    vi.spyOn(bot, 'isIRCConnected').mockReturnValue(true);
+  };
+
+  const messageIn = (channelName: string, fields = {}) => ({
+    id: 'msg1',
+    partial: false,
+    content: 'lunch?',
+    mentions: { users: [] },
+    author: { username: 'bob', id: 'bob-id' },
+    guild: null,
+    channel: { id: `${channelName}-id`, name: channelName, [TEST_HACK_CHANNEL]: true },
+    ...fields,
+  });
+
+  const react = (message, emoji: { name: string; id?: string }, removed = false) => {
+    const user = { id: 'alice-id', username: 'alice', bot: false, partial: false };
+    const reaction = { message, emoji: { id: null, ...emoji } };
+    bot.discord.emit(removed ? 'messageReactionRemove' : 'messageReactionAdd', reaction as never, user as never);
+  };
+
+  beforeEach(() => {
+    noticeMock = vi.fn();
+    ClientStub.prototype.say = vi.fn();
+    ClientStub.prototype.send = vi.fn();
+    ClientStub.prototype.join = vi.fn();
+    ClientStub.prototype.notice = noticeMock;
+  });
+
+  it('should relay a reaction as a notice quoting the message', async () => {
+    await createBot();
+
+    react(messageIn('discord'), { name: '👍' });
+
+    await vi.waitFor(() => expect(noticeMock).toHaveBeenCalledTimes(1));
+    expect(noticeMock).toHaveBeenCalledWith('#irc', '* alice reacted 👍 to bob: "lunch?"');
+  });
+
+  it('should attribute messages relayed from IRC to the IRC nick', async () => {
+    await createBot();
+    bot.messageSync.recordIRCMessage('msg1', '#irc', 'anyone up for lunch?', 'ircbob');
+
+    react(messageIn('discord', { author: { username: 'Reactiflux', id: 'testid' } }), { name: '🍕' });
+
+    await vi.waitFor(() => expect(noticeMock).toHaveBeenCalledTimes(1));
+    expect(noticeMock).toHaveBeenCalledWith('#irc', '* alice reacted 🍕 to ircbob: "anyone up for lunch?"');
+  });
+
+  it('should coalesce rapid reactions into one line', async () => {
+    await createBot({ coalesceMs: 50 });
+    const message = messageIn('discord');
+
+    react(message, { name: '👍' });
+    react(message, { name: '🎉' });
+
+    await vi.waitFor(() => expect(noticeMock).toHaveBeenCalledTimes(1));
+    expect(noticeMock).toHaveBeenCalledWith('#irc', '* alice reacted 👍 🎉 to bob: "lunch?"');
+  });
+
+  it('should use shortcodes when configured', async () => {
+    await createBot({ useShortcodes: true });
+
+    react(messageIn('discord'), { name: '👍' });
+    react(messageIn('discord', { id: 'msg2' }), { name: 'partyparrot', id: '12345' });
+
+    await vi.waitFor(() => expect(noticeMock).toHaveBeenCalledTimes(2));
+    expect(noticeMock).toHaveBeenCalledWith('#irc', '* alice reacted :thumbsup: to bob: "lunch?"');
+    expect(noticeMock).toHaveBeenCalledWith('#irc', '* alice reacted :partyparrot: to bob: "lunch?"');
+  });
+
+  it('should ignore channels that have not opted in', async () => {
+    await createBot();
+    vi.spyOn(bot.ircUserManager, 'hasCapability').mockImplementation(capability => capability === 'message-tags');
+    bot.messageSync.recordMsgid('irc-msgid', 'msg1');
+    const user = { id: 'alice-id', partial: true, fetch: vi.fn() };
+
+    bot.discord.emit('messageReactionAdd', { message: messageIn('notinchannel'), emoji: { id: null, name: '👍' } } as never, user as never);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(noticeMock).not.toHaveBeenCalled();
+    expect(bot.ircClient.send).not.toHaveBeenCalledWith(expect.stringContaining('+draft/react'), 'TAGMSG', expect.anything());
+    expect(user.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should only relay removals when enabled', async () => {
+    await createBot();
+    react(messageIn('discord'), { name: '👍' }, true);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(noticeMock).not.toHaveBeenCalled();
+
+    bot.reactionConfig.relayRemovals = true;
+    react(messageIn('discord'), { name: '👍' }, true);
+
+    await vi.waitFor(() => expect(noticeMock).toHaveBeenCalledTimes(1));
+    expect(noticeMock).toHaveBeenCalledWith('#irc', '* alice removed 👍 from bob: "lunch?"');
+  });
+
+  it('should send a +draft/react tag for messages with a known msgid', async () => {
+    await createBot();
+    vi.spyOn(bot.ircUserManager, 'hasCapability').mockImplementation(capability => capability === 'message-tags');
+    bot.messageSync.recordMsgid('irc-msgid', 'msg1');
+
+    react(messageIn('discord'), { name: '👍' });
+
+    await vi.waitFor(() => expect(bot.ircClient.send).toHaveBeenCalledWith(
+      '@+draft/react=👍;+draft/reply=irc-msgid',
+      'TAGMSG',
+      '#irc',
+    ));
+  });
+
+  it("should send reactions for another network's channels through that network", async () => {
+    await createBot({}, {
+      networks: { libera: { server: 'irc.libera.chat' } },
+      channelMapping: { '#discord': 'libera/#bridged' },
+    });
+    const network = bot.networks.get('libera')!;
+    vi.spyOn(network.userManager, 'hasCapability').mockImplementation(capability => capability === 'message-tags');
+    bot.messageSync.recordMsgid('irc-msgid', 'msg1');
+    const send = vi.spyOn(network.client, 'send');
+    const isConnected = vi.spyOn(bot, 'isIRCConnected').mockReturnValue(true);
+
+    try {
+      react(messageIn('discord'), { name: '👍' });
+
+      await vi.waitFor(() => expect(noticeMock).toHaveBeenCalledWith('#bridged', '* alice reacted 👍 to bob: "lunch?"'));
+      expect(noticeMock.mock.contexts[0]).toBe(network.client);
+      expect(isConnected).toHaveBeenCalledWith('libera');
+      expect(send).toHaveBeenCalledWith('@+draft/react=👍;+draft/reply=irc-msgid', 'TAGMSG', '#bridged');
+      expect(send.mock.contexts[0]).toBe(network.client);
+    } finally {
+      network.disconnect();
+    }
+  });
+
+  it('should add IRC reactions to the bridged Discord message', async () => {
+    await createBot();
+    const reactMock = vi.fn();
+    const discordChannel = bot.discord.channels.cache.find(channel => (channel as discord.TextChannel).name === 'discord') as discord.TextChannel;
+    const fetchMock = vi.spyOn(discordChannel.messages, 'fetch').mockResolvedValue({ react: reactMock } as never);
+    bot.messageSync.recordMsgid('irc-msgid', 'msg1');
+
+    bot.ircClient.emit('raw', {
+      nick: 'ircuser',
+      command: 'TAGMSG',
+      rawCommand: 'TAGMSG',
+      commandType: 'normal',
+      args: ['#irc'],
+      tags: { '+draft/react': '🎉', '+draft/reply': 'irc-msgid' },
+    });
+
+    await vi.waitFor(() => expect(reactMock).toHaveBeenCalledWith('🎉'));
+    expect(fetchMock).toHaveBeenCalledWith('msg1');
+  });
+});
+
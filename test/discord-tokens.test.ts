@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { formatAbsoluteTime, formatRelativeTime, isValidTimezone, renderDiscordTokens } from '../lib/discord-tokens';
+import { replaceEmojiWithShortcodes } from '../lib/emoji-shortcodes';
+
+const config = { timezone: 'UTC', timestamps: 'absolute' as const, emojiShortcodes: false, animatedEmojiLinks: false };
+const now = 1700000000 * 1000;
+
+describe('Discord tokens', () => {
+  it('should show timestamps with the detail of their style', () => {
+    expect(formatAbsoluteTime(1700000000, 't')).toBe('22:13 UTC');
+    expect(formatAbsoluteTime(1700000000, 'T')).toBe('22:13:20 UTC');
+    expect(formatAbsoluteTime(1700000000, 'D')).toBe('2023-11-14');
+    expect(formatAbsoluteTime(1700000000, 'F')).toBe('Tue 2023-11-14 22:13 UTC');
+    expect(formatAbsoluteTime(1700000000, undefined, 'Asia/Tokyo')).toBe('2023-11-15 07:13 GMT+9');
+  });
+
+  it('should show relative timestamps', () => {
+    expect(formatRelativeTime(1700000000 + 7200, now)).toBe('in 2 hours');
+    expect(formatRelativeTime(1700000000 - 3 * 86400, now)).toBe('3 days ago');
+    expect(formatRelativeTime(1700000000, now)).toBe('now');
+  });
+
+  it('should render the tokens in message text', () => {
+    const text = 'Starts <t:1700003600:t>, <t:1700003600:R>. See </help:42> <:blob:1> <a:party:2>';
+
+    expect(renderDiscordTokens(text, config, now)).toBe('Starts 23:13 UTC, in 1 hour. See /help :blob: :party:');
+    expect(renderDiscordTokens(text, { ...config, timestamps: 'relative', animatedEmojiLinks: true }, now)).toBe(
+      'Starts in 1 hour, in 1 hour. See /help :blob: :party: <https://cdn.discordapp.com/emojis/2.gif>',
+    );
+  });
+
+  it('should leave timestamps beyond the range of dates as they are', () => {
+    const text = 'then <t:9999999999999> or <t:-9999999999999:f>';
+
+    expect(renderDiscordTokens(text, config, now)).toBe(text);
+    expect(renderDiscordTokens(text, { ...config, timestamps: 'relative' }, now)).toBe(text);
+  });
+
+  it('should name unicode emoji', () => {
+    expect(replaceEmojiWithShortcodes('nice 👍 ❤️ 🦩 ©')).toBe('nice :thumbsup: :heart: 🦩 ©');
+    expect(renderDiscordTokens('🎉', { ...config, emojiShortcodes: true })).toBe(':tada:');
+  });
+
+  it('should check time zones', () => {
+    expect(isValidTimezone('Europe/Berlin')).toBe(true);
+    expect(isValidTimezone('Mars/Olympus')).toBe(false);
+  });
+});
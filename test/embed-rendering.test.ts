@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import type { MessageEmbed } from 'discord.js';
+import { EmbedConfig, getEmbedMode, nearestIRCColor, renderEmbeds } from '../lib/embed-rendering';
+
+const config: EmbedConfig = { mode: 'full', maxLines: 10, colorHints: false, sources: {} };
+
+const embed = (fields: Partial<MessageEmbed>) => ({ fields: [], color: null, ...fields }) as unknown as MessageEmbed;
+
+const pullRequest = embed({
+  author: { name: 'alice' } as MessageEmbed['author'],
+  title: '#42 Fix the build',
+  url: 'https://github.com/org/repo/pull/42',
+  description: 'Fixes the build\n\non Windows',
+  footer: { text: 'GitHub' },
+  color: 0x2ea043,
+});
+
+describe('embed rendering', () => {
+  it('should render every part of an embed on lines of their own', () => {
+    expect(renderEmbeds([pullRequest], config)).toEqual([
+      'alice',
+      '\x02#42 Fix the build\x02',
+      'https://github.com/org/repo/pull/42',
+      'Fixes the build',
+      'on Windows',
+      'GitHub',
+    ]);
+  });
+
+  it('should cut embeds off after the maximum number of lines', () => {
+    expect(renderEmbeds([pullRequest, pullRequest], { ...config, maxLines: 3 })).toEqual([
+      'alice',
+      '\x02#42 Fix the build\x02',
+      '… (4 more lines)',
+      'alice',
+      '\x02#42 Fix the build\x02',
+      '… (4 more lines)',
+    ]);
+  });
+
+  it('should render an embed on one line in compact mode', () => {
+    expect(renderEmbeds([pullRequest, embed({ url: 'https://example.com' })], config, 'compact')).toEqual([
+      '[#42 Fix the build] Fixes the build on Windows — https://github.com/org/repo/pull/42',
+      'https://example.com',
+    ]);
+  });
+
+  it('should start embeds with a hint of their colour', () => {
+    expect(nearestIRCColor(0xff1010)).toBe(4);
+    expect(nearestIRCColor(0x2ea043)).toBe(3);
+    expect(renderEmbeds([pullRequest], { ...config, colorHints: true }, 'compact')[0]).toBe(
+      '\x0303▌\x03 [#42 Fix the build] Fixes the build on Windows — https://github.com/org/repo/pull/42',
+    );
+  });
+
+  it('should pick the mode of the source', () => {
+    const sources: EmbedConfig = { ...config, sources: { '555': 'compact' } };
+
+    expect(getEmbedMode(sources, [null, '555'])).toBe('compact');
+    expect(getEmbedMode(sources, ['666', '123'])).toBe('full');
+  });
+});
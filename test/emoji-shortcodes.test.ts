@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { convertToEmoji, emojiToShortcode, getShortcodeEmoji } from '../lib/emoji-shortcodes';
+
+const both = { shortcodes: true, emoticons: true };
+
+describe('emoji shortcodes', () => {
+  it('should name emoji with or without variation selectors and skin tones', () => {
+    expect(emojiToShortcode('❤️')).toBe(':heart:');
+    expect(emojiToShortcode('❤')).toBe(':heart:');
+    expect(emojiToShortcode('👍🏽')).toBe(':thumbsup:');
+    expect(emojiToShortcode('🦩')).toBe('🦩');
+  });
+
+  it('should find emoji for shortcodes and their aliases', () => {
+    expect(getShortcodeEmoji('tada')).toBe('🎉');
+    expect(getShortcodeEmoji('+1')).toBe('👍');
+    expect(getShortcodeEmoji('not_an_emoji')).toBeUndefined();
+  });
+
+  it('should convert only what is enabled', () => {
+    const text = 'nice :tada: :)';
+
+    expect(convertToEmoji(text, { shortcodes: false, emoticons: false })).toBe(text);
+    expect(convertToEmoji(text, { shortcodes: true, emoticons: false })).toBe('nice 🎉 :)');
+    expect(convertToEmoji(text, { shortcodes: false, emoticons: true })).toBe('nice :tada: 🙂');
+  });
+
+  it('should only convert emoticons standing on their own', () => {
+    expect(convertToEmoji(':D great, see you then ;) <3!', both)).toBe('😄 great, see you then 😉 ❤️!');
+    expect(convertToEmoji('f(x:) or a:) or 12:30:45 :unknown:', both)).toBe('f(x:) or a:) or 12:30:45 :unknown:');
+  });
+
+  it('should leave code, URLs and custom emoji alone', () => {
+    expect(convertToEmoji('`:tada: :)` ```\n<3\n``` <:tada:1> http://x.io/:tada: :tada:', both))
+      .toBe('`:tada: :)` ```\n<3\n``` <:tada:1> http://x.io/:tada: 🎉');
+  });
+});
@@ -1,8 +1,10 @@
 import { describe, it, expect } from 'vitest';
 import {
+  DiscordToIRCOptions,
   formatFromDiscordToIRC,
   formatFromIRCToDiscord,
 } from '../lib/formatting';
+import markdownToIRC from './fixtures/markdown-to-irc.json';
 
 describe('Formatting', () => {
   describe('Discord to IRC', () => {
@@ -19,8 +21,8 @@ describe('Formatting', () => {
       expect(formatFromDiscordToIRC('__text__')).toEqual('\x1ftext\x1f');
     });
 
-    it('should ignore strikethrough markdown', () => {
-      expect(formatFromDiscordToIRC('~~text~~')).toEqual('text');
+    it('should convert strikethrough markdown', () => {
+      expect(formatFromDiscordToIRC('~~text~~')).toEqual('\x1etext\x1e');
     });
 
     it('should convert nested markdown', () => {
@@ -30,6 +32,13 @@ describe('Formatting', () => {
     });
   });
 
+  describe('Discord to IRC golden file', () => {
+    it.each(markdownToIRC)('should convert $name', ({ discord, irc, ...rest }) => {
+      const options = 'options' in rest ? rest.options : {};
+      expect(formatFromDiscordToIRC(discord, options as DiscordToIRCOptions)).toEqual(irc);
+    });
+  });
+
   describe('IRC to Discord', () => {
     it('should convert bold IRC format', () => {
       expect(formatFromIRCToDiscord('\x02text\x02')).toEqual('**text**');
@@ -51,6 +60,32 @@ describe('Formatting', () => {
       expect(formatFromIRCToDiscord('\x0306,08text\x03')).toEqual('text');
     });
 
+    it('should convert strikethrough and monospace IRC format', () => {
+      expect(formatFromIRCToDiscord('\x1etext\x1e')).toEqual('~~text~~');
+      expect(formatFromIRCToDiscord('\x11text\x11')).toEqual('`text`');
+      expect(formatFromIRCToDiscord('\x1eopen\x0f closed')).toEqual('~~open~~ closed');
+    });
+
+    it('should not put other markdown inside code', () => {
+      expect(formatFromIRCToDiscord('\x02bold \x11code\x11 bold\x02')).toEqual(
+        '**bold **`code`** bold**',
+      );
+    });
+
+    it('should convert matching colours to spoilers', () => {
+      expect(formatFromIRCToDiscord('the butler \x0301,01did it\x03')).toEqual('the butler ||did it||');
+    });
+
+    it('should send heavily coloured text as an ansi code block', () => {
+      const text = '\x0304red\x03 \x0303green\x03 \x02\x0312blue';
+
+      expect(formatFromIRCToDiscord(text)).toEqual('red green **blue**');
+      expect(formatFromIRCToDiscord(text, { ansiColors: true })).toEqual(
+        '```ansi\n\x1b[0;31mred\x1b[0m \x1b[0;32mgreen\x1b[0m \x1b[0;1;34mblue\x1b[0m\n```',
+      );
+      expect(formatFromIRCToDiscord('\x0304red\x03 only', { ansiColors: true })).toEqual('red only');
+    });
+
     it('should convert nested IRC format', () => {
       expect(formatFromIRCToDiscord('\x02bold \x16italics\x16\x02')).toEqual(
         '**bold *italics***',
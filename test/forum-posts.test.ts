@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import discord from 'discord.js';
+import Bot from '../lib/bot';
+import { FORUM_REPLY_PATTERN, formatForumPost, getShortId } from '../lib/forum-posts';
+import ClientStub from './stubs/irc-client-stub';
+import useTestBot from './stubs/test-bot';
+
+vi.mock('../lib/logger', async () => await import('./stubs/logger-stub.js'));
+
+describe('forum posts', () => {
+  it('should derive short IDs from thread IDs', () => {
+    expect(getShortId('1203456789012345678')).toBe(BigInt('1203456789012345678').toString(36).slice(-5));
+    expect(getShortId('4001')).toBe('335');
+  });
+
+  it('should describe posts for IRC', () => {
+    const post = { shortId: '1a2b3', id: '1', forumId: '2', title: 'App crashes', tags: ['bug', 'help'], ownerId: null, createdTimestamp: null };
+
+    expect(formatForumPost(post, 'alice')).toBe('[1a2b3] "App crashes" [bug, help] by alice');
+    expect(formatForumPost({ ...post, tags: [] })).toBe('[1a2b3] "App crashes"');
+  });
+
+  it('should recognise replies to posts', () => {
+    expect(FORUM_REPLY_PATTERN.exec('!reply 1a2b3 try restarting')?.slice(1)).toEqual(['1a2b3', 'try restarting']);
+    expect(FORUM_REPLY_PATTERN.test('!reply 1a2b3')).toBe(false);
+  });
+});
+
+describe('Bot forum channels', () => {
+  let bot: Bot;
+  let sendStub;
+  let sayStub;
+  let noticeStub;
+  let forum;
+  const testBot = useTestBot('forum-posts');
+
+  const createPost = (id: string, name: string) => {
+    const thread = {
+      id,
+      name,
+      type: 'GUILD_PUBLIC_THREAD',
+      archived: false,
+      parent: forum,
+      guild: forum.guild,
+      appliedTags: ['t1'],
+      ownerId: 'author',
+      createdTimestamp: Number(id),
+      isThread: () => true,
+      send: sendStub,
+    };
+    forum.threads.cache.set(id, thread);
+    bot.discord.channels.cache.set(id, thread as never);
+    return thread as unknown as discord.ThreadChannel;
+  };
+
+  beforeEach(async () => {
+    sendStub = vi.fn();
+    sayStub = vi.spyOn(ClientStub.prototype, 'say');
+    noticeStub = vi.spyOn(ClientStub.prototype, 'notice');
+
+    bot = testBot.create({ ircNickColor: false, channelMapping: { '1234': '#irc', '4000': '#help' } }, sendStub);
+    const guild = bot.discord.guilds.cache.first();
+    forum = {
+      id: '4000',
+      name: 'help',
+      type: 'GUILD_FORUM',
+      guild,
+      availableTags: [{ id: 't1', name: 'bug' }],
+      threads: { cache: new discord.Collection() },
+    };
+    bot.discord.channels.cache.set(forum.id, forum);
+    bot.discord.users.cache.set('author', { id: 'author', username: 'alice' } as never);
+    await bot.connect();
+    await new Promise(resolve => setImmediate(resolve));
+    vi.spyOn(bot, 'isIRCConnected').mockReturnValue(true);
+  });
+
+  it('should announce new posts and relay their messages with the short ID', async () => {
+    const post = createPost('4001', 'App crashes');
+
+    bot.discord.emit('threadCreate', post, true);
+    await new Promise(resolve => setImmediate(resolve));
+    await bot.sendToIRC({
+      id: '4001',
+      content: 'It crashes on start',
+      mentions: { users: [] },
+      attachments: new discord.Collection(),
+      channel: post,
+      author: { id: 'author', username: 'alice' },
+      guild: forum.guild,
+    } as unknown as discord.Message);
+
+    expect(noticeStub).toHaveBeenCalledWith('#help', 'New forum post [335] "App crashes" [bug] by alice, answer with !reply 335 <text>');
+    expect(sayStub).toHaveBeenCalledWith('#help', '[335] <alice> It crashes on start');
+  });
+
+  it('should only relay replies to posts from IRC', async () => {
+    const post = createPost('4001', 'App crashes');
+
+    await bot.sendToDiscord('bob', '#help', 'anyone around?');
+    await bot.sendToDiscord('bob', '#help', '!reply 335 try restarting');
+    await bot.sendToDiscord('bob', '#help', '!reply zzz hello');
+
+    expect(sendStub).toHaveBeenCalledTimes(1);
+    expect(sendStub).toHaveBeenCalledWith('**<bob>** try restarting');
+    expect(sendStub.mock.contexts[0]).toBe(post);
+    expect(noticeStub).toHaveBeenCalledWith('bob', "There's no open forum post with ID zzz");
+  });
+
+  it('should list open posts on IRC', () => {
+    createPost('4001', 'App crashes');
+    createPost('4002', 'Feature idea');
+
+    expect(bot.getForumPosts().map(post => post.title)).toEqual(['Feature idea', 'App crashes']);
+    expect(bot.announceForumPosts('4000')).toBe(2);
+    expect(noticeStub).toHaveBeenLastCalledWith('#help', '[335] "App crashes" [bug]');
+    expect(() => bot.announceForumPosts('1234')).toThrow("isn't a bridged forum");
+  });
+});
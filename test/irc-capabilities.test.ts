@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import parseMessage from 'irc-upd/lib/parse_message';
+import { CapabilityNegotiator, parseMessageTags, getServerTime, getAccountTag } from '../lib/irc/capabilities';
+import { EchoTracker } from '../lib/irc/echo-tracker';
+import { IRCUserManager } from '../lib/irc-user-manager';
+
+vi.mock('../lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+class FakeClient extends EventEmitter {
+  nick = 'bridge';
+  opt: { sasl?: boolean } = {};
+  send = vi.fn();
+  whois = vi.fn();
+
+  // Feed a line through irc-upd's parser, the same way the real client does
+  receive(line: string) {
+    this.emit('raw', parseMessage(line, false));
+  }
+}
+
+describe('IRCv3 capabilities', () => {
+  let client: FakeClient;
+  let negotiator: CapabilityNegotiator;
+
+  beforeEach(() => {
+    client = new FakeClient();
+    negotiator = new CapabilityNegotiator(client);
+  });
+
+  describe('negotiation', () => {
+    it('should request the supported capabilities the server offers', () => {
+      client.emit('connect');
+      expect(client.send).toHaveBeenCalledWith('CAP', 'LS', '302');
+
+      client.receive(':irc.example.com CAP * LS * :multi-prefix sasl=PLAIN,EXTERNAL server-time');
+      expect(client.send).toHaveBeenCalledTimes(1);
+
+      client.receive(':irc.example.com CAP * LS :account-tag echo-message draft/typing');
+      expect(client.send).toHaveBeenLastCalledWith('CAP', 'REQ', 'server-time account-tag echo-message');
+    });
+
+    it('should record acknowledged capabilities and end negotiation', () => {
+      client.emit('connect');
+      client.receive(':irc.example.com CAP * LS :server-time echo-message');
+      client.receive(':irc.example.com CAP bridge ACK :server-time echo-message');
+
+      expect(negotiator.getEnabled()).toEqual(new Set(['server-time', 'echo-message']));
+      expect(negotiator.isEnabled('echo-message')).toBe(true);
+      expect(client.send).toHaveBeenLastCalledWith('CAP', 'END');
+    });
+
+    it('should end negotiation straight away when nothing is offered', () => {
+      client.emit('connect');
+      client.receive(':irc.example.com CAP * LS :multi-prefix');
+
+      expect(client.send).toHaveBeenLastCalledWith('CAP', 'END');
+      expect(negotiator.getEnabled().size).toBe(0);
+    });
+
+    it('should leave CAP END to irc-upd while SASL is in progress', () => {
+      client.opt.sasl = true;
+      client.emit('connect');
+      client.receive(':irc.example.com CAP * LS :sasl server-time');
+      client.receive(':irc.example.com CAP bridge ACK :server-time');
+
+      expect(client.send).not.toHaveBeenCalledWith('CAP', 'END');
+    });
+
+    it('should not report rejected requests as connection errors', () => {
+      const onError = vi.fn();
+      client.on('error', onError);
+      client.emit('connect');
+      client.receive(':irc.example.com CAP * LS :server-time');
+
+      // irc-upd reports every NAK as an error as well
+      client.receive(':irc.example.com CAP bridge NAK :server-time');
+      client.emit('error', parseMessage(':irc.example.com CAP bridge NAK :server-time', false));
+
+      expect(onError).not.toHaveBeenCalled();
+      expect(client.send).toHaveBeenLastCalledWith('CAP', 'END');
+    });
+
+    it('should follow capabilities added and removed at runtime', () => {
+      client.emit('connect');
+      client.receive(':irc.example.com CAP * LS :server-time');
+      client.receive(':irc.example.com CAP bridge ACK :server-time');
+
+      client.receive(':irc.example.com CAP bridge NEW :away-notify');
+      expect(client.send).toHaveBeenLastCalledWith('CAP', 'REQ', 'away-notify');
+
+      client.receive(':irc.example.com CAP bridge DEL :server-time');
+      expect(negotiator.isEnabled('server-time')).toBe(false);
+    });
+  });
+
+  describe('message tags', () => {
+    it('should parse and unescape tag values', () => {
+      expect(parseMessageTags('time=2024-01-01T00:00:00.000Z;account=alice;+draft/reply=abc;flag;msg=a\\sb\\:c'))
+        .toEqual({
+          time: '2024-01-01T00:00:00.000Z',
+          account: 'alice',
+          '+draft/reply': 'abc',
+          flag: true,
+          msg: 'a b;c',
+        });
+    });
+
+    it('should let irc-upd listeners see the message without its tags', () => {
+      const onRaw = vi.fn();
+      client.on('raw', onRaw);
+
+      client.receive('@time=2024-05-01T12:30:00.000Z;account=alice :alice!a@host PRIVMSG #chan :hello there');
+
+      const message = onRaw.mock.calls[0][0];
+      expect(message.command).toBe('PRIVMSG');
+      expect(message.nick).toBe('alice');
+      expect(message.args).toEqual(['#chan', 'hello there']);
+      expect(getServerTime(message)).toEqual(new Date('2024-05-01T12:30:00.000Z'));
+      expect(getAccountTag(message)).toBe('alice');
+    });
+
+    it('should handle tagged messages without a prefix', () => {
+      const onRaw = vi.fn();
+      client.on('raw', onRaw);
+
+      client.receive('@time=2024-05-01T12:30:00.000Z PING :irc.example.com');
+
+      expect(onRaw.mock.calls[0][0]).toMatchObject({ command: 'PING', args: ['irc.example.com'] });
+    });
+
+    it('should track the type of open batches', () => {
+      client.receive(':irc.example.com BATCH +abc chathistory #chan');
+      const onRaw = vi.fn();
+      client.on('raw', onRaw);
+      client.receive('@batch=abc :alice!a@host PRIVMSG #chan :old message');
+
+      expect(negotiator.getBatchType(onRaw.mock.calls[0][0])).toBe('chathistory');
+
+      client.receive(':irc.example.com BATCH -abc');
+      expect(negotiator.getBatchType(onRaw.mock.calls[0][0])).toBeUndefined();
+    });
+  });
+
+  describe('IRCUserManager', () => {
+    let manager: IRCUserManager;
+
+    beforeEach(() => {
+      client = new FakeClient();
+      manager = new IRCUserManager(client as never);
+      client.emit('connect');
+      client.receive(':irc.example.com CAP * LS :extended-join away-notify chghost account-tag');
+      client.receive(':irc.example.com CAP bridge ACK :extended-join away-notify chghost account-tag');
+      client.emit('join', '#chan', 'alice');
+    });
+
+    it('should expose the negotiated capabilities', () => {
+      expect(manager.hasCapability('extended-join')).toBe(true);
+      expect(manager.hasCapability('echo-message')).toBe(false);
+      expect(manager.getCapabilities()).toEqual(new Set(['extended-join', 'away-notify', 'chghost', 'account-tag']));
+    });
+
+    it('should take account names from extended-join and account tags', () => {
+      client.receive(':alice!a@host JOIN #chan alice_acct :Alice Liddell');
+      expect(manager.getUserInfo('alice')).toMatchObject({ account: 'alice_acct', realname: 'Alice Liddell' });
+
+      client.receive('@account=renamed :alice!a@host PRIVMSG #chan :hi');
+      expect(manager.getUserInfo('alice')?.account).toBe('renamed');
+    });
+
+    it('should follow away-notify and chghost updates', () => {
+      client.receive(':alice!a@host AWAY :lunch');
+      expect(manager.getUserInfo('alice')).toMatchObject({ isAway: true, awayMessage: 'lunch' });
+
+      client.receive(':alice!a@host AWAY');
+      expect(manager.getUserInfo('alice')?.isAway).toBe(false);
+
+      client.receive(':alice!a@host CHGHOST alice new.host.example');
+      expect(manager.getUserInfo('alice')).toMatchObject({ username: 'alice', hostname: 'new.host.example' });
+    });
+  });
+});
+
+describe('EchoTracker', () => {
+  let tracker: EchoTracker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    tracker = new EchoTracker(1000);
+  });
+
+  afterEach(() => {
+    tracker.clear();
+    vi.useRealTimers();
+  });
+
+  it('should resolve with the latency once the echo arrives', async () => {
+    const echo = tracker.expect('#Chan', 'hello');
+    vi.advanceTimersByTime(250);
+
+    expect(tracker.confirm('#chan', 'hello', 'msg-1')).toBe(true);
+    expect(await echo).toEqual({ latencyMs: 250, msgid: 'msg-1' });
+  });
+
+  it('should resolve with null when no echo arrives in time', async () => {
+    const echo = tracker.expect('#chan', 'hello');
+    vi.advanceTimersByTime(1000);
+
+    expect(await echo).toBeNull();
+    expect(tracker.confirm('#chan', 'hello')).toBe(false);
+  });
+
+  it('should match repeated lines in the order they were sent', async () => {
+    const first = tracker.expect('#chan', 'same');
+    vi.advanceTimersByTime(100);
+    const second = tracker.expect('#chan', 'same');
+
+    tracker.confirm('#chan', 'same');
+    expect(await first).toMatchObject({ latencyMs: 100 });
+
+    vi.advanceTimersByTime(50);
+    tracker.confirm('#chan', 'same');
+    expect(await second).toMatchObject({ latencyMs: 50 });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { IRCNetwork, parseIRCTarget, qualifyIRCChannel } from '../lib/irc/network';
+
+vi.mock('../lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+// Registers as soon as it connects
+class FakeClient extends EventEmitter {
+  nick: string;
+  readyState = 'open';
+  connect = vi.fn(() => {
+    setImmediate(() => this.emit('registered'));
+  });
+  disconnect = vi.fn();
+  send = vi.fn();
+  join = vi.fn();
+  part = vi.fn();
+
+  constructor(nick: string) {
+    super();
+    this.nick = nick;
+  }
+}
+
+describe('parseIRCTarget', () => {
+  it('should split network-qualified targets', () => {
+    expect(parseIRCTarget('Libera/#Chan')).toEqual({ network: 'libera', channel: '#Chan' });
+    expect(parseIRCTarget('oftc/&local')).toEqual({ network: 'oftc', channel: '&local' });
+  });
+
+  it('should leave plain channels alone', () => {
+    expect(parseIRCTarget('#chan')).toEqual({ channel: '#chan' });
+    expect(parseIRCTarget('#a/b')).toEqual({ channel: '#a/b' });
+  });
+
+  it('should qualify channels in lower case', () => {
+    expect(qualifyIRCChannel('libera', '#Chan')).toBe('libera/#chan');
+  });
+});
+
+describe('IRCNetwork', () => {
+  let clients: FakeClient[];
+  let network: IRCNetwork;
+
+  const createNetwork = () => new IRCNetwork({
+    name: 'libera',
+    server: 'irc.libera.chat',
+    nickname: 'bridge',
+    channels: ['#chan key'],
+    autoSendCommands: [['MODE', 'bridge', '+B']],
+    recovery: { baseDelay: 1, jitterRange: 0, maxRetries: 2 },
+    createClient: (server, nickname, channels) => {
+      const client = new FakeClient(nickname);
+      clients.push(client);
+      expect(channels).toEqual(['#chan key']);
+      return client;
+    },
+  });
+
+  beforeEach(() => {
+    clients = [];
+    network = createNetwork();
+  });
+
+  afterEach(() => {
+    network.disconnect();
+  });
+
+  it('should connect and send its auto-send commands once registered', async () => {
+    const registered = vi.fn();
+    network.on('registered', registered);
+    network.connect();
+
+    await vi.waitFor(() => expect(registered).toHaveBeenCalled());
+    expect(clients[0].connect).toHaveBeenCalledWith(0);
+    expect(clients[0].send).toHaveBeenCalledWith('MODE', 'bridge', '+B');
+    expect(network.isConnected()).toBe(true);
+  });
+
+  it('should pass on channel messages with the qualified channel name', () => {
+    const messages = vi.fn();
+    const notices = vi.fn();
+    network.on('message', messages);
+    network.on('notice', notices);
+    network.connect();
+
+    clients[0].emit('message', 'alice', '#Chan', 'hello');
+    clients[0].emit('message', 'bridge', '#chan', 'our own echo');
+    clients[0].emit('notice', undefined, 'bridge', 'server notice');
+
+    expect(messages).toHaveBeenCalledTimes(1);
+    expect(messages).toHaveBeenCalledWith('alice', 'libera/#chan', 'hello', undefined);
+    expect(notices).not.toHaveBeenCalled();
+  });
+
+  it('should reconnect through its own recovery manager', async () => {
+    network.connect();
+    await vi.waitFor(() => expect(network.isConnected()).toBe(true));
+
+    clients[0].emit('abort');
+    expect(network.isConnected()).toBe(false);
+
+    await vi.waitFor(() => expect(clients).toHaveLength(2));
+    await vi.waitFor(() => expect(network.isConnected()).toBe(true));
+    expect(clients[0].disconnect).toHaveBeenCalledWith('Reconnecting');
+    expect(network.recoveryManager.getHealthStatus().irc.isHealthy).toBe(true);
+  });
+});
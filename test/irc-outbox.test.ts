@@ -0,0 +1,211 @@
+/* eslint-disable @typescript-eslint/require-await, @typescript-eslint/unbound-method */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import discord from 'discord.js';
+import { PersistenceService } from '../lib/persistence';
+import Bot from '../lib/bot';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import ClientStub from './stubs/irc-client-stub';
+import useTestBot from './stubs/test-bot';
+
+vi.mock('../lib/logger', async () => await import('./stubs/logger-stub.js'));
+
+describe('IRC Outbox Persistence', () => {
+  let persistence: PersistenceService;
+  const dbPath = path.join(os.tmpdir(), `test-outbox-${Date.now()}.sqlite`);
+
+  const queue = async (ircChannel: string, discordMessageId: string, content = 'hello') =>
+    persistence.enqueueOutboxMessage({
+      ircChannel,
+      discordChannelId: '1234',
+      discordMessageId,
+      authorId: '42',
+      content
+    });
+
+  beforeEach(async () => {
+    persistence = new PersistenceService(dbPath);
+    await persistence.initialize();
+  });
+
+  afterEach(async () => {
+    await persistence.close();
+    if (fs.existsSync(dbPath)) {
+      fs.unlinkSync(dbPath);
+    }
+  });
+
+  it('should return queued messages in insertion order', async () => {
+    await queue('#Test', 'm1', 'first');
+    await queue('#test', 'm2', 'second');
+    await queue('#other', 'm3', 'third');
+
+    const all = await persistence.getOutboxMessages();
+    expect(all.map(m => m.discordMessageId)).toEqual(['m1', 'm2', 'm3']);
+
+    const channel = await persistence.getOutboxMessages('#TEST');
+    expect(channel).toHaveLength(2);
+    expect(channel[0].ircChannel).toBe('#test'); // Stored as lowercase
+    expect(channel[0].content).toBe('first');
+    expect(channel[0].authorId).toBe('42');
+    expect(channel[0].createdAt).toBeGreaterThan(0);
+  });
+
+  it('should count messages per channel', async () => {
+    await queue('#test', 'm1');
+    await queue('#test', 'm2');
+    await queue('#other', 'm3');
+
+    expect(await persistence.countOutboxMessages('#Test')).toBe(2);
+    expect(await persistence.countOutboxMessages('#empty')).toBe(0);
+  });
+
+  it('should delete delivered messages', async () => {
+    const id = await queue('#test', 'm1');
+    await queue('#test', 'm2');
+
+    await persistence.deleteOutboxMessage(id);
+
+    const remaining = await persistence.getOutboxMessages();
+    expect(remaining.map(m => m.discordMessageId)).toEqual(['m2']);
+  });
+
+  it('should prune messages older than the cutoff', async () => {
+    await queue('#test', 'm1');
+
+    expect(await persistence.pruneOutbox(Date.now() - 60000)).toBe(0);
+    expect(await persistence.pruneOutbox(Date.now() + 1000)).toBe(1);
+    expect(await persistence.getOutboxMessages()).toEqual([]);
+  });
+});
+
+describe('Bot IRC outbox', () => {
+  const testBot = useTestBot('irc-outbox-bot');
+  let bot: Bot;
+  let sayStub;
+  let channel: discord.TextChannel;
+  let connected: boolean;
+  const messages = new Map<string, discord.Message>();
+
+  const messageFor = (id: string, content: string) => {
+    const message = {
+      id,
+      content,
+      channel,
+      guild: channel.guild,
+      author: { id: 'author', username: 'alice' },
+      mentions: { users: new discord.Collection() },
+      attachments: new discord.Collection(),
+      reactions: { cache: new discord.Collection() },
+      react: vi.fn(),
+    } as unknown as discord.Message;
+    messages.set(id, message);
+    return message;
+  };
+
+  const startBot = async (outbox: { enabled?: boolean } = { enabled: true }) => {
+    sayStub = vi.spyOn(ClientStub.prototype, 'say');
+    bot = await testBot.start({ ircNickColor: false, channelMapping: { '1234': '#irc' }, outbox });
+    connected = false;
+    vi.spyOn(bot, 'isIRCConnected').mockImplementation(() => connected);
+    bot.ircClient.chans = { '#irc': {} };
+
+    channel = bot.discord.channels.cache.get('1234') as discord.TextChannel;
+    vi.spyOn(bot.discord.channels, 'fetch').mockResolvedValue(channel as never);
+    vi.spyOn(channel.messages, 'fetch').mockImplementation(async id => messages.get(id as string) as never);
+  };
+
+  it('should drop messages while IRC is down unless the outbox is enabled', async () => {
+    await startBot({});
+    const message = messageFor('m1', 'lost');
+    await bot.sendToIRC(message);
+
+    expect(bot.outboxConfig.enabled).toBe(false);
+    expect(message.react).not.toHaveBeenCalled();
+    expect(await bot.persistence.getOutboxMessages()).toEqual([]);
+  });
+
+  it('should replay queued messages in order through the normal formatting path', async () => {
+    await startBot();
+    const first = messageFor('m1', 'first **bold**');
+    await bot.sendToIRC(first);
+    await bot.sendToIRC(messageFor('m2', 'second'));
+
+    expect(sayStub).not.toHaveBeenCalled();
+    expect(first.react).toHaveBeenCalledWith('📥');
+
+    connected = true;
+    await bot.flushIRCOutbox();
+
+    expect(sayStub.mock.calls).toEqual([
+      ['#irc', '<alice> first \x02bold\x02'],
+      ['#irc', '<alice> second'],
+    ]);
+    expect(first.react).toHaveBeenLastCalledWith('✅');
+    expect(await bot.persistence.getOutboxMessages()).toEqual([]);
+  });
+
+  it('should discard expired messages instead of replaying them', async () => {
+    await startBot();
+    const now = Date.now();
+    const expired = messageFor('m1', 'too late');
+    vi.spyOn(Date, 'now').mockReturnValue(now - 2 * 60 * 60 * 1000);
+    await bot.sendToIRC(expired);
+    vi.mocked(Date.now).mockReturnValue(now);
+    await bot.sendToIRC(messageFor('m2', 'in time'));
+
+    const dropped = vi.fn();
+    bot.on('relay:dropped', dropped);
+    connected = true;
+    await bot.flushIRCOutbox();
+
+    expect(sayStub.mock.calls).toEqual([['#irc', '<alice> in time']]);
+    expect(expired.react).toHaveBeenLastCalledWith('⌛');
+    expect(dropped).toHaveBeenCalledWith(expect.objectContaining({ author: 'alice', text: 'too late', reason: 'expired', discordMessageId: 'm1' }));
+  });
+
+  it('should report messages that expired while the bot was offline', async () => {
+    const persistence = new PersistenceService(testBot.dbPath);
+    await persistence.initialize();
+    const now = Date.now();
+    const queue = async (discordMessageId: string, content: string) =>
+      persistence.enqueueOutboxMessage({ ircChannel: '#irc', discordChannelId: '1234', discordMessageId, authorId: '42', content });
+    vi.spyOn(Date, 'now').mockReturnValue(now - 2 * 60 * 60 * 1000);
+    await queue('m1', 'too late');
+    vi.mocked(Date.now).mockReturnValue(now);
+    await queue('m2', 'in time');
+    await persistence.close();
+
+    const dropped = vi.fn();
+    bot = testBot.create({ channelMapping: { '1234': '#irc' }, outbox: { enabled: true } });
+    bot.on('relay:dropped', dropped);
+    await bot.connect();
+
+    expect(dropped).toHaveBeenCalledTimes(1);
+    expect(dropped).toHaveBeenCalledWith({
+      direction: 'discordToIrc',
+      author: '42',
+      text: 'too late',
+      reason: 'expired',
+      ircChannel: '#irc',
+      discordMessageId: 'm1',
+    });
+  });
+
+  it('should queue live messages behind a replay in progress', async () => {
+    await startBot();
+    await bot.sendToIRC(messageFor('m1', 'queued'));
+    connected = true;
+
+    const flushed = bot.flushIRCOutbox();
+    await bot.sendToIRC(messageFor('m2', 'live'));
+    await flushed;
+
+    expect(sayStub.mock.calls).toEqual([
+      ['#irc', '<alice> queued'],
+      ['#irc', '<alice> live'],
+    ]);
+  });
+});
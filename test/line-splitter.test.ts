@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { getPrivmsgPayloadBudget, splitIRCMessage } from '../lib/irc/line-splitter';
+
+const bytes = (text: string) => Buffer.byteLength(text, 'utf8');
+
+describe('IRC line splitter', () => {
+  describe('getPrivmsgPayloadBudget', () => {
+    it('should subtract the full server prefix and CRLF from 512 bytes', () => {
+      const prefix = ':bot!~bot@example.com PRIVMSG #chan :';
+      expect(getPrivmsgPayloadBudget('bot', '~bot@example.com', '#chan')).toBe(512 - prefix.length - 2);
+    });
+
+    it('should assume a worst-case hostmask when it is not known yet', () => {
+      expect(getPrivmsgPayloadBudget('bot', '', '#chan'))
+        .toBeLessThan(getPrivmsgPayloadBudget('bot', '~bot@example.com', '#chan'));
+    });
+  });
+
+  describe('splitIRCMessage', () => {
+    it('should leave short messages untouched', () => {
+      expect(splitIRCMessage('hello world', 50)).toEqual(['hello world']);
+    });
+
+    it('should break on word boundaries', () => {
+      expect(splitIRCMessage('the quick brown fox jumps', 11)).toEqual(['the quick', 'brown fox', 'jumps']);
+    });
+
+    it('should hard-break words longer than the budget', () => {
+      expect(splitIRCMessage('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij']);
+    });
+
+    it('should count bytes rather than characters', () => {
+      const text = 'héllo wörld ñandú';
+      const lines = splitIRCMessage(text, 8);
+      expect(lines).toEqual(['héllo', 'wörld', 'ñandú']);
+      lines.forEach(line => expect(bytes(line)).toBeLessThanOrEqual(8));
+    });
+
+    it('should never cut inside a multibyte character', () => {
+      const text = '日本語のテキスト😀😀😀';
+      const lines = splitIRCMessage(text, 7);
+      expect(lines.join('')).toBe(text);
+      lines.forEach((line) => {
+        expect(bytes(line)).toBeLessThanOrEqual(7);
+        expect(line).not.toContain('�');
+        expect(line).not.toMatch(/[\uD800-\uDBFF]$/);
+      });
+    });
+
+    it('should keep colour codes and their parameters together', () => {
+      const lines = splitIRCMessage('ab\x0304,12cd', 4);
+      expect(lines[0]).toBe('ab');
+      expect(lines[1].startsWith('\x0304,12')).toBe(true);
+    });
+
+    it('should re-apply active formatting on continuation lines', () => {
+      const lines = splitIRCMessage('\x02bold words and more', 12);
+      expect(lines).toEqual(['\x02bold words', '\x02and more']);
+    });
+
+    it('should break before formatting codes that end a word', () => {
+      const lines = splitIRCMessage('\x02bold text\x02 plain', 10);
+      expect(lines).toEqual(['\x02bold text', 'plain']);
+    });
+
+    it('should re-apply the active colour with padded digits', () => {
+      const lines = splitIRCMessage('\x033green 1234', 8);
+      expect(lines).toEqual(['\x033green', '\x03031234']);
+    });
+
+    it('should not re-apply formatting after a reset', () => {
+      const lines = splitIRCMessage('\x02\x1dstyled\x0f plain words', 12);
+      expect(lines[0]).toBe('\x02\x1dstyled\x0f');
+      expect(lines[1]).toBe('plain words');
+    });
+
+    it('should keep every line within the budget for long messages', () => {
+      const text = Array.from({ length: 200 }, (_, i) => `wørd${i}`).join(' ');
+      const lines = splitIRCMessage(text, 100);
+      expect(lines.length).toBeGreaterThan(1);
+      lines.forEach(line => expect(bytes(line)).toBeLessThanOrEqual(100));
+      expect(lines.join(' ')).toBe(text);
+    });
+  });
+});
@@ -10,7 +10,10 @@ const createMockBot = (): Partial<Bot> => {
       readyState: 'open'
     } as Bot['ircClient'],
     parseText: vi.fn().mockReturnValue('test message'),
-    persistence: undefined
+    persistence: undefined,
+    getIRCTarget(channel: string) {
+      return { network: 'default', client: this.ircClient, userManager: this.ircUserManager!, channel };
+    }
   };
 };
 
@@ -55,4 +58,113 @@ describe('MessageSynchronizer', () => {
     expect(stats.trackedMessages).toBe(0);
     expect(stats.oldestMessage).toBe(null);
   });
-});
\ No newline at end of file
+
+  it('should look up messages relayed from IRC by Discord message ID', () => {
+    messageSync.recordIRCMessage('789', '#test', 'hello from irc', 'ircuser');
+
+    const record = messageSync.getIRCMessage('789');
+    expect(record?.ircNick).toBe('ircuser');
+    expect(record?.ircChannel).toBe('#test');
+    expect(record?.text).toBe('hello from irc');
+    expect(messageSync.getIRCMessage('unknown')).toBeUndefined();
+  });
+
+  it('should clear IRC message history with the rest of the history', () => {
+    messageSync.recordIRCMessage('789', '#test', 'hello from irc', 'ircuser');
+
+    messageSync.clearHistory();
+    expect(messageSync.getIRCMessage('789')).toBeUndefined();
+  });
+
+  it('should map IRCv3 msgids to Discord message IDs in both directions', () => {
+    messageSync.recordMsgid('abc123', '789');
+
+    expect(messageSync.getDiscordMessageId('abc123')).toBe('789');
+    expect(messageSync.getMsgid('789')).toBe('abc123');
+    expect(messageSync.getMsgid('unknown')).toBeUndefined();
+
+    messageSync.clearHistory();
+    expect(messageSync.getDiscordMessageId('abc123')).toBeUndefined();
+  });
+
+  it('should persist the msgid index', async () => {
+    const metrics = new Map<string, string>();
+    mockBot.persistence = {
+      // eslint-disable-next-line @typescript-eslint/require-await
+      saveMetric: vi.fn(async (key: string, value: string) => { metrics.set(key, value); }),
+      // eslint-disable-next-line @typescript-eslint/require-await
+      getMetric: vi.fn(async (key: string) => metrics.get(key) ?? null),
+    } as unknown as Bot['persistence'];
+    messageSync.recordMsgid('abc123', '789');
+    await messageSync.saveHistoryToPersistence();
+
+    const restored = new MessageSynchronizer(mockBot as Bot);
+    await restored.loadHistoryFromPersistence();
+
+    expect(restored.getDiscordMessageId('abc123')).toBe('789');
+    expect(restored.getMsgid('789')).toBe('abc123');
+  });
+
+  describe('IRC redactions', () => {
+    let deleteMock: ReturnType<typeof vi.fn>;
+    let webhookDeleteMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      deleteMock = vi.fn();
+      webhookDeleteMock = vi.fn();
+      Object.assign(mockBot, {
+        redactionConfig: { enabled: true, allowedBy: [] },
+        metrics: { recordDelete: vi.fn() },
+        findDiscordChannel: vi.fn().mockReturnValue({ messages: { delete: deleteMock } }),
+        findWebhook: vi.fn().mockReturnValue({ client: { deleteMessage: webhookDeleteMock } }),
+        ircUserManager: {
+          getChannelUsers: vi.fn().mockReturnValue([{ nick: 'OpUser', isOperator: true }]),
+        },
+      });
+      messageSync.recordIRCMessage('789', '#test', 'oops', 'ircuser', { msgid: 'abc123' });
+    });
+
+    it('should delete the Discord message a redacted IRC message was relayed as', async () => {
+      await messageSync.handleIRCRedaction('someone', '#test', 'abc123');
+
+      expect(deleteMock).toHaveBeenCalledWith('789');
+      expect(messageSync.getDiscordMessageId('abc123')).toBeUndefined();
+    });
+
+    it('should delete webhook messages through the webhook', async () => {
+      messageSync.recordIRCMessage('790', '#test', 'oops', 'ircuser', { msgid: 'def456', webhook: true });
+
+      await messageSync.handleIRCRedaction('ircuser', '#test', 'def456');
+
+      expect(webhookDeleteMock).toHaveBeenCalledWith('790');
+      expect(deleteMock).not.toHaveBeenCalled();
+    });
+
+    it('should ignore unknown msgids', async () => {
+      await messageSync.handleIRCRedaction('ircuser', '#test', 'unknown');
+
+      expect(deleteMock).not.toHaveBeenCalled();
+    });
+
+    it('should only allow the author when configured', async () => {
+      mockBot.redactionConfig = { enabled: true, allowedBy: ['author'] };
+
+      await messageSync.handleIRCRedaction('OpUser', '#test', 'abc123');
+      expect(deleteMock).not.toHaveBeenCalled();
+
+      await messageSync.handleIRCRedaction('IRCUser', '#test', 'abc123');
+      expect(deleteMock).toHaveBeenCalledWith('789');
+    });
+
+    it('should only allow channel operators when configured', async () => {
+      mockBot.redactionConfig = { enabled: true, allowedBy: ['ops'] };
+
+      await messageSync.handleIRCRedaction('ircuser', '#test', 'abc123');
+      expect(deleteMock).not.toHaveBeenCalled();
+
+      await messageSync.handleIRCRedaction('opuser', '#test', 'abc123');
+      expect(deleteMock).toHaveBeenCalledWith('789');
+    });
+  });
+});
+
@@ -161,6 +161,20 @@ describe('MetricsCollector', () => {
     expect(prometheus).toContain('discord_irc_users_unique{platform="discord"} 1');
   });
 
+  it('should label messages and connection state by IRC network', () => {
+    metrics.setPrimaryNetwork('freenode');
+    metrics.recordIRCConnected();
+    metrics.recordNetworkConnected('libera', false);
+    metrics.recordDiscordToIRC('user', '#test');
+    metrics.recordIRCToDiscord('ircuser', 'libera/#test');
+
+    const prometheus = metrics.exportPrometheusMetrics();
+    expect(prometheus).toContain('discord_irc_network_messages_total{network="freenode",direction="discord_to_irc"} 1');
+    expect(prometheus).toContain('discord_irc_network_messages_total{network="libera",direction="irc_to_discord"} 1');
+    expect(prometheus).toContain('discord_irc_network_connection_status{network="freenode"} 1');
+    expect(prometheus).toContain('discord_irc_network_connection_status{network="libera"} 0');
+  });
+
   it('should reset metrics correctly', () => {
     metrics.recordDiscordToIRC('user', '#test');
     metrics.recordCommand();
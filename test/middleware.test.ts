@@ -0,0 +1,172 @@
+/* eslint-disable @typescript-eslint/require-await */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import discord from 'discord.js';
+import Bot from '../lib/bot';
+import { MiddlewarePipeline, RelayMessage, loadMiddlewareModule } from '../lib/middleware';
+import type { ChannelSettings } from '../lib/channel-settings';
+import ClientStub from './stubs/irc-client-stub';
+import useTestBot from './stubs/test-bot';
+
+vi.mock('../lib/logger', async () => await import('./stubs/logger-stub.js'));
+
+const createMessage = (text: string, direction: RelayMessage['direction'] = 'ircToDiscord'): RelayMessage => ({
+  direction,
+  author: 'alice',
+  text,
+  ircChannel: '#irc',
+  replayed: false,
+  settings: {} as ChannelSettings,
+  annotations: {},
+});
+
+describe('MiddlewarePipeline', () => {
+  let pipeline: MiddlewarePipeline;
+
+  beforeEach(() => {
+    pipeline = new MiddlewarePipeline({} as Bot);
+    pipeline.use({ name: 'parse', direction: 'discordToIrc', process: message => message });
+    pipeline.use({ name: 'rateLimit', direction: 'discordToIrc', process: message => message });
+    pipeline.use({ name: 'rateLimit', direction: 'ircToDiscord', process: message => message });
+    pipeline.use({ name: 'format', direction: 'ircToDiscord', process: message => message });
+  });
+
+  it('should run the stages for the message direction in order', async () => {
+    pipeline.use({ name: 'exclaim', process: (message) => { message.text += '!'; } });
+    pipeline.use({ name: 'shout', direction: 'ircToDiscord', process: message => ({ ...message, text: message.text.toUpperCase() }) });
+
+    expect((await pipeline.run(createMessage('hi')))?.text).toBe('HI!');
+    expect((await pipeline.run(createMessage('hi', 'discordToIrc')))?.text).toBe('hi!');
+  });
+
+  it('should insert stages next to the named stage of the same direction', () => {
+    pipeline.use({ name: 'early', direction: 'ircToDiscord', process: message => message }, { before: 'rateLimit' });
+    pipeline.use({ name: 'late', process: message => message }, { after: 'rateLimit' });
+
+    expect(pipeline.getStages('ircToDiscord')).toEqual(['early', 'rateLimit', 'late', 'format']);
+    expect(pipeline.getStages('discordToIrc')).toEqual(['parse', 'rateLimit', 'late']);
+    expect(() => pipeline.use({ name: 'lost', process: message => message }, { after: 'missing' })).toThrow(/no stage named "missing"/);
+  });
+
+  it('should stop at a stage that drops the message', async () => {
+    const after = vi.fn();
+    pipeline.use({ name: 'drop', process: message => (message.text.includes('spam') ? null : message) });
+    pipeline.use({ name: 'after', process: after });
+
+    expect(await pipeline.run(createMessage('buy spam'))).toBeNull();
+    expect(after).not.toHaveBeenCalled();
+  });
+
+  it('should skip stages that throw', async () => {
+    pipeline.use({ name: 'broken', process: async () => { throw new Error('oops'); } });
+    pipeline.use({ name: 'annotate', process: (message) => { message.annotations.seen = true; } });
+
+    const relayed = await pipeline.run(createMessage('hello'));
+
+    expect(relayed?.text).toBe('hello');
+    expect(relayed?.annotations.seen).toBe(true);
+  });
+
+  it('should remove stages by name and direction', () => {
+    expect(pipeline.remove('rateLimit', 'ircToDiscord')).toBe(true);
+    expect(pipeline.remove('missing')).toBe(false);
+
+    expect(pipeline.getStages('ircToDiscord')).toEqual(['format']);
+    expect(pipeline.getStages('discordToIrc')).toEqual(['parse', 'rateLimit']);
+  });
+
+  it('should load middlewares from a module', async () => {
+    const modulePath = path.join(os.tmpdir(), `test-middleware-${Date.now()}.mjs`);
+    fs.writeFileSync(modulePath, 'export default [{ name: "tag", direction: "ircToDiscord", process: m => ({ ...m, text: "[irc] " + m.text }) }];');
+
+    try {
+      const [middleware] = await loadMiddlewareModule(modulePath);
+      expect(middleware.name).toBe('tag');
+      expect((await middleware.process(createMessage('hi'), {} as Bot) as RelayMessage).text).toBe('[irc] hi');
+    } finally {
+      fs.unlinkSync(modulePath);
+    }
+  });
+});
+
+describe('Bot middlewares', () => {
+  let bot: Bot;
+  let sendStub;
+  const testBot = useTestBot('middleware');
+
+  const createBot = async (extraConfig = {}) => {
+    bot = await testBot.start(extraConfig, sendStub);
+  };
+
+  beforeEach(() => {
+    sendStub = vi.fn();
+  });
+
+  it('should run the built-in stages before configured ones', async () => {
+    await createBot({
+      middlewares: [
+        { name: 'tag', direction: 'ircToDiscord', process: (message: RelayMessage) => ({ ...message, text: `${message.text} [irc]` }) },
+        { name: 'early', process: (message: RelayMessage) => message, before: 'rateLimit' },
+      ],
+    });
+
+    expect(bot.middlewares.getStages('ircToDiscord')).toEqual(['early', 'rateLimit', 'format', 'mentions', 'tag']);
+    expect(bot.middlewares.getStages('discordToIrc')).toEqual(['parse', 'early', 'rateLimit', 'format', 'template']);
+
+    await bot.sendToDiscord('alice', '#irc', '\x02bold\x02');
+
+    expect(sendStub).toHaveBeenCalledWith('**<alice>** **bold** [irc]');
+  });
+
+  it('should not relay messages a stage drops', async () => {
+    await createBot();
+    bot.middlewares.use({ name: 'quiet', process: message => (message.text.startsWith('secret') ? null : message) });
+
+    await bot.sendToDiscord('alice', '#irc', 'secret plans');
+    await bot.sendToDiscord('alice', '#irc', 'hello');
+
+    expect(sendStub).toHaveBeenCalledTimes(1);
+    expect(sendStub).toHaveBeenCalledWith('**<alice>** hello');
+  });
+
+  it('should let stages run after the Discord to IRC format and template stages, or replace them', async () => {
+    const sayStub = vi.spyOn(ClientStub.prototype, 'say');
+    await createBot({ ircNickColor: false, channelMapping: { '1234': '#irc' } });
+    vi.spyOn(bot, 'isIRCConnected').mockReturnValue(true);
+    bot.ircClient.chans = { '#irc': {} };
+    const channel = bot.discord.channels.cache.get('1234') as discord.TextChannel;
+    const message = {
+      id: 'm1',
+      content: 'hi **there**',
+      channel,
+      guild: channel.guild,
+      author: { id: 'author', username: 'alice' },
+      mentions: { users: new discord.Collection() },
+      attachments: new discord.Collection(),
+    } as unknown as discord.Message;
+    const seen: unknown[] = [];
+    bot.middlewares.use(
+      { name: 'inspect', direction: 'discordToIrc', process: (relayed) => { seen.push(relayed.text, relayed.annotations.ircTemplate); } },
+      { after: 'template' },
+    );
+
+    await bot.sendToIRC(message);
+    bot.middlewares.remove('template', 'discordToIrc');
+    await bot.sendToIRC(message);
+
+    expect(seen).toEqual(['hi \x02there\x02', '<alice> {$text}', 'hi \x02there\x02', undefined]);
+    expect(sayStub.mock.calls).toEqual([
+      ['#irc', '<alice> hi \x02there\x02'],
+      ['#irc', 'hi \x02there\x02'],
+    ]);
+  });
+
+  it('should reject invalid middlewares on connect', async () => {
+    bot = testBot.create({ middlewares: [{ name: 'broken' }] });
+
+    await expect(bot.connect()).rejects.toThrow(/Invalid middleware from the config/);
+  });
+});
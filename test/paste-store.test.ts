@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LocalPasteStore } from '../lib/paste-store';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+vi.mock('../lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+describe('LocalPasteStore', () => {
+  let directory: string;
+  let store: LocalPasteStore;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'test-pastes-'));
+    store = new LocalPasteStore({
+      directory,
+      publicUrl: 'https://bridge.example.com/',
+      retentionHours: 1
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should store a paste and return its public URL', async () => {
+    const url = await store.save('line one\nline two');
+
+    expect(url).toMatch(/^https:\/\/bridge\.example\.com\/pastes\/[a-f0-9]{16}\.txt$/);
+    const id = path.basename(url, '.txt');
+    expect(await store.read(id)).toBe('line one\nline two');
+  });
+
+  it('should return null for unknown pastes', async () => {
+    expect(await store.read('0123456789abcdef')).toBeNull();
+  });
+
+  it('should reject IDs that could escape the paste directory', async () => {
+    fs.writeFileSync(path.join(directory, '..', 'secret.txt'), 'secret');
+    try {
+      expect(await store.read('../secret')).toBeNull();
+    } finally {
+      fs.unlinkSync(path.join(directory, '..', 'secret.txt'));
+    }
+  });
+
+  it('should prune pastes older than the retention period', async () => {
+    const oldPath = path.join(directory, 'aaaaaaaaaaaaaaaa.txt');
+    fs.writeFileSync(oldPath, 'old');
+    fs.writeFileSync(path.join(directory, 'bbbbbbbbbbbbbbbb.txt'), 'new');
+    const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    fs.utimesSync(oldPath, twoHoursAgo, twoHoursAgo);
+
+    expect(await store.prune()).toBe(1);
+    expect(await store.read('aaaaaaaaaaaaaaaa')).toBeNull();
+    expect(await store.read('bbbbbbbbbbbbbbbb')).toBe('new');
+  });
+});
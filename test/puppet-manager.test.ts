@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { PuppetClient, PuppetManager, toIRCNick } from '../lib/irc/puppet-manager';
+import { RecoveryManager } from '../lib/recovery-manager';
+
+vi.mock('../lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }
+}));
+
+// Registers on connect and joins straight away, like a server that accepts everything
+class FakeClient extends EventEmitter {
+  nick: string;
+  hostMask = 'discord@bridge.example.com';
+  connect = vi.fn(() => {
+    setImmediate(() => this.emit('registered'));
+  });
+  disconnect = vi.fn();
+  join = vi.fn((channel: string, callback?: () => void) => {
+    setImmediate(() => callback?.());
+  });
+  part = vi.fn();
+  say = vi.fn();
+
+  constructor(nick: string) {
+    super();
+    this.nick = nick;
+  }
+}
+
+describe('toIRCNick', () => {
+  it('should strip characters IRC nicks cannot contain', () => {
+    expect(toIRCNick('Jane Doe 🎉', '[d]', 16)).toBe('JaneDoe[d]');
+  });
+
+  it('should not start nicks with a digit', () => {
+    expect(toIRCNick('42', '[d]', 16)).toBe('_42[d]');
+    expect(toIRCNick('🎉', '', 16)).toBe('_');
+  });
+
+  it('should keep the suffix within the length limit', () => {
+    expect(toIRCNick('averyveryverylongname', '[d]', 16)).toBe('averyveryvery[d]');
+  });
+});
+
+describe('PuppetManager', () => {
+  let recoveryManager: RecoveryManager;
+  let clients: FakeClient[];
+  let manager: PuppetManager;
+
+  const createManager = (options = {}) => new PuppetManager({
+    maxConnections: 2,
+    idleTimeoutMs: 60000,
+    connectTimeoutMs: 100,
+    createClient: (nick) => {
+      const client = new FakeClient(nick);
+      clients.push(client);
+      return client as unknown as PuppetClient;
+    },
+    recoveryManager,
+    ...options,
+  });
+
+  beforeEach(() => {
+    recoveryManager = new RecoveryManager({ puppetReconnectDelay: 10 });
+    clients = [];
+    manager = createManager();
+  });
+
+  afterEach(() => {
+    manager.destroy();
+    recoveryManager.destroy();
+  });
+
+  it('should connect a puppet and join the channel on first use', async () => {
+    const client = await manager.acquire('user1', 'alice[d]', '#irc');
+
+    expect(client?.nick).toBe('alice[d]');
+    expect(clients[0].connect).toHaveBeenCalledWith(0);
+    expect(clients[0].join).toHaveBeenCalledWith('#irc', expect.any(Function));
+    expect(manager.isPuppetNick('ALICE[d]')).toBe(true);
+    expect(manager.getUserIdByNick('alice[d]')).toBe('user1');
+  });
+
+  it('should reuse the connection and only join each channel once', async () => {
+    await manager.acquire('user1', 'alice[d]', '#irc');
+    await manager.acquire('user1', 'alice[d]', '#IRC');
+
+    expect(clients).toHaveLength(1);
+    expect(clients[0].join).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse new puppets beyond the connection limit', async () => {
+    await manager.acquire('user1', 'alice[d]', '#irc');
+    await manager.acquire('user2', 'bob[d]', '#irc');
+
+    expect(await manager.acquire('user3', 'carol[d]', '#irc')).toBeNull();
+    expect(manager.size).toBe(2);
+  });
+
+  it('should give up on puppets that cannot connect in time', async () => {
+    manager.destroy();
+    manager = createManager({
+      createClient: (nick: string) => {
+        const client = new FakeClient(nick);
+        client.connect = vi.fn();
+        clients.push(client);
+        return client as unknown as PuppetClient;
+      },
+    });
+
+    expect(await manager.acquire('user1', 'alice[d]', '#irc')).toBeNull();
+    expect(manager.size).toBe(0);
+    expect(clients[0].disconnect).toHaveBeenCalled();
+  });
+
+  it('should part idle channels and quit puppets without channels', async () => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'Date'] });
+    try {
+      manager.destroy();
+      manager = createManager({ idleTimeoutMs: 1000 });
+      await manager.acquire('user1', 'alice[d]', '#irc');
+
+      vi.advanceTimersByTime(2000);
+
+      expect(clients[0].part).toHaveBeenCalledWith('#irc', 'Idle');
+      expect(clients[0].disconnect).toHaveBeenCalledWith('Idle');
+      expect(manager.size).toBe(0);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should turn highlights of puppet nicks into Discord mentions', async () => {
+    await manager.acquire('user1', 'alice[d]', '#irc');
+
+    expect(manager.mentionPuppets('alice[d]: lunch? cc alice[d].')).toBe('<@user1>: lunch? cc <@user1>.');
+    expect(manager.mentionPuppets('malice[d] is not her')).toBe('malice[d] is not her');
+  });
+
+  it('should pass private messages to the puppet on', async () => {
+    const onPrivateMessage = vi.fn();
+    manager.destroy();
+    manager = createManager({ onPrivateMessage });
+    await manager.acquire('user1', 'alice[d]', '#irc');
+
+    clients[0].emit('pm', 'ircuser', 'hello');
+
+    expect(onPrivateMessage).toHaveBeenCalledWith('user1', 'ircuser', 'hello');
+  });
+
+  it('should reconnect dropped puppets through the recovery manager', async () => {
+    await manager.acquire('user1', 'alice[d]', '#irc');
+    await manager.acquire('user2', 'bob[d]', '#irc');
+
+    clients[0].emit('abort');
+    clients[1].emit('abort');
+    expect(recoveryManager.getPendingPuppetReconnects()).toBe(2);
+    expect(await manager.acquire('user1', 'alice[d]', '#irc')).toBeNull();
+
+    await vi.waitFor(() => expect(recoveryManager.getPendingPuppetReconnects()).toBe(0));
+    expect(clients[0].connect).toHaveBeenCalledTimes(2);
+    expect(clients[1].connect).toHaveBeenCalledTimes(2);
+  });
+
+  it('should hold puppet reconnects while the main IRC connection is down', async () => {
+    // Trips the circuit breaker straight away, so no real recovery is started
+    recoveryManager.updateConfig({ circuitBreakerThreshold: 1 });
+    await manager.acquire('user1', 'alice[d]', '#irc');
+    recoveryManager.recordFailure('irc', new Error('netsplit'));
+
+    clients[0].emit('abort');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(clients[0].connect).toHaveBeenCalledTimes(1);
+
+    recoveryManager.recordSuccess('irc');
+    await vi.waitFor(() => expect(clients[0].connect).toHaveBeenCalledTimes(2));
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ReactionCoalescer } from '../lib/reaction-coalescer';
+import { emojiToShortcode, getEmojiShortcode } from '../lib/emoji-shortcodes';
+
+describe('ReactionCoalescer', () => {
+  const target = { ircChannel: '#irc', reactor: 'alice', nickname: 'bob', text: 'lunch?' };
+  let flush: ReturnType<typeof vi.fn>;
+  let coalescer: ReactionCoalescer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    flush = vi.fn();
+    coalescer = new ReactionCoalescer(1000, flush);
+  });
+
+  afterEach(() => {
+    coalescer.destroy();
+    vi.useRealTimers();
+  });
+
+  it('should group reactions within the window into one batch', () => {
+    coalescer.record('alice:1', target, '👍');
+    coalescer.record('alice:1', target, '🎉');
+    coalescer.record('alice:1', target, '👍');
+
+    vi.advanceTimersByTime(999);
+    expect(flush).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(flush).toHaveBeenCalledTimes(1);
+    expect(flush).toHaveBeenCalledWith({ ...target, added: ['👍', '🎉'], removed: [] });
+    expect(coalescer.size).toBe(0);
+  });
+
+  it('should keep separate batches per key', () => {
+    coalescer.record('alice:1', target, '👍');
+    coalescer.record('carol:1', { ...target, reactor: 'carol' }, '👍');
+
+    vi.advanceTimersByTime(1000);
+    expect(flush).toHaveBeenCalledTimes(2);
+  });
+
+  it('should cancel out a reaction that is removed within the window', () => {
+    coalescer.record('alice:1', target, '👍');
+    coalescer.record('alice:1', target, '👍', true);
+
+    vi.advanceTimersByTime(1000);
+    expect(flush).not.toHaveBeenCalled();
+  });
+
+  it('should report removals separately', () => {
+    coalescer.record('alice:1', target, '👀', true);
+
+    vi.advanceTimersByTime(1000);
+    expect(flush).toHaveBeenCalledWith({ ...target, added: [], removed: ['👀'] });
+  });
+
+  it('should drop pending batches on destroy', () => {
+    coalescer.record('alice:1', target, '👍');
+    coalescer.destroy();
+
+    vi.advanceTimersByTime(1000);
+    expect(flush).not.toHaveBeenCalled();
+  });
+});
+
+describe('emoji shortcodes', () => {
+  it('should map common emoji to their shortcode', () => {
+    expect(emojiToShortcode('👍')).toBe(':thumbsup:');
+    expect(emojiToShortcode('🎉')).toBe(':tada:');
+  });
+
+  it('should ignore variation selectors and skin tones', () => {
+    expect(getEmojiShortcode('❤')).toBe('heart');
+    expect(getEmojiShortcode('❤️')).toBe('heart');
+    expect(getEmojiShortcode('👍\u{1F3FD}')).toBe('thumbsup');
+  });
+
+  it('should fall back to the emoji itself when it has no known name', () => {
+    expect(emojiToShortcode('🦩')).toBe('🦩');
+  });
+});
@@ -0,0 +1,82 @@
+/* eslint-disable @typescript-eslint/require-await */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import Bot from '../lib/bot';
+import ClientStub from './stubs/irc-client-stub';
+import useTestBot from './stubs/test-bot';
+
+vi.mock('../lib/logger', async () => await import('./stubs/logger-stub.js'));
+
+describe('Bot relay events', () => {
+  const testBot = useTestBot('relay-events');
+  let bot: Bot;
+  let sendStub;
+
+  beforeEach(async () => {
+    sendStub = vi.fn(async () => ({ id: 'sent' }));
+    ClientStub.prototype.say = vi.fn();
+    bot = await testBot.start({ ignoreUsers: { irc: ['ignored'] } }, sendStub);
+  });
+
+  it('should emit the text relayed to Discord', async () => {
+    const relayed = vi.fn();
+    bot.on('relay:ircToDiscord', relayed);
+
+    await bot.sendToDiscord('alice', '#irc', '\x02hello\x02');
+
+    expect(relayed).toHaveBeenCalledWith({
+      author: 'alice',
+      ircChannel: '#irc',
+      discordChannelId: '1234',
+      discordMessageId: 'sent',
+      text: '**<alice>** **hello**',
+      webhook: false,
+      replayed: false,
+    });
+  });
+
+  it('should emit why a message was dropped', async () => {
+    const dropped = vi.fn();
+    bot.on('relay:dropped', dropped);
+    bot.middlewares.use({ name: 'no-secrets', process: message => (message.text.includes('secret') ? null : message) });
+
+    await bot.sendToDiscord('ignored', '#irc', 'hello');
+    await bot.sendToDiscord('alice', '#irc', 'a secret');
+
+    expect(dropped).toHaveBeenNthCalledWith(1, expect.objectContaining({ author: 'ignored', reason: 'ignored' }));
+    expect(dropped).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      direction: 'ircToDiscord',
+      author: 'alice',
+      ircChannel: '#irc',
+      text: 'a secret',
+      reason: 'middleware',
+      stage: 'no-secrets',
+    }));
+    expect(sendStub).not.toHaveBeenCalled();
+  });
+
+  it('should emit rate limited messages', async () => {
+    const blocked = vi.fn();
+    bot.on('ratelimit:blocked', blocked);
+    vi.spyOn(bot.rateLimiter, 'checkMessage').mockReturnValue('You are sending messages too quickly');
+
+    await bot.sendToDiscord('alice', '#irc', 'spam');
+
+    expect(blocked).toHaveBeenCalledWith({
+      direction: 'ircToDiscord',
+      userId: 'irc:alice',
+      author: 'alice',
+      ircChannel: '#irc',
+      reason: 'You are sending messages too quickly',
+    });
+  });
+
+  it('should keep relaying when a listener throws', async () => {
+    bot.on('relay:ircToDiscord', () => {
+      throw new Error('broken listener');
+    });
+
+    await expect(bot.sendToDiscord('alice', '#irc', 'hello')).resolves.toBeUndefined();
+    expect(sendStub).toHaveBeenCalledWith('**<alice>** hello');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { slashCommands, statusCommand, usersCommand, s3Command } from '../lib/slash-commands';
+import { slashCommands, statusCommand, usersCommand, s3Command, ircBridgeCommand, ircForumCommand } from '../lib/slash-commands';
 
 // Type helper for testing command data structure
 interface TestCommandOption {
@@ -17,7 +17,7 @@ interface TestCommandData {
 
 describe('Slash Commands', () => {
   it('should export correct number of commands', () => {
-    expect(slashCommands).toHaveLength(17);
+    expect(slashCommands).toHaveLength(19);
   });
 
   it('should have proper command data structure', () => {
@@ -66,7 +66,7 @@ describe('Slash Commands', () => {
     const shareCommand = data.options!.find((opt) => opt.name === 'share');
     expect(shareCommand).toBeDefined();
     expect(shareCommand!.type).toBe('SUB_COMMAND');
-    expect(shareCommand!.options).toHaveLength(4); // file, channel, message, folder
+    expect(shareCommand!.options).toHaveLength(5); // file, channel, message, folder, name
 
     // Check status subcommand
     const statusSubcommand = data.options!.find((opt) => opt.name === 'status');
@@ -74,6 +74,21 @@ describe('Slash Commands', () => {
     expect(statusSubcommand!.type).toBe('SUB_COMMAND');
   });
 
+  it('should have bridge command with map, unmap and list subcommands', () => {
+    const data = ircBridgeCommand.data as unknown as TestCommandData;
+    expect(ircBridgeCommand.data.name).toBe('irc-bridge');
+    expect(data.options!.map((opt) => opt.name)).toEqual(['map', 'unmap', 'list']);
+
+    const mapCommand = data.options!.find((opt) => opt.name === 'map');
+    expect(mapCommand!.options!.map((opt) => opt.name)).toEqual(['channel', 'irc_channel', 'key']);
+  });
+
+  it('should have forum command with list and announce subcommands', () => {
+    const data = ircForumCommand.data as unknown as TestCommandData;
+    expect(ircForumCommand.data.name).toBe('irc-forum');
+    expect(data.options!.map((opt) => opt.name)).toEqual(['list', 'announce']);
+  });
+
   it('should have all commands with admin permissions', () => {
     for (const command of slashCommands) {
       expect(command.data.defaultMemberPermissions).toBeDefined();
@@ -12,8 +12,10 @@ class ClientStub extends events.EventEmitter {
   disconnect() {}
 
   say() {}
+  notice() {}
   send() {}
   join() {}
+  part() {}
 }
 
 export default ClientStub;
@@ -0,0 +1,9 @@
+import { vi } from 'vitest';
+
+// Silent logger for tests, use with vi.mock('../lib/logger', async () => await import('./stubs/logger-stub.js'))
+export const logger = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+};
@@ -0,0 +1,59 @@
+import { afterEach, vi, type Mock } from 'vitest';
+import irc from 'irc-upd';
+import discord from 'discord.js';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import Bot from '../../lib/bot';
+import createDiscordStub from './discord-stub';
+import ClientStub from './irc-client-stub';
+import createWebhookStub from './webhook-stub';
+import config from '../fixtures/single-test-config.json';
+
+/**
+ * Bot on stubbed IRC and Discord clients with a database of its own
+ *
+ * Call it in a describe block. The bot is shut down and its database removed
+ * after each test, and mocks are restored.
+ * @param name Used in the database file name
+ */
+export default function useTestBot(name: string) {
+  const dbPath = path.join(os.tmpdir(), `test-${name}-${Date.now()}.sqlite`);
+  let bot: Bot | undefined;
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    if (bot) {
+      bot.recoveryManager.destroy();
+      await bot.persistence.close();
+      bot = undefined;
+    }
+    if (fs.existsSync(dbPath)) {
+      fs.unlinkSync(dbPath);
+    }
+  });
+
+  /**
+   * Bot with the single-test config and the options over it, not connected yet
+   * @param sendStub Called for messages sent to Discord channels
+   */
+  const create = (options: Record<string, unknown> = {}, sendStub: Mock = vi.fn()): Bot => {
+    irc.Client = ClientStub;
+    discord.Client = createDiscordStub(sendStub) as never;
+    discord.WebhookClient = createWebhookStub(vi.fn()) as never;
+    bot = new Bot({ ...config, dbPath, ...options });
+    return bot;
+  };
+
+  /**
+   * Connected bot, once its IRC client has been set up
+   */
+  const start = async (options: Record<string, unknown> = {}, sendStub: Mock = vi.fn()): Promise<Bot> => {
+    const started = create(options, sendStub);
+    await started.connect();
+    await new Promise(resolve => setImmediate(resolve));
+    return started;
+  };
+
+  return { dbPath, create, start };
+}
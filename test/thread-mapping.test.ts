@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import discord from 'discord.js';
+import Bot, { TEST_HACK_CHANNEL } from '../lib/bot';
+import { deriveThreadChannel } from '../lib/thread-mapping';
+import ClientStub from './stubs/irc-client-stub';
+import useTestBot from './stubs/test-bot';
+
+vi.mock('../lib/logger', async () => await import('./stubs/logger-stub.js'));
+
+describe('deriveThreadChannel', () => {
+  it('should name the channel after the parent and the thread', () => {
+    expect(deriveThreadChannel('#chan', 'Release plans: v2.0!')).toBe('#chan-release-plans-v2-0');
+    expect(deriveThreadChannel('libera/#chan', 'Crème brûlée')).toBe('libera/#chan-creme-brulee');
+  });
+
+  it('should keep within the channel length', () => {
+    expect(deriveThreadChannel('#chan', 'Release plans', 12)).toBe('#chan-releas');
+    expect(deriveThreadChannel('#chan', 'Release plans', 16, '123456')).toBe('#chan-rel-123456');
+    expect(deriveThreadChannel('#chan', '✨✨✨', 50, '123456')).toBe('#chan-123456');
+  });
+});
+
+describe('Bot threads', () => {
+  let bot: Bot;
+  let sendStub;
+  let sayStub;
+  let joinStub;
+  let partStub;
+  let noticeStub;
+  let parent: discord.TextChannel;
+  const testBot = useTestBot('thread-mapping');
+
+  const createBot = async (mode?: string) => {
+    bot = await testBot.start({ ircNickColor: false, channelMapping: { '1234': '#irc' }, threads: { mode } }, sendStub);
+    vi.spyOn(bot, 'isIRCConnected').mockReturnValue(true);
+
+    parent = bot.discord.channels.cache.get('1234') as discord.TextChannel;
+    parent[TEST_HACK_CHANNEL] = true;
+  };
+
+  const createThread = (id: string, name: string) => {
+    const thread = {
+      id,
+      name,
+      type: 'GUILD_PUBLIC_THREAD',
+      archived: false,
+      parent,
+      guild: parent.guild,
+      isThread: () => true,
+      send: sendStub,
+    };
+    bot.discord.channels.cache.set(id, thread as never);
+    return thread as unknown as discord.ThreadChannel;
+  };
+
+  const messageIn = (channel: discord.ThreadChannel, content: string) => ({
+    id: `msg-${channel.id}`,
+    content,
+    mentions: { users: [] },
+    attachments: new discord.Collection(),
+    channel,
+    author: { id: 'author', username: 'alice' },
+    guild: channel.guild,
+  } as unknown as discord.Message);
+
+  beforeEach(() => {
+    sendStub = vi.fn();
+    sayStub = vi.spyOn(ClientStub.prototype, 'say');
+    joinStub = vi.spyOn(ClientStub.prototype, 'join');
+    partStub = vi.spyOn(ClientStub.prototype, 'part');
+    noticeStub = vi.spyOn(ClientStub.prototype, 'notice');
+  });
+
+  it('should leave thread messages on Discord by default', async () => {
+    await createBot();
+
+    await bot.sendToIRC(messageIn(createThread('2001', 'Release plans'), 'hello'));
+    bot.discord.emit('threadCreate', createThread('2002', 'Other plans'), true);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(sayStub).not.toHaveBeenCalled();
+    expect(bot.channelMapping['2002']).toBeUndefined();
+  });
+
+  it('should relay thread messages to the parent channel with the thread name', async () => {
+    await createBot('prefix');
+
+    await bot.sendToIRC(messageIn(createThread('2001', 'Release plans'), 'hello'));
+
+    expect(sayStub).toHaveBeenCalledWith('#irc', '[Release plans] <alice> hello');
+  });
+
+  it('should bridge new threads to IRC channels of their own while they are open', async () => {
+    await createBot('channel');
+    const thread = createThread('2001', 'Release plans');
+
+    bot.discord.emit('threadCreate', thread, true);
+    await vi.waitFor(() => expect(bot.channelMapping['2001']).toBe('#irc-release-plans'));
+
+    expect(joinStub).toHaveBeenCalledWith('#irc-release-plans');
+    expect(noticeStub).toHaveBeenCalledWith('#irc', 'Discord thread "Release plans" is bridged to #irc-release-plans');
+
+    await bot.sendToIRC(messageIn(thread, 'hello'));
+    await bot.sendToDiscord('bob', '#irc-release-plans', 'hi there');
+
+    expect(sayStub).toHaveBeenCalledWith('#irc-release-plans', '<alice> hello');
+    expect(sendStub).toHaveBeenCalledWith('**<bob>** hi there');
+    expect(sendStub.mock.contexts[0]).toBe(thread);
+
+    bot.discord.emit('threadUpdate', thread, { ...thread, archived: true } as never);
+    await vi.waitFor(() => expect(bot.channelMapping['2001']).toBeUndefined());
+
+    expect(partStub).toHaveBeenCalledWith('#irc-release-plans');
+  });
+
+  it('should give threads with the same name different IRC channels', async () => {
+    await createBot('channel');
+
+    bot.discord.emit('threadCreate', createThread('2001', 'Questions'), true);
+    await vi.waitFor(() => expect(bot.channelMapping['2001']).toBe('#irc-questions'));
+    bot.discord.emit('threadCreate', createThread('3002', 'Questions'), true);
+    await vi.waitFor(() => expect(bot.channelMapping['3002']).toBe('#irc-questions-3002'));
+  });
+});
@@ -0,0 +1,125 @@
+/* eslint-disable @typescript-eslint/require-await, @typescript-eslint/unbound-method */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import discord from 'discord.js';
+import Bot from '../lib/bot';
+import { TopicSynchronizer } from '../lib/topic-sync';
+import ClientStub from './stubs/irc-client-stub';
+import useTestBot from './stubs/test-bot';
+
+vi.mock('../lib/logger', async () => await import('./stubs/logger-stub.js'));
+
+describe('TopicSynchronizer', () => {
+  let setTopic;
+  let topics: TopicSynchronizer;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setTopic = vi.fn(async () => {});
+    topics = new TopicSynchronizer(setTopic, 2, 1000);
+  });
+
+  afterEach(() => {
+    topics.destroy();
+    vi.useRealTimers();
+  });
+
+  it('should hold back Discord topics over the rate limit and apply the newest', async () => {
+    await topics.updateDiscordTopic('1234', 'one');
+    await topics.updateDiscordTopic('1234', 'two');
+    await topics.updateDiscordTopic('1234', 'three');
+    await topics.updateDiscordTopic('1234', 'four');
+
+    expect(setTopic.mock.calls).toEqual([['1234', 'one'], ['1234', 'two']]);
+    expect(topics.size).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(setTopic).toHaveBeenLastCalledWith('1234', 'four');
+    expect(setTopic).toHaveBeenCalledTimes(3);
+  });
+
+  it('should recognise a topic the bridge set once', async () => {
+    await topics.updateDiscordTopic('1234', 'synced');
+    topics.markSynced('irc', '#IRC', 'from discord');
+
+    expect(topics.isEcho('discord', '1234', 'synced')).toBe(true);
+    expect(topics.isEcho('discord', '1234', 'synced')).toBe(false);
+    expect(topics.isEcho('irc', '#irc', 'something else')).toBe(false);
+    expect(topics.isEcho('irc', '#irc', 'from discord')).toBe(true);
+  });
+});
+
+describe('Bot topic sync', () => {
+  let bot: Bot;
+  let sendStub;
+  let ircSendStub;
+  let noticeStub;
+  let discordChannel: discord.TextChannel;
+  const testBot = useTestBot('topic-sync');
+
+  const changeDiscordTopic = async (topic: string) => {
+    const oldChannel = { ...discordChannel, topic: discordChannel.topic };
+    discordChannel.topic = topic;
+    bot.discord.emit('channelUpdate', oldChannel as never, discordChannel);
+    await new Promise(resolve => setImmediate(resolve));
+  };
+
+  beforeEach(async () => {
+    sendStub = vi.fn();
+    ircSendStub = vi.spyOn(ClientStub.prototype, 'send');
+    noticeStub = vi.spyOn(ClientStub.prototype, 'notice');
+
+    bot = await testBot.start({ channelMapping: { '1234': { channel: '#irc', topicSync: true } } }, sendStub);
+    vi.spyOn(bot, 'isIRCConnected').mockReturnValue(true);
+
+    discordChannel = bot.discord.channels.cache.get('1234') as discord.TextChannel;
+    vi.spyOn(discordChannel, 'setTopic').mockImplementation(async (topic) => {
+      discordChannel.topic = topic;
+      return discordChannel;
+    });
+  });
+
+  it('should set the Discord topic when the IRC topic changes', async () => {
+    bot.ircClient.emit('topic', '#irc', 'Topic set when joining', 'alice', { command: 'rpl_topicwhotime' });
+    bot.ircClient.emit('topic', '#irc', '\x02Release\x02 on Friday', 'alice', { command: 'TOPIC' });
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(discordChannel.setTopic).toHaveBeenCalledTimes(1);
+    expect(discordChannel.setTopic).toHaveBeenCalledWith('Release on Friday', 'Topic changed on IRC');
+    expect(sendStub).toHaveBeenCalledWith({
+      content: '*alice* changed the IRC topic to: Release on Friday',
+      allowedMentions: { parse: [] },
+    });
+  });
+
+  it('should set the IRC topic when the bot has ops, and tell IRC either way', async () => {
+    bot.ircClient.emit('names', '#irc', { Reactiflux: '@', alice: '' });
+    await changeDiscordTopic('Welcome!\nBe nice');
+
+    expect(ircSendStub).toHaveBeenCalledWith('TOPIC', '#irc', 'Welcome! Be nice');
+    expect(noticeStub).toHaveBeenCalledWith('#irc', 'Topic of #discord on Discord changed to: Welcome! Be nice');
+
+    bot.ircClient.emit('names', '#irc', { Reactiflux: '', alice: '@' });
+    await changeDiscordTopic('No ops');
+
+    expect(ircSendStub).not.toHaveBeenCalledWith('TOPIC', '#irc', 'No ops');
+    expect(noticeStub).toHaveBeenCalledWith('#irc', 'Topic of #discord on Discord changed to: No ops');
+  });
+
+  it('should not echo synced topics back', async () => {
+    bot.ircClient.emit('names', '#irc', { Reactiflux: '@' });
+
+    bot.ircClient.emit('topic', '#irc', 'From IRC', 'alice', { command: 'TOPIC' });
+    await new Promise(resolve => setImmediate(resolve));
+    bot.discord.emit('channelUpdate', { ...discordChannel, topic: 'Old' } as never, discordChannel);
+    await new Promise(resolve => setImmediate(resolve));
+
+    await changeDiscordTopic('From Discord');
+    bot.ircClient.emit('topic', '#irc', 'From Discord', 'Reactiflux', { command: 'TOPIC' });
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(ircSendStub.mock.calls.filter(([command]) => command === 'TOPIC')).toEqual([['TOPIC', '#irc', 'From Discord']]);
+    expect(discordChannel.setTopic).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,144 @@
+/* eslint-disable @typescript-eslint/require-await */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import discord, { BaseGuildTextChannel, Permissions, WebhookClient } from 'discord.js';
+import Bot from '../lib/bot';
+import { WebhookProvisioner, isUnknownWebhookError } from '../lib/webhook-provisioner';
+import type { PersistenceService } from '../lib/persistence';
+import useTestBot from './stubs/test-bot';
+
+vi.mock('../lib/logger', async () => await import('./stubs/logger-stub.js'));
+
+// Keeps webhooks in memory instead of SQLite
+const createPersistence = () => {
+  const stored = new Map<string, { webhookId: string; token: string }>();
+  return {
+    stored,
+    getChannelWebhook: vi.fn(async (channelId: string) => stored.get(channelId) ?? null),
+    saveChannelWebhook: vi.fn(async (channelId: string, webhookId: string, token: string) => {
+      stored.set(channelId, { webhookId, token });
+    }),
+    deleteChannelWebhook: vi.fn(async (channelId: string) => {
+      stored.delete(channelId);
+    }),
+  };
+};
+
+const createChannel = (options: { canManageWebhooks?: boolean; webhooks?: unknown[] } = {}) => {
+  const botUser = { id: 'bot' };
+  return {
+    id: '100',
+    name: 'general',
+    client: { user: botUser },
+    permissionsFor: () => new Permissions(options.canManageWebhooks === false ? [] : [Permissions.FLAGS.MANAGE_WEBHOOKS]),
+    fetchWebhooks: vi.fn(async () => new discord.Collection((options.webhooks ?? []).map((webhook, i) => [String(i), webhook]))),
+    createWebhook: vi.fn(async () => ({ id: 'created', token: 'created-token' })),
+  };
+};
+
+describe('WebhookProvisioner', () => {
+  let persistence: ReturnType<typeof createPersistence>;
+  let provisioner: WebhookProvisioner;
+  let createClient;
+
+  beforeEach(() => {
+    persistence = createPersistence();
+    createClient = vi.fn((id: string) => ({ id }) as unknown as WebhookClient);
+    provisioner = new WebhookProvisioner(
+      { enabled: true, name: 'IRC Bridge' },
+      persistence as unknown as PersistenceService,
+      createClient,
+    );
+  });
+
+  const provision = async (channel: ReturnType<typeof createChannel>, replace?: boolean) =>
+    provisioner.provision(channel as unknown as BaseGuildTextChannel, replace);
+
+  it('should use the stored webhook without asking Discord', async () => {
+    persistence.stored.set('100', { webhookId: 'stored', token: 'stored-token' });
+    const channel = createChannel();
+
+    expect((await provision(channel))?.id).toBe('stored');
+    expect(createClient).toHaveBeenCalledWith('stored', 'stored-token');
+    expect(channel.fetchWebhooks).not.toHaveBeenCalled();
+    expect(provisioner.getStatus('100')?.state).toBe('active');
+  });
+
+  it('should create and store a webhook for a new channel', async () => {
+    const channel = createChannel();
+
+    expect((await provision(channel))?.id).toBe('created');
+    expect(channel.createWebhook).toHaveBeenCalledWith('IRC Bridge', expect.anything());
+    expect(persistence.stored.get('100')).toEqual({ webhookId: 'created', token: 'created-token' });
+  });
+
+  it('should reuse a webhook the bot created before', async () => {
+    const channel = createChannel({
+      webhooks: [
+        { id: 'someone-elses', name: 'IRC Bridge', token: 'x', owner: { id: 'user' } },
+        { id: 'ours', name: 'IRC Bridge', token: 'ours-token', owner: { id: 'bot' } },
+      ],
+    });
+
+    expect((await provision(channel))?.id).toBe('ours');
+    expect(channel.createWebhook).not.toHaveBeenCalled();
+  });
+
+  it('should report channels where it may not manage webhooks', async () => {
+    const channel = createChannel({ canManageWebhooks: false });
+
+    expect(await provision(channel)).toBeNull();
+    expect(provisioner.getStatus('100')).toMatchObject({ state: 'missing-permission' });
+    expect(channel.createWebhook).not.toHaveBeenCalled();
+  });
+
+  it('should replace a deleted webhook only once for concurrent failures', async () => {
+    persistence.stored.set('100', { webhookId: 'deleted', token: 'deleted-token' });
+    const channel = createChannel();
+
+    const [first, second] = await Promise.all([provision(channel, true), provision(channel, true)]);
+
+    expect(first?.id).toBe('created');
+    expect(second?.id).toBe('created');
+    expect(channel.createWebhook).toHaveBeenCalledTimes(1);
+    expect(persistence.stored.get('100')?.webhookId).toBe('created');
+  });
+
+  it('should recognise errors for deleted webhooks', () => {
+    expect(isUnknownWebhookError({ code: 10015 })).toBe(true);
+    expect(isUnknownWebhookError({ code: 50013 })).toBe(false);
+    expect(isUnknownWebhookError(null)).toBe(false);
+  });
+});
+
+describe('Bot with managed webhooks', () => {
+  let bot: Bot;
+  const testBot = useTestBot('webhooks');
+
+  beforeEach(async () => {
+    bot = await testBot.start({ autoWebhooks: { enabled: true } });
+  });
+
+  it('should send through a replacement when the webhook was deleted', async () => {
+    const deletedSend = vi.fn(async () => {
+      throw Object.assign(new Error('Unknown Webhook'), { code: 10015 });
+    });
+    const replacementSend = vi.fn(async () => ({ id: 'sent' }));
+    bot.webhooks['#discord'] = { id: 'deleted', client: { send: deletedSend, destroy: vi.fn() } as unknown as WebhookClient };
+    const provisionSpy = vi.spyOn(bot.webhookProvisioner!, 'provision').mockResolvedValue({
+      id: 'replacement',
+      client: { send: replacementSend, destroy: vi.fn() } as unknown as WebhookClient,
+    });
+
+    await bot.sendToDiscord('nick', '#irc', 'hello');
+
+    await vi.waitFor(() => expect(replacementSend).toHaveBeenCalledWith(expect.objectContaining({ content: 'hello' })));
+    expect(provisionSpy).toHaveBeenCalledWith(expect.objectContaining({ name: 'discord' }), true);
+    expect(bot.webhooks['#discord'].id).toBe('replacement');
+  });
+
+  it('should leave webhooks from the config alone', async () => {
+    expect(bot.getWebhookStatuses()).toContainEqual({ discordChannel: '#withwebhook', state: 'configured' });
+    expect(bot.getWebhookStatuses()).toContainEqual({ discordChannel: '#discord', state: 'pending' });
+  });
+});